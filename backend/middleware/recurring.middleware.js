@@ -0,0 +1,14 @@
+const generateRecurringExpenses = require('../utils/generateRecurringExpenses');
+
+// Middleware to add the user's recurring expenses that have come due before expenses are listed or totaled,
+// so they show up without a client calling POST /api/recurring/run first (which also returns budget warnings)
+const addDueRecurring = async (req, res, next) => {
+  try {
+    await generateRecurringExpenses(req.user._id);
+    next();
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+module.exports = addDueRecurring;
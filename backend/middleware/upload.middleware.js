@@ -0,0 +1,32 @@
+const multer = require('multer');
+
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf'];
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_FILES = 5;
+
+// Keep uploads in memory - the storage driver decides where they end up
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_TYPES.includes(file.mimetype)) {
+      return cb(new Error('Only JPEG, PNG, HEIC, WebP images and PDFs can be attached'));
+    }
+    cb(null, true);
+  }
+}).array('files', MAX_FILES);
+
+// Middleware to parse receipt uploads from the `files` field, answering 400 on bad uploads
+const uploadAttachments = (req, res, next) => {
+  upload(req, res, (error) => {
+    if (error) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({ message: 'No files uploaded' });
+    }
+    next();
+  });
+};
+
+module.exports = uploadAttachments;
@@ -22,6 +22,10 @@ const budgetSchema = new mongoose.Schema({
     type: Number,
     required: true,
     min: 0
+  },
+  excludeReimbursable: {
+    type: Boolean, // Leave expenses that will be paid back out of the spending counted against it
+    default: false
   }
 }, {
   timestamps: true
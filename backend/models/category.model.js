@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+
+// Categories every new user starts with
+const DEFAULT_CATEGORIES = [
+  { name: 'Food', emoji: '🍔', color: '#fef3c7' },
+  { name: 'Transport', emoji: '🚕', color: '#dbeafe' },
+  { name: 'Shopping', emoji: '🛒', color: '#e9d5ff' },
+  { name: 'Bills', emoji: '⚡', color: '#d1fae5' },
+  { name: 'Entertainment', emoji: '🎮', color: '#fed7aa' },
+  { name: 'Health', emoji: '💊', color: '#cffafe' },
+  { name: 'Education', emoji: '📖', color: '#fef08a' },
+  { name: 'Other', emoji: '📋', color: '#f3f4f6' }
+];
+
+// Category schema - stores user-defined expense categories
+const categorySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null // null for top-level categories, parent's id for subcategories
+  },
+  emoji: {
+    type: String,
+    default: '📋'
+  },
+  color: {
+    type: String,
+    default: '#f3f4f6',
+    match: /^#[0-9a-fA-F]{6}$/
+  },
+  archived: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// Index to ensure category names are unique among siblings
+categorySchema.index({ userId: 1, parentId: 1, name: 1 }, { unique: true });
+
+// Create the default categories the first time a user needs them
+categorySchema.statics.ensureDefaults = async function(userId) {
+  const count = await this.countDocuments({ userId });
+  if (count > 0) return;
+
+  try {
+    await this.insertMany(
+      DEFAULT_CATEGORIES.map(category => ({ ...category, userId })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Another request may have seeded the defaults concurrently
+    if (error.code !== 11000) throw error;
+  }
+};
+
+module.exports = mongoose.model('Category', categorySchema);
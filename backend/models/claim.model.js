@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+
+// Claim schema - groups reimbursable expenses that are claimed and paid back together, e.g. one work trip
+// Its expenses are pending until `claimedAt`, claimed until `settledAt` and reimbursed after (see utils/reimbursements)
+const claimSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String, // e.g. "Pune client visit"
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  note: {
+    type: String, // e.g. a reference number from the employer's expense system
+    trim: true,
+    maxlength: 200
+  },
+  claimedAt: {
+    type: Date, // When the claim was submitted - null while it is still being put together
+    default: null
+  },
+  settledAt: {
+    type: Date, // When it was paid back
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Index for listing a user's claims, newest first
+claimSchema.index({ userId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Claim', claimSchema);
@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// Exchange rate schema - user-managed rates into the user's home currency
+const exchangeRateSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  currency: {
+    type: String, // ISO 4217 code, e.g. "USD"
+    required: true,
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
+  rate: {
+    type: Number, // Units of home currency per one unit of `currency`
+    required: true,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Index to ensure one rate per user per currency
+exchangeRateSchema.index({ userId: 1, currency: 1 }, { unique: true });
+
+module.exports = mongoose.model('ExchangeRate', exchangeRateSchema);
@@ -1,4 +1,71 @@
 const mongoose = require('mongoose');
+const { REIMBURSEMENT_STATUSES } = require('../utils/reimbursements');
+
+// Line item schema - one part of a split expense (e.g. a supermarket bill)
+const lineItemSchema = new mongoose.Schema({
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  category: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  subcategory: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  note: {
+    type: String,
+    trim: true
+  }
+}, {
+  _id: false
+});
+
+// Attachment schema - a receipt image or PDF kept by the storage driver
+const attachmentSchema = new mongoose.Schema({
+  key: {
+    type: String, // Storage key of the original file
+    required: true
+  },
+  thumbnailKey: {
+    type: String, // Storage key of the JPEG preview (images only)
+    default: null
+  },
+  originalName: {
+    type: String,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Point schema - a GeoJSON position
+const pointSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['Point'],
+    default: 'Point'
+  },
+  coordinates: {
+    type: [Number], // [longitude, latitude]
+    required: true
+  }
+}, {
+  _id: false
+});
 
 // Expense schema - stores individual expense records
 const expenseSchema = new mongoose.Schema({
@@ -12,10 +79,21 @@ const expenseSchema = new mongoose.Schema({
     required: true,
     min: 0
   },
+  currency: {
+    type: String, // ISO 4217 code; missing on older expenses, which are in the home currency
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
   category: {
-    type: String,
+    type: String, // Name of one of the user's top-level categories (largest line item's when split)
     required: true,
-    enum: ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Health', 'Education', 'Other']
+    trim: true
+  },
+  subcategory: {
+    type: String, // Name of a child of `category`, if any
+    trim: true,
+    default: null
   },
   paymentMethod: {
     type: String,
@@ -26,17 +104,112 @@ const expenseSchema = new mongoose.Schema({
     type: String,
     trim: true
   },
+  tags: {
+    type: [String], // Free-form labels, e.g. "goa-trip" (see utils/normalizeTags)
+    default: []
+  },
+  lineItems: {
+    type: [lineItemSchema], // Optional split across categories, summing to `amount`
+    default: []
+  },
+  attachments: {
+    type: [attachmentSchema], // Receipts, see routes under /:id/attachments
+    default: []
+  },
   date: {
     type: Date,
     required: true,
     default: Date.now
+  },
+  location: {
+    type: pointSchema, // Where the expense was made, from a device location fix or entered by hand
+    default: undefined
+  },
+  place: {
+    type: String, // Place label, e.g. "Phoenix Mall" - also set without a location
+    trim: true,
+    maxlength: 80
+  },
+  merchantId: {
+    type: mongoose.Schema.Types.ObjectId, // Normalized payee (see models/merchant.model), if linked
+    ref: 'Merchant'
+  },
+  payeeVpa: {
+    type: String, // UPI ID the expense was paid to (e.g. from a scanned UPI QR), for guessing later payments' category
+    lowercase: true,
+    trim: true,
+    default: null
+  },
+  reimbursable: {
+    type: Boolean, // Paid on someone else's behalf (e.g. work travel) and to be paid back
+    default: false
+  },
+  reimbursementStatus: {
+    type: String, // Set on reimbursable expenses only (see utils/reimbursements)
+    enum: [...REIMBURSEMENT_STATUSES, null],
+    default: null
+  },
+  claimId: {
+    type: mongoose.Schema.Types.ObjectId, // Claim the expense is being paid back through, if any
+    ref: 'Claim',
+    default: null
+  },
+  recurringId: {
+    type: mongoose.Schema.Types.ObjectId, // Set on expenses generated from a recurring expense
+    ref: 'RecurringExpense'
+  },
+  deletedAt: {
+    type: Date, // Set while the expense is in the trash (see utils/trash)
+    default: null
   }
 }, {
   timestamps: true
 });
 
-// Index for faster queries by user and date
-expenseSchema.index({ userId: 1, date: -1 });
+// Index for faster queries by user and date (_id matches the paginated list's sort)
+expenseSchema.index({ userId: 1, date: -1, _id: -1 });
+
+// Indexes for the expense list's other sort orders
+expenseSchema.index({ userId: 1, amount: -1, _id: -1 });
+expenseSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+
+// Text index for searching expenses (GET /api/expenses?q=)
+expenseSchema.index(
+  { description: 'text', 'lineItems.note': 'text' },
+  { weights: { description: 3, 'lineItems.note': 1 }, name: 'expense_text_search' }
+);
+
+// Index for tag filters and tag stats
+expenseSchema.index({ userId: 1, tags: 1 });
+
+// Geo index for the list's `near` filter
+expenseSchema.index({ location: '2dsphere' });
+
+// Index for merchant stats and unlinking deleted merchants
+expenseSchema.index({ userId: 1, merchantId: 1 });
+
+// Index for looking up past payments to a UPI ID
+expenseSchema.index({ userId: 1, payeeVpa: 1 });
+
+// Index for claims and the outstanding reimbursements report
+expenseSchema.index({ userId: 1, reimbursementStatus: 1 });
+expenseSchema.index({ userId: 1, claimId: 1 });
+
+// Index for listing and purging the trash
+expenseSchema.index({ userId: 1, deletedAt: -1 });
+
+// Trashed expenses are left out of every find unless the query filters on deletedAt itself
+expenseSchema.pre(/^find/, function() {
+  if (this.getFilter().deletedAt === undefined) {
+    this.where({ deletedAt: null });
+  }
+});
+
+// Index to ensure a recurring expense is materialized at most once per occurrence
+expenseSchema.index(
+  { recurringId: 1, date: 1 },
+  { unique: true, partialFilterExpression: { recurringId: { $exists: true } } }
+);
 
 module.exports = mongoose.model('Expense', expenseSchema);
 
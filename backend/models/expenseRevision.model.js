@@ -0,0 +1,56 @@
+const mongoose = require('mongoose');
+
+// Field change within a revision - values are stored as JSON (dates as ISO strings)
+const fieldChangeSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  from: mongoose.Schema.Types.Mixed,
+  to: mongoose.Schema.Types.Mixed
+}, {
+  _id: false
+});
+
+// Expense revision schema - audit trail entry for each create, update, delete or restore of an expense
+const expenseRevisionSchema = new mongoose.Schema({
+  expenseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Expense',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: ['create', 'update', 'delete', 'restore', 'revert']
+  },
+  changes: {
+    type: [fieldChangeSchema], // Empty for deletes and restores
+    default: []
+  },
+  client: {
+    type: String, // X-Client header of the app that made the change, "recurring" for generated expenses, or
+    // "categories", "merchants" or "claims" for changes carried over from those
+    trim: true
+  },
+  device: {
+    type: String, // X-Device header, or the user agent
+    trim: true
+  },
+  revertedTo: {
+    type: mongoose.Schema.Types.ObjectId, // Set on reverts - the revision the expense was taken back to
+    ref: 'ExpenseRevision'
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for an expense's history, newest first
+expenseRevisionSchema.index({ expenseId: 1, _id: -1 });
+
+module.exports = mongoose.model('ExpenseRevision', expenseRevisionSchema);
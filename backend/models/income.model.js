@@ -0,0 +1,42 @@
+const mongoose = require('mongoose');
+
+// Income schema - money coming in (salary, freelance work, refunds...)
+const incomeSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String, // ISO 4217 code, as on expenses
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
+  source: {
+    type: String,
+    required: true,
+    enum: ['Salary', 'Freelance', 'Business', 'Refund', 'Interest', 'Gift', 'Other']
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries by user and date
+incomeSchema.index({ userId: 1, date: -1 });
+
+module.exports = mongoose.model('Income', incomeSchema);
@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+const normalizeMerchantName = require('../utils/normalizeMerchantName');
+
+// Merchant schema - a normalized payee that expenses link to, e.g. "Swiggy"
+const merchantSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String, // Display name
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  normalizedName: {
+    type: String, // Matching key for `name` (see utils/normalizeMerchantName), set on validation
+    required: true
+  },
+  aliases: {
+    type: [String], // Other names the merchant goes by, stored as matching keys, e.g. "swiggy order"
+    default: []
+  },
+  defaultCategory: {
+    type: String, // Prefilled on new expenses at this merchant
+    trim: true,
+    default: null
+  },
+  defaultSubcategory: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  defaultPaymentMethod: {
+    type: String,
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  },
+  lastUsedAt: {
+    type: Date, // Last time an expense was linked to the merchant, for ordering suggestions
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Index to ensure merchant names are unique per user (after normalizing)
+merchantSchema.index({ userId: 1, normalizedName: 1 }, { unique: true });
+
+// Index for matching names against aliases
+merchantSchema.index({ userId: 1, aliases: 1 });
+
+// Keep the matching keys in step with the name and aliases
+merchantSchema.pre('validate', function() {
+  this.normalizedName = normalizeMerchantName(this.name);
+  const aliases = this.aliases
+    .map(normalizeMerchantName)
+    .filter(alias => alias.length > 0 && alias !== this.normalizedName);
+  this.aliases = [...new Set(aliases)];
+});
+
+// Merchant whose name or one of whose aliases matches `name` once normalized, or null
+merchantSchema.statics.findByName = function(userId, name) {
+  const key = normalizeMerchantName(name);
+  if (!key) return Promise.resolve(null);
+  return this.findOne({ userId, $or: [{ normalizedName: key }, { aliases: key }] });
+};
+
+module.exports = mongoose.model('Merchant', merchantSchema);
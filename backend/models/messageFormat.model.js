@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+
+// Message format schema - a user's own bank or UPI message template for reading pasted SMS into expenses,
+// e.g. a bank the built-in formats don't know (see utils/bankMessages)
+const messageFormatSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String, // e.g. "Canara Bank UPI"
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  pattern: {
+    type: String, // Template, e.g. "debited by {amount} on date {date} trf to {payee} Ref" (see utils/bankMessages)
+    required: true,
+    maxlength: 300
+  },
+  paymentMethod: {
+    type: String, // Payment method of the messages it matches - guessed from the wording when not set
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Index for loading a user's formats in the order they are tried
+messageFormatSchema.index({ userId: 1, createdAt: 1 });
+
+module.exports = mongoose.model('MessageFormat', messageFormatSchema);
@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+// Recurring expense schema - a template that is materialized into expenses on a schedule
+const recurringExpenseSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String, // ISO 4217 code of the expenses it creates; the home currency when not set
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
+  category: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  subcategory: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  paymentMethod: {
+    type: String,
+    required: true,
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  frequency: {
+    type: String,
+    required: true,
+    enum: ['daily', 'weekly', 'monthly', 'yearly', 'custom']
+  },
+  interval: {
+    type: Number, // Days between occurrences for the custom frequency
+    min: 1,
+    default: 1
+  },
+  dayOfMonth: {
+    type: Number, // Day the monthly frequency falls on (clamped to short months)
+    min: 1,
+    max: 31
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    default: null
+  },
+  nextDate: {
+    type: Date, // Next occurrence that has not been materialized yet
+    required: true
+  },
+  paused: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// Index for finding due occurrences
+recurringExpenseSchema.index({ userId: 1, paused: 1, nextDate: 1 });
+
+module.exports = mongoose.model('RecurringExpense', recurringExpenseSchema);
@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+
+// Rule schema - fills in fields a new expense leaves out when its description or merchant matches,
+// e.g. description contains "uber" -> Transport, UPI
+const ruleSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String, // Optional label, e.g. "Rides"
+    trim: true,
+    maxlength: 40
+  },
+  field: {
+    type: String, // What the pattern is matched against
+    enum: ['description', 'merchant'],
+    default: 'description'
+  },
+  operator: {
+    type: String, // Case-insensitive
+    enum: ['contains', 'startsWith', 'equals'],
+    default: 'contains'
+  },
+  pattern: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  minAmount: {
+    type: Number, // Optional amount range the expense must also fall in
+    min: 0,
+    default: null
+  },
+  maxAmount: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  category: {
+    type: String, // Values set on a matching expense - at least one of category, payment method and tags
+    trim: true,
+    default: null
+  },
+  subcategory: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  paymentMethod: {
+    type: String,
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  },
+  tags: [{
+    type: String,
+    lowercase: true,
+    trim: true
+  }],
+  priority: {
+    type: Number, // Lower runs first - the first matching rule that sets a field wins it
+    required: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Index for loading a user's rules in priority order
+ruleSchema.index({ userId: 1, priority: 1 });
+
+module.exports = mongoose.model('Rule', ruleSchema);
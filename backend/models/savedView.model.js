@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+const { DATE_RANGES } = require('../utils/dateRange');
+
+// Saved view schema - a named expense filter and sort ("smart list"), e.g. UPI food spends over 500 this quarter
+const savedViewSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  q: {
+    type: String, // Full-text search, as on the expense list
+    trim: true
+  },
+  categories: [{
+    type: String,
+    trim: true
+  }],
+  paymentMethods: [{
+    type: String,
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  }],
+  minAmount: {
+    type: Number,
+    min: 0
+  },
+  maxAmount: {
+    type: Number,
+    min: 0
+  },
+  tags: [{
+    type: String,
+    lowercase: true,
+    trim: true
+  }],
+  tagMode: {
+    type: String,
+    enum: ['any', 'all'],
+    default: 'any'
+  },
+  dateRange: {
+    type: String, // Relative to the day the view runs (see utils/dateRange)
+    enum: DATE_RANGES,
+    default: 'all'
+  },
+  sort: {
+    type: String,
+    enum: ['relevance', 'date', 'amount', 'createdAt'],
+    default: 'date'
+  },
+  order: {
+    type: String,
+    enum: ['asc', 'desc'],
+    default: 'desc'
+  }
+}, {
+  timestamps: true
+});
+
+// Index to ensure view names are unique per user
+savedViewSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model('SavedView', savedViewSchema);
@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+
+// Template schema - a saved expense for one-tap quick add, e.g. "Chai" ₹20 Cash Food
+const templateSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String, // ISO 4217 code
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
+  category: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  subcategory: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  paymentMethod: {
+    type: String,
+    required: true,
+    enum: ['Cash', 'Card', 'UPI', 'Online', 'Other']
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  useCount: {
+    type: Number, // Expenses added from the template (see POST /api/expenses `templateId`)
+    default: 0
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Index for listing the most used templates first
+templateSchema.index({ userId: 1, useCount: -1 });
+
+module.exports = mongoose.model('Template', templateSchema);
@@ -19,6 +19,13 @@ const userSchema = new mongoose.Schema({
     type: String,
     required: true,
     minlength: 6
+  },
+  homeCurrency: {
+    type: String, // ISO 4217 code that stats and budgets are reported in
+    uppercase: true,
+    trim: true,
+    default: 'INR',
+    match: /^[A-Z]{3}$/
   }
 }, {
   timestamps: true // Automatically adds createdAt and updatedAt
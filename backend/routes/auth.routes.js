@@ -27,7 +27,7 @@ router.post('/register', async (req, res) => {
     res.status(201).json({
       message: 'User registered successfully',
       token,
-      user: { id: user._id, name: user.name, email: user.email }
+      user: { id: user._id, name: user.name, email: user.email, homeCurrency: user.homeCurrency }
     });
   } catch (error) {
     res.status(500).json({ message: error.message });
@@ -61,7 +61,7 @@ router.post('/login', async (req, res) => {
     res.json({
       message: 'Login successful',
       token,
-      user: { id: user._id, name: user.name, email: user.email }
+      user: { id: user._id, name: user.name, email: user.email, homeCurrency: user.homeCurrency }
     });
   } catch (error) {
     res.status(500).json({ message: error.message });
@@ -1,8 +1,9 @@
 const express = require('express');
 const router = express.Router();
 const Budget = require('../models/budget.model');
-const Expense = require('../models/expense.model');
 const authenticate = require('../middleware/auth.middleware');
+const addDueRecurring = require('../middleware/recurring.middleware');
+const getMonthSpending = require('../utils/getMonthSpending');
 
 // All routes require authentication
 router.use(authenticate);
@@ -10,7 +11,7 @@ router.use(authenticate);
 // Create or update monthly budget
 router.post('/', async (req, res) => {
   try {
-    const { month, year, amount } = req.body;
+    const { month, year, amount, excludeReimbursable } = req.body;
 
     // Validate required fields
     if (!month || !year || amount === undefined) {
@@ -27,23 +28,21 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ message: 'Budget amount must be positive' });
     }
 
+    // Reimbursable expenses count against the budget unless it leaves them out
+    const update = { amount };
+    if (excludeReimbursable !== undefined) update.excludeReimbursable = Boolean(excludeReimbursable);
+
     // Find or create budget for the month/year
     const budget = await Budget.findOneAndUpdate(
       { userId: req.user._id, month, year },
-      { amount },
+      update,
       { new: true, upsert: true, runValidators: true }
     );
 
-    // Calculate current spending for the month
-    const startOfMonth = new Date(year, month - 1, 1);
-    const endOfMonth = new Date(year, month, 0, 23, 59, 59);
-    
-    const expenses = await Expense.find({
-      userId: req.user._id,
-      date: { $gte: startOfMonth, $lte: endOfMonth }
-    });
-
-    const currentSpending = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    // Calculate current spending in the home currency, attributing split expenses to each line item's category
+    const { currentSpending, categorySpending, reimbursableSpending, currency } = await getMonthSpending(
+      req.user._id, year, month, budget.excludeReimbursable
+    );
     const remaining = budget.amount - currentSpending;
     const isOverBudget = currentSpending > budget.amount;
 
@@ -52,6 +51,9 @@ router.post('/', async (req, res) => {
       budget: {
         ...budget.toObject(),
         currentSpending,
+        categorySpending,
+        reimbursableSpending,
+        currency,
         remaining,
         isOverBudget
       }
@@ -65,7 +67,7 @@ router.post('/', async (req, res) => {
 });
 
 // Get budget for a specific month
-router.get('/', async (req, res) => {
+router.get('/', addDueRecurring, async (req, res) => {
   try {
     const { month, year } = req.query;
     const now = new Date();
@@ -82,27 +84,25 @@ router.get('/', async (req, res) => {
       return res.json({
         budget: null,
         currentSpending: 0,
+        categorySpending: [],
         remaining: 0,
         isOverBudget: false
       });
     }
 
-    // Calculate current spending for the month
-    const startOfMonth = new Date(targetYear, targetMonth - 1, 1);
-    const endOfMonth = new Date(targetYear, targetMonth, 0, 23, 59, 59);
-    
-    const expenses = await Expense.find({
-      userId: req.user._id,
-      date: { $gte: startOfMonth, $lte: endOfMonth }
-    });
-
-    const currentSpending = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    // Calculate current spending in the home currency, attributing split expenses to each line item's category
+    const { currentSpending, categorySpending, reimbursableSpending, currency } = await getMonthSpending(
+      req.user._id, targetYear, targetMonth, budget.excludeReimbursable
+    );
     const remaining = budget.amount - currentSpending;
     const isOverBudget = currentSpending > budget.amount;
 
     res.json({
       budget,
       currentSpending,
+      categorySpending,
+      reimbursableSpending,
+      currency,
       remaining,
       isOverBudget
     });
@@ -114,15 +114,18 @@ router.get('/', async (req, res) => {
 // Update budget
 router.put('/:id', async (req, res) => {
   try {
-    const { amount } = req.body;
+    const { amount, excludeReimbursable } = req.body;
 
     if (amount === undefined || amount < 0) {
       return res.status(400).json({ message: 'Valid amount is required' });
     }
 
+    const update = { amount };
+    if (excludeReimbursable !== undefined) update.excludeReimbursable = Boolean(excludeReimbursable);
+
     const budget = await Budget.findOneAndUpdate(
       { _id: req.params.id, userId: req.user._id },
-      { amount },
+      update,
       { new: true, runValidators: true }
     );
 
@@ -130,16 +133,10 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ message: 'Budget not found' });
     }
 
-    // Calculate current spending
-    const startOfMonth = new Date(budget.year, budget.month - 1, 1);
-    const endOfMonth = new Date(budget.year, budget.month, 0, 23, 59, 59);
-    
-    const expenses = await Expense.find({
-      userId: req.user._id,
-      date: { $gte: startOfMonth, $lte: endOfMonth }
-    });
-
-    const currentSpending = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    // Calculate current spending in the home currency, attributing split expenses to each line item's category
+    const { currentSpending, categorySpending, reimbursableSpending, currency } = await getMonthSpending(
+      req.user._id, budget.year, budget.month, budget.excludeReimbursable
+    );
     const remaining = budget.amount - currentSpending;
     const isOverBudget = currentSpending > budget.amount;
 
@@ -148,6 +145,9 @@ router.put('/:id', async (req, res) => {
       budget: {
         ...budget.toObject(),
         currentSpending,
+        categorySpending,
+        reimbursableSpending,
+        currency,
         remaining,
         isOverBudget
       }
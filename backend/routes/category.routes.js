@@ -0,0 +1,259 @@
+const express = require('express');
+const router = express.Router();
+const Category = require('../models/category.model');
+const RecurringExpense = require('../models/recurringExpense.model');
+const Rule = require('../models/rule.model');
+const Template = require('../models/template.model');
+const Merchant = require('../models/merchant.model');
+const SavedView = require('../models/savedView.model');
+const authenticate = require('../middleware/auth.middleware');
+const { updateExpensesWithHistory } = require('../utils/expenseHistory');
+
+// All routes require authentication
+router.use(authenticate);
+
+// Renames and merges carried over to expenses show in their history as made by "categories"
+const HISTORY_SOURCE = { client: 'categories' };
+
+// Apply a category filter/update (as used on whole expenses) to the line items of split expenses
+const updateLineItems = (filter, update) => {
+  const { userId, ...match } = filter;
+  const itemFilter = {};
+  const set = {};
+  Object.entries(match).forEach(([field, value]) => { itemFilter[`item.${field}`] = value; });
+  Object.entries(update).forEach(([field, value]) => { set[`lineItems.$[item].${field}`] = value; });
+
+  return updateExpensesWithHistory(
+    { userId, lineItems: { $elemMatch: match } },
+    { $set: set },
+    HISTORY_SOURCE,
+    { arrayFilters: [itemFilter] }
+  );
+};
+
+// "category" -> "defaultCategory"
+const toDefaultField = (field) => `default${field.charAt(0).toUpperCase()}${field.slice(1)}`;
+
+// Apply a category filter/update (as used on whole expenses) to merchants' default category and subcategory
+const updateMerchantDefaults = (filter, update) => {
+  const { userId, ...match } = filter;
+  const merchantFilter = { userId };
+  const set = {};
+  Object.entries(match).forEach(([field, value]) => { merchantFilter[toDefaultField(field)] = value; });
+  Object.entries(update).forEach(([field, value]) => { set[toDefaultField(field)] = value; });
+
+  return Merchant.updateMany(merchantFilter, set);
+};
+
+// Point saved views filtered on a top-level category at the one it was merged into, without listing it twice
+const mergeSavedViewCategory = async (userId, from, to) => {
+  const views = await SavedView.find({ userId, categories: from });
+  for (const view of views) {
+    view.categories = [...new Set(view.categories.map(name => (name === from ? to : name)))];
+    await view.save();
+  }
+};
+
+// Get all categories for logged-in user
+router.get('/', async (req, res) => {
+  try {
+    await Category.ensureDefaults(req.user._id);
+
+    const query = { userId: req.user._id };
+
+    // Archived categories are hidden unless explicitly requested
+    if (req.query.includeArchived !== 'true') {
+      query.archived = false;
+    }
+
+    const categories = await Category.find(query).sort({ createdAt: 1 });
+    res.json({ categories });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create new category
+router.post('/', async (req, res) => {
+  try {
+    const { name, emoji, color, parentId } = req.body;
+
+    // Validate required fields
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: 'Category name is required' });
+    }
+
+    await Category.ensureDefaults(req.user._id);
+
+    // Subcategories can only be nested one level deep
+    if (parentId) {
+      const parent = await Category.findOne({ _id: parentId, userId: req.user._id });
+      if (!parent) {
+        return res.status(404).json({ message: 'Parent category not found' });
+      }
+      if (parent.parentId) {
+        return res.status(400).json({ message: 'Subcategories cannot have subcategories' });
+      }
+    }
+
+    const category = await Category.create({
+      userId: req.user._id,
+      name,
+      emoji,
+      color,
+      parentId: parentId || null
+    });
+
+    res.status(201).json({ message: 'Category created successfully', category });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A category with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update category (rename, change emoji/color, archive or unarchive)
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, emoji, color, archived } = req.body;
+
+    const category = await Category.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this category
+    });
+
+    if (!category) {
+      return res.status(404).json({ message: 'Category not found' });
+    }
+
+    const previousName = category.name;
+    if (name !== undefined) category.name = name;
+    if (emoji !== undefined) category.emoji = emoji;
+    if (color !== undefined) category.color = color;
+    if (archived !== undefined) category.archived = Boolean(archived);
+
+    await category.save();
+
+    // Expenses store the category name, so carry a rename over to them
+    if (category.name !== previousName) {
+      let filter;
+      let update;
+      if (category.parentId) {
+        const parent = await Category.findById(category.parentId);
+        filter = { userId: req.user._id, category: parent.name, subcategory: previousName };
+        update = { subcategory: category.name };
+      } else {
+        filter = { userId: req.user._id, category: previousName };
+        update = { category: category.name };
+
+        // Saved views filter on top-level category names
+        await SavedView.updateMany(
+          { userId: req.user._id, categories: previousName },
+          { $set: { 'categories.$': category.name } }
+        );
+      }
+      await updateExpensesWithHistory(filter, update, HISTORY_SOURCE);
+      await updateLineItems(filter, update);
+      await RecurringExpense.updateMany(filter, update);
+      await Rule.updateMany(filter, update);
+      await Template.updateMany(filter, update);
+      await updateMerchantDefaults(filter, update);
+    }
+
+    res.json({ message: 'Category updated successfully', category });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A category with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Merge category into another one - moves its expenses and removes it
+router.post('/:id/merge', async (req, res) => {
+  try {
+    const { targetId } = req.body;
+
+    if (!targetId) {
+      return res.status(400).json({ message: 'Target category is required' });
+    }
+
+    if (targetId === req.params.id) {
+      return res.status(400).json({ message: 'Cannot merge a category into itself' });
+    }
+
+    const source = await Category.findOne({ _id: req.params.id, userId: req.user._id });
+    const target = await Category.findOne({ _id: targetId, userId: req.user._id });
+
+    if (!source || !target) {
+      return res.status(404).json({ message: 'Category not found' });
+    }
+
+    if (target.parentId && target.parentId.equals(source._id)) {
+      return res.status(400).json({ message: 'Cannot merge a category into its own subcategory' });
+    }
+
+    // Expenses move to the target's top-level category (and subcategory, if the target is one)
+    const targetParent = target.parentId ? await Category.findById(target.parentId) : null;
+    const destination = targetParent
+      ? { category: targetParent.name, subcategory: target.name }
+      : { category: target.name };
+
+    let filter;
+    let update;
+    if (source.parentId) {
+      const sourceParent = await Category.findById(source.parentId);
+      filter = { userId: req.user._id, category: sourceParent.name, subcategory: source.name };
+      update = targetParent ? destination : { ...destination, subcategory: null };
+    } else {
+      filter = { userId: req.user._id, category: source.name };
+      update = targetParent ? destination : { category: target.name };
+      await mergeSavedViewCategory(req.user._id, source.name, destination.category);
+    }
+
+    const result = await updateExpensesWithHistory(filter, update, HISTORY_SOURCE);
+    await updateLineItems(filter, update);
+    await RecurringExpense.updateMany(filter, update);
+    await Rule.updateMany(filter, update);
+    await Template.updateMany(filter, update);
+    await updateMerchantDefaults(filter, update);
+
+    // Merging a top-level category: its subcategories follow it, or merge with
+    // same-named ones. Into a subcategory, the source's subcategories are dropped.
+    if (!source.parentId) {
+      const children = await Category.find({ userId: req.user._id, parentId: source._id });
+      for (const child of children) {
+        const clash = !targetParent && await Category.exists({
+          userId: req.user._id,
+          parentId: target._id,
+          name: child.name
+        });
+        if (targetParent || clash) {
+          await Category.deleteOne({ _id: child._id });
+        } else {
+          child.parentId = target._id;
+          await child.save();
+        }
+      }
+    }
+
+    await Category.deleteOne({ _id: source._id });
+
+    res.json({
+      message: 'Categories merged successfully',
+      category: target,
+      movedExpenses: result.modifiedCount
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
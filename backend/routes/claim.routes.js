@@ -0,0 +1,253 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const Claim = require('../models/claim.model');
+const Expense = require('../models/expense.model');
+const authenticate = require('../middleware/auth.middleware');
+const getConverter = require('../utils/getConverter');
+const { getClaimStatus, bucketByAge } = require('../utils/reimbursements');
+const { updateExpensesWithHistory } = require('../utils/expenseHistory');
+
+// Status changes a claim makes to its expenses show in their history as made by "claims"
+const HISTORY_SOURCE = { client: 'claims' };
+
+// All routes require authentication
+router.use(authenticate);
+
+const sumAmounts = (expenses) => expenses.reduce((sum, exp) => sum + exp.amount, 0);
+
+// Claim and settlement dates from a request (null clears one) - a claim is settled only after it is submitted
+// Returns { dates }, or { error } with a message
+const getClaimDates = ({ claimedAt, settledAt }, existing = null) => {
+  const toDate = (value, current) => {
+    if (value === undefined) return current;
+    return value === null ? null : new Date(value);
+  };
+  const dates = {
+    claimedAt: toDate(claimedAt, existing ? existing.claimedAt : null),
+    settledAt: toDate(settledAt, existing ? existing.settledAt : null)
+  };
+
+  if ([dates.claimedAt, dates.settledAt].some(date => date && isNaN(date))) {
+    return { error: 'Invalid claim or settlement date' };
+  }
+  if (dates.settledAt && !dates.claimedAt) {
+    return { error: 'A claim must be submitted before it is settled' };
+  }
+  if (dates.settledAt && dates.settledAt < dates.claimedAt) {
+    return { error: 'Settlement date cannot be before the claim date' };
+  }
+  return { dates };
+};
+
+// Check that `expenseIds` are the user's reimbursable expenses and not in another claim
+// Returns an error message or null
+const validateClaimExpenses = async (userId, expenseIds, claimId = null) => {
+  if (!Array.isArray(expenseIds) || expenseIds.length === 0) {
+    return 'Pick at least one reimbursable expense';
+  }
+  if (!expenseIds.every(id => mongoose.Types.ObjectId.isValid(id))) {
+    return 'Invalid expense id';
+  }
+
+  const ids = [...new Set(expenseIds.map(String))];
+  const expenses = await Expense.find({ _id: { $in: ids }, userId });
+  if (expenses.length !== ids.length) {
+    return 'Some expenses were not found';
+  }
+
+  const inClaim = (expense) => claimId !== null && String(expense.claimId) === String(claimId);
+  if (expenses.some(expense => !expense.reimbursable)) {
+    return 'Only reimbursable expenses can be claimed';
+  }
+  if (expenses.some(expense => expense.claimId && !inClaim(expense))) {
+    return 'Some expenses are already in another claim';
+  }
+  if (expenses.some(expense => expense.reimbursementStatus === 'reimbursed' && !inClaim(expense))) {
+    return 'Some expenses have already been reimbursed';
+  }
+  return null;
+};
+
+// Give a claim's expenses the claim's status
+const syncClaimExpenses = (userId, claim) => {
+  return updateExpensesWithHistory(
+    { userId, claimId: claim._id },
+    { reimbursementStatus: getClaimStatus(claim) },
+    HISTORY_SOURCE
+  );
+};
+
+// Get claims for logged-in user, newest first, with their expenses and totals in the home currency
+router.get('/', async (req, res) => {
+  try {
+    const claims = await Claim.find({ userId: req.user._id }).sort({ createdAt: -1 });
+
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find({
+      userId: req.user._id,
+      claimId: { $in: claims.map(claim => claim._id) }
+    }).sort({ date: 1 })).map(convertExpense);
+
+    res.json({
+      currency: homeCurrency,
+      claims: claims.map(claim => {
+        const claimExpenses = expenses.filter(exp => String(exp.claimId) === String(claim._id));
+        return {
+          ...claim.toObject(),
+          status: getClaimStatus(claim),
+          count: claimExpenses.length,
+          total: sumAmounts(claimExpenses),
+          expenses: claimExpenses
+        };
+      })
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Reimbursable expenses not yet paid back, by age (days since the expense) in the home currency
+router.get('/outstanding', async (req, res) => {
+  try {
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find({
+      userId: req.user._id,
+      reimbursable: true,
+      reimbursementStatus: { $in: ['pending', 'claimed'] }
+    })).map(convertExpense);
+
+    res.json({
+      currency: homeCurrency,
+      total: sumAmounts(expenses),
+      count: expenses.length,
+      pending: sumAmounts(expenses.filter(exp => exp.reimbursementStatus === 'pending')),
+      claimed: sumAmounts(expenses.filter(exp => exp.reimbursementStatus === 'claimed')),
+      buckets: bucketByAge(expenses)
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create claim from reimbursable expenses - submitted when it has a `claimedAt`
+router.post('/', async (req, res) => {
+  try {
+    const { name, note, expenseIds } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Claim name is required' });
+    }
+
+    const { dates, error: datesError } = getClaimDates(req.body);
+    if (datesError) {
+      return res.status(400).json({ message: datesError });
+    }
+
+    const expensesError = await validateClaimExpenses(req.user._id, expenseIds);
+    if (expensesError) {
+      return res.status(400).json({ message: expensesError });
+    }
+
+    const claim = await Claim.create({
+      userId: req.user._id,
+      name,
+      note,
+      ...dates
+    });
+
+    await Expense.updateMany(
+      { userId: req.user._id, _id: { $in: expenseIds } },
+      { claimId: claim._id }
+    );
+    await syncClaimExpenses(req.user._id, claim);
+
+    res.status(201).json({ message: 'Claim created successfully', claim: { ...claim.toObject(), status: getClaimStatus(claim) } });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update claim - submit it or record its settlement with the dates, or replace its expenses with `expenseIds`
+// (expenses taken out of it go back to pending)
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, note, expenseIds } = req.body;
+
+    const claim = await Claim.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this claim
+    });
+
+    if (!claim) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    const { dates, error: datesError } = getClaimDates(req.body, claim);
+    if (datesError) {
+      return res.status(400).json({ message: datesError });
+    }
+
+    if (expenseIds !== undefined) {
+      const expensesError = await validateClaimExpenses(req.user._id, expenseIds, claim._id);
+      if (expensesError) {
+        return res.status(400).json({ message: expensesError });
+      }
+    }
+
+    if (name !== undefined) claim.name = name;
+    if (note !== undefined) claim.note = note;
+    claim.claimedAt = dates.claimedAt;
+    claim.settledAt = dates.settledAt;
+    await claim.save();
+
+    if (expenseIds !== undefined) {
+      await updateExpensesWithHistory(
+        { userId: req.user._id, claimId: claim._id, _id: { $nin: expenseIds } },
+        { claimId: null, reimbursementStatus: 'pending' },
+        HISTORY_SOURCE
+      );
+      await Expense.updateMany(
+        { userId: req.user._id, _id: { $in: expenseIds } },
+        { claimId: claim._id }
+      );
+    }
+    await syncClaimExpenses(req.user._id, claim);
+
+    res.json({ message: 'Claim updated successfully', claim: { ...claim.toObject(), status: getClaimStatus(claim) } });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete claim - its expenses go back to pending
+router.delete('/:id', async (req, res) => {
+  try {
+    const claim = await Claim.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this claim
+    });
+
+    if (!claim) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    await updateExpensesWithHistory(
+      { userId: req.user._id, claimId: claim._id },
+      { claimId: null, reimbursementStatus: 'pending' },
+      HISTORY_SOURCE
+    );
+
+    res.json({ message: 'Claim deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
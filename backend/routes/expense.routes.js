@@ -1,118 +1,574 @@
 const express = require('express');
+const mongoose = require('mongoose');
+const path = require('path');
+const crypto = require('crypto');
 const router = express.Router();
 const Expense = require('../models/expense.model');
-const Budget = require('../models/budget.model');
+const Category = require('../models/category.model');
+const SavedView = require('../models/savedView.model');
+const ExpenseRevision = require('../models/expenseRevision.model');
+const Merchant = require('../models/merchant.model');
+const Template = require('../models/template.model');
+const MessageFormat = require('../models/messageFormat.model');
 const authenticate = require('../middleware/auth.middleware');
+const uploadAttachments = require('../middleware/upload.middleware');
+const addDueRecurring = require('../middleware/recurring.middleware');
+const storage = require('../storage');
+const validateCategory = require('../utils/validateCategory');
+const normalizeTags = require('../utils/normalizeTags');
+const getBudgetWarning = require('../utils/getBudgetWarning');
+const validateLineItems = require('../utils/validateLineItems');
+const getAllocations = require('../utils/getAllocations');
+const createThumbnail = require('../utils/createThumbnail');
+const removeAttachmentFiles = require('../utils/removeAttachmentFiles');
+const validateCurrency = require('../utils/validateCurrency');
+const getConverter = require('../utils/getConverter');
+const getCashFlow = require('../utils/getCashFlow');
+const findExpensePage = require('../utils/findExpensePage');
+const { getSource, buildRevision, recordRevision, recordRevisions, getFieldsAt } = require('../utils/expenseHistory');
+const { TRASH_RETENTION_DAYS, getTrashCutoff, purgeTrash, purgeExpiredTrash } = require('../utils/trash');
+const buildExpenseQuery = require('../utils/buildExpenseQuery');
+const getViewParams = require('../utils/getViewParams');
+const resolveMerchant = require('../utils/resolveMerchant');
+const { DEFAULT_PLACE_RADIUS, toGeoPoint, clusterByPlace } = require('../utils/geo');
+const { findPossibleDuplicate, clusterDuplicates } = require('../utils/duplicates');
+const { getActiveRules, applyRules } = require('../utils/rules');
+const { trainClassifier, classify } = require('../utils/classifier');
+const { getReimbursementFields } = require('../utils/reimbursements');
+const { MAX_MESSAGE_LENGTH, parseMessage } = require('../utils/bankMessages');
+const { normalizeVpa, guessFromPayee } = require('../utils/payees');
+
+const BULK_OPERATIONS = ['recategorize', 'setPaymentMethod', 'addTags', 'removeTags', 'shiftDates', 'delete', 'restore'];
+const MAX_BULK_ITEMS = 500;
+const MAX_SHIFT_DAYS = 366;
+const MERCHANT_STATS_SORTS = ['spend', 'count'];
+const DEFAULT_MERCHANT_STATS_LIMIT = 10;
+const DEFAULT_PLACE_STATS_LIMIT = 10;
+const MAX_PLACE_RADIUS = 5000;
+const MAX_TRAINING_EXPENSES = 2000;
+const MAX_SUGGESTIONS = 3;
+const MIN_SUGGESTION_CONFIDENCE = 0.2;
+const MAX_PARSE_MESSAGES = 50;
 
 // All routes require authentication
 router.use(authenticate);
 
+// Line item with the largest amount - its category stands for the whole split expense
+const getPrimaryLineItem = (lineItems) => {
+  return lineItems.reduce((largest, item) => (item.amount > largest.amount ? item : largest));
+};
+
+// Draft expense from a pasted bank or UPI message, filled in like a new expense would be: a known merchant's
+// defaults, then the user's rules. Returns { message, reason, expense: null } when it isn't an expense
+const draftFromMessage = async (userId, message, formats, rules) => {
+  const parsed = parseMessage(message, formats);
+  if (!parsed) {
+    return { message, reason: 'No amount found in this message', expense: null };
+  }
+  if (parsed.type === 'credit') {
+    return { message, reason: 'Money received - not an expense', expense: null };
+  }
+
+  // Merchants are usually named after a VPA's handle ("swiggy" in swiggy@icici), so that is tried too
+  const { payee, account, reference, format, type } = parsed;
+  let merchant = payee ? await Merchant.findByName(userId, payee) : null;
+  if (!merchant && payee && payee.includes('@')) {
+    merchant = await Merchant.findByName(userId, payee.split('@')[0]);
+  }
+
+  let category = merchant?.defaultCategory || null;
+  let subcategory = category ? merchant.defaultSubcategory || null : null;
+  let paymentMethod = parsed.paymentMethod || merchant?.defaultPaymentMethod || null;
+
+  // Otherwise earlier payments to the same UPI ID (see utils/payees)
+  const payeeVpa = normalizeVpa(payee);
+  if (!category && payeeVpa) {
+    const guess = await guessFromPayee(userId, payeeVpa);
+    if (guess?.category) {
+      category = guess.category;
+      subcategory = guess.subcategory;
+    }
+  }
+
+  const unset = [!category && 'category', !paymentMethod && 'paymentMethod', 'tags'].filter(Boolean);
+  const ruled = applyRules(rules, { description: payee, merchantName: merchant?.name, amount: parsed.amount }, unset);
+  if (ruled.category) {
+    category = ruled.category;
+    subcategory = ruled.subcategory;
+  }
+  paymentMethod = paymentMethod || ruled.paymentMethod || null;
+
+  return {
+    message,
+    format,
+    type,
+    payee,
+    account,
+    reference,
+    expense: {
+      amount: parsed.amount,
+      currency: parsed.currency,
+      merchant: merchant ? merchant.name : null,
+      description: payee || '',
+      payeeVpa,
+      category,
+      subcategory,
+      paymentMethod,
+      tags: ruled.tags || [],
+      date: parsed.date
+    }
+  };
+};
+
+// Save the merchant an expense is being linked to - a new one takes its defaults from the expense
+const linkMerchant = async (merchant, { category, subcategory, paymentMethod }) => {
+  if (merchant.isNew) {
+    merchant.defaultCategory = category;
+    merchant.defaultSubcategory = subcategory || null;
+    merchant.defaultPaymentMethod = paymentMethod;
+  }
+  merchant.lastUsedAt = new Date();
+  await merchant.save();
+};
+
 // Create new expense
 router.post('/', async (req, res) => {
   try {
-    const { amount, category, paymentMethod, description, date } = req.body;
+    const { amount, currency, description, date, lineItems, location, place, reimbursable, reimbursementStatus } = req.body;
+    let { category, subcategory, paymentMethod, tags } = req.body;
+    const items = lineItems || [];
+
+    // UPI ID the expense was paid to, e.g. from a scanned UPI QR
+    const payeeVpa = req.body.payeeVpa ? normalizeVpa(req.body.payeeVpa) : null;
+    if (req.body.payeeVpa && !payeeVpa) {
+      return res.status(400).json({ message: 'Invalid UPI ID' });
+    }
+
+    // Merchant by id or by name (see utils/resolveMerchant)
+    const { merchant, error: merchantError } = await resolveMerchant(req.user._id, req.body);
+    if (merchantError) {
+      return res.status(400).json({ message: merchantError });
+    }
+
+    // A known merchant fills in the category and payment method the expense leaves out
+    if (merchant && !category && items.length === 0 && merchant.defaultCategory) {
+      category = merchant.defaultCategory;
+      subcategory = merchant.defaultSubcategory;
+    }
+    paymentMethod = paymentMethod || merchant?.defaultPaymentMethod;
+
+    // The user's rules fill in whatever is still left out (see utils/rules)
+    const unset = [
+      !category && items.length === 0 && 'category',
+      !paymentMethod && 'paymentMethod',
+      normalizeTags(tags).length === 0 && 'tags'
+    ].filter(Boolean);
+    if (unset.length > 0) {
+      const ruled = applyRules(await getActiveRules(req.user._id), { description, merchantName: merchant?.name, amount }, unset);
+      if (ruled.category) {
+        category = ruled.category;
+        subcategory = ruled.subcategory;
+      }
+      paymentMethod = paymentMethod || ruled.paymentMethod;
+      tags = ruled.tags || tags;
+    }
 
-    // Validate required fields
-    if (!amount || !category || !paymentMethod) {
+    // Validate required fields (a split expense takes its category from its line items)
+    if (!amount || (!category && items.length === 0) || !paymentMethod) {
       return res.status(400).json({ message: 'Amount, category, and payment method are required' });
     }
 
+    // Category must be one of the user's active categories
+    const categoryError = items.length > 0
+      ? await validateLineItems(req.user._id, items, amount)
+      : await validateCategory(req.user._id, category, subcategory);
+    if (categoryError) {
+      return res.status(400).json({ message: categoryError });
+    }
+
+    // A split expense is filed under its largest line item
+    const primary = items.length > 0
+      ? getPrimaryLineItem(items)
+      : { category, subcategory };
+
+    // Expenses default to the home currency; others need an exchange rate
+    const { homeCurrency, convert } = await getConverter(req.user._id);
+    const expenseCurrency = currency ? String(currency).toUpperCase() : homeCurrency;
+    const currencyError = await validateCurrency(req.user._id, expenseCurrency);
+    if (currencyError) {
+      return res.status(400).json({ message: currencyError });
+    }
+
+    // Optional position (GeoJSON point or { latitude, longitude })
+    const { point, error: locationError } = location !== undefined ? toGeoPoint(location) : { point: null };
+    if (locationError) {
+      return res.status(400).json({ message: locationError });
+    }
+
+    // Work expenses to be paid back start out pending (see utils/reimbursements)
+    const { fields: reimbursement, error: reimbursementError } = getReimbursementFields(reimbursable, reimbursementStatus);
+    if (reimbursementError) {
+      return res.status(400).json({ message: reimbursementError });
+    }
+
     const expenseDate = date ? new Date(date) : new Date();
     
-    // Check budget for the month
-    const month = expenseDate.getMonth() + 1;
-    const year = expenseDate.getFullYear();
-    const budget = await Budget.findOne({ userId: req.user._id, month, year });
-
-    let budgetWarning = null;
-    if (budget) {
-      // Calculate current spending including this new expense
-      const startOfMonth = new Date(year, month - 1, 1);
-      const endOfMonth = new Date(year, month, 0, 23, 59, 59);
-      
-      const existingExpenses = await Expense.find({
-        userId: req.user._id,
-        date: { $gte: startOfMonth, $lte: endOfMonth }
-      });
+    // Check budget for the month (including this new expense, in the home currency)
+    const budgetWarning = await getBudgetWarning(req.user._id, expenseDate, convert(amount, expenseCurrency), reimbursable === true);
 
-      const currentSpending = existingExpenses.reduce((sum, exp) => sum + exp.amount, 0);
-      const newTotal = currentSpending + amount;
-      const remaining = budget.amount - newTotal;
-      const isOverBudget = newTotal > budget.amount;
-      const percentageUsed = (newTotal / budget.amount) * 100;
-
-      // Show warning at different thresholds
-      if (isOverBudget) {
-        budgetWarning = {
-          message: `⚠️ Budget exceeded! You've spent ₹${newTotal.toFixed(2)} of ₹${budget.amount.toFixed(2)} (${percentageUsed.toFixed(1)}%)\n\nYou are ₹${Math.abs(remaining).toFixed(2)} over your budget limit.`,
-          isOverBudget: true,
-          remaining: remaining
-        };
-      } else if (remaining < budget.amount * 0.05) {
-        // Warn when less than 5% remaining
-        budgetWarning = {
-          message: `⚠️ Budget almost exhausted! Only ₹${remaining.toFixed(2)} remaining (${(100 - percentageUsed).toFixed(1)}% left)`,
-          isOverBudget: false,
-          remaining: remaining
-        };
-      } else if (remaining < budget.amount * 0.1) {
-        // Warn when less than 10% remaining
-        budgetWarning = {
-          message: `⚠️ Budget running low! Only ₹${remaining.toFixed(2)} remaining (${(100 - percentageUsed).toFixed(1)}% left)`,
-          isOverBudget: false,
-          remaining: remaining
-        };
-      } else if (percentageUsed >= 0.75) {
-        // Warn when 75% or more used
-        budgetWarning = {
-          message: `💡 Budget alert: You've used ${percentageUsed.toFixed(1)}% of your budget. ₹${remaining.toFixed(2)} remaining.`,
-          isOverBudget: false,
-          remaining: remaining
-        };
-      }
+    // Double taps and offline sync retries repeat expenses - the expense is still saved and the app
+    // asks whether to keep both (see utils/duplicates)
+    const possibleDuplicate = await findPossibleDuplicate(req.user._id, {
+      amount,
+      currency: expenseCurrency,
+      category: primary.category,
+      paymentMethod,
+      description,
+      merchantId: merchant && !merchant.isNew ? merchant._id : undefined,
+      date: expenseDate
+    }, homeCurrency);
+
+    if (merchant) {
+      await linkMerchant(merchant, { ...primary, paymentMethod });
     }
 
     // Create expense linked to authenticated user
     const expense = await Expense.create({
       userId: req.user._id,
       amount,
-      category,
+      currency: expenseCurrency,
+      category: primary.category,
+      subcategory: primary.subcategory || null,
       paymentMethod,
       description,
+      tags: normalizeTags(tags),
+      lineItems: items,
+      merchantId: merchant ? merchant._id : undefined,
+      location: point || undefined,
+      place,
+      payeeVpa,
+      ...reimbursement,
       date: expenseDate
     });
+    await recordRevision('create', expense, null, getSource(req));
+
+    // Quick add from a template counts as a use of it (also when an offline quick add syncs later)
+    if (req.body.templateId && mongoose.Types.ObjectId.isValid(req.body.templateId)) {
+      await Template.updateOne(
+        { _id: req.body.templateId, userId: req.user._id },
+        { $inc: { useCount: 1 }, lastUsedAt: new Date() }
+      );
+    }
 
     res.status(201).json({ 
       message: 'Expense added successfully', 
       expense,
-      budgetWarning 
+      budgetWarning,
+      possibleDuplicate
     });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
 });
 
-// Get all expenses for logged-in user
-router.get('/', async (req, res) => {
+// Apply one operation to many expenses - picked by `ids` or by a `filter` of list query parameters
+// (as on GET /), e.g. { ids: [...], operation: 'recategorize', category: 'Food' }
+// Every expense is checked before any is changed: if one can't take the operation, nothing is changed
+// `delete` moves the expenses to the trash and `restore` brings trashed ones back
+router.post('/bulk', async (req, res) => {
   try {
-    const { startDate, endDate, category } = req.query;
-    const query = { userId: req.user._id };
+    const { ids, filter, operation, category, subcategory, paymentMethod, tags, days } = req.body;
 
-    // Filter by date range if provided
+    if (!BULK_OPERATIONS.includes(operation)) {
+      return res.status(400).json({ message: `Operation must be one of ${BULK_OPERATIONS.join(', ')}` });
+    }
+    if (Array.isArray(ids) === (typeof filter === 'object' && filter !== null)) {
+      return res.status(400).json({ message: 'Provide either ids or a filter' });
+    }
+
+    // Expenses the operation applies to, in the order they were asked for
+    let targets;
+    let results;
+    if (Array.isArray(ids)) {
+      if (ids.length === 0 || ids.length > MAX_BULK_ITEMS) {
+        return res.status(400).json({ message: `Between 1 and ${MAX_BULK_ITEMS} expenses can be changed at once` });
+      }
+      const uniqueIds = [...new Set(ids.map(String))];
+      const found = await Expense.find({
+        _id: { $in: uniqueIds.filter(id => mongoose.Types.ObjectId.isValid(id)) },
+        userId: req.user._id, // Ensure user owns these expenses
+        deletedAt: operation === 'restore' ? { $gte: getTrashCutoff() } : null
+      });
+      const foundMap = new Map(found.map(exp => [exp._id.toString(), exp]));
+      targets = uniqueIds.map(id => foundMap.get(id)).filter(Boolean);
+      results = uniqueIds.map(id => (foundMap.has(id)
+        ? { id, success: true }
+        : { id, success: false, message: 'Expense not found' }));
+    } else {
+      const { query, error } = buildExpenseQuery(req.user._id, filter);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      query.deletedAt = operation === 'restore' ? { $gte: getTrashCutoff() } : null;
+      targets = await Expense.find(query).sort({ date: -1, _id: -1 }).limit(MAX_BULK_ITEMS + 1);
+      if (targets.length > MAX_BULK_ITEMS) {
+        return res.status(400).json({ message: `The filter matches more than ${MAX_BULK_ITEMS} expenses. Narrow it down first` });
+      }
+      results = targets.map(exp => ({ id: exp._id.toString(), success: true }));
+    }
+
+    // Validate the operation's input once, then each expense against it
+    let update = null;
+    let tagList = [];
+    if (operation === 'recategorize') {
+      const categoryError = category
+        ? await validateCategory(req.user._id, category, subcategory)
+        : 'Category is required';
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      update = { category, subcategory: subcategory || null };
+    } else if (operation === 'setPaymentMethod') {
+      if (!Expense.schema.path('paymentMethod').enumValues.includes(paymentMethod)) {
+        return res.status(400).json({ message: 'Invalid payment method' });
+      }
+      update = { paymentMethod };
+    } else if (operation === 'addTags' || operation === 'removeTags') {
+      tagList = normalizeTags(tags);
+      if (tagList.length === 0) {
+        return res.status(400).json({ message: 'At least one tag is required' });
+      }
+      update = operation === 'addTags'
+        ? { $addToSet: { tags: { $each: tagList } } }
+        : { $pull: { tags: { $in: tagList } } };
+    } else if (operation === 'shiftDates') {
+      if (!Number.isInteger(days) || days === 0 || Math.abs(days) > MAX_SHIFT_DAYS) {
+        return res.status(400).json({ message: `Days must be a whole number between -${MAX_SHIFT_DAYS} and ${MAX_SHIFT_DAYS}, other than 0` });
+      }
+    }
+
+    if (operation === 'recategorize') {
+      // Each line item of a split expense has its own category
+      const splitIds = new Set(targets.filter(exp => exp.lineItems.length > 0).map(exp => exp._id.toString()));
+      results.filter(item => splitIds.has(item.id)).forEach(item => {
+        item.success = false;
+        item.message = 'Split expenses must be recategorized one line item at a time';
+      });
+    }
+
+    const failed = results.filter(item => !item.success);
+    if (failed.length > 0) {
+      return res.status(400).json({
+        message: `${failed.length} of ${results.length} expenses can't be changed, so none were`,
+        results
+      });
+    }
+
+    const targetIds = targets.map(exp => exp._id);
+    const source = getSource(req);
+    if (operation === 'delete') {
+      await Expense.updateMany({ _id: { $in: targetIds }, userId: req.user._id }, { deletedAt: new Date() });
+      await recordRevisions(targets.map(exp => buildRevision('delete', exp, null, source)));
+      return res.json({ message: `${targets.length} expenses moved to trash`, results });
+    }
+
+    if (operation === 'restore') {
+      await Expense.updateMany({ _id: { $in: targetIds }, userId: req.user._id }, { deletedAt: null });
+    } else if (operation === 'shiftDates') {
+      await Expense.bulkWrite(targets.map(exp => {
+        const date = new Date(exp.date);
+        date.setDate(date.getDate() + days);
+        return { updateOne: { filter: { _id: exp._id, userId: req.user._id }, update: { date } } };
+      }));
+    } else {
+      await Expense.updateMany({ _id: { $in: targetIds }, userId: req.user._id }, update, { runValidators: true });
+    }
+
+    const expenses = await Expense.find({ _id: { $in: targetIds } });
+    const beforeMap = new Map(targets.map(exp => [exp._id.toString(), exp]));
+    await recordRevisions(expenses.map(exp => buildRevision(
+      operation === 'restore' ? 'restore' : 'update',
+      exp,
+      beforeMap.get(exp._id.toString()),
+      source
+    )));
+    res.json({ message: `${targets.length} expenses updated`, results, expenses });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get expenses for logged-in user, one page at a time (newest first unless `sort`/`order` say otherwise)
+// Pass the returned `nextCursor` as `cursor` to get the following page
+// `q` searches descriptions and line item notes, best matches first unless another sort is given
+router.get('/', addDueRecurring, async (req, res) => {
+  try {
+    const { error, ...page } = await findExpensePage(req.user._id, req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Read pasted bank and UPI messages (SMS) into draft expenses to review - nothing is saved
+// The user's enabled formats are tried first, then the built-in ones (see utils/bankMessages)
+router.post('/parse-messages', async (req, res) => {
+  try {
+    const { messages } = req.body;
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json({ message: 'Paste at least one message' });
+    }
+    if (messages.length > MAX_PARSE_MESSAGES) {
+      return res.status(400).json({ message: `At most ${MAX_PARSE_MESSAGES} messages can be read at a time` });
+    }
+
+    const formats = await MessageFormat.find({ userId: req.user._id, enabled: true }).sort({ createdAt: 1 });
+    const rules = await getActiveRules(req.user._id);
+
+    const drafts = [];
+    for (const message of messages) {
+      drafts.push(await draftFromMessage(req.user._id, String(message || '').slice(0, MAX_MESSAGE_LENGTH), formats, rules));
+    }
+
+    res.json({ drafts });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Suggest a category and payment method for a description, learned from the user's recent expenses
+// Returns up to 3 suggestions, most likely first, with a `confidence` from 0 to 1
+router.get('/suggest', async (req, res) => {
+  try {
+    const { description } = req.query;
+    if (!description || !String(description).trim()) {
+      return res.json({ suggestions: [] });
+    }
+
+    const history = await Expense.find({ userId: req.user._id, description: { $nin: [null, ''] } })
+      .select('description category subcategory paymentMethod')
+      .sort({ date: -1 })
+      .limit(MAX_TRAINING_EXPENSES);
+
+    // Only suggest categories that can still be picked
+    await Category.ensureDefaults(req.user._id);
+    const categories = await Category.find({ userId: req.user._id, archived: false });
+    const parents = new Map(categories.filter(cat => !cat.parentId).map(cat => [String(cat._id), cat.name]));
+    const active = new Set([
+      ...parents.values(),
+      ...categories.filter(cat => cat.parentId).map(cat => `${parents.get(String(cat.parentId))}/${cat.name}`)
+    ]);
+
+    const suggestions = classify(trainClassifier(history), description)
+      .filter(item => active.has(item.subcategory ? `${item.category}/${item.subcategory}` : item.category))
+      .filter(item => item.confidence >= MIN_SUGGESTION_CONFIDENCE)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(item => ({ ...item, confidence: Math.round(item.confidence * 100) / 100 }));
+
+    res.json({ suggestions });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Guess what a payment to a UPI ID is for (e.g. from a scanned UPI QR) - `guess` is the category, subcategory
+// and merchant of earlier payments to it, or null for a new payee (see utils/payees)
+router.get('/upi-payee', async (req, res) => {
+  try {
+    const vpa = normalizeVpa(req.query.vpa);
+    if (!vpa) {
+      return res.status(400).json({ message: 'Invalid UPI ID' });
+    }
+
+    res.json({ vpa, guess: await guessFromPayee(req.user._id, vpa) });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Scan for likely duplicates (optionally between startDate and endDate), newest clusters first
+router.get('/duplicates', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const query = { userId: req.user._id };
     if (startDate || endDate) {
       query.date = {};
       if (startDate) query.date.$gte = new Date(startDate);
       if (endDate) query.date.$lte = new Date(endDate);
     }
 
-    // Filter by category if provided
-    if (category) {
-      query.category = category;
+    const { homeCurrency } = await getConverter(req.user._id);
+    const expenses = await Expense.find(query).sort({ date: 1, createdAt: 1 });
+    const clusters = clusterDuplicates(expenses, homeCurrency).reverse();
+
+    res.json({ clusters });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get trashed expenses, most recently deleted first (expired ones are purged first)
+router.get('/trash', async (req, res) => {
+  try {
+    await purgeExpiredTrash(req.user._id);
+    const expenses = await Expense.find({ userId: req.user._id, deletedAt: { $ne: null } }).sort({ deletedAt: -1 });
+    res.json({ expenses, retentionDays: TRASH_RETENTION_DAYS });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Restore trashed expense
+router.post('/trash/:id/restore', async (req, res) => {
+  try {
+    const expense = await Expense.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id, deletedAt: { $gte: getTrashCutoff() } },
+      { deletedAt: null },
+      { new: true }
+    );
+
+    if (!expense) {
+      return res.status(404).json({ message: 'Expense not found in trash' });
+    }
+    await recordRevision('restore', expense, null, getSource(req));
+
+    res.json({ message: 'Expense restored successfully', expense });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Permanently delete everything in the trash
+router.delete('/trash', async (req, res) => {
+  try {
+    const purged = await purgeTrash(req.user._id);
+    res.json({ message: `${purged} expenses permanently deleted` });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Permanently delete trashed expense (receipts go with it)
+router.delete('/trash/:id', async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: 'Expense not found in trash' });
+    }
+
+    const purged = await purgeTrash(req.user._id, { _id: req.params.id });
+    if (purged === 0) {
+      return res.status(404).json({ message: 'Expense not found in trash' });
     }
 
-    // Fetch expenses sorted by createdAt (newest first) to ensure recently added expenses appear at top
-    const expenses = await Expense.find(query).sort({ createdAt: -1 });
-    res.json({ expenses });
+    res.json({ message: 'Expense permanently deleted' });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
@@ -139,29 +595,236 @@ router.get('/:id', async (req, res) => {
 // Update expense
 router.put('/:id', async (req, res) => {
   try {
-    const { amount, category, paymentMethod, description, date } = req.body;
+    const {
+      amount, currency, category, subcategory, paymentMethod, description, date, tags, lineItems, location, place,
+      reimbursable, reimbursementStatus, payeeVpa
+    } = req.body;
+
+    const existing = await Expense.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this expense
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+
+    // Mark as reimbursable or not, or move a reimbursable expense that isn't in a claim to another status
+    const { fields: reimbursement, error: reimbursementError } = getReimbursementFields(reimbursable, reimbursementStatus, existing);
+    if (reimbursementError) {
+      return res.status(400).json({ message: reimbursementError });
+    }
+
+    const update = { amount, paymentMethod, description, date, place, ...reimbursement };
+
+    if (lineItems !== undefined && lineItems !== null && lineItems.length > 0) {
+      // Re-split: line items must still add up to the (possibly new) amount
+      const lineItemsError = await validateLineItems(
+        req.user._id,
+        lineItems,
+        amount !== undefined ? amount : existing.amount
+      );
+      if (lineItemsError) {
+        return res.status(400).json({ message: lineItemsError });
+      }
+
+      const primary = getPrimaryLineItem(lineItems);
+      update.lineItems = lineItems;
+      update.category = primary.category;
+      update.subcategory = primary.subcategory || null;
+    } else {
+      if (lineItems !== undefined) {
+        update.lineItems = []; // No longer split
+      } else if (amount !== undefined && existing.lineItems.length > 0) {
+        // Changing the total of a split expense without re-splitting it
+        const itemsTotal = existing.lineItems.reduce((sum, item) => sum + item.amount, 0);
+        if (Math.abs(itemsTotal - amount) > 0.01) {
+          return res.status(400).json({ message: 'Line items must add up to the expense amount' });
+        }
+      }
+
+      // Category must be one of the user's active categories
+      if (category !== undefined) {
+        const categoryError = await validateCategory(req.user._id, category, subcategory);
+        if (categoryError) {
+          return res.status(400).json({ message: categoryError });
+        }
+
+        // Subcategory is tied to its category, so it is replaced whenever the category is
+        update.category = category;
+        update.subcategory = subcategory || null;
+      }
+    }
+
+    if (tags !== undefined) {
+      update.tags = normalizeTags(tags);
+    }
+
+    // Change the UPI ID, or clear it with null or ''
+    if (payeeVpa !== undefined) {
+      update.payeeVpa = payeeVpa ? normalizeVpa(payeeVpa) : null;
+      if (payeeVpa && !update.payeeVpa) {
+        return res.status(400).json({ message: 'Invalid UPI ID' });
+      }
+    }
+
+    if (currency !== undefined) {
+      update.currency = String(currency).toUpperCase();
+      const currencyError = await validateCurrency(req.user._id, update.currency);
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+    }
+
+    // Move, or remove with a null location
+    if (location !== undefined) {
+      const { point, error: locationError } = toGeoPoint(location);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
+      if (point) {
+        update.location = point;
+      } else {
+        update.$unset = { location: 1 };
+      }
+    }
+
+    // Link to another merchant (by id or name), or unlink with a null id or empty name
+    const { merchant, error: merchantError } = await resolveMerchant(req.user._id, req.body);
+    if (merchantError) {
+      return res.status(400).json({ message: merchantError });
+    }
+    if (merchant) {
+      await linkMerchant(merchant, {
+        category: update.category || existing.category,
+        subcategory: update.category ? update.subcategory : existing.subcategory,
+        paymentMethod: paymentMethod || existing.paymentMethod
+      });
+    }
+    if (merchant !== undefined) {
+      update.merchantId = merchant ? merchant._id : null;
+    }
 
-    // Find and update expense (only if user owns it)
     const expense = await Expense.findOneAndUpdate(
-      { _id: req.params.id, userId: req.user._id },
-      { amount, category, paymentMethod, description, date },
+      { _id: existing._id, userId: req.user._id },
+      update,
       { new: true, runValidators: true }
     );
+    await recordRevision('update', expense, existing, getSource(req));
+
+    res.json({ message: 'Expense updated successfully', expense });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get expense change history, newest first (also for expenses in the trash)
+router.get('/:id/history', async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+
+    const revisions = await ExpenseRevision.find({
+      expenseId: req.params.id,
+      userId: req.user._id // Ensure user owns this expense
+    }).sort({ _id: -1 });
+
+    if (revisions.length === 0 && !await Expense.exists({ _id: req.params.id, userId: req.user._id })) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+
+    res.json({ revisions });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Revert expense to how it was right after one of its revisions (recorded as a new revision)
+router.post('/:id/history/:revisionId/revert', async (req, res) => {
+  try {
+    const expense = await Expense.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this expense
+    });
 
     if (!expense) {
       return res.status(404).json({ message: 'Expense not found' });
     }
 
-    res.json({ message: 'Expense updated successfully', expense });
+    const revision = mongoose.Types.ObjectId.isValid(req.params.revisionId)
+      ? await ExpenseRevision.findOne({ _id: req.params.revisionId, expenseId: expense._id, userId: req.user._id })
+      : null;
+
+    if (!revision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    const fields = await getFieldsAt(expense, revision);
+
+    // The old category, currency or split must still be usable
+    const categoryError = fields.lineItems && fields.lineItems.length > 0
+      ? await validateLineItems(req.user._id, fields.lineItems, fields.amount)
+      : await validateCategory(req.user._id, fields.category, fields.subcategory);
+    if (categoryError) {
+      return res.status(400).json({ message: `Can't revert: ${categoryError}` });
+    }
+    if (fields.currency) {
+      const currencyError = await validateCurrency(req.user._id, fields.currency);
+      if (currencyError) {
+        return res.status(400).json({ message: `Can't revert: ${currencyError}` });
+      }
+    }
+
+    // An expense in a claim keeps the claim's status (see routes/claim.routes)
+    if (expense.claimId) {
+      delete fields.reimbursable;
+      delete fields.reimbursementStatus;
+    }
+
+    // A merchant deleted since then can't be linked again
+    if (fields.merchantId && !await Merchant.exists({ _id: fields.merchantId, userId: req.user._id })) {
+      fields.merchantId = null;
+    }
+
+    const before = expense.toObject();
+    expense.set(fields);
+    await expense.save();
+    await recordRevision('revert', expense, before, getSource(req), { revertedTo: revision._id });
+
+    res.json({ message: 'Expense reverted successfully', expense });
   } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: error.message });
   }
 });
 
-// Delete expense
+// Delete expense - moves it to the trash, where it can be restored until it is purged
 router.delete('/:id', async (req, res) => {
   try {
-    const expense = await Expense.findOneAndDelete({
+    const expense = await Expense.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id }, // Ensure user owns this expense
+      { deletedAt: new Date() },
+      { new: true }
+    );
+
+    if (!expense) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+    await recordRevision('delete', expense, null, getSource(req));
+
+    res.json({ message: 'Expense moved to trash', expense });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Upload receipt images or PDFs (multipart, `files` field) to an expense
+router.post('/:id/attachments', uploadAttachments, async (req, res) => {
+  try {
+    const expense = await Expense.findOne({
       _id: req.params.id,
       userId: req.user._id // Ensure user owns this expense
     });
@@ -170,14 +833,90 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ message: 'Expense not found' });
     }
 
-    res.json({ message: 'Expense deleted successfully' });
+    for (const file of req.files) {
+      const baseKey = `${req.user._id}/${expense._id}/${crypto.randomUUID()}`;
+      const key = `${baseKey}${path.extname(file.originalname).toLowerCase()}`;
+      await storage.save(key, file.buffer, file.mimetype);
+
+      const thumbnail = await createThumbnail(file);
+      const thumbnailKey = thumbnail ? `${baseKey}.thumb.jpg` : null;
+      if (thumbnail) {
+        await storage.save(thumbnailKey, thumbnail, 'image/jpeg');
+      }
+
+      expense.attachments.push({
+        key,
+        thumbnailKey,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size
+      });
+    }
+
+    await expense.save();
+
+    res.status(201).json({ message: 'Attachments uploaded successfully', expense });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Download an attachment (or its thumbnail with ?thumbnail=true)
+router.get('/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const expense = await Expense.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this expense
+    });
+
+    const attachment = expense?.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const wantsThumbnail = req.query.thumbnail === 'true' && attachment.thumbnailKey;
+    const stream = await storage.read(wantsThumbnail ? attachment.thumbnailKey : attachment.key);
+
+    res.set('Content-Type', wantsThumbnail ? 'image/jpeg' : attachment.mimeType);
+    res.set('Content-Disposition', `inline; filename="${encodeURIComponent(attachment.originalName || 'receipt')}"`);
+    stream.on('error', () => {
+      if (!res.headersSent) {
+        res.status(404).json({ message: 'Attachment file is missing' });
+      } else {
+        res.end();
+      }
+    });
+    stream.pipe(res);
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete an attachment and its stored files
+router.delete('/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const expense = await Expense.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this expense
+    });
+
+    const attachment = expense?.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    await removeAttachmentFiles([attachment]);
+    expense.attachments.pull(attachment._id);
+    await expense.save();
+
+    res.json({ message: 'Attachment deleted successfully', expense });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
 });
 
 // Get daily expenses summary
-router.get('/stats/daily', async (req, res) => {
+router.get('/stats/daily', addDueRecurring, async (req, res) => {
   try {
     const { date } = req.query;
     const targetDate = date ? new Date(date) : new Date();
@@ -186,23 +925,24 @@ router.get('/stats/daily', async (req, res) => {
     const startOfDay = new Date(targetDate.setHours(0, 0, 0, 0));
     const endOfDay = new Date(targetDate.setHours(23, 59, 59, 999));
 
-    // Get all expenses for the day
-    const expenses = await Expense.find({
+    // Get all expenses for the day, in the home currency
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find({
       userId: req.user._id,
       date: { $gte: startOfDay, $lte: endOfDay }
-    });
+    })).map(convertExpense);
 
     // Calculate total
     const total = expenses.reduce((sum, exp) => sum + exp.amount, 0);
 
-    res.json({ date: startOfDay, total, count: expenses.length, expenses });
+    res.json({ date: startOfDay, currency: homeCurrency, total, count: expenses.length, expenses });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
 });
 
 // Get monthly expenses summary
-router.get('/stats/monthly', async (req, res) => {
+router.get('/stats/monthly', addDueRecurring, async (req, res) => {
   try {
     const { year, month } = req.query;
     const targetDate = year && month ? new Date(year, month - 1) : new Date();
@@ -211,11 +951,12 @@ router.get('/stats/monthly', async (req, res) => {
     const startOfMonth = new Date(targetDate.getFullYear(), targetDate.getMonth(), 1);
     const endOfMonth = new Date(targetDate.getFullYear(), targetDate.getMonth() + 1, 0, 23, 59, 59);
 
-    // Get all expenses for the month
-    const expenses = await Expense.find({
+    // Get all expenses for the month, in the home currency
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find({
       userId: req.user._id,
       date: { $gte: startOfMonth, $lte: endOfMonth }
-    });
+    })).map(convertExpense);
 
     // Calculate total
     const total = expenses.reduce((sum, exp) => sum + exp.amount, 0);
@@ -223,6 +964,7 @@ router.get('/stats/monthly', async (req, res) => {
     res.json({
       month: targetDate.getMonth() + 1,
       year: targetDate.getFullYear(),
+      currency: homeCurrency,
       total,
       count: expenses.length,
       expenses
@@ -233,10 +975,95 @@ router.get('/stats/monthly', async (req, res) => {
 });
 
 // Get category-wise breakdown
-router.get('/stats/categories', async (req, res) => {
+router.get('/stats/categories', addDueRecurring, async (req, res) => {
+  try {
+    const { startDate, endDate, category, viewId, excludeReimbursable } = req.query;
+    let query = { userId: req.user._id };
+    let viewCategories = [];
+
+    if (viewId) {
+      // Break down the expenses a saved view matches (its own date range replaces startDate/endDate)
+      const view = await SavedView.findOne({ _id: viewId, userId: req.user._id });
+      if (!view) {
+        return res.status(404).json({ message: 'View not found' });
+      }
+      const built = buildExpenseQuery(req.user._id, getViewParams(view));
+      if (built.error) {
+        return res.status(400).json({ message: built.error });
+      }
+      query = built.query;
+      viewCategories = view.categories;
+    } else if (startDate || endDate) {
+      // Filter by date range if provided
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    // Drill down into a single category if provided
+    if (category) {
+      query.$and = [...(query.$and || []), { $or: [{ category }, { 'lineItems.category': category }] }];
+    }
+
+    // Leave out expenses that will be paid back if asked
+    if (excludeReimbursable === 'true') {
+      query.reimbursable = { $ne: true };
+    }
+
+    // Get all expenses in date range, in the home currency - split expenses count once per line item
+    // (only the line items in the drilled-down category or the view's categories)
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find(query)).map(convertExpense);
+    const allocations = expenses
+      .flatMap(getAllocations)
+      .filter(allocation => !category || allocation.category === category)
+      .filter(allocation => viewCategories.length === 0 || viewCategories.includes(allocation.category));
+    const categories = await Category.find({ userId: req.user._id, parentId: null });
+    const categoryMap = new Map(categories.map(cat => [cat.name, cat]));
+
+    // Group by category and calculate totals - subcategory totals roll up into their parent
+    const categoryBreakdown = allocations.reduce((acc, exp) => {
+      if (!acc[exp.category]) {
+        const categoryDoc = categoryMap.get(exp.category);
+        acc[exp.category] = {
+          category: exp.category,
+          emoji: categoryDoc?.emoji,
+          color: categoryDoc?.color,
+          total: 0,
+          count: 0,
+          subcategories: {}
+        };
+      }
+      const entry = acc[exp.category];
+      entry.total += exp.amount;
+      entry.count += 1;
+
+      // Expenses without a subcategory are grouped under a null subcategory
+      const subKey = exp.subcategory || '';
+      if (!entry.subcategories[subKey]) {
+        entry.subcategories[subKey] = { subcategory: exp.subcategory || null, total: 0, count: 0 };
+      }
+      entry.subcategories[subKey].total += exp.amount;
+      entry.subcategories[subKey].count += 1;
+      return acc;
+    }, {});
+
+    const breakdown = Object.values(categoryBreakdown).map(entry => ({
+      ...entry,
+      subcategories: Object.values(entry.subcategories).sort((a, b) => b.total - a.total)
+    }));
+
+    res.json({ currency: homeCurrency, breakdown });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get tag-wise breakdown (expenses with several tags count towards each of them)
+router.get('/stats/tags', addDueRecurring, async (req, res) => {
   try {
     const { startDate, endDate } = req.query;
-    const query = { userId: req.user._id };
+    const query = { userId: req.user._id, 'tags.0': { $exists: true } };
 
     // Filter by date range if provided
     if (startDate || endDate) {
@@ -245,44 +1072,161 @@ router.get('/stats/categories', async (req, res) => {
       if (endDate) query.date.$lte = new Date(endDate);
     }
 
-    // Get all expenses in date range
-    const expenses = await Expense.find(query);
+    // Get all tagged expenses in date range, in the home currency
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find(query)).map(convertExpense);
 
-    // Group by category and calculate totals
-    const categoryBreakdown = expenses.reduce((acc, exp) => {
-      if (!acc[exp.category]) {
-        acc[exp.category] = { category: exp.category, total: 0, count: 0 };
+    // Group by tag and calculate totals
+    const tagBreakdown = expenses.reduce((acc, exp) => {
+      exp.tags.forEach(tag => {
+        if (!acc[tag]) {
+          acc[tag] = { tag, total: 0, count: 0 };
+        }
+        acc[tag].total += exp.amount;
+        acc[tag].count += 1;
+      });
+      return acc;
+    }, {});
+
+    // Most used tags first
+    const breakdown = Object.values(tagBreakdown).sort((a, b) => b.count - a.count);
+
+    res.json({ currency: homeCurrency, breakdown });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get top merchants by spend (or by number of expenses with ?sort=count), in the home currency
+router.get('/stats/merchants', addDueRecurring, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const sort = req.query.sort || 'spend';
+    const limit = parseInt(req.query.limit, 10) || DEFAULT_MERCHANT_STATS_LIMIT;
+
+    if (!MERCHANT_STATS_SORTS.includes(sort)) {
+      return res.status(400).json({ message: `Sort must be one of ${MERCHANT_STATS_SORTS.join(', ')}` });
+    }
+
+    const query = { userId: req.user._id, merchantId: { $ne: null } };
+
+    // Filter by date range if provided
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    // Get all expenses at a merchant in date range, in the home currency
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find(query)).map(convertExpense);
+
+    // Group by merchant and calculate totals
+    const merchantTotals = expenses.reduce((acc, exp) => {
+      const id = exp.merchantId.toString();
+      if (!acc[id]) {
+        acc[id] = { merchantId: id, total: 0, count: 0, lastDate: exp.date };
       }
-      acc[exp.category].total += exp.amount;
-      acc[exp.category].count += 1;
+      acc[id].total += exp.amount;
+      acc[id].count += 1;
+      if (exp.date > acc[id].lastDate) acc[id].lastDate = exp.date;
       return acc;
     }, {});
 
-    res.json({ breakdown: Object.values(categoryBreakdown) });
+    const merchants = await Merchant.find({ _id: { $in: Object.keys(merchantTotals) }, userId: req.user._id });
+    const merchantMap = new Map(merchants.map(merchant => [merchant._id.toString(), merchant]));
+
+    const breakdown = Object.values(merchantTotals)
+      .filter(entry => merchantMap.has(entry.merchantId))
+      .map(entry => ({
+        ...entry,
+        name: merchantMap.get(entry.merchantId).name,
+        average: entry.total / entry.count
+      }))
+      .sort((a, b) => (sort === 'count' ? b.count - a.count || b.total - a.total : b.total - a.total))
+      .slice(0, Math.max(limit, 1));
+
+    res.json({ currency: homeCurrency, sort, breakdown });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get spending by place, most spent first: located expenses within `radius` meters (default 200)
+// of each other form one place, and expenses with only a place label join places by label
+router.get('/stats/places', addDueRecurring, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const radius = req.query.radius !== undefined ? Number(req.query.radius) : DEFAULT_PLACE_RADIUS;
+    const limit = parseInt(req.query.limit, 10) || DEFAULT_PLACE_STATS_LIMIT;
+
+    if (!(radius > 0 && radius <= MAX_PLACE_RADIUS)) {
+      return res.status(400).json({ message: `Radius must be between 1 and ${MAX_PLACE_RADIUS} meters` });
+    }
+
+    const query = {
+      userId: req.user._id,
+      $or: [{ location: { $exists: true } }, { place: { $nin: [null, ''] } }]
+    };
+
+    // Filter by date range if provided
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    // Get all placed expenses in date range, in the home currency (oldest first, so places are stable)
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+    const expenses = (await Expense.find(query).sort({ date: 1, _id: 1 })).map(convertExpense);
+
+    const breakdown = clusterByPlace(expenses, radius)
+      .map(item => {
+        const total = item.expenses.reduce((sum, exp) => sum + exp.amount, 0);
+        return {
+          label: item.label,
+          location: item.center ? { type: 'Point', coordinates: item.center } : null,
+          total,
+          count: item.expenses.length,
+          average: total / item.expenses.length
+        };
+      })
+      .sort((a, b) => b.total - a.total)
+      .slice(0, Math.max(limit, 1));
+
+    res.json({ currency: homeCurrency, radius, breakdown });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
 });
 
 // Get spending insights (compare current month with previous month)
-router.get('/stats/insights', async (req, res) => {
+router.get('/stats/insights', addDueRecurring, async (req, res) => {
   try {
+    // Expenses that will be paid back can be left out of every figure
+    const excludeReimbursable = req.query.excludeReimbursable === 'true';
+    const reimbursableFilter = excludeReimbursable ? { reimbursable: { $ne: true } } : {};
     const now = new Date();
     const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
     const previousMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
     const endOfPreviousMonth = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
 
+    // Both months are compared in the home currency
+    const { homeCurrency, convertExpense } = await getConverter(req.user._id);
+
     // Get current month expenses
-    const currentExpenses = await Expense.find({
+    const currentExpenses = (await Expense.find({
       userId: req.user._id,
-      date: { $gte: currentMonth }
-    });
+      date: { $gte: currentMonth },
+      ...reimbursableFilter
+    })).map(convertExpense);
 
     // Get previous month expenses
-    const previousExpenses = await Expense.find({
+    const previousExpenses = (await Expense.find({
       userId: req.user._id,
-      date: { $gte: previousMonth, $lte: endOfPreviousMonth }
-    });
+      date: { $gte: previousMonth, $lte: endOfPreviousMonth },
+      ...reimbursableFilter
+    })).map(convertExpense);
 
     // Calculate totals
     const currentTotal = currentExpenses.reduce((sum, exp) => sum + exp.amount, 0);
@@ -293,44 +1237,90 @@ router.get('/stats/insights', async (req, res) => {
       ? ((currentTotal - previousTotal) / previousTotal) * 100
       : 0;
 
-    // Category-wise comparison
+    // Category-wise comparison over the user's categories (archived ones may still have expenses)
+    // Split expenses count towards each of their line items' categories
+    const currentAllocations = currentExpenses.flatMap(getAllocations);
+    const previousAllocations = previousExpenses.flatMap(getAllocations);
     const categoryInsights = {};
-    const categories = ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Health', 'Education', 'Other'];
+    const categoryDocs = await Category.find({ userId: req.user._id, parentId: null }).sort({ createdAt: 1 });
+    const categoryMap = new Map(categoryDocs.map(cat => [cat.name, cat]));
+
+    // Include any legacy category names that are no longer in the collection
+    const categories = [...categoryMap.keys()];
+    [...currentAllocations, ...previousAllocations].forEach(exp => {
+      if (!categories.includes(exp.category)) categories.push(exp.category);
+    });
 
     categories.forEach(category => {
-      const currentCatTotal = currentExpenses
-        .filter(exp => exp.category === category)
-        .reduce((sum, exp) => sum + exp.amount, 0);
-      
-      const previousCatTotal = previousExpenses
-        .filter(exp => exp.category === category)
-        .reduce((sum, exp) => sum + exp.amount, 0);
+      const currentCatExpenses = currentAllocations.filter(exp => exp.category === category);
+      const previousCatExpenses = previousAllocations.filter(exp => exp.category === category);
+
+      const currentCatTotal = currentCatExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+      const previousCatTotal = previousCatExpenses.reduce((sum, exp) => sum + exp.amount, 0);
 
       if (currentCatTotal > 0 || previousCatTotal > 0) {
         const catPercentageChange = previousCatTotal > 0
           ? ((currentCatTotal - previousCatTotal) / previousCatTotal) * 100
           : 0;
 
+        // Subcategory drill-down (null for expenses without a subcategory)
+        const subcategoryNames = [...new Set(
+          [...currentCatExpenses, ...previousCatExpenses].map(exp => exp.subcategory || null)
+        )];
+        const subcategories = subcategoryNames.map(subcategory => {
+          const currentSubTotal = currentCatExpenses
+            .filter(exp => (exp.subcategory || null) === subcategory)
+            .reduce((sum, exp) => sum + exp.amount, 0);
+          const previousSubTotal = previousCatExpenses
+            .filter(exp => (exp.subcategory || null) === subcategory)
+            .reduce((sum, exp) => sum + exp.amount, 0);
+
+          return {
+            subcategory,
+            current: currentSubTotal,
+            previous: previousSubTotal,
+            change: previousSubTotal > 0
+              ? ((currentSubTotal - previousSubTotal) / previousSubTotal) * 100
+              : 0
+          };
+        });
+
         categoryInsights[category] = {
           category,
+          emoji: categoryMap.get(category)?.emoji,
+          color: categoryMap.get(category)?.color,
           current: currentCatTotal,
           previous: previousCatTotal,
-          change: catPercentageChange
+          change: catPercentageChange,
+          subcategories
         };
       }
     });
 
+    // Income vs expenses over the last six months, ending with the current one
+    const cashFlow = await getCashFlow(req.user._id, 6, excludeReimbursable);
+    const [previousFlow, currentFlow] = cashFlow.slice(-2);
+
     res.json({
+      currency: homeCurrency,
+      excludeReimbursable,
       currentMonth: {
         total: currentTotal,
-        count: currentExpenses.length
+        count: currentExpenses.length,
+        income: currentFlow.income,
+        net: currentFlow.income - currentTotal,
+        savingsRate: currentFlow.income > 0 ? ((currentFlow.income - currentTotal) / currentFlow.income) * 100 : null
       },
       previousMonth: {
         total: previousTotal,
-        count: previousExpenses.length
+        count: previousExpenses.length,
+        income: previousFlow.income,
+        net: previousFlow.income - previousTotal,
+        savingsRate: previousFlow.income > 0 ? ((previousFlow.income - previousTotal) / previousFlow.income) * 100 : null
       },
       overallChange: percentageChange,
-      categoryInsights: Object.values(categoryInsights)
+      categoryInsights: Object.values(categoryInsights),
+      cashFlow
     });
   } catch (error) {
     res.status(500).json({ message: error.message });
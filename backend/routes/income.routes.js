@@ -0,0 +1,160 @@
+const express = require('express');
+const router = express.Router();
+const Income = require('../models/income.model');
+const authenticate = require('../middleware/auth.middleware');
+const addDueRecurring = require('../middleware/recurring.middleware');
+const validateCurrency = require('../utils/validateCurrency');
+const getConverter = require('../utils/getConverter');
+const getCashFlow = require('../utils/getCashFlow');
+
+// All routes require authentication
+router.use(authenticate);
+
+// Create new income entry
+router.post('/', async (req, res) => {
+  try {
+    const { amount, currency, source, description, date } = req.body;
+
+    // Validate required fields
+    if (!amount || !source) {
+      return res.status(400).json({ message: 'Amount and source are required' });
+    }
+
+    // Defaults to the home currency; others need an exchange rate
+    const { homeCurrency } = await getConverter(req.user._id);
+    const incomeCurrency = currency ? String(currency).toUpperCase() : homeCurrency;
+    const currencyError = await validateCurrency(req.user._id, incomeCurrency);
+    if (currencyError) {
+      return res.status(400).json({ message: currencyError });
+    }
+
+    const income = await Income.create({
+      userId: req.user._id,
+      amount,
+      currency: incomeCurrency,
+      source,
+      description,
+      date: date || new Date()
+    });
+
+    res.status(201).json({ message: 'Income added successfully', income });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get all income for logged-in user, with the total in the home currency
+router.get('/', async (req, res) => {
+  try {
+    const { startDate, endDate, source } = req.query;
+    const query = { userId: req.user._id };
+
+    // Filter by date range if provided
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    // Filter by source if provided
+    if (source) {
+      query.source = source;
+    }
+
+    const incomes = await Income.find(query).sort({ date: -1, createdAt: -1 });
+
+    const { homeCurrency, convert } = await getConverter(req.user._id);
+    const total = incomes.reduce((sum, income) => sum + convert(income.amount, income.currency || homeCurrency), 0);
+
+    res.json({ incomes, total, currency: homeCurrency });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get income vs expenses per month (?months=6), in the home currency
+router.get('/stats/cashflow', addDueRecurring, async (req, res) => {
+  try {
+    const months = Math.min(Math.max(parseInt(req.query.months, 10) || 6, 1), 24);
+    const { homeCurrency } = await getConverter(req.user._id);
+    const cashFlow = await getCashFlow(req.user._id, months);
+
+    res.json({ currency: homeCurrency, cashFlow });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Get income entry by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const income = await Income.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this income entry
+    });
+
+    if (!income) {
+      return res.status(404).json({ message: 'Income not found' });
+    }
+
+    res.json({ income });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update income entry
+router.put('/:id', async (req, res) => {
+  try {
+    const { amount, currency, source, description, date } = req.body;
+    const update = { amount, source, description, date };
+
+    if (currency !== undefined) {
+      update.currency = String(currency).toUpperCase();
+      const currencyError = await validateCurrency(req.user._id, update.currency);
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+    }
+
+    const income = await Income.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id },
+      update,
+      { new: true, runValidators: true }
+    );
+
+    if (!income) {
+      return res.status(404).json({ message: 'Income not found' });
+    }
+
+    res.json({ message: 'Income updated successfully', income });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete income entry
+router.delete('/:id', async (req, res) => {
+  try {
+    const income = await Income.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!income) {
+      return res.status(404).json({ message: 'Income not found' });
+    }
+
+    res.json({ message: 'Income deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
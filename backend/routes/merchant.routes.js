@@ -0,0 +1,202 @@
+const express = require('express');
+const router = express.Router();
+const Merchant = require('../models/merchant.model');
+const authenticate = require('../middleware/auth.middleware');
+const validateCategory = require('../utils/validateCategory');
+const normalizeMerchantName = require('../utils/normalizeMerchantName');
+const { updateExpensesWithHistory } = require('../utils/expenseHistory');
+
+const MAX_SUGGESTIONS = 20;
+
+// Merges and deletes carried over to expenses show in their history as made by "merchants"
+const HISTORY_SOURCE = { client: 'merchants' };
+
+// All routes require authentication
+router.use(authenticate);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Another of the user's merchants that already goes by the merchant's name or one of its aliases
+const findNameClash = (merchant) => {
+  const keys = [merchant.normalizedName, ...merchant.aliases];
+  return Merchant.findOne({
+    userId: merchant.userId,
+    _id: { $ne: merchant._id },
+    $or: [{ normalizedName: { $in: keys } }, { aliases: { $in: keys } }]
+  });
+};
+
+// Apply name, aliases and defaults from a request body, then check them before saving
+// Returns an error message, or null once the merchant is saved
+const saveMerchant = async (merchant, body) => {
+  const { name, aliases, defaultCategory, defaultSubcategory, defaultPaymentMethod } = body;
+
+  if (name !== undefined) merchant.name = name;
+  if (aliases !== undefined) merchant.aliases = Array.isArray(aliases) ? aliases : String(aliases).split(',');
+  if (defaultCategory !== undefined) {
+    // Subcategory is tied to its category, so it is replaced whenever the category is
+    merchant.defaultCategory = defaultCategory || null;
+    merchant.defaultSubcategory = (defaultCategory && defaultSubcategory) || null;
+  }
+  if (defaultPaymentMethod !== undefined) merchant.defaultPaymentMethod = defaultPaymentMethod || undefined;
+
+  if (!merchant.name || !merchant.name.trim()) {
+    return 'Merchant name is required';
+  }
+
+  if (defaultCategory) {
+    const categoryError = await validateCategory(merchant.userId, merchant.defaultCategory, merchant.defaultSubcategory);
+    if (categoryError) {
+      return categoryError;
+    }
+  }
+
+  // Sets the matching keys the clash check needs
+  await merchant.validate();
+  const clash = await findNameClash(merchant);
+  if (clash) {
+    return `"${clash.name}" already goes by this name`;
+  }
+
+  await merchant.save();
+  return null;
+};
+
+// Get merchants for logged-in user, most recently used first
+// `q` narrows them to names or aliases with a word starting with it (for autocomplete)
+router.get('/', async (req, res) => {
+  try {
+    const query = { userId: req.user._id };
+    const key = normalizeMerchantName(req.query.q);
+    if (key) {
+      const pattern = new RegExp(`(^| )${escapeRegExp(key)}`);
+      query.$or = [{ normalizedName: pattern }, { aliases: pattern }];
+    }
+
+    let merchants = Merchant.find(query).sort({ lastUsedAt: -1, name: 1 });
+    if (key) {
+      merchants = merchants.limit(MAX_SUGGESTIONS);
+    }
+
+    res.json({ merchants: await merchants });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create merchant
+router.post('/', async (req, res) => {
+  try {
+    const merchant = new Merchant({ userId: req.user._id });
+    const error = await saveMerchant(merchant, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.status(201).json({ message: 'Merchant added successfully', merchant });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A merchant with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update merchant (rename, change aliases or defaults)
+router.put('/:id', async (req, res) => {
+  try {
+    const merchant = await Merchant.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this merchant
+    });
+
+    if (!merchant) {
+      return res.status(404).json({ message: 'Merchant not found' });
+    }
+
+    const error = await saveMerchant(merchant, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.json({ message: 'Merchant updated successfully', merchant });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A merchant with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Merge merchant into another one - its names become the target's aliases and its expenses move over
+router.post('/:id/merge', async (req, res) => {
+  try {
+    const { targetId } = req.body;
+
+    if (!targetId) {
+      return res.status(400).json({ message: 'Target merchant is required' });
+    }
+
+    if (targetId === req.params.id) {
+      return res.status(400).json({ message: 'Cannot merge a merchant into itself' });
+    }
+
+    const source = await Merchant.findOne({ _id: req.params.id, userId: req.user._id });
+    const target = await Merchant.findOne({ _id: targetId, userId: req.user._id });
+
+    if (!source || !target) {
+      return res.status(404).json({ message: 'Merchant not found' });
+    }
+
+    const result = await updateExpensesWithHistory(
+      { userId: req.user._id, merchantId: source._id },
+      { merchantId: target._id },
+      HISTORY_SOURCE
+    );
+
+    // Removed first, as the target takes over its names
+    await Merchant.deleteOne({ _id: source._id });
+    target.aliases = [...target.aliases, source.normalizedName, ...source.aliases];
+    if (source.lastUsedAt > target.lastUsedAt) target.lastUsedAt = source.lastUsedAt;
+    await target.save();
+
+    res.json({
+      message: `Merged into ${target.name} (${result.modifiedCount} expenses moved)`,
+      merchant: target
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete merchant - its expenses are kept, without a merchant
+router.delete('/:id', async (req, res) => {
+  try {
+    const merchant = await Merchant.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this merchant
+    });
+
+    if (!merchant) {
+      return res.status(404).json({ message: 'Merchant not found' });
+    }
+
+    await updateExpensesWithHistory(
+      { userId: req.user._id, merchantId: merchant._id },
+      { $unset: { merchantId: 1 } },
+      HISTORY_SOURCE
+    );
+
+    res.json({ message: 'Merchant deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,130 @@
+const express = require('express');
+const router = express.Router();
+const MessageFormat = require('../models/messageFormat.model');
+const authenticate = require('../middleware/auth.middleware');
+const { BUILT_IN_FORMATS, validatePattern, matchFormat } = require('../utils/bankMessages');
+
+// All routes require authentication
+router.use(authenticate);
+
+// Apply a request body to a format and check it (without saving)
+// Returns an error message, or null when the format is valid
+const prepareFormat = async (format, body) => {
+  const { name, pattern, paymentMethod, enabled } = body;
+
+  if (name !== undefined) format.name = name;
+  if (pattern !== undefined) format.pattern = pattern;
+  if (paymentMethod !== undefined) format.paymentMethod = paymentMethod || undefined;
+  if (enabled !== undefined) format.enabled = Boolean(enabled);
+
+  const patternError = validatePattern(format.pattern);
+  if (patternError) {
+    return patternError;
+  }
+
+  await format.validate();
+  return null;
+};
+
+// Get the user's formats in the order they are tried, and the built-in ones tried after them
+router.get('/', async (req, res) => {
+  try {
+    const formats = await MessageFormat.find({ userId: req.user._id }).sort({ createdAt: 1 });
+
+    res.json({
+      formats,
+      builtIn: BUILT_IN_FORMATS.map(format => ({
+        name: format.name,
+        example: format.example,
+        paymentMethod: format.paymentMethod
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create format - it is tried after the user's existing ones
+router.post('/', async (req, res) => {
+  try {
+    const format = new MessageFormat({ userId: req.user._id });
+
+    const error = await prepareFormat(format, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await format.save();
+    res.status(201).json({ message: 'Format added successfully', format });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Try a format (same fields as POST /) on a sample `message` - what it reads, or `parsed: null` when it doesn't match
+router.post('/test', async (req, res) => {
+  try {
+    const format = new MessageFormat({ userId: req.user._id, name: 'Test' }); // A name isn't needed to try it
+    const error = await prepareFormat(format, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.json({ parsed: matchFormat(req.body.message, format) });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update format (or turn it on or off with `enabled`)
+router.put('/:id', async (req, res) => {
+  try {
+    const format = await MessageFormat.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this format
+    });
+
+    if (!format) {
+      return res.status(404).json({ message: 'Format not found' });
+    }
+
+    const error = await prepareFormat(format, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await format.save();
+    res.json({ message: 'Format updated successfully', format });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete format
+router.delete('/:id', async (req, res) => {
+  try {
+    const format = await MessageFormat.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!format) {
+      return res.status(404).json({ message: 'Format not found' });
+    }
+
+    res.json({ message: 'Format deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
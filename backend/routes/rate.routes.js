@@ -0,0 +1,173 @@
+const express = require('express');
+const router = express.Router();
+const ExchangeRate = require('../models/exchangeRate.model');
+const User = require('../models/user.model');
+const Budget = require('../models/budget.model');
+const Expense = require('../models/expense.model');
+const RecurringExpense = require('../models/recurringExpense.model');
+const Income = require('../models/income.model');
+const authenticate = require('../middleware/auth.middleware');
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get home currency and exchange rates for logged-in user
+router.get('/', async (req, res) => {
+  try {
+    const rates = await ExchangeRate.find({ userId: req.user._id }).sort({ currency: 1 });
+
+    res.json({ homeCurrency: req.user.homeCurrency, rates });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Change home currency - rates and budgets are rebased onto the new currency
+router.put('/home', async (req, res) => {
+  try {
+    const currency = String(req.body.currency || '').toUpperCase();
+    const previousCurrency = req.user.homeCurrency;
+
+    if (!CURRENCY_CODE.test(currency)) {
+      return res.status(400).json({ message: 'Currency must be a 3-letter ISO code' });
+    }
+
+    if (currency === previousCurrency) {
+      const rates = await ExchangeRate.find({ userId: req.user._id }).sort({ currency: 1 });
+      return res.json({ message: 'Home currency unchanged', homeCurrency: currency, rates });
+    }
+
+    // Rebasing needs to know what the new home currency is worth in the old one
+    const pivot = await ExchangeRate.findOne({ userId: req.user._id, currency });
+    if (!pivot) {
+      return res.status(400).json({ message: `Add an exchange rate for ${currency} before making it your home currency` });
+    }
+
+    // Expenses saved before currencies existed were in the old home currency
+    const legacyFilter = { userId: req.user._id, currency: { $exists: false } };
+    await Expense.updateMany(legacyFilter, { currency: previousCurrency });
+    await RecurringExpense.updateMany(legacyFilter, { currency: previousCurrency });
+    await Income.updateMany(legacyFilter, { currency: previousCurrency });
+
+    const factor = pivot.rate;
+    const others = await ExchangeRate.find({ userId: req.user._id, currency: { $ne: currency } });
+    for (const rate of others) {
+      rate.rate = rate.rate / factor;
+      await rate.save();
+    }
+    await ExchangeRate.deleteOne({ _id: pivot._id });
+    await ExchangeRate.create({ userId: req.user._id, currency: previousCurrency, rate: 1 / factor });
+
+    // Budget limits are kept in the home currency too
+    await Budget.updateMany({ userId: req.user._id }, [{ $set: { amount: { $divide: ['$amount', factor] } } }]);
+
+    await User.updateOne({ _id: req.user._id }, { homeCurrency: currency });
+
+    const rates = await ExchangeRate.find({ userId: req.user._id }).sort({ currency: 1 });
+    res.json({ message: 'Home currency updated successfully', homeCurrency: currency, rates });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Import many rates at once, e.g. { rates: { USD: 83.2, EUR: 90.1 } } or { rates: [{ currency, rate }] }
+router.post('/import', async (req, res) => {
+  try {
+    const { rates } = req.body;
+
+    if (!rates || typeof rates !== 'object') {
+      return res.status(400).json({ message: 'Rates are required' });
+    }
+
+    const entries = Array.isArray(rates)
+      ? rates.map(item => [item?.currency, item?.rate])
+      : Object.entries(rates);
+
+    // Validate everything before writing anything
+    const parsed = [];
+    for (const [code, value] of entries) {
+      const currency = String(code || '').trim().toUpperCase();
+      const rate = Number(value);
+      if (!CURRENCY_CODE.test(currency) || !(rate > 0)) {
+        return res.status(400).json({ message: `Invalid rate for ${code}` });
+      }
+      if (currency !== req.user.homeCurrency) {
+        parsed.push({ currency, rate });
+      }
+    }
+
+    for (const { currency, rate } of parsed) {
+      await ExchangeRate.findOneAndUpdate(
+        { userId: req.user._id, currency },
+        { rate },
+        { upsert: true, runValidators: true }
+      );
+    }
+
+    const allRates = await ExchangeRate.find({ userId: req.user._id }).sort({ currency: 1 });
+    res.json({ message: `${parsed.length} rates imported`, rates: allRates });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create or update the rate for a currency
+router.put('/:currency', async (req, res) => {
+  try {
+    const currency = req.params.currency.toUpperCase();
+    const rate = Number(req.body.rate);
+
+    if (!CURRENCY_CODE.test(currency)) {
+      return res.status(400).json({ message: 'Currency must be a 3-letter ISO code' });
+    }
+
+    if (currency === req.user.homeCurrency) {
+      return res.status(400).json({ message: 'The home currency does not need a rate' });
+    }
+
+    if (!(rate > 0)) {
+      return res.status(400).json({ message: 'Rate must be a positive number' });
+    }
+
+    const exchangeRate = await ExchangeRate.findOneAndUpdate(
+      { userId: req.user._id, currency },
+      { rate },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.json({ message: 'Exchange rate saved successfully', rate: exchangeRate });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete the rate for a currency (only while nothing is recorded in it)
+router.delete('/:currency', async (req, res) => {
+  try {
+    const currency = req.params.currency.toUpperCase();
+
+    const inUse = await Expense.countDocuments({ userId: req.user._id, currency })
+      + await RecurringExpense.countDocuments({ userId: req.user._id, currency })
+      + await Income.countDocuments({ userId: req.user._id, currency });
+    if (inUse > 0) {
+      return res.status(400).json({ message: `${currency} is used by ${inUse} expenses or income entries, so its rate can't be removed` });
+    }
+
+    const exchangeRate = await ExchangeRate.findOneAndDelete({ userId: req.user._id, currency });
+
+    if (!exchangeRate) {
+      return res.status(404).json({ message: 'Exchange rate not found' });
+    }
+
+    res.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
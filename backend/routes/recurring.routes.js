@@ -0,0 +1,225 @@
+const express = require('express');
+const router = express.Router();
+const RecurringExpense = require('../models/recurringExpense.model');
+const authenticate = require('../middleware/auth.middleware');
+const validateCategory = require('../utils/validateCategory');
+const normalizeTags = require('../utils/normalizeTags');
+const validateCurrency = require('../utils/validateCurrency');
+const getConverter = require('../utils/getConverter');
+const generateRecurringExpenses = require('../utils/generateRecurringExpenses');
+const { getFirstOccurrence, getNextOccurrence, getOccurrenceFrom } = require('../utils/recurrence');
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly', 'custom'];
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get all recurring expenses for logged-in user
+router.get('/', async (req, res) => {
+  try {
+    const recurringExpenses = await RecurringExpense.find({ userId: req.user._id })
+      .sort({ paused: 1, nextDate: 1 });
+
+    res.json({ recurringExpenses });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create new recurring expense
+router.post('/', async (req, res) => {
+  try {
+    const {
+      amount, currency, category, subcategory, paymentMethod, description, tags,
+      frequency, interval, dayOfMonth, startDate, endDate
+    } = req.body;
+
+    // Validate required fields
+    if (!amount || !category || !paymentMethod || !frequency) {
+      return res.status(400).json({ message: 'Amount, category, payment method, and frequency are required' });
+    }
+
+    if (!FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ message: 'Invalid frequency' });
+    }
+
+    if (frequency === 'custom' && !(interval >= 1)) {
+      return res.status(400).json({ message: 'Custom frequency requires an interval of at least 1 day' });
+    }
+
+    // Category must be one of the user's active categories
+    const categoryError = await validateCategory(req.user._id, category, subcategory);
+    if (categoryError) {
+      return res.status(400).json({ message: categoryError });
+    }
+
+    // Defaults to the home currency; others need an exchange rate
+    const { homeCurrency } = await getConverter(req.user._id);
+    const recurringCurrency = currency ? String(currency).toUpperCase() : homeCurrency;
+    const currencyError = await validateCurrency(req.user._id, recurringCurrency);
+    if (currencyError) {
+      return res.status(400).json({ message: currencyError });
+    }
+
+    const start = startDate ? new Date(startDate) : new Date();
+    const schedule = {
+      frequency,
+      interval: frequency === 'custom' ? interval : 1,
+      dayOfMonth: frequency === 'monthly' ? (dayOfMonth || start.getDate()) : undefined,
+      startDate: start
+    };
+
+    const recurringExpense = await RecurringExpense.create({
+      userId: req.user._id,
+      amount,
+      currency: recurringCurrency,
+      category,
+      subcategory: subcategory || null,
+      paymentMethod,
+      description,
+      tags: normalizeTags(tags),
+      ...schedule,
+      endDate: endDate ? new Date(endDate) : null,
+      nextDate: getFirstOccurrence(schedule, start)
+    });
+
+    res.status(201).json({ message: 'Recurring expense created successfully', recurringExpense });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Materialize due occurrences as expenses
+router.post('/run', async (req, res) => {
+  try {
+    const created = await generateRecurringExpenses(req.user._id);
+
+    res.json({
+      message: `${created.length} recurring expenses added`,
+      expenses: created.map(item => item.expense),
+      budgetWarnings: created.map(item => item.budgetWarning).filter(Boolean)
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update recurring expense (details, schedule, end date, or pause/resume)
+router.put('/:id', async (req, res) => {
+  try {
+    const {
+      amount, currency, category, subcategory, paymentMethod, description, tags,
+      frequency, interval, dayOfMonth, endDate, paused
+    } = req.body;
+
+    const recurringExpense = await RecurringExpense.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this recurring expense
+    });
+
+    if (!recurringExpense) {
+      return res.status(404).json({ message: 'Recurring expense not found' });
+    }
+
+    if (frequency !== undefined && !FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ message: 'Invalid frequency' });
+    }
+
+    // Category must be one of the user's active categories
+    if (category !== undefined) {
+      const categoryError = await validateCategory(req.user._id, category, subcategory);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      recurringExpense.category = category;
+      recurringExpense.subcategory = subcategory || null;
+    }
+
+    if (currency !== undefined) {
+      const currencyError = await validateCurrency(req.user._id, String(currency).toUpperCase());
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+      recurringExpense.currency = String(currency).toUpperCase();
+    }
+
+    if (amount !== undefined) recurringExpense.amount = amount;
+    if (paymentMethod !== undefined) recurringExpense.paymentMethod = paymentMethod;
+    if (description !== undefined) recurringExpense.description = description;
+    if (tags !== undefined) recurringExpense.tags = normalizeTags(tags);
+    if (endDate !== undefined) recurringExpense.endDate = endDate ? new Date(endDate) : null;
+
+    // A new schedule takes effect from the next pending occurrence onwards
+    if (frequency !== undefined || interval !== undefined || dayOfMonth !== undefined) {
+      if (frequency !== undefined) recurringExpense.frequency = frequency;
+      if (interval !== undefined) recurringExpense.interval = interval;
+      if (dayOfMonth !== undefined) recurringExpense.dayOfMonth = dayOfMonth;
+      if (recurringExpense.frequency === 'monthly' && !recurringExpense.dayOfMonth) {
+        recurringExpense.dayOfMonth = recurringExpense.startDate.getDate();
+      }
+      recurringExpense.nextDate = getFirstOccurrence(recurringExpense, recurringExpense.nextDate);
+    }
+
+    // Resuming picks up from today - occurrences missed while paused are not created
+    if (paused !== undefined) {
+      if (recurringExpense.paused && !paused) {
+        recurringExpense.nextDate = getOccurrenceFrom(recurringExpense, recurringExpense.nextDate, new Date());
+      }
+      recurringExpense.paused = Boolean(paused);
+    }
+
+    await recurringExpense.save();
+
+    res.json({ message: 'Recurring expense updated successfully', recurringExpense });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Skip the next pending occurrence
+router.post('/:id/skip', async (req, res) => {
+  try {
+    const recurringExpense = await RecurringExpense.findOne({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!recurringExpense) {
+      return res.status(404).json({ message: 'Recurring expense not found' });
+    }
+
+    const skippedDate = recurringExpense.nextDate;
+    recurringExpense.nextDate = getNextOccurrence(recurringExpense, skippedDate);
+    await recurringExpense.save();
+
+    res.json({ message: 'Occurrence skipped', skippedDate, recurringExpense });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete recurring expense (expenses it already generated are kept)
+router.delete('/:id', async (req, res) => {
+  try {
+    const recurringExpense = await RecurringExpense.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!recurringExpense) {
+      return res.status(404).json({ message: 'Recurring expense not found' });
+    }
+
+    res.json({ message: 'Recurring expense deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,240 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const router = express.Router();
+const Rule = require('../models/rule.model');
+const Expense = require('../models/expense.model');
+const Merchant = require('../models/merchant.model');
+const authenticate = require('../middleware/auth.middleware');
+const validateCategory = require('../utils/validateCategory');
+const normalizeTags = require('../utils/normalizeTags');
+const { matchesPattern, matchesRule } = require('../utils/rules');
+
+const MAX_TEST_SAMPLE = 20;
+
+// All routes require authentication
+router.use(authenticate);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toAmount = (value) => (value === null || value === '' ? null : Number(value));
+
+// Apply a request body to a rule and check it (without saving)
+// Returns an error message, or null when the rule is valid
+const prepareRule = async (rule, body) => {
+  const { name, field, operator, pattern, minAmount, maxAmount, category, subcategory, paymentMethod, tags, enabled } = body;
+
+  if (name !== undefined) rule.name = name;
+  if (field !== undefined) rule.field = field;
+  if (operator !== undefined) rule.operator = operator;
+  if (pattern !== undefined) rule.pattern = pattern;
+  if (minAmount !== undefined) rule.minAmount = toAmount(minAmount);
+  if (maxAmount !== undefined) rule.maxAmount = toAmount(maxAmount);
+  if (category !== undefined) {
+    // Subcategory is tied to its category, so it is replaced whenever the category is
+    rule.category = category || null;
+    rule.subcategory = (category && subcategory) || null;
+  }
+  if (paymentMethod !== undefined) rule.paymentMethod = paymentMethod || undefined;
+  if (tags !== undefined) rule.tags = normalizeTags(tags);
+  if (enabled !== undefined) rule.enabled = Boolean(enabled);
+
+  if (!rule.pattern || !rule.pattern.trim()) {
+    return 'Pattern is required';
+  }
+
+  if (!rule.category && !rule.paymentMethod && rule.tags.length === 0) {
+    return 'A rule must set a category, payment method or tags';
+  }
+
+  if (rule.minAmount != null && rule.maxAmount != null && rule.minAmount > rule.maxAmount) {
+    return 'Minimum amount cannot be more than maximum amount';
+  }
+
+  if (rule.category) {
+    const categoryError = await validateCategory(rule.userId, rule.category, rule.subcategory);
+    if (categoryError) {
+      return categoryError;
+    }
+  }
+
+  await rule.validate();
+  return null;
+};
+
+// Fields a rule sets differently from an expense, as [{ field, from, to }] - unlike on a new expense, a
+// dry run shows every difference, set or not, so a rule can be checked against expenses already categorized
+const getRuleChanges = (rule, expense) => {
+  const changes = [];
+  if (rule.category && (expense.category !== rule.category || (expense.subcategory || null) !== (rule.subcategory || null))) {
+    changes.push({
+      field: 'category',
+      from: [expense.category, expense.subcategory].filter(Boolean).join(' / ') || null,
+      to: [rule.category, rule.subcategory].filter(Boolean).join(' / ')
+    });
+  }
+  if (rule.paymentMethod && expense.paymentMethod !== rule.paymentMethod) {
+    changes.push({ field: 'paymentMethod', from: expense.paymentMethod || null, to: rule.paymentMethod });
+  }
+  if (rule.tags.some(tag => !expense.tags.includes(tag))) {
+    changes.push({ field: 'tags', from: expense.tags, to: [...new Set([...expense.tags, ...rule.tags])] });
+  }
+  return changes;
+};
+
+// Get rules for logged-in user, in the order they run
+router.get('/', async (req, res) => {
+  try {
+    const rules = await Rule.find({ userId: req.user._id }).sort({ priority: 1, createdAt: 1 });
+    res.json({ rules });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create rule - it runs after the existing ones
+router.post('/', async (req, res) => {
+  try {
+    const rule = new Rule({ userId: req.user._id });
+    const last = await Rule.findOne({ userId: req.user._id }).sort({ priority: -1 });
+    rule.priority = last ? last.priority + 1 : 0;
+
+    const error = await prepareRule(rule, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await rule.save();
+    res.status(201).json({ message: 'Rule added successfully', rule });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Dry run - which of the user's expenses a rule (saved or not, same fields as POST /) matches, newest first,
+// and what it would change on them
+router.post('/test', async (req, res) => {
+  try {
+    const rule = new Rule({ userId: req.user._id, priority: 0 });
+    const error = await prepareRule(rule, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    // Narrow the expenses down in the database, then match them exactly like a new expense
+    const query = { userId: req.user._id };
+    const merchantNames = new Map();
+    if (rule.field === 'merchant') {
+      const merchants = await Merchant.find({ userId: req.user._id });
+      merchants.forEach(merchant => merchantNames.set(String(merchant._id), merchant.name));
+      query.merchantId = { $in: merchants.filter(merchant => matchesPattern(rule, merchant.name)).map(merchant => merchant._id) };
+    } else {
+      query.description = new RegExp(escapeRegExp(rule.pattern), 'i');
+    }
+    if (rule.minAmount != null || rule.maxAmount != null) {
+      query.amount = {};
+      if (rule.minAmount != null) query.amount.$gte = rule.minAmount;
+      if (rule.maxAmount != null) query.amount.$lte = rule.maxAmount;
+    }
+
+    const matches = (await Expense.find(query).sort({ date: -1, _id: -1 }))
+      .map(expense => ({
+        expense,
+        subject: {
+          description: expense.description,
+          merchantName: merchantNames.get(String(expense.merchantId)),
+          amount: expense.amount
+        }
+      }))
+      .filter(({ subject }) => matchesRule(rule, subject))
+      .map(({ expense }) => ({ expense, changes: getRuleChanges(rule, expense) }));
+
+    res.json({
+      matched: matches.length,
+      changed: matches.filter(match => match.changes.length > 0).length,
+      matches: matches.slice(0, MAX_TEST_SAMPLE)
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Reorder rules - `ids` lists every rule once, in the order they should run
+router.post('/reorder', async (req, res) => {
+  try {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ message: 'Rule ids are required' });
+    }
+
+    const rules = await Rule.find({ userId: req.user._id });
+    const owned = new Set(rules.map(rule => String(rule._id)));
+    if (new Set(ids).size !== ids.length || ids.length !== owned.size || !ids.every(id => owned.has(String(id)))) {
+      return res.status(400).json({ message: 'Order must list every rule once' });
+    }
+
+    await Rule.bulkWrite(ids.map((id, index) => ({
+      updateOne: { filter: { _id: id, userId: req.user._id }, update: { priority: index } }
+    })));
+
+    res.json({
+      message: 'Rules reordered successfully',
+      rules: await Rule.find({ userId: req.user._id }).sort({ priority: 1, createdAt: 1 })
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update rule (its order is changed with POST /reorder)
+router.put('/:id', async (req, res) => {
+  try {
+    const rule = await Rule.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this rule
+    });
+
+    if (!rule) {
+      return res.status(404).json({ message: 'Rule not found' });
+    }
+
+    const error = await prepareRule(rule, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await rule.save();
+    res.json({ message: 'Rule updated successfully', rule });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete rule
+router.delete('/:id', async (req, res) => {
+  try {
+    const rule = await Rule.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this rule
+    });
+
+    if (!rule) {
+      return res.status(404).json({ message: 'Rule not found' });
+    }
+
+    res.json({ message: 'Rule deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
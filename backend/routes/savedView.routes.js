@@ -0,0 +1,100 @@
+const express = require('express');
+const router = express.Router();
+const SavedView = require('../models/savedView.model');
+const authenticate = require('../middleware/auth.middleware');
+const normalizeTags = require('../utils/normalizeTags');
+const getViewParams = require('../utils/getViewParams');
+const findExpensePage = require('../utils/findExpensePage');
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get saved views for logged-in user, in the order they were created
+router.get('/', async (req, res) => {
+  try {
+    const views = await SavedView.find({ userId: req.user._id }).sort({ createdAt: 1 });
+    res.json({ views });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create saved view from a filter and sort spec
+router.post('/', async (req, res) => {
+  try {
+    const {
+      name, q, categories, paymentMethods, minAmount, maxAmount, tags, tagMode, dateRange, sort, order
+    } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'View name is required' });
+    }
+
+    if (minAmount !== undefined && maxAmount !== undefined && Number(minAmount) > Number(maxAmount)) {
+      return res.status(400).json({ message: 'Minimum amount is larger than the maximum' });
+    }
+
+    const view = await SavedView.create({
+      userId: req.user._id,
+      name,
+      q,
+      categories: categories || [],
+      paymentMethods: paymentMethods || [],
+      minAmount,
+      maxAmount,
+      tags: normalizeTags(tags),
+      tagMode,
+      dateRange,
+      sort,
+      order
+    });
+
+    res.status(201).json({ message: 'View saved successfully', view });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A view with this name already exists' });
+    }
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Run saved view - a page of matching expenses, paginated like GET /api/expenses (?cursor=&limit=)
+router.get('/:id/expenses', async (req, res) => {
+  try {
+    const view = await SavedView.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!view) {
+      return res.status(404).json({ message: 'View not found' });
+    }
+
+    const { cursor, limit } = req.query;
+    const { error, ...page } = await findExpensePage(req.user._id, { ...getViewParams(view), cursor, limit });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.json({ view, ...page });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete saved view (its expenses are untouched)
+router.delete('/:id', async (req, res) => {
+  try {
+    const view = await SavedView.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!view) {
+      return res.status(404).json({ message: 'View not found' });
+    }
+
+    res.json({ message: 'View deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
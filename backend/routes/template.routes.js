@@ -0,0 +1,137 @@
+const express = require('express');
+const router = express.Router();
+const Template = require('../models/template.model');
+const authenticate = require('../middleware/auth.middleware');
+const validateCategory = require('../utils/validateCategory');
+const normalizeTags = require('../utils/normalizeTags');
+const validateCurrency = require('../utils/validateCurrency');
+const getConverter = require('../utils/getConverter');
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get templates for logged-in user, most used first
+router.get('/', async (req, res) => {
+  try {
+    const templates = await Template.find({ userId: req.user._id })
+      .sort({ useCount: -1, lastUsedAt: -1, createdAt: 1 });
+
+    res.json({ templates });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Create template
+router.post('/', async (req, res) => {
+  try {
+    const { name, amount, currency, category, subcategory, paymentMethod, description, tags } = req.body;
+
+    // Validate required fields (a template holds everything an expense needs)
+    if (!name || !amount || !category || !paymentMethod) {
+      return res.status(400).json({ message: 'Name, amount, category, and payment method are required' });
+    }
+
+    // Category must be one of the user's active categories
+    const categoryError = await validateCategory(req.user._id, category, subcategory);
+    if (categoryError) {
+      return res.status(400).json({ message: categoryError });
+    }
+
+    // Defaults to the home currency; others need an exchange rate
+    const { homeCurrency } = await getConverter(req.user._id);
+    const templateCurrency = currency ? String(currency).toUpperCase() : homeCurrency;
+    const currencyError = await validateCurrency(req.user._id, templateCurrency);
+    if (currencyError) {
+      return res.status(400).json({ message: currencyError });
+    }
+
+    const template = await Template.create({
+      userId: req.user._id,
+      name,
+      amount,
+      currency: templateCurrency,
+      category,
+      subcategory: subcategory || null,
+      paymentMethod,
+      description,
+      tags: normalizeTags(tags)
+    });
+
+    res.status(201).json({ message: 'Template created successfully', template });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update template
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, amount, currency, category, subcategory, paymentMethod, description, tags } = req.body;
+
+    const template = await Template.findOne({
+      _id: req.params.id,
+      userId: req.user._id // Ensure user owns this template
+    });
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    // Category must be one of the user's active categories
+    if (category !== undefined) {
+      const categoryError = await validateCategory(req.user._id, category, subcategory);
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+      template.category = category;
+      template.subcategory = subcategory || null;
+    }
+
+    if (currency !== undefined) {
+      const currencyError = await validateCurrency(req.user._id, String(currency).toUpperCase());
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+      template.currency = String(currency).toUpperCase();
+    }
+
+    if (name !== undefined) template.name = name;
+    if (amount !== undefined) template.amount = amount;
+    if (paymentMethod !== undefined) template.paymentMethod = paymentMethod;
+    if (description !== undefined) template.description = description;
+    if (tags !== undefined) template.tags = normalizeTags(tags);
+
+    await template.save();
+
+    res.json({ message: 'Template updated successfully', template });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Delete template (expenses added from it are kept)
+router.delete('/:id', async (req, res) => {
+  try {
+    const template = await Template.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id
+    });
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+});
+
+module.exports = router;
@@ -31,6 +31,16 @@ connectDB();
 app.use('/api/auth', require('./routes/auth.routes'));
 app.use('/api/expenses', require('./routes/expense.routes'));
 app.use('/api/budget', require('./routes/budget.routes'));
+app.use('/api/categories', require('./routes/category.routes'));
+app.use('/api/recurring', require('./routes/recurring.routes'));
+app.use('/api/rates', require('./routes/rate.routes'));
+app.use('/api/income', require('./routes/income.routes'));
+app.use('/api/views', require('./routes/savedView.routes'));
+app.use('/api/merchants', require('./routes/merchant.routes'));
+app.use('/api/rules', require('./routes/rule.routes'));
+app.use('/api/templates', require('./routes/template.routes'));
+app.use('/api/claims', require('./routes/claim.routes'));
+app.use('/api/message-formats', require('./routes/messageFormat.routes'));
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -0,0 +1,13 @@
+// Storage driver for uploaded files, picked with STORAGE_DRIVER (defaults to local)
+// A driver exposes save(key, buffer, mimeType), read(key) -> stream and remove(key)
+const drivers = {
+  local: () => require('./local.driver')
+};
+
+const driverName = process.env.STORAGE_DRIVER || 'local';
+
+if (!drivers[driverName]) {
+  throw new Error(`Unknown storage driver: ${driverName}`);
+}
+
+module.exports = drivers[driverName]();
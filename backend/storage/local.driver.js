@@ -0,0 +1,31 @@
+const fs = require('fs');
+const path = require('path');
+
+// Local filesystem storage - files live under UPLOAD_DIR (backend/uploads by default)
+const rootDir = path.resolve(process.env.UPLOAD_DIR || path.join(__dirname, '..', 'uploads'));
+
+// Resolve a storage key to a path, refusing keys that escape the upload directory
+const resolveKey = (key) => {
+  const filePath = path.resolve(rootDir, key);
+  if (!filePath.startsWith(rootDir + path.sep)) {
+    throw new Error('Invalid storage key');
+  }
+  return filePath;
+};
+
+const save = async (key, buffer) => {
+  const filePath = resolveKey(key);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, buffer);
+};
+
+const read = async (key) => {
+  return fs.createReadStream(resolveKey(key));
+};
+
+// Removing a file that is already gone is not an error
+const remove = async (key) => {
+  await fs.promises.rm(resolveKey(key), { force: true });
+};
+
+module.exports = { save, read, remove };
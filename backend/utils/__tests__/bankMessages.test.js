@@ -0,0 +1,92 @@
+const { BUILT_IN_FORMATS, MAX_MESSAGE_LENGTH, findDate, validatePattern, parseMessage } = require('../bankMessages');
+
+describe('parseMessage', () => {
+  it.each([
+    [
+      'Rs.450.00 debited from A/c XX1234 to VPA swiggy@icici on 12-10-26',
+      { format: 'UPI debit to a VPA', amount: 450, currency: 'INR', payee: 'swiggy@icici', account: 'XX1234', date: '2026-10-12', reference: null, paymentMethod: 'UPI' }
+    ],
+    [
+      'Sent Rs.450.00 from Kotak Bank AC X1234 to swiggy@icici on 12-10-26.UPI Ref 612345678901',
+      { format: 'UPI sent (HDFC, Kotak)', amount: 450, payee: 'swiggy@icici', account: 'XX1234', date: '2026-10-12', reference: '612345678901', paymentMethod: 'UPI' }
+    ],
+    [
+      'Dear UPI user A/C X1234 debited by 450.0 on date 12Oct26 trf to SWIGGY Refno 612345678901',
+      { format: 'UPI debit (SBI)', amount: 450, payee: 'SWIGGY', account: 'XX1234', date: '2026-10-12', reference: '612345678901', paymentMethod: 'UPI' }
+    ],
+    [
+      'INR 450.00 debited A/c no. XX1234 12-10-26, 10:22:33 UPI/P2M/612345678901/SWIGGY',
+      { format: 'UPI debit (Axis)', amount: 450, payee: 'SWIGGY', account: 'XX1234', date: '2026-10-12', reference: '612345678901', paymentMethod: 'UPI' }
+    ],
+    [
+      'Spent Rs.1,250.00 On HDFC Bank Card 1234 At AMAZON On 2026-10-12:10:22:33',
+      { format: 'Card spend at a merchant', amount: 1250, payee: 'AMAZON', account: '1234', date: '2026-10-12', paymentMethod: 'Card' }
+    ],
+    [
+      'INR 1,250.00 spent using ICICI Bank Card XX1234 on 12-Oct-26 on AMAZON. Avl Limit: INR 48,750.00',
+      { format: 'Card spend (ICICI)', amount: 1250, payee: 'AMAZON', account: 'XX1234', date: '2026-10-12', paymentMethod: 'Card' }
+    ]
+  ])('reads %s', (message, expected) => {
+    expect(parseMessage(message)).toMatchObject({ type: 'debit', ...expected });
+  });
+
+  it('reads the example of every built-in format with that format', () => {
+    BUILT_IN_FORMATS.forEach(format => {
+      expect(parseMessage(format.example)).toMatchObject({ format: format.name });
+    });
+  });
+
+  it.each([
+    ['Paid Rs.99 to Chaiwala via UPI', { type: 'debit', amount: 99, payee: 'Chaiwala', paymentMethod: 'UPI' }],
+    ['Rs 2,000 credited to your A/c XX9876 on 14-10-26 from RAHUL', { type: 'credit', amount: 2000, account: 'XX9876', date: '2026-10-14' }]
+  ])('makes a best guess at %s', (message, expected) => {
+    expect(parseMessage(message)).toMatchObject({ format: null, ...expected });
+  });
+
+  it.each([
+    ['Your OTP is 123456'],
+    [''],
+    ['   ']
+  ])('returns null without an amount: %j', (message) => {
+    expect(parseMessage(message)).toBeNull();
+  });
+
+  it('tries the user\'s formats before the built-in ones', () => {
+    const formats = [{ name: 'My bank', pattern: 'Txn of Rs {amount} at {payee} on {date} {*}' }];
+    expect(parseMessage('Txn of Rs 320.50 at CHAI POINT on 13-10-26 Avl bal Rs 5000', formats)).toMatchObject({
+      format: 'My bank',
+      amount: 320.5,
+      payee: 'CHAI POINT',
+      date: '2026-10-13'
+    });
+  });
+
+  it('reads only the start of a very long message', () => {
+    const message = `Rs.450.00 debited from A/c XX1234 to VPA swiggy@icici on 12-10-26 ${'x'.repeat(MAX_MESSAGE_LENGTH * 10)}`;
+    expect(parseMessage(message)).toMatchObject({ amount: 450, payee: 'swiggy@icici' });
+  });
+});
+
+describe('findDate', () => {
+  it.each([
+    ['on 12-10-26', '2026-10-12'],
+    ['on 12Oct26', '2026-10-12'],
+    ['on 12-Oct-26', '2026-10-12'],
+    ['On 2026-10-12:10:22:33', '2026-10-12'],
+    ['on 31-02-26', null],
+    ['no date here', null]
+  ])('reads %s', (text, expected) => {
+    expect(findDate(text)).toBe(expected);
+  });
+});
+
+describe('validatePattern', () => {
+  it.each([
+    ['Txn of Rs {amount} at {payee} on {date}', null],
+    ['Paid {payee}', 'Pattern must include {amount}'],
+    ['{amount} {foo}', 'Unknown field {foo} - use {amount}, {payee}, {account}, {date}, {reference} or {*}'],
+    ['{amount} {*} {*}', 'Pattern can use {*} only once']
+  ])('checks %s', (pattern, expected) => {
+    expect(validatePattern(pattern)).toBe(expected);
+  });
+});
@@ -0,0 +1,237 @@
+// Bank and UPI payment messages (SMS) - reading the amount, payee, date and account out of them
+// A built-in format is a regular expression with named groups: `amount` (required), and `payee`, `account`,
+// `date` and `reference` when the message has them. A user's own format is a template - the message's text
+// with {amount}, {payee}, {account}, {date}, {reference} and {*} (any text) in place of what changes - that
+// compiles to such an expression from the bounded pieces below, so no user-written expression is ever run
+
+const AMOUNT = String.raw`(?<amount>\d[\d,]*(?:\.\d+)?)`;
+const RUPEES = String.raw`(?:rs\.?|inr|₹)\s*`;
+const ACCOUNT = String.raw`(?<account>[x*]*\d{3,})`;
+
+// Longer messages are cut off before matching
+const MAX_MESSAGE_LENGTH = 1000;
+
+// What each placeholder of a template matches - every piece is bounded, so matching stays fast
+const TEMPLATE_FIELDS = {
+  amount: String.raw`(?<amount>\d[\d,]{0,12}(?:\.\d{1,2})?)`,
+  payee: String.raw`(?<payee>\S.{0,39}?)`,
+  account: String.raw`(?<account>[x*]{0,8}\d{3,6})`,
+  date: String.raw`(?<date>\d{1,4}[\/\-. ]?(?:\d{1,2}|[a-z]{3,9})[\/\-. ]?\d{2,4})`,
+  reference: String.raw`(?<reference>[a-z0-9]{4,30})`,
+  '*': String.raw`.{0,40}?`
+};
+
+// A payee at the very end of a template, with no text after it to stop at, runs to the end of the sentence
+const LAST_PAYEE = String.raw`(?<payee>\S[^.,;]{0,39})`;
+
+const MAX_TEMPLATE_SKIPS = 1; // With the payee, at most two open-ended pieces per template
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+// Formats of the common Indian banks, tried after the user's own formats
+const BUILT_IN_FORMATS = [
+  {
+    name: 'UPI debit to a VPA',
+    example: 'Rs.450.00 debited from A/c XX1234 to VPA swiggy@icici on 12-10-26',
+    pattern: new RegExp(String.raw`${RUPEES}${AMOUNT}\s+(?:has been\s+|is\s+)?debited\s+from\s+(?:your\s+)?a\/?c\.?\s*(?:no\.?\s*)?${ACCOUNT}\s+(?:to|towards)\s+(?:vpa\s+)?(?<payee>[\w.\-]+@[\w.\-]+?)(?:\s+on\s+(?<date>[\w\-\/]+)|[\s.]|$)`, 'i'),
+    paymentMethod: 'UPI'
+  },
+  {
+    name: 'UPI sent (HDFC, Kotak)',
+    example: 'Sent Rs.450.00 from Kotak Bank AC X1234 to swiggy@icici on 12-10-26.UPI Ref 612345678901',
+    pattern: new RegExp(String.raw`sent\s+${RUPEES}${AMOUNT}\s+from\s+.*?a\/?c\s*${ACCOUNT}\s+to\s+(?<payee>.+?)\s+on\s+(?<date>[\d\/\-]+)(?:[\s\S]*?ref(?:\s*no)?\.?\s*(?<reference>\d+))?`, 'i'),
+    paymentMethod: 'UPI'
+  },
+  {
+    name: 'UPI debit (SBI)',
+    example: 'Dear UPI user A/C X1234 debited by 450.0 on date 12Oct26 trf to SWIGGY Refno 612345678901',
+    pattern: new RegExp(String.raw`a\/?c\s*${ACCOUNT}\s+debited\s+by\s+${AMOUNT}\s+on\s+date\s+(?<date>\w+)\s+trf\s+to\s+(?<payee>.+?)\s+ref(?:\s*no)?\.?\s*(?<reference>\d+)?`, 'i'),
+    paymentMethod: 'UPI'
+  },
+  {
+    name: 'UPI debit (Axis)',
+    example: 'INR 450.00 debited A/c no. XX1234 12-10-26, 10:22:33 UPI/P2M/612345678901/SWIGGY',
+    pattern: new RegExp(String.raw`${RUPEES}${AMOUNT}\s+debited\s+a\/?c\s+no\.?\s*${ACCOUNT}\s+(?<date>[\d\/\-]+)[,\s]+[\d:]+\s+upi\/\w+\/(?<reference>\d+)\/(?<payee>[^\/\n]+)`, 'i'),
+    paymentMethod: 'UPI'
+  },
+  {
+    name: 'Card spend at a merchant',
+    example: 'Spent Rs.1,250.00 On HDFC Bank Card 1234 At AMAZON On 2026-10-12:10:22:33',
+    pattern: new RegExp(String.raw`spent\s+${RUPEES}${AMOUNT}\s+on\s+.*?card\s+(?:ending\s+)?${ACCOUNT}\s+at\s+(?<payee>.+?)\s+on\s+(?<date>\d{4}-\d{2}-\d{2}|[\d\/\-]+)`, 'i'),
+    paymentMethod: 'Card'
+  },
+  {
+    name: 'Card spend (ICICI)',
+    example: 'INR 1,250.00 spent using ICICI Bank Card XX1234 on 12-Oct-26 on AMAZON. Avl Limit: INR 48,750.00',
+    pattern: new RegExp(String.raw`${RUPEES}${AMOUNT}\s+spent\s+(?:using|on)\s+.*?card\s+(?:ending\s+)?${ACCOUNT}\s+on\s+(?<date>[\w\-\/]+)\s+(?:on|at)\s+(?<payee>.+?)(?=\.\s|\.?$)`, 'i'),
+    paymentMethod: 'Card'
+  }
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DEBIT_WORDS = /\b(debited|spent|sent|paid|withdrawn|purchase|payment of)\b/i;
+const CREDIT_WORDS = /\b(credited|received|deposited|refund(?:ed)?)\b/i;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// First date in a message, as YYYY-MM-DD - day first, as Indian banks write them ("12-10-26", "12Oct26",
+// "12 Oct 2026"), or ISO. Null when there is none or it isn't a real date
+const findDate = (text) => {
+  if (!text) return null;
+
+  let parts = null;
+  const iso = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const numeric = text.match(/\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})\b/);
+  const named = text.match(new RegExp(String.raw`\b(\d{1,2})[\s\-]?(${MONTHS.join('|')})[a-z]*[\s\-,]*(\d{2,4})\b`, 'i'));
+  if (iso) {
+    parts = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+  } else if (numeric) {
+    parts = { year: Number(numeric[3]), month: Number(numeric[2]), day: Number(numeric[1]) };
+  } else if (named) {
+    parts = { year: Number(named[3]), month: MONTHS.indexOf(named[2].toLowerCase()) + 1, day: Number(named[1]) };
+  }
+  if (!parts) return null;
+
+  const year = parts.year < 100 ? 2000 + parts.year : parts.year;
+  const date = new Date(year, parts.month - 1, parts.day);
+  if (date.getFullYear() !== year || date.getMonth() !== parts.month - 1 || date.getDate() !== parts.day) {
+    return null;
+  }
+  return `${year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+// Payment method a message's wording points to, or null
+const inferPaymentMethod = (text) => {
+  if (/\bupi\b|\bvpa\b|[\w.\-]+@[a-z]+/i.test(text)) return 'UPI';
+  if (/\bcard\b/i.test(text)) return 'Card';
+  if (/\b(neft|imps|rtgs|net ?banking)\b/i.test(text)) return 'Online';
+  return null;
+};
+
+// Split a user's format template into literal text and placeholder fields, checking it on the way
+// Returns { parts } (alternating { text } and { field }), or { error } with a message
+const parseTemplate = (template) => {
+  const source = String(template || '').trim();
+  if (!source) {
+    return { error: 'Pattern is required' };
+  }
+
+  const parts = [];
+  const used = new Set();
+  let skips = 0;
+  let end = 0;
+  for (const match of source.matchAll(PLACEHOLDER)) {
+    const field = match[1].trim().toLowerCase();
+    if (!TEMPLATE_FIELDS[field]) {
+      return { error: `Unknown field {${match[1]}} - use {amount}, {payee}, {account}, {date}, {reference} or {*}` };
+    }
+    if (field === '*') {
+      skips += 1;
+    } else if (used.has(field)) {
+      return { error: `{${field}} can only be used once` };
+    }
+    used.add(field);
+
+    const text = source.slice(end, match.index);
+    if (parts.length > 0 && !text) {
+      return { error: 'Put some text or a space between two fields' };
+    }
+    parts.push({ text }, { field });
+    end = match.index + match[0].length;
+  }
+  parts.push({ text: source.slice(end) });
+
+  if (!used.has('amount')) {
+    return { error: 'Pattern must include {amount}' };
+  }
+  if (skips > MAX_TEMPLATE_SKIPS) {
+    return { error: 'Pattern can use {*} only once' };
+  }
+  return { parts };
+};
+
+// Literal template text as an expression - any run of whitespace matches any other
+const toLiteral = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, String.raw`\s+`);
+
+// Compile a checked user's format template (case-insensitive)
+const compileTemplate = (template) => {
+  const { parts } = parseTemplate(template);
+  const source = parts.map((part, index) => {
+    if (part.field === undefined) return toLiteral(part.text);
+    const atEnd = index === parts.length - 2 && !parts[index + 1].text;
+    return part.field === 'payee' && atEnd ? LAST_PAYEE : TEMPLATE_FIELDS[part.field];
+  }).join('');
+  return new RegExp(source, 'i');
+};
+
+// Check a user's format template - it must name known fields and include {amount}
+// Returns an error message or null
+const validatePattern = (pattern) => parseTemplate(pattern).error || null;
+
+// Fields a matching format captures, cleaned up
+const readMatch = (match, text, paymentMethod) => {
+  const groups = match.groups || {};
+  const amount = parseFloat(String(groups.amount || '').replace(/,/g, ''));
+  if (!amount || isNaN(amount)) return null;
+
+  const payee = groups.payee ? groups.payee.trim().replace(/[.,]+$/, '') : null;
+  return {
+    amount,
+    currency: new RegExp(RUPEES, 'i').test(text) ? 'INR' : null,
+    payee: payee || null,
+    account: groups.account ? groups.account.replace(/^[x*]+/i, 'XX') : null, // Masked digits as XX
+    date: findDate(groups.date || ''),
+    reference: groups.reference || null,
+    paymentMethod: paymentMethod || inferPaymentMethod(text)
+  };
+};
+
+// Any debit message no format knows: the first rupee amount, plus whatever payee, account and date can be found
+const readUnknownFormat = (text) => {
+  const amount = text.match(new RegExp(RUPEES + AMOUNT, 'i'));
+  if (!amount) return null;
+
+  // A VPA names the payee best; otherwise whatever the money went "to" or was spent "at"
+  const payee = text.match(/(?<payee>[\w.\-]+@[a-z]+)\b/i)
+    || text.match(/\b(?:at|to)\s+(?<payee>[A-Za-z][\w&'.\- ]{1,40}?)(?=\s+(?:on|ref|via|using|from|for|avl|upi)\b|[.,]|$)/i);
+  const account = text.match(/\b(?:a\/?c|account|card)\.?\s*(?:no\.?\s*|ending\s*(?:with\s*)?)?(?<account>[x*]*\d{3,})/i);
+
+  const groups = {
+    amount: amount.groups.amount,
+    payee: payee ? payee.groups.payee : null,
+    account: account ? account.groups.account : null,
+    date: text
+  };
+  return readMatch({ groups }, text);
+};
+
+const normalizeMessage = (message) => String(message || '').slice(0, MAX_MESSAGE_LENGTH).replace(/\s+/g, ' ').trim();
+
+const getMessageType = (text) => (CREDIT_WORDS.test(text) && !DEBIT_WORDS.test(text) ? 'credit' : 'debit');
+
+// Read a message with one format - { type: 'debit' | 'credit', format, amount, currency, payee, account, date,
+// reference, paymentMethod }, or null when the format doesn't match it
+const matchFormat = (message, format) => {
+  const text = normalizeMessage(message);
+  const pattern = format.pattern instanceof RegExp ? format.pattern : compileTemplate(format.pattern);
+  const match = text.match(pattern);
+  const fields = match && readMatch(match, text, format.paymentMethod);
+  return fields ? { type: getMessageType(text), format: format.name, ...fields } : null;
+};
+
+// Read one message with the user's formats first (in order), then the built-in ones, then a best guess
+// (with `format` null). Null when no amount can be found
+const parseMessage = (message, formats = []) => {
+  const text = normalizeMessage(message);
+  if (!text) return null;
+
+  for (const format of [...formats, ...BUILT_IN_FORMATS]) {
+    const parsed = matchFormat(text, format);
+    if (parsed) return parsed;
+  }
+
+  const guessed = readUnknownFormat(text);
+  return guessed ? { type: getMessageType(text), format: null, ...guessed } : null;
+};
+
+module.exports = { BUILT_IN_FORMATS, MAX_MESSAGE_LENGTH, findDate, validatePattern, matchFormat, parseMessage };
@@ -0,0 +1,80 @@
+const normalizeTags = require('./normalizeTags');
+const { buildNearFilter } = require('./geo');
+
+// Query parameter given once or repeated (?category=Food&category=Bills) as a list
+const toList = (value) => {
+  return (Array.isArray(value) ? value : [value]).filter(Boolean).map(String);
+};
+
+// Build the Mongo filter for a user's expenses from list query parameters
+// (q, startDate, endDate, category, paymentMethod, minAmount, maxAmount, tags, tagMode, near, radius)
+// Returns { query }, or { error } with a message when a parameter is invalid
+const buildExpenseQuery = (userId, params) => {
+  const {
+    startDate, endDate, category, paymentMethod, minAmount, maxAmount, tags, tagMode, q, near, radius
+  } = params;
+  const query = { userId };
+  const conditions = [];
+
+  // Full-text search (see the text index on the expense model)
+  const search = typeof q === 'string' ? q.trim() : '';
+  if (search) {
+    query.$text = { $search: search };
+  }
+
+  // Filter by date range if provided
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) query.date.$gte = new Date(startDate);
+    if (endDate) query.date.$lte = new Date(endDate);
+  }
+
+  // Filter by categories if provided (including split expenses with a line item in one of them)
+  const categoryList = toList(category);
+  if (categoryList.length > 0) {
+    conditions.push({
+      $or: [{ category: { $in: categoryList } }, { 'lineItems.category': { $in: categoryList } }]
+    });
+  }
+
+  // Filter by payment methods if provided (repeated or comma-separated)
+  const paymentMethodList = toList(paymentMethod).flatMap(method => method.split(',')).filter(Boolean);
+  if (paymentMethodList.length > 0) {
+    query.paymentMethod = { $in: paymentMethodList };
+  }
+
+  // Filter by amount range if provided (in each expense's own currency)
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    const min = minAmount !== undefined ? Number(minAmount) : null;
+    const max = maxAmount !== undefined ? Number(maxAmount) : null;
+    if ((min !== null && isNaN(min)) || (max !== null && isNaN(max))) {
+      return { error: 'Amount range must be numeric' };
+    }
+    query.amount = {};
+    if (min !== null) query.amount.$gte = min;
+    if (max !== null) query.amount.$lte = max;
+  }
+
+  // Filter by tags if provided - any-of by default, all-of with tagMode=all
+  const tagList = normalizeTags(tags);
+  if (tagList.length > 0) {
+    query.tags = tagMode === 'all' ? { $all: tagList } : { $in: tagList };
+  }
+
+  // Filter by distance from a position if provided (radius in meters)
+  if (near) {
+    const { filter, error } = buildNearFilter(near, radius);
+    if (error) {
+      return { error };
+    }
+    query.location = filter;
+  }
+
+  if (conditions.length > 0) {
+    query.$and = conditions;
+  }
+
+  return { query };
+};
+
+module.exports = buildExpenseQuery;
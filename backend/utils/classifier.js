@@ -0,0 +1,80 @@
+// Category suggestions learned from the user's own history - a naive Bayes classifier over description
+// words, with each category, subcategory and payment method combination the user picked as one label
+
+const MIN_WORD_LENGTH = 2;
+
+const labelKey = ({ category, subcategory, paymentMethod }) => `${category}\u0000${subcategory || ''}\u0000${paymentMethod}`;
+
+// Lowercase words worth learning from (numbers like amounts and dates are left out)
+const tokenize = (text) => {
+  return String(text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= MIN_WORD_LENGTH && !/^\d+$/.test(word));
+};
+
+// Word counts per label from past expenses ({ description, category, subcategory, paymentMethod })
+const trainClassifier = (expenses) => {
+  const labels = new Map();
+  const vocabulary = new Set();
+  let total = 0;
+
+  expenses.forEach(expense => {
+    const words = tokenize(expense.description);
+    if (words.length === 0) return;
+
+    const key = labelKey(expense);
+    let label = labels.get(key);
+    if (!label) {
+      label = {
+        category: expense.category,
+        subcategory: expense.subcategory || null,
+        paymentMethod: expense.paymentMethod,
+        count: 0,
+        wordTotal: 0,
+        words: new Map()
+      };
+      labels.set(key, label);
+    }
+
+    label.count += 1;
+    total += 1;
+    words.forEach(word => {
+      label.words.set(word, (label.words.get(word) || 0) + 1);
+      label.wordTotal += 1;
+      vocabulary.add(word);
+    });
+  });
+
+  return { labels: [...labels.values()], vocabulary, total };
+};
+
+// Labels ranked by how likely they are for a description, as [{ category, subcategory, paymentMethod, confidence }]
+// with confidence the posterior probability (0-1). Empty when no word of the description was seen before.
+const classify = (model, description) => {
+  const words = tokenize(description).filter(word => model.vocabulary.has(word));
+  if (words.length === 0 || model.labels.length === 0) return [];
+
+  // Log posteriors with add-one smoothing, turned into probabilities with a stable softmax
+  const scores = model.labels.map(label => {
+    let score = Math.log(label.count / model.total);
+    words.forEach(word => {
+      score += Math.log(((label.words.get(word) || 0) + 1) / (label.wordTotal + model.vocabulary.size));
+    });
+    return score;
+  });
+  const best = Math.max(...scores);
+  const weights = scores.map(score => Math.exp(score - best));
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+
+  return model.labels
+    .map((label, index) => ({
+      category: label.category,
+      subcategory: label.subcategory,
+      paymentMethod: label.paymentMethod,
+      confidence: weights[index] / sum
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+module.exports = { tokenize, trainClassifier, classify };
@@ -0,0 +1,21 @@
+const sharp = require('sharp');
+
+const THUMBNAIL_WIDTH = 240;
+
+// Build a small JPEG preview of an uploaded image
+// Returns null for files that aren't images (e.g. PDFs) or that sharp can't decode
+const createThumbnail = async (file) => {
+  if (!file.mimetype.startsWith('image/')) return null;
+
+  try {
+    return await sharp(file.buffer)
+      .rotate() // Respect the camera's EXIF orientation
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = createThumbnail;
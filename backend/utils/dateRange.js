@@ -0,0 +1,53 @@
+// Relative date ranges for saved views, resolved against the current date each time a view runs
+
+// Financial year starting in April (Indian FY: 1 Apr - 31 Mar)
+const FINANCIAL_YEAR_START_MONTH = 3;
+
+const DATE_RANGES = [
+  'all', 'today', 'last7Days', 'last30Days', 'last90Days',
+  'thisMonth', 'lastMonth', 'thisQuarter', 'thisYear', 'thisFinancialYear', 'lastFinancialYear'
+];
+
+const endOfDay = (year, month, day) => new Date(year, month, day, 23, 59, 59, 999);
+
+// { startDate, endDate } for a range name on `now`, or null for 'all' or an unknown name
+const resolveDateRange = (range, now = new Date()) => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+  const financialYear = month >= FINANCIAL_YEAR_START_MONTH ? year : year - 1;
+  const quarterStart = month - (month % 3);
+
+  switch (range) {
+    case 'today':
+      return { startDate: new Date(year, month, day), endDate: endOfDay(year, month, day) };
+    case 'last7Days':
+      return { startDate: new Date(year, month, day - 6), endDate: endOfDay(year, month, day) };
+    case 'last30Days':
+      return { startDate: new Date(year, month, day - 29), endDate: endOfDay(year, month, day) };
+    case 'last90Days':
+      return { startDate: new Date(year, month, day - 89), endDate: endOfDay(year, month, day) };
+    case 'thisMonth':
+      return { startDate: new Date(year, month, 1), endDate: endOfDay(year, month + 1, 0) };
+    case 'lastMonth':
+      return { startDate: new Date(year, month - 1, 1), endDate: endOfDay(year, month, 0) };
+    case 'thisQuarter':
+      return { startDate: new Date(year, quarterStart, 1), endDate: endOfDay(year, quarterStart + 3, 0) };
+    case 'thisYear':
+      return { startDate: new Date(year, 0, 1), endDate: endOfDay(year, 11, 31) };
+    case 'thisFinancialYear':
+      return {
+        startDate: new Date(financialYear, FINANCIAL_YEAR_START_MONTH, 1),
+        endDate: endOfDay(financialYear + 1, FINANCIAL_YEAR_START_MONTH, 0)
+      };
+    case 'lastFinancialYear':
+      return {
+        startDate: new Date(financialYear - 1, FINANCIAL_YEAR_START_MONTH, 1),
+        endDate: endOfDay(financialYear, FINANCIAL_YEAR_START_MONTH, 0)
+      };
+    default:
+      return null;
+  }
+};
+
+module.exports = { DATE_RANGES, resolveDateRange };
@@ -0,0 +1,112 @@
+// Duplicate expense detection - near-identical expenses from double taps and offline sync retries
+const Expense = require('../models/expense.model');
+
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000; // Same details within 10 minutes
+const SIMILAR_DESCRIPTION_WINDOW_MS = 24 * 60 * 60 * 1000; // Similar description within a day
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+const MAX_CANDIDATES = 50;
+
+const getWords = (text) => {
+  return new Set(String(text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+};
+
+// Descriptions sharing at least half of their words, e.g. "Swiggy dinner" and "swiggy dinner order"
+const isSimilarDescription = (a, b) => {
+  const wordsA = getWords(a);
+  const wordsB = getWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size >= MIN_DESCRIPTION_SIMILARITY;
+};
+
+const getGap = (a, b) => (a && b ? Math.abs(new Date(a) - new Date(b)) : Infinity);
+
+// Same calendar day (dates from the app are saved as midnight UTC)
+const isSameDay = (a, b) => new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+
+// Why `b` looks like a repeat of `a`, or null: 'sameDetails' for the same amount, category and payment
+// method close together (or added close together for the same day - back-entered expenses of other days
+// aren't repeats), 'similarDescription' for the same amount and merchant or a similar description on the same day
+// Expenses saved without a currency are in the home currency
+const getDuplicateReason = (a, b, homeCurrency) => {
+  if (Math.abs(a.amount - b.amount) >= 0.005 || (a.currency || homeCurrency) !== (b.currency || homeCurrency)) return null;
+
+  const dateGap = getGap(a.date, b.date);
+  const sameDetails = a.category === b.category && a.paymentMethod === b.paymentMethod;
+  const addedTogether = getGap(a.createdAt, b.createdAt) <= DUPLICATE_WINDOW_MS && isSameDay(a.date, b.date);
+  if (sameDetails && (dateGap <= DUPLICATE_WINDOW_MS || addedTogether)) {
+    return 'sameDetails';
+  }
+
+  const sameMerchant = a.merchantId && b.merchantId && String(a.merchantId) === String(b.merchantId);
+  if (dateGap <= SIMILAR_DESCRIPTION_WINDOW_MS && (sameMerchant || isSimilarDescription(a.description, b.description))) {
+    return 'similarDescription';
+  }
+
+  return null;
+};
+
+// Existing expense that a new one (not saved yet) probably repeats, as { expense, reason }, or null
+const findPossibleDuplicate = async (userId, candidate, homeCurrency) => {
+  const now = new Date();
+  const date = new Date(candidate.date);
+  const nearby = await Expense.find({
+    userId,
+    amount: candidate.amount,
+    $or: [
+      { date: { $gte: new Date(date - SIMILAR_DESCRIPTION_WINDOW_MS), $lte: new Date(+date + SIMILAR_DESCRIPTION_WINDOW_MS) } },
+      { createdAt: { $gte: new Date(now - DUPLICATE_WINDOW_MS) } }
+    ]
+  }).sort({ createdAt: -1 }).limit(MAX_CANDIDATES);
+
+  for (const expense of nearby) {
+    const reason = getDuplicateReason(expense, { ...candidate, createdAt: now }, homeCurrency);
+    if (reason) return { expense, reason };
+  }
+  return null;
+};
+
+// Groups of likely duplicates among expenses sorted oldest first, as [{ reason, expenses }]
+// Each expense joins the group of the latest earlier expense of the same amount it repeats
+const clusterDuplicates = (expenses, homeCurrency) => {
+  const clusters = [];
+  const clusterOf = new Map();
+  const byAmount = new Map();
+
+  expenses.forEach(exp => {
+    const key = `${exp.currency || homeCurrency}:${exp.amount}`;
+    const sameAmount = byAmount.get(key) || [];
+
+    // Only the last day's worth of earlier expenses can match on date
+    let match = null;
+    let reason = null;
+    for (let i = sameAmount.length - 1; i >= 0; i--) {
+      const other = sameAmount[i];
+      if (getGap(other.date, exp.date) > SIMILAR_DESCRIPTION_WINDOW_MS) break;
+      reason = getDuplicateReason(other, exp, homeCurrency);
+      if (reason) {
+        match = other;
+        break;
+      }
+    }
+
+    if (match) {
+      let cluster = clusterOf.get(match);
+      if (!cluster) {
+        cluster = { reason, expenses: [match] };
+        clusters.push(cluster);
+        clusterOf.set(match, cluster);
+      }
+      cluster.expenses.push(exp);
+      clusterOf.set(exp, cluster);
+    }
+
+    sameAmount.push(exp);
+    byAmount.set(key, sameAmount);
+  });
+
+  return clusters;
+};
+
+module.exports = { findPossibleDuplicate, clusterDuplicates };
@@ -0,0 +1,108 @@
+// Expense change history - field-level revisions recorded on every create, update, delete and restore
+const Expense = require('../models/expense.model');
+const ExpenseRevision = require('../models/expenseRevision.model');
+
+// Fields whose changes are recorded and can be reverted
+const TRACKED_FIELDS = [
+  'amount', 'currency', 'category', 'subcategory', 'paymentMethod', 'description', 'date', 'tags', 'lineItems',
+  'merchantId', 'location', 'place', 'reimbursable', 'reimbursementStatus', 'payeeVpa'
+];
+
+const MAX_SOURCE_LENGTH = 120;
+
+// JSON form of a field value, so documents and plain objects compare alike (dates become ISO strings)
+const toJSONValue = (value) => {
+  return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+};
+
+const isEmpty = (value) => value === null || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Client and device that sent the request, from the X-Client / X-Device headers the app sets
+const getSource = (req) => {
+  const client = req.get('X-Client');
+  const device = req.get('X-Device') || req.get('User-Agent');
+  return {
+    client: client ? client.slice(0, MAX_SOURCE_LENGTH) : 'api',
+    device: device ? device.slice(0, MAX_SOURCE_LENGTH) : undefined
+  };
+};
+
+// Changed tracked fields between two versions of an expense (`before` is null for a new expense)
+const diffExpense = (before, after) => {
+  return TRACKED_FIELDS.reduce((changes, field) => {
+    const from = before ? toJSONValue(before[field]) : null;
+    const to = toJSONValue(after[field]);
+    if (!before && isEmpty(to)) return changes;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+    return changes;
+  }, []);
+};
+
+// Revision for one change to `expense` - `before` is its previous version for updates and reverts
+const buildRevision = (action, expense, before, source, extra = {}) => ({
+  expenseId: expense._id,
+  userId: expense.userId,
+  action,
+  changes: ['create', 'update', 'revert'].includes(action) ? diffExpense(before, expense) : [],
+  ...source,
+  ...extra
+});
+
+// Save revisions, skipping updates that didn't change a tracked field
+const recordRevisions = async (revisions) => {
+  const meaningful = revisions.filter(rev => rev.changes.length > 0 || !['update', 'revert'].includes(rev.action));
+  if (meaningful.length > 0) {
+    await ExpenseRevision.insertMany(meaningful);
+  }
+};
+
+const recordRevision = (action, expense, before, source, extra) => {
+  return recordRevisions([buildRevision(action, expense, before, source, extra)]);
+};
+
+// Update every expense matching `filter`, trashed ones included, for a change the server makes on its own - a
+// category renamed or merged, a merchant merged or deleted, a claim's status - with an update revision from
+// `source` (e.g. { client: 'categories' }) on each one it changed. Resolves to the updateMany result
+const updateExpensesWithHistory = async (filter, update, source, options = {}) => {
+  const findAll = (query) => Promise.all([
+    Expense.find(query),
+    Expense.find({ ...query, deletedAt: { $ne: null } })
+  ]).then(([active, trashed]) => [...active, ...trashed]);
+
+  const before = await findAll(filter);
+  const result = await Expense.updateMany(filter, update, options);
+  const after = await findAll({ _id: { $in: before.map(expense => expense._id) } });
+  const previous = new Map(before.map(expense => [String(expense._id), expense]));
+  await recordRevisions(after.map(expense => buildRevision('update', expense, previous.get(String(expense._id)), source)));
+  return result;
+};
+
+// Tracked field values the expense had right after `revision`, found by undoing every later revision
+const getFieldsAt = async (expense, revision) => {
+  const fields = {};
+  TRACKED_FIELDS.forEach(field => { fields[field] = toJSONValue(expense[field]); });
+
+  const later = await ExpenseRevision.find({
+    expenseId: expense._id,
+    userId: expense.userId,
+    _id: { $gt: revision._id }
+  }).sort({ _id: -1 });
+
+  later.forEach(rev => {
+    rev.changes.forEach(change => { fields[change.field] = change.from; });
+  });
+  return fields;
+};
+
+module.exports = {
+  TRACKED_FIELDS,
+  getSource,
+  diffExpense,
+  recordRevision,
+  recordRevisions,
+  buildRevision,
+  updateExpensesWithHistory,
+  getFieldsAt
+};
@@ -0,0 +1,64 @@
+const Expense = require('../models/expense.model');
+const buildExpenseQuery = require('./buildExpenseQuery');
+const { encodeCursor, decodeCursor, encodeOffsetCursor, decodeOffsetCursor } = require('./pageCursor');
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const SORT_FIELDS = ['date', 'amount', 'createdAt'];
+
+// One page of a user's expenses for list query parameters (filters as in buildExpenseQuery,
+// plus sort, order, cursor and limit) - newest first unless `sort`/`order` say otherwise,
+// best matches first when searching with `q` and no other sort
+// Returns { expenses, hasMore, nextCursor }, or { error } with a message when a parameter is invalid
+const findExpensePage = async (userId, params) => {
+  const { sort, order, cursor } = params;
+
+  if (sort !== undefined && sort !== 'relevance' && !SORT_FIELDS.includes(sort)) {
+    return { error: `Sort must be one of relevance, ${SORT_FIELDS.join(', ')}` };
+  }
+
+  const { query, error } = buildExpenseQuery(userId, params);
+  if (error) {
+    return { error };
+  }
+
+  const byRelevance = !!query.$text && (sort === undefined || sort === 'relevance');
+  const sortField = SORT_FIELDS.includes(sort) ? sort : 'date';
+  const direction = order === 'asc' ? 1 : -1;
+
+  // Continue after the last expense of the previous page
+  let offset = 0;
+  if (cursor) {
+    const afterCursor = byRelevance ? decodeOffsetCursor(cursor) : decodeCursor(cursor, sortField, direction);
+    if (afterCursor === null) {
+      return { error: 'Invalid cursor' };
+    }
+    if (byRelevance) {
+      offset = afterCursor;
+    } else {
+      query.$and = [...(query.$and || []), afterCursor];
+    }
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  // _id breaks ties between expenses with the same sort value so pages never overlap or skip
+  // One extra expense is fetched to tell whether another page follows
+  const sortOrder = byRelevance
+    ? { score: { $meta: 'textScore' }, date: -1, _id: -1 }
+    : { [sortField]: direction, _id: direction };
+  const expenses = await Expense.find(query).sort(sortOrder).skip(offset).limit(limit + 1);
+  const hasMore = expenses.length > limit;
+  const page = hasMore ? expenses.slice(0, limit) : expenses;
+
+  let nextCursor = null;
+  if (hasMore) {
+    nextCursor = byRelevance
+      ? encodeOffsetCursor(offset + limit)
+      : encodeCursor(page[page.length - 1], sortField);
+  }
+
+  return { expenses: page, hasMore, nextCursor };
+};
+
+module.exports = findExpensePage;
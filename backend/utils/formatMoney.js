@@ -0,0 +1,12 @@
+const SYMBOLS = {
+  INR: '₹', USD: '$', EUR: '€', GBP: '£', JPY: '¥', CNY: '¥',
+  AED: 'AED ', SGD: 'S$', AUD: 'A$', CAD: 'C$', THB: '฿', LKR: 'Rs '
+};
+
+// Format an amount with its currency symbol (or ISO code), e.g. ₹1200.00 or CHF 15.00
+const formatMoney = (amount, currency = 'INR') => {
+  const prefix = SYMBOLS[currency] || `${currency} `;
+  return `${prefix}${amount.toFixed(2)}`;
+};
+
+module.exports = formatMoney;
@@ -0,0 +1,67 @@
+const RecurringExpense = require('../models/recurringExpense.model');
+const Expense = require('../models/expense.model');
+const getBudgetWarning = require('./getBudgetWarning');
+const getConverter = require('./getConverter');
+const { getNextOccurrence } = require('./recurrence');
+const { recordRevision } = require('./expenseHistory');
+
+// Occurrences materialized per recurring expense in one run - any further ones are left for the next run
+const MAX_OCCURRENCES_PER_RUN = 60;
+
+// Materialize the due occurrences of the user's active recurring expenses (up to MAX_OCCURRENCES_PER_RUN each)
+// Returns the created expenses, each with the budget warning it triggered (if any)
+const generateRecurringExpenses = async (userId, now = new Date()) => {
+  const due = await RecurringExpense.find({
+    userId,
+    paused: false,
+    nextDate: { $lte: now }
+  });
+
+  // Runs before every list and stats request (see middleware/recurring.middleware), so usually nothing is due
+  if (due.length === 0) return [];
+
+  const created = [];
+  const { homeCurrency, convert } = await getConverter(userId);
+
+  for (const recurring of due) {
+    let count = 0;
+    while (
+      count < MAX_OCCURRENCES_PER_RUN
+      && recurring.nextDate <= now
+      && (!recurring.endDate || recurring.nextDate <= recurring.endDate)
+    ) {
+      count += 1;
+      const occurrenceDate = recurring.nextDate;
+      const currency = recurring.currency || homeCurrency;
+      const budgetWarning = await getBudgetWarning(userId, occurrenceDate, convert(recurring.amount, currency));
+
+      try {
+        const expense = await Expense.create({
+          userId,
+          amount: recurring.amount,
+          currency,
+          category: recurring.category,
+          subcategory: recurring.subcategory,
+          paymentMethod: recurring.paymentMethod,
+          description: recurring.description,
+          tags: recurring.tags,
+          date: occurrenceDate,
+          recurringId: recurring._id
+        });
+        await recordRevision('create', expense, null, { client: 'recurring' });
+        created.push({ expense, budgetWarning });
+      } catch (error) {
+        // Already materialized by a concurrent run - just move on
+        if (error.code !== 11000) throw error;
+      }
+
+      recurring.nextDate = getNextOccurrence(recurring, occurrenceDate);
+    }
+
+    await recurring.save();
+  }
+
+  return created;
+};
+
+module.exports = generateRecurringExpenses;
@@ -0,0 +1,107 @@
+// Geo helpers for expense locations, stored as GeoJSON points ([longitude, latitude])
+
+const EARTH_RADIUS_METERS = 6378100;
+const DEFAULT_NEAR_RADIUS = 1000;
+const MAX_NEAR_RADIUS = 50000;
+const DEFAULT_PLACE_RADIUS = 200;
+
+const isValidPosition = (longitude, latitude) => {
+  return Number.isFinite(longitude) && Number.isFinite(latitude)
+    && Math.abs(longitude) <= 180 && Math.abs(latitude) <= 90;
+};
+
+// GeoJSON point for a location from a request - a GeoJSON point or { latitude, longitude }
+// Returns { point } (null to clear the location), or { error } with a message
+const toGeoPoint = (location) => {
+  if (location === null) return { point: null };
+
+  const [longitude, latitude] = Array.isArray(location?.coordinates)
+    ? location.coordinates.map(Number)
+    : [Number(location?.longitude), Number(location?.latitude)];
+  if (!isValidPosition(longitude, latitude)) {
+    return { error: 'Location needs a valid latitude and longitude' };
+  }
+
+  return { point: { type: 'Point', coordinates: [longitude, latitude] } };
+};
+
+// Filter for expenses within `radius` meters of `near` ("latitude,longitude")
+// Returns { filter }, or { error } with a message
+const buildNearFilter = (near, radius) => {
+  const [latitude, longitude] = String(near).split(',').map(Number);
+  if (!isValidPosition(longitude, latitude)) {
+    return { error: 'Near must be "latitude,longitude"' };
+  }
+
+  const meters = radius !== undefined ? Number(radius) : DEFAULT_NEAR_RADIUS;
+  if (!(meters > 0 && meters <= MAX_NEAR_RADIUS)) {
+    return { error: `Radius must be between 1 and ${MAX_NEAR_RADIUS} meters` };
+  }
+
+  // $geoWithin rather than $near keeps the list's own sort order and cursors working
+  return {
+    filter: { $geoWithin: { $centerSphere: [[longitude, latitude], meters / EARTH_RADIUS_METERS] } }
+  };
+};
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters between two [longitude, latitude] positions
+const distanceInMeters = ([lng1, lat1], [lng2, lat2]) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Most common place label among expenses, or null
+const getCommonLabel = (expenses) => {
+  const counts = expenses.reduce((acc, exp) => {
+    if (exp.place) acc.set(exp.place, (acc.get(exp.place) || 0) + 1);
+    return acc;
+  }, new Map());
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || null;
+};
+
+// Group expenses into places: a located expense joins the first place whose centre is within
+// `radius` meters (the centre then moves to the average position), and one with only a place label
+// joins a place with the same label. Returns [{ label, center, expenses }], center null for label-only places
+const clusterByPlace = (expenses, radius = DEFAULT_PLACE_RADIUS) => {
+  const places = [];
+
+  expenses.filter(exp => exp.location?.coordinates?.length === 2).forEach(exp => {
+    const position = exp.location.coordinates;
+    const place = places.find(item => distanceInMeters(item.center, position) <= radius);
+    if (place) {
+      const count = place.expenses.push(exp);
+      place.center = [
+        place.center[0] + (position[0] - place.center[0]) / count,
+        place.center[1] + (position[1] - place.center[1]) / count
+      ];
+    } else {
+      places.push({ center: [...position], expenses: [exp] });
+    }
+  });
+  places.forEach(place => { place.label = getCommonLabel(place.expenses); });
+
+  expenses.filter(exp => !exp.location?.coordinates?.length && exp.place).forEach(exp => {
+    const key = exp.place.toLowerCase();
+    const place = places.find(item => item.label && item.label.toLowerCase() === key);
+    if (place) {
+      place.expenses.push(exp);
+    } else {
+      places.push({ label: exp.place, center: null, expenses: [exp] });
+    }
+  });
+
+  return places;
+};
+
+module.exports = {
+  DEFAULT_PLACE_RADIUS,
+  toGeoPoint,
+  buildNearFilter,
+  distanceInMeters,
+  clusterByPlace
+};
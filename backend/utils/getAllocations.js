@@ -0,0 +1,19 @@
+// Split an expense into the amounts it contributes to each category
+// A split expense contributes each of its line items; otherwise the whole amount goes to its category
+const getAllocations = (expense) => {
+  if (expense.lineItems && expense.lineItems.length > 0) {
+    return expense.lineItems.map(item => ({
+      category: item.category,
+      subcategory: item.subcategory || null,
+      amount: item.amount
+    }));
+  }
+
+  return [{
+    category: expense.category,
+    subcategory: expense.subcategory || null,
+    amount: expense.amount
+  }];
+};
+
+module.exports = getAllocations;
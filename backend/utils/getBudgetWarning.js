@@ -0,0 +1,56 @@
+const Budget = require('../models/budget.model');
+const getMonthSpending = require('./getMonthSpending');
+const formatMoney = require('./formatMoney');
+
+// Build a budget warning for adding `amount` (in the home currency) on `date` to the user's spending
+// Returns null when there is no budget for that month, it leaves out a `reimbursable` expense, or no threshold is crossed
+const getBudgetWarning = async (userId, date, amount, reimbursable = false) => {
+  const month = date.getMonth() + 1;
+  const year = date.getFullYear();
+  const budget = await Budget.findOne({ userId, month, year });
+
+  if (!budget) return null;
+  if (reimbursable && budget.excludeReimbursable) return null;
+
+  // Calculate current spending including this new expense
+  const { currentSpending, currency } = await getMonthSpending(userId, year, month, budget.excludeReimbursable);
+  const money = (value) => formatMoney(value, currency);
+  const newTotal = currentSpending + amount;
+  const remaining = budget.amount - newTotal;
+  const isOverBudget = newTotal > budget.amount;
+  const percentageUsed = (newTotal / budget.amount) * 100;
+
+  // Show warning at different thresholds
+  if (isOverBudget) {
+    return {
+      message: `⚠️ Budget exceeded! You've spent ${money(newTotal)} of ${money(budget.amount)} (${percentageUsed.toFixed(1)}%)\n\nYou are ${money(Math.abs(remaining))} over your budget limit.`,
+      isOverBudget: true,
+      remaining: remaining
+    };
+  } else if (remaining < budget.amount * 0.05) {
+    // Warn when less than 5% remaining
+    return {
+      message: `⚠️ Budget almost exhausted! Only ${money(remaining)} remaining (${(100 - percentageUsed).toFixed(1)}% left)`,
+      isOverBudget: false,
+      remaining: remaining
+    };
+  } else if (remaining < budget.amount * 0.1) {
+    // Warn when less than 10% remaining
+    return {
+      message: `⚠️ Budget running low! Only ${money(remaining)} remaining (${(100 - percentageUsed).toFixed(1)}% left)`,
+      isOverBudget: false,
+      remaining: remaining
+    };
+  } else if (percentageUsed >= 0.75) {
+    // Warn when 75% or more used
+    return {
+      message: `💡 Budget alert: You've used ${percentageUsed.toFixed(1)}% of your budget. ${money(remaining)} remaining.`,
+      isOverBudget: false,
+      remaining: remaining
+    };
+  }
+
+  return null;
+};
+
+module.exports = getBudgetWarning;
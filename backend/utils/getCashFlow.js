@@ -0,0 +1,59 @@
+const Expense = require('../models/expense.model');
+const Income = require('../models/income.model');
+const getConverter = require('./getConverter');
+
+// Income vs expenses for each of the last `months` calendar months (oldest first), in the home currency
+// savingsRate is the share of income kept, or null for months without income
+// With `excludeReimbursable`, expenses that will be paid back are left out
+const getCashFlow = async (userId, months = 6, excludeReimbursable = false) => {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+  const { homeCurrency, convert } = await getConverter(userId);
+
+  const buckets = [];
+  for (let i = 0; i < months; i++) {
+    const monthStart = new Date(start.getFullYear(), start.getMonth() + i, 1);
+    buckets.push({
+      year: monthStart.getFullYear(),
+      month: monthStart.getMonth() + 1,
+      income: 0,
+      expenses: 0,
+      incomeCount: 0,
+      expenseCount: 0
+    });
+  }
+
+  const bucketFor = (date) => {
+    const d = new Date(date);
+    return buckets[(d.getFullYear() - start.getFullYear()) * 12 + d.getMonth() - start.getMonth()];
+  };
+
+  const expenseQuery = { userId, date: { $gte: start } };
+  if (excludeReimbursable) expenseQuery.reimbursable = { $ne: true };
+  const expenses = await Expense.find(expenseQuery).select('amount currency date');
+  expenses.forEach(expense => {
+    const bucket = bucketFor(expense.date);
+    if (!bucket) return; // Dated in the future
+    bucket.expenses += convert(expense.amount, expense.currency || homeCurrency);
+    bucket.expenseCount += 1;
+  });
+
+  const incomes = await Income.find({ userId, date: { $gte: start } }).select('amount currency date');
+  incomes.forEach(income => {
+    const bucket = bucketFor(income.date);
+    if (!bucket) return;
+    bucket.income += convert(income.amount, income.currency || homeCurrency);
+    bucket.incomeCount += 1;
+  });
+
+  return buckets.map(bucket => {
+    const net = bucket.income - bucket.expenses;
+    return {
+      ...bucket,
+      net,
+      savingsRate: bucket.income > 0 ? (net / bucket.income) * 100 : null
+    };
+  });
+};
+
+module.exports = getCashFlow;
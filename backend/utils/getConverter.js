@@ -0,0 +1,33 @@
+const User = require('../models/user.model');
+const ExchangeRate = require('../models/exchangeRate.model');
+
+// Load the user's home currency and rates table, for converting amounts into the home currency
+// Amounts in a currency without a rate are left as they are
+const getConverter = async (userId) => {
+  const user = await User.findById(userId).select('homeCurrency');
+  const homeCurrency = user?.homeCurrency || 'INR';
+  const rates = await ExchangeRate.find({ userId });
+  const rateMap = new Map(rates.map(rate => [rate.currency, rate.rate]));
+
+  const convert = (amount, currency) => {
+    if (!currency || currency === homeCurrency || !rateMap.has(currency)) return amount;
+    return amount * rateMap.get(currency);
+  };
+
+  // Plain copy of an expense with its amounts in the home currency (original kept in `originalAmount`)
+  const convertExpense = (expense) => {
+    const data = typeof expense.toObject === 'function' ? expense.toObject() : { ...expense };
+    const currency = data.currency || homeCurrency;
+    return {
+      ...data,
+      currency,
+      originalAmount: data.amount,
+      amount: convert(data.amount, currency),
+      lineItems: (data.lineItems || []).map(item => ({ ...item, amount: convert(item.amount, currency) }))
+    };
+  };
+
+  return { homeCurrency, convert, convertExpense };
+};
+
+module.exports = getConverter;
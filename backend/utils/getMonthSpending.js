@@ -0,0 +1,35 @@
+const Expense = require('../models/expense.model');
+const getAllocations = require('./getAllocations');
+const getConverter = require('./getConverter');
+
+// Total spending for a month in the home currency, plus how it splits across categories
+// (line items count separately) and how much of it will be paid back
+// With `excludeReimbursable`, reimbursable expenses are left out of the spending and the split
+const getMonthSpending = async (userId, year, month, excludeReimbursable = false) => {
+  const startOfMonth = new Date(year, month - 1, 1);
+  const endOfMonth = new Date(year, month, 0, 23, 59, 59);
+
+  const { homeCurrency, convertExpense } = await getConverter(userId);
+  const expenses = (await Expense.find({
+    userId,
+    date: { $gte: startOfMonth, $lte: endOfMonth }
+  })).map(convertExpense);
+
+  const reimbursableSpending = expenses
+    .filter(exp => exp.reimbursable)
+    .reduce((sum, exp) => sum + exp.amount, 0);
+  const counted = excludeReimbursable ? expenses.filter(exp => !exp.reimbursable) : expenses;
+  const currentSpending = counted.reduce((sum, exp) => sum + exp.amount, 0);
+
+  const totals = {};
+  counted.flatMap(getAllocations).forEach(allocation => {
+    totals[allocation.category] = (totals[allocation.category] || 0) + allocation.amount;
+  });
+  const categorySpending = Object.entries(totals)
+    .map(([category, total]) => ({ category, total }))
+    .sort((a, b) => b.total - a.total);
+
+  return { currentSpending, categorySpending, reimbursableSpending, currency: homeCurrency };
+};
+
+module.exports = getMonthSpending;
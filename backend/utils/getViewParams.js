@@ -0,0 +1,29 @@
+const { resolveDateRange } = require('./dateRange');
+
+// Expense list query parameters (as taken by buildExpenseQuery/findExpensePage) for a saved view,
+// with its relative date range resolved to dates as of now
+const getViewParams = (view) => {
+  const params = {
+    q: view.q || undefined,
+    category: view.categories,
+    paymentMethod: view.paymentMethods,
+    tags: view.tags,
+    tagMode: view.tagMode,
+    sort: view.sort,
+    order: view.order
+  };
+
+  // Unset amounts are null on documents but must be left out of the query
+  if (view.minAmount !== undefined && view.minAmount !== null) params.minAmount = view.minAmount;
+  if (view.maxAmount !== undefined && view.maxAmount !== null) params.maxAmount = view.maxAmount;
+
+  const range = resolveDateRange(view.dateRange);
+  if (range) {
+    params.startDate = range.startDate;
+    params.endDate = range.endDate;
+  }
+
+  return params;
+};
+
+module.exports = getViewParams;
@@ -0,0 +1,15 @@
+// Matching key for a merchant name or alias: lowercase words without punctuation, and without the
+// reference card statements add after "*" - "SWIGGY*BLR", "Swiggy" and "swiggy." all become "swiggy"
+const normalizeMerchantName = (name) => {
+  if (!name) return '';
+
+  const text = String(name);
+  const base = text.split('*')[0].trim() || text;
+
+  return base
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+};
+
+module.exports = normalizeMerchantName;
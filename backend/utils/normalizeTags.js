@@ -0,0 +1,15 @@
+// Normalize user-entered tags: trimmed, lowercase, hyphenated and de-duplicated
+const normalizeTags = (tags) => {
+  if (!tags) return [];
+
+  // Accept either an array or a comma-separated string
+  const list = Array.isArray(tags) ? tags : String(tags).split(',');
+
+  const normalized = list
+    .map(tag => String(tag).trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(tag => tag.length > 0);
+
+  return [...new Set(normalized)];
+};
+
+module.exports = normalizeTags;
@@ -0,0 +1,56 @@
+// Opaque cursors for paginating lists sorted by a field (date by default) with _id breaking ties
+// Lists sorted by text search relevance use offset cursors instead, since the score can't be range-filtered
+const mongoose = require('mongoose');
+
+const DATE_FIELDS = ['date', 'createdAt'];
+
+// Cursor pointing just past `doc` in a list sorted by `field`
+const encodeCursor = (doc, field = 'date') => {
+  const value = DATE_FIELDS.includes(field) ? doc[field].toISOString() : doc[field];
+  const payload = JSON.stringify({ field, value, id: doc._id.toString() });
+  return Buffer.from(payload).toString('base64url');
+};
+
+// Query condition for the documents after the cursor in a list sorted by `field`
+// (`direction` -1 for descending, 1 for ascending), or null when the cursor is malformed or for another sort
+const decodeCursor = (cursor, field = 'date', direction = -1) => {
+  try {
+    const payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (payload.field !== field || !mongoose.Types.ObjectId.isValid(payload.id)) {
+      return null;
+    }
+
+    const value = DATE_FIELDS.includes(field) ? new Date(payload.value) : Number(payload.value);
+    if (isNaN(value instanceof Date ? value.getTime() : value)) {
+      return null;
+    }
+
+    const operator = direction === 1 ? '$gt' : '$lt';
+    const cursorId = new mongoose.Types.ObjectId(payload.id);
+    return {
+      $or: [
+        { [field]: { [operator]: value } },
+        { [field]: value, _id: { [operator]: cursorId } }
+      ]
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Cursor for the page starting at `offset`
+const encodeOffsetCursor = (offset) => {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+};
+
+// Offset the cursor points to, or null when the cursor is malformed
+const decodeOffsetCursor = (cursor) => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = { encodeCursor, decodeCursor, encodeOffsetCursor, decodeOffsetCursor };
@@ -0,0 +1,65 @@
+// UPI payees - guessing what a payment to a UPI ID (VPA, e.g. "swiggy@icici") is for from the user's past
+// payments to it
+const Expense = require('../models/expense.model');
+const Merchant = require('../models/merchant.model');
+
+const VPA = /^[\w.\-]+@[\w.\-]+$/;
+const MAX_PAYEE_HISTORY = 50;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// UPI ID in lowercase, or null when it isn't one
+const normalizeVpa = (value) => {
+  const vpa = String(value || '').trim().toLowerCase();
+  return VPA.test(vpa) ? vpa : null;
+};
+
+// Category, subcategory and merchant of earlier payments to a UPI ID - paid to it (`payeeVpa`), or saved with
+// it as the description, as read from a pasted SMS. The most used category wins, ties going to the latest
+// Without any, a merchant named after the UPI ID or its handle ("swiggy" in swiggy@icici) gives its defaults
+// Resolves to { category, subcategory, merchant, count } (count of earlier payments), or null
+const guessFromPayee = async (userId, vpa) => {
+  const history = await Expense.find({
+    userId,
+    $or: [
+      { payeeVpa: vpa },
+      { description: new RegExp(`^${escapeRegExp(vpa)}$`, 'i') }
+    ]
+  })
+    .select('category subcategory merchantId date')
+    .sort({ date: -1 })
+    .limit(MAX_PAYEE_HISTORY);
+
+  if (history.length > 0) {
+    // History is newest first, so the first of the most used categories is the latest
+    const counts = new Map();
+    history.forEach(expense => {
+      const key = `${expense.category}/${expense.subcategory || ''}`;
+      const entry = counts.get(key) || { category: expense.category, subcategory: expense.subcategory || null, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+    const best = [...counts.values()].reduce((top, entry) => (entry.count > top.count ? entry : top));
+    const linked = history.find(expense => expense.merchantId);
+    const merchant = linked ? await Merchant.findOne({ _id: linked.merchantId, userId }) : null;
+
+    return {
+      category: best.category,
+      subcategory: best.subcategory,
+      merchant: merchant ? merchant.name : null,
+      count: history.length
+    };
+  }
+
+  const merchant = await Merchant.findByName(userId, vpa) || await Merchant.findByName(userId, vpa.split('@')[0]);
+  if (!merchant) return null;
+
+  return {
+    category: merchant.defaultCategory || null,
+    subcategory: merchant.defaultCategory ? merchant.defaultSubcategory || null : null,
+    merchant: merchant.name,
+    count: 0
+  };
+};
+
+module.exports = { normalizeVpa, guessFromPayee };
@@ -0,0 +1,57 @@
+// Date helpers for recurring expense schedules
+
+const daysInMonth = (year, month) => new Date(year, month + 1, 0).getDate();
+
+// Date in the given month on `day`, clamped to the month's length (e.g. 31 -> 30 Apr)
+const onDayOfMonth = (year, month, day) => {
+  return new Date(year, month, Math.min(day, daysInMonth(year, month)));
+};
+
+// First occurrence on or after `fromDate`
+const getFirstOccurrence = (schedule, fromDate) => {
+  const start = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate());
+
+  if (schedule.frequency === 'monthly' && schedule.dayOfMonth) {
+    const candidate = onDayOfMonth(start.getFullYear(), start.getMonth(), schedule.dayOfMonth);
+    return candidate >= start
+      ? candidate
+      : onDayOfMonth(start.getFullYear(), start.getMonth() + 1, schedule.dayOfMonth);
+  }
+
+  return start;
+};
+
+// Occurrence following `date`
+const getNextOccurrence = (schedule, date) => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const day = date.getDate();
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return new Date(year, month, day + 1);
+    case 'weekly':
+      return new Date(year, month, day + 7);
+    case 'monthly':
+      return onDayOfMonth(year, month + 1, schedule.dayOfMonth || day);
+    case 'yearly':
+      // Anchor on the start date so 29 Feb doesn't drift to 28 Feb for good
+      return onDayOfMonth(year + 1, month, schedule.startDate ? schedule.startDate.getDate() : day);
+    case 'custom':
+      return new Date(year, month, day + (schedule.interval || 1));
+    default:
+      throw new Error(`Unknown frequency: ${schedule.frequency}`);
+  }
+};
+
+// First occurrence on or after `fromDate`, stepping on from `date` so the schedule keeps its rhythm
+const getOccurrenceFrom = (schedule, date, fromDate) => {
+  const start = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate());
+  let next = date;
+  while (next < start) {
+    next = getNextOccurrence(schedule, next);
+  }
+  return next;
+};
+
+module.exports = { getFirstOccurrence, getNextOccurrence, getOccurrenceFrom };
@@ -0,0 +1,75 @@
+// Reimbursable expenses - paid on someone else's behalf (e.g. work travel) and tracked until paid back
+// An expense is pending until a claim with it is submitted, then claimed, then reimbursed once the claim settles
+const REIMBURSEMENT_STATUSES = ['pending', 'claimed', 'reimbursed'];
+
+// Outstanding reimbursements are grouped by days since the expense
+const AGE_BUCKETS = [
+  { label: '0-30 days', minDays: 0, maxDays: 30 },
+  { label: '31-60 days', minDays: 31, maxDays: 60 },
+  { label: '61-90 days', minDays: 61, maxDays: 90 },
+  { label: 'Over 90 days', minDays: 91, maxDays: null }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Status a claim gives its expenses
+const getClaimStatus = (claim) => {
+  if (claim.settledAt) return 'reimbursed';
+  if (claim.claimedAt) return 'claimed';
+  return 'pending';
+};
+
+// Reimbursement fields to save for `reimbursable` and `status` from a request (either may be left out)
+// A reimbursable expense starts out pending; one that isn't has no status and leaves its claim
+// Returns { fields } (empty when nothing changes), or { error } with a message
+const getReimbursementFields = (reimbursable, status, existing = null) => {
+  if (reimbursable === undefined && status === undefined) return { fields: {} };
+
+  if (reimbursable !== undefined && typeof reimbursable !== 'boolean') {
+    return { error: 'Reimbursable must be true or false' };
+  }
+  if (reimbursable === false) {
+    return { fields: { reimbursable: false, reimbursementStatus: null, claimId: null } };
+  }
+
+  if (status !== undefined && !REIMBURSEMENT_STATUSES.includes(status)) {
+    return { error: `Reimbursement status must be one of: ${REIMBURSEMENT_STATUSES.join(', ')}` };
+  }
+  if (!reimbursable && !existing?.reimbursable) {
+    return { error: 'Only reimbursable expenses have a reimbursement status' };
+  }
+
+  // Expenses in a claim follow the claim's status (see routes/claim.routes)
+  if (existing?.claimId) {
+    if (status !== undefined && status !== existing.reimbursementStatus) {
+      return { error: 'This expense is in a claim - its status follows the claim' };
+    }
+    return { fields: {} };
+  }
+
+  return {
+    fields: {
+      reimbursable: true,
+      reimbursementStatus: status || existing?.reimbursementStatus || 'pending'
+    }
+  };
+};
+
+// Group outstanding expenses (already in the home currency) into AGE_BUCKETS, oldest expenses first
+const bucketByAge = (expenses, now = new Date()) => {
+  const buckets = AGE_BUCKETS.map(bucket => ({ ...bucket, total: 0, count: 0, expenses: [] }));
+
+  [...expenses]
+    .sort((a, b) => new Date(a.date) - new Date(b.date))
+    .forEach(expense => {
+      const ageDays = Math.max(0, Math.floor((now - new Date(expense.date)) / DAY_MS));
+      const bucket = buckets.find(item => item.maxDays === null || ageDays <= item.maxDays);
+      bucket.total += expense.amount;
+      bucket.count += 1;
+      bucket.expenses.push({ ...expense, ageDays });
+    });
+
+  return buckets;
+};
+
+module.exports = { REIMBURSEMENT_STATUSES, getClaimStatus, getReimbursementFields, bucketByAge };
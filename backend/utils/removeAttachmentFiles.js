@@ -0,0 +1,13 @@
+const storage = require('../storage');
+
+// Delete the stored files (and thumbnails) behind a list of attachments
+const removeAttachmentFiles = async (attachments) => {
+  for (const attachment of attachments) {
+    await storage.remove(attachment.key);
+    if (attachment.thumbnailKey) {
+      await storage.remove(attachment.thumbnailKey);
+    }
+  }
+};
+
+module.exports = removeAttachmentFiles;
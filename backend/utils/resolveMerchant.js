@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+const Merchant = require('../models/merchant.model');
+const normalizeMerchantName = require('./normalizeMerchantName');
+
+const MAX_NAME_LENGTH = Merchant.schema.path('name').options.maxlength;
+
+// Merchant an expense request links to: `merchantId` picks one of the user's merchants, and `merchant`
+// is a name matched against merchant names and aliases (a new, unsaved merchant when nothing matches)
+// Resolves to { merchant } - undefined when the request doesn't mention a merchant, null to unlink one -
+// or to { error } with a message
+const resolveMerchant = async (userId, { merchantId, merchant: name }) => {
+  if (merchantId) {
+    const merchant = mongoose.Types.ObjectId.isValid(merchantId)
+      ? await Merchant.findOne({ _id: merchantId, userId })
+      : null;
+    return merchant ? { merchant } : { error: 'Merchant not found' };
+  }
+
+  if (normalizeMerchantName(name)) {
+    const trimmed = String(name).trim();
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      return { error: `Merchant name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    const existing = await Merchant.findByName(userId, trimmed);
+    return { merchant: existing || new Merchant({ userId, name: trimmed }) };
+  }
+
+  // An explicit null or empty name removes the link
+  return { merchant: merchantId === null || name !== undefined ? null : undefined };
+};
+
+module.exports = resolveMerchant;
@@ -0,0 +1,62 @@
+// Auto-categorization rules - filling in the fields a new expense leaves out
+const Rule = require('../models/rule.model');
+
+const RULE_FIELDS = ['category', 'paymentMethod', 'tags'];
+
+// The user's enabled rules, in the order they run
+const getActiveRules = (userId) => {
+  return Rule.find({ userId, enabled: true }).sort({ priority: 1, createdAt: 1 });
+};
+
+// Whether a description or merchant name matches a rule's pattern (case-insensitive)
+const matchesPattern = (rule, value) => {
+  const text = String(value || '').trim().toLowerCase();
+  const pattern = rule.pattern.toLowerCase();
+  if (!text) return false;
+
+  if (rule.operator === 'equals') return text === pattern;
+  if (rule.operator === 'startsWith') return text.startsWith(pattern);
+  return text.includes(pattern);
+};
+
+// Whether an expense ({ description, merchantName, amount }) matches a rule
+const matchesRule = (rule, { description, merchantName, amount }) => {
+  if (!matchesPattern(rule, rule.field === 'merchant' ? merchantName : description)) return false;
+
+  // Amount limits only apply once there is an amount
+  if (amount == null) return true;
+  if (rule.minAmount != null && Number(amount) < rule.minAmount) return false;
+  if (rule.maxAmount != null && Number(amount) > rule.maxAmount) return false;
+  return true;
+};
+
+// Fields of an expense the rules may fill in - the ones it leaves out (a split expense has its category)
+const getUnsetFields = ({ category, lineItems, paymentMethod, tags }) => {
+  return [
+    !category && !(lineItems && lineItems.length > 0) && 'category',
+    !paymentMethod && 'paymentMethod',
+    !(tags && tags.length > 0) && 'tags'
+  ].filter(Boolean);
+};
+
+// Values the matching rules give each of `fields` ('category', 'paymentMethod', 'tags'), e.g.
+// { category: 'Transport', subcategory: null, paymentMethod: 'UPI' } - a category comes with its subcategory
+// Rules run in priority order and the first one that sets a field wins it
+const applyRules = (rules, expense, fields = RULE_FIELDS) => {
+  const result = {};
+  rules.filter(rule => matchesRule(rule, expense)).forEach(rule => {
+    if (fields.includes('category') && !result.category && rule.category) {
+      result.category = rule.category;
+      result.subcategory = rule.subcategory || null;
+    }
+    if (fields.includes('paymentMethod') && !result.paymentMethod && rule.paymentMethod) {
+      result.paymentMethod = rule.paymentMethod;
+    }
+    if (fields.includes('tags') && !result.tags && rule.tags.length > 0) {
+      result.tags = [...rule.tags];
+    }
+  });
+  return result;
+};
+
+module.exports = { getActiveRules, matchesPattern, matchesRule, getUnsetFields, applyRules };
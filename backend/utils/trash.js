@@ -0,0 +1,31 @@
+// Trash for deleted expenses - kept for TRASH_RETENTION_DAYS so they can be restored, then purged
+const Expense = require('../models/expense.model');
+const ExpenseRevision = require('../models/expenseRevision.model');
+const removeAttachmentFiles = require('./removeAttachmentFiles');
+
+const TRASH_RETENTION_DAYS = 30;
+
+// Earliest deletedAt still within the retention period
+const getTrashCutoff = (now = new Date()) => {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+// Permanently delete trashed expenses matching `filter` (all of the user's trash by default), with their receipts and history
+// Returns the number of expenses purged
+const purgeTrash = async (userId, filter = {}) => {
+  const trashed = await Expense.find({ userId, deletedAt: { $ne: null }, ...filter });
+  if (trashed.length === 0) return 0;
+
+  const ids = trashed.map(exp => exp._id);
+  await Expense.deleteMany({ _id: { $in: ids }, userId });
+  await ExpenseRevision.deleteMany({ expenseId: { $in: ids }, userId });
+  await removeAttachmentFiles(trashed.flatMap(exp => exp.attachments));
+  return trashed.length;
+};
+
+// Purge the user's expenses trashed longer than the retention period (run lazily when the trash is used)
+const purgeExpiredTrash = (userId, now = new Date()) => {
+  return purgeTrash(userId, { deletedAt: { $lt: getTrashCutoff(now) } });
+};
+
+module.exports = { TRASH_RETENTION_DAYS, getTrashCutoff, purgeTrash, purgeExpiredTrash };
@@ -0,0 +1,23 @@
+const Category = require('../models/category.model');
+
+// Check that category (and optional subcategory) are active categories owned by the user
+// Returns an error message, or null when the selection is valid
+const validateCategory = async (userId, category, subcategory) => {
+  await Category.ensureDefaults(userId);
+
+  const parent = await Category.findOne({ userId, name: category, parentId: null, archived: false });
+  if (!parent) {
+    return 'Invalid category';
+  }
+
+  if (subcategory) {
+    const child = await Category.exists({ userId, name: subcategory, parentId: parent._id, archived: false });
+    if (!child) {
+      return 'Invalid subcategory';
+    }
+  }
+
+  return null;
+};
+
+module.exports = validateCategory;
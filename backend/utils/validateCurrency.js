@@ -0,0 +1,24 @@
+const User = require('../models/user.model');
+const ExchangeRate = require('../models/exchangeRate.model');
+
+// Check that an expense currency can be converted: the home currency, or one with a rate
+// Returns an error message, or null when the currency is usable
+const validateCurrency = async (userId, currency) => {
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return 'Currency must be a 3-letter ISO code';
+  }
+
+  const user = await User.findById(userId).select('homeCurrency');
+  if (currency === (user?.homeCurrency || 'INR')) {
+    return null;
+  }
+
+  const rate = await ExchangeRate.exists({ userId, currency });
+  if (!rate) {
+    return `No exchange rate for ${currency}. Add one in Currencies first`;
+  }
+
+  return null;
+};
+
+module.exports = validateCurrency;
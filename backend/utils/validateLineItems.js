@@ -0,0 +1,30 @@
+const validateCategory = require('./validateCategory');
+
+// Check the line items of a split expense: valid categories, positive amounts, adding up to `amount`
+// Returns an error message, or null when the line items are valid
+const validateLineItems = async (userId, lineItems, amount) => {
+  if (!Array.isArray(lineItems)) {
+    return 'Line items must be a list';
+  }
+
+  for (const item of lineItems) {
+    if (!item || !(item.amount > 0) || !item.category) {
+      return 'Each line item needs an amount and a category';
+    }
+
+    const categoryError = await validateCategory(userId, item.category, item.subcategory);
+    if (categoryError) {
+      return `${categoryError}: ${item.category}${item.subcategory ? ` › ${item.subcategory}` : ''}`;
+    }
+  }
+
+  // Allow for rounding when the items were split by hand
+  const itemsTotal = lineItems.reduce((sum, item) => sum + Number(item.amount), 0);
+  if (Math.abs(itemsTotal - amount) > 0.01) {
+    return `Line items add up to ${itemsTotal.toFixed(2)} but the expense amount is ${Number(amount).toFixed(2)}`;
+  }
+
+  return null;
+};
+
+module.exports = validateLineItems;
@@ -1,7 +1,17 @@
 // Main app component - wraps app with context providers
 import React from 'react';
 import { AuthProvider } from './context/AuthContext';
+import { CurrencyProvider } from './context/CurrencyContext';
+import { CategoryProvider } from './context/CategoryContext';
 import { ExpenseProvider } from './context/ExpenseContext';
+import { RecurringProvider } from './context/RecurringContext';
+import { IncomeProvider } from './context/IncomeContext';
+import { SavedViewProvider } from './context/SavedViewContext';
+import { MerchantProvider } from './context/MerchantContext';
+import { RuleProvider } from './context/RuleContext';
+import { TemplateProvider } from './context/TemplateContext';
+import { ClaimProvider } from './context/ClaimContext';
+import { MessageFormatProvider } from './context/MessageFormatContext';
 import { BudgetProvider } from './context/BudgetContext';
 import { NotificationProvider } from './context/NotificationContext';
 import AppNavigator from './navigation/AppNavigator';
@@ -9,13 +19,33 @@ import AppNavigator from './navigation/AppNavigator';
 export default function App() {
   return (
     <AuthProvider>
-      <ExpenseProvider>
-        <BudgetProvider>
-          <NotificationProvider>
-            <AppNavigator />
-          </NotificationProvider>
-        </BudgetProvider>
-      </ExpenseProvider>
+      <CurrencyProvider>
+        <CategoryProvider>
+          <ExpenseProvider>
+            <RecurringProvider>
+              <IncomeProvider>
+                <SavedViewProvider>
+                  <MerchantProvider>
+                    <RuleProvider>
+                      <TemplateProvider>
+                        <ClaimProvider>
+                          <MessageFormatProvider>
+                            <BudgetProvider>
+                              <NotificationProvider>
+                                <AppNavigator />
+                              </NotificationProvider>
+                            </BudgetProvider>
+                          </MessageFormatProvider>
+                        </ClaimProvider>
+                      </TemplateProvider>
+                    </RuleProvider>
+                  </MerchantProvider>
+                </SavedViewProvider>
+              </IncomeProvider>
+            </RecurringProvider>
+          </ExpenseProvider>
+        </CategoryProvider>
+      </CurrencyProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,235 @@
+// Attachment picker - receipt photos and PDFs, both already uploaded and waiting to be uploaded
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_URL } from '../utils/config';
+import { ExpenseAttachment, PickedFile } from '../types';
+
+interface AttachmentPickerProps {
+  label: string;
+  expenseId?: string; // Set once the expense exists, to show its uploaded attachments
+  attachments?: ExpenseAttachment[];
+  onDeleteAttachment?: (attachment: ExpenseAttachment) => void;
+  pending: PickedFile[];
+  onChangePending: (files: PickedFile[]) => void;
+}
+
+const MAX_FILES = 5; // Matches the backend's per-upload limit
+
+const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  label,
+  expenseId,
+  attachments = [],
+  onDeleteAttachment,
+  pending,
+  onChangePending
+}) => {
+  const [token, setToken] = useState<string | null>(null);
+
+  // Uploaded thumbnails are behind auth, so image requests need the token too
+  useEffect(() => {
+    AsyncStorage.getItem('token').then(setToken);
+  }, []);
+
+  const addFiles = (files: PickedFile[]): void => {
+    const room = MAX_FILES - pending.length;
+    if (files.length > room) {
+      Alert.alert('Too many files', `You can add up to ${MAX_FILES} files at a time`);
+    }
+    onChangePending([...pending, ...files.slice(0, Math.max(room, 0))]);
+  };
+
+  const fromImageAssets = (assets: ImagePicker.ImagePickerAsset[]): PickedFile[] => {
+    return assets.map((asset, index) => ({
+      uri: asset.uri,
+      name: asset.fileName || `receipt-${Date.now()}-${index}.jpg`,
+      mimeType: asset.mimeType || 'image/jpeg'
+    }));
+  };
+
+  const takePhoto = async (): Promise<void> => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Allow camera access to photograph receipts');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.7 });
+    if (!result.canceled) {
+      addFiles(fromImageAssets(result.assets));
+    }
+  };
+
+  const choosePhoto = async (): Promise<void> => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.7,
+      allowsMultipleSelection: true
+    });
+    if (!result.canceled) {
+      addFiles(fromImageAssets(result.assets));
+    }
+  };
+
+  const choosePdf = async (): Promise<void> => {
+    const result = await DocumentPicker.getDocumentAsync({ type: 'application/pdf', multiple: true });
+    if (!result.canceled) {
+      addFiles(result.assets.map(asset => ({
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType || 'application/pdf'
+      })));
+    }
+  };
+
+  const removePending = (index: number): void => {
+    onChangePending(pending.filter((_, i) => i !== index));
+  };
+
+  const thumbnailSource = (attachment: ExpenseAttachment) => ({
+    uri: `${API_URL}/expenses/${expenseId}/attachments/${attachment._id}?thumbnail=true`,
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+
+      {(attachments.length > 0 || pending.length > 0) && (
+        <View style={styles.tileRow}>
+          {attachments.map(attachment => (
+            <View key={attachment._id} style={styles.tile}>
+              {attachment.thumbnailKey && expenseId ? (
+                <Image source={thumbnailSource(attachment)} style={styles.tileImage} />
+              ) : (
+                <Text style={styles.tileIcon}>📄</Text>
+              )}
+              {onDeleteAttachment && (
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => onDeleteAttachment(attachment)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.removeText}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {pending.map((file, index) => (
+            <View key={`${file.uri}-${index}`} style={[styles.tile, styles.pendingTile]}>
+              {file.mimeType.startsWith('image/') ? (
+                <Image source={{ uri: file.uri }} style={styles.tileImage} />
+              ) : (
+                <Text style={styles.tileIcon}>📄</Text>
+              )}
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => removePending(index)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.removeText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.pickButton} onPress={takePhoto} activeOpacity={0.7}>
+          <Text style={styles.pickButtonText}>📷 Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.pickButton} onPress={choosePhoto} activeOpacity={0.7}>
+          <Text style={styles.pickButtonText}>🖼️ Photos</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.pickButton} onPress={choosePdf} activeOpacity={0.7}>
+          <Text style={styles.pickButtonText}>📄 PDF</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  tileRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  tile: {
+    width: 72,
+    height: 72,
+    borderRadius: 10,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  pendingTile: {
+    borderWidth: 2,
+    borderColor: '#c7d2fe',
+    borderStyle: 'dashed',
+  },
+  tileImage: {
+    width: '100%',
+    height: '100%',
+  },
+  tileIcon: {
+    fontSize: 28,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pickButton: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  pickButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+});
+
+export default AttachmentPicker;
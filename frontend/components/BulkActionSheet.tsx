@@ -0,0 +1,338 @@
+// Bulk action sheet - picks the new category, payment method, tags or date shift for selected expenses
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Modal,
+  ActivityIndicator
+} from 'react-native';
+import { PAYMENT_METHODS } from '../utils/config';
+import { BulkExpenseRequest, PaymentMethod } from '../types';
+
+export type BulkAction = 'category' | 'paymentMethod' | 'tags' | 'dates';
+
+interface BulkActionSheetProps {
+  action: BulkAction | null; // Hidden when null
+  count: number;
+  categoryNames: string[];
+  getSubcategoryNames: (category: string) => string[];
+  onSubmit: (request: Omit<BulkExpenseRequest, 'ids'>) => Promise<{ success: boolean; message?: string }>;
+  onClose: () => void;
+}
+
+const TITLES: Record<BulkAction, string> = {
+  category: 'Change Category',
+  paymentMethod: 'Change Payment Method',
+  tags: 'Edit Tags',
+  dates: 'Shift Dates'
+};
+
+const BulkActionSheet: React.FC<BulkActionSheetProps> = ({
+  action,
+  count,
+  categoryNames,
+  getSubcategoryNames,
+  onSubmit,
+  onClose
+}) => {
+  const [category, setCategory] = useState<string>('');
+  const [subcategory, setSubcategory] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>('');
+  const [tagMode, setTagMode] = useState<'addTags' | 'removeTags'>('addTags');
+  const [tags, setTags] = useState<string>('');
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [days, setDays] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  // Start blank each time the sheet opens
+  useEffect(() => {
+    if (action) {
+      setCategory('');
+      setSubcategory('');
+      setPaymentMethod('');
+      setTagMode('addTags');
+      setTags('');
+      setDirection(1);
+      setDays('');
+      setError('');
+    }
+  }, [action]);
+
+  // Request for the chosen action, or an error message when something is missing
+  const buildRequest = (): Omit<BulkExpenseRequest, 'ids'> | string => {
+    switch (action) {
+      case 'category':
+        if (!category) return 'Pick a category';
+        return { operation: 'recategorize', category, subcategory: subcategory || null };
+      case 'paymentMethod':
+        if (!paymentMethod) return 'Pick a payment method';
+        return { operation: 'setPaymentMethod', paymentMethod };
+      case 'tags': {
+        const tagList = tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+        if (tagList.length === 0) return 'Enter at least one tag';
+        return { operation: tagMode, tags: tagList };
+      }
+      default: {
+        const value = parseInt(days, 10);
+        if (isNaN(value) || value <= 0) return 'Enter a number of days';
+        return { operation: 'shiftDates', days: direction * value };
+      }
+    }
+  };
+
+  const handleApply = async (): Promise<void> => {
+    const request = buildRequest();
+    if (typeof request === 'string') {
+      setError(request);
+      return;
+    }
+
+    setSaving(true);
+    const result = await onSubmit(request);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.message || 'Failed to update expenses');
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const subcategoryNames = category ? getSubcategoryNames(category) : [];
+
+  return (
+    <Modal
+      visible={action !== null}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{action ? TITLES[action] : ''}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.modalCloseButton} activeOpacity={0.7}>
+              <Text style={styles.modalCloseText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody}>
+            {action === 'category' && (
+              <>
+                <Text style={styles.label}>Category</Text>
+                <View style={styles.chipRow}>
+                  {categoryNames.map(name =>
+                    renderChip(name, category === name, () => {
+                      setCategory(name);
+                      setSubcategory('');
+                    })
+                  )}
+                </View>
+                {subcategoryNames.length > 0 && (
+                  <>
+                    <Text style={styles.label}>Subcategory</Text>
+                    <View style={styles.chipRow}>
+                      {renderChip('None', subcategory === '', () => setSubcategory(''))}
+                      {subcategoryNames.map(name =>
+                        renderChip(name, subcategory === name, () => setSubcategory(name))
+                      )}
+                    </View>
+                  </>
+                )}
+              </>
+            )}
+
+            {action === 'paymentMethod' && (
+              <>
+                <Text style={styles.label}>Payment Method</Text>
+                <View style={styles.chipRow}>
+                  {PAYMENT_METHODS.map(method =>
+                    renderChip(method, paymentMethod === method, () => setPaymentMethod(method))
+                  )}
+                </View>
+              </>
+            )}
+
+            {action === 'tags' && (
+              <>
+                <View style={styles.chipRow}>
+                  {renderChip('Add tags', tagMode === 'addTags', () => setTagMode('addTags'))}
+                  {renderChip('Remove tags', tagMode === 'removeTags', () => setTagMode('removeTags'))}
+                </View>
+                <Text style={styles.label}>Tags</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. goa-trip, work"
+                  placeholderTextColor="#94a3b8"
+                  value={tags}
+                  onChangeText={setTags}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            )}
+
+            {action === 'dates' && (
+              <>
+                <View style={styles.chipRow}>
+                  {renderChip('Later', direction === 1, () => setDirection(1))}
+                  {renderChip('Earlier', direction === -1, () => setDirection(-1))}
+                </View>
+                <Text style={styles.label}>Days</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 1"
+                  placeholderTextColor="#94a3b8"
+                  value={days}
+                  onChangeText={setDays}
+                  keyboardType="number-pad"
+                />
+              </>
+            )}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <TouchableOpacity
+              style={[styles.button, saving && styles.buttonDisabled]}
+              onPress={handleApply}
+              disabled={saving}
+              activeOpacity={0.8}
+            >
+              {saving ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  Apply to {count} {count === 1 ? 'expense' : 'expenses'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default BulkActionSheet;
@@ -0,0 +1,216 @@
+// Custom dropdown - labelled field that opens a modal list of options
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  FlatList
+} from 'react-native';
+
+interface CustomDropdownProps {
+  label: string;
+  value: string;
+  options: string[];
+  onSelect: (value: string) => void;
+  placeholder?: string;
+}
+
+const CustomDropdown: React.FC<CustomDropdownProps> = ({
+  label,
+  value,
+  options,
+  onSelect,
+  placeholder = "Select an option"
+}) => {
+  const [isVisible, setIsVisible] = useState<boolean>(false);
+
+  const handleSelect = (option: string) => {
+    onSelect(option);
+    setIsVisible(false);
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.dropdownWrapper}
+        onPress={() => setIsVisible(true)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.dropdownLabel}>{label}</Text>
+        <View style={styles.dropdownContent}>
+          <Text style={[styles.dropdownText, !value && styles.dropdownPlaceholder]}>
+            {value || placeholder}
+          </Text>
+          <Text style={styles.dropdownIcon}>▼</Text>
+        </View>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setIsVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setIsVisible(false)}
+        >
+          <TouchableOpacity 
+            style={styles.modalContent} 
+            activeOpacity={1}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{label}</Text>
+              <TouchableOpacity
+                onPress={() => setIsVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <FlatList
+              data={options}
+              keyExtractor={(item) => item}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={[
+                    styles.modalOption,
+                    item === value && styles.modalOptionSelected
+                  ]}
+                  onPress={() => handleSelect(item)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[
+                    styles.modalOptionText,
+                    item === value && styles.modalOptionTextSelected
+                  ]}>
+                    {item}
+                  </Text>
+                  {item === value && <Text style={styles.checkIcon}>✓</Text>}
+                </TouchableOpacity>
+              )}
+              showsVerticalScrollIndicator={false}
+            />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  dropdownWrapper: {
+    marginBottom: 24,
+  },
+  dropdownLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  dropdownContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  dropdownText: {
+    fontSize: 16,
+    color: '#1e293b',
+    flex: 1,
+  },
+  dropdownPlaceholder: {
+    color: '#94a3b8',
+  },
+  dropdownIcon: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: 'bold',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    width: '100%',
+    maxHeight: '70%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 20 },
+    shadowOpacity: 0.25,
+    shadowRadius: 30,
+    elevation: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalOptionSelected: {
+    backgroundColor: '#f0f9ff',
+  },
+  modalOptionText: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  modalOptionTextSelected: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  checkIcon: {
+    fontSize: 18,
+    color: '#6366f1',
+    fontWeight: 'bold',
+  },
+});
+
+export default CustomDropdown;
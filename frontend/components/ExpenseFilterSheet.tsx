@@ -0,0 +1,327 @@
+// Expense filter sheet - categories, payment methods, amount range and sort order for the expense list
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { PAYMENT_METHODS } from '../utils/config';
+import { ExpenseFilters, ExpenseSortField, PaymentMethod } from '../types';
+
+interface ExpenseFilterSheetProps {
+  visible: boolean;
+  filters: ExpenseFilters;
+  categoryNames: string[];
+  onApply: (filters: ExpenseFilters) => void;
+  onClose: () => void;
+}
+
+const SORT_OPTIONS: { value: ExpenseSortField; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'createdAt', label: 'Date added' }
+];
+
+// Number of filters that narrow the list (sort order doesn't count)
+export const countActiveFilters = (filters: ExpenseFilters): number => {
+  return (filters.categories?.length ? 1 : 0)
+    + (filters.paymentMethods?.length ? 1 : 0)
+    + (filters.minAmount !== undefined || filters.maxAmount !== undefined ? 1 : 0);
+};
+
+// Short label for the filters' sort order, e.g. "Highest amount"
+export const describeSort = (filters: ExpenseFilters): string => {
+  const ascending = filters.order === 'asc';
+  switch (filters.sort) {
+    case 'amount': return ascending ? 'Lowest amount' : 'Highest amount';
+    case 'createdAt': return ascending ? 'First added' : 'Recently added';
+    default: return ascending ? 'Oldest' : 'Newest';
+  }
+};
+
+const toggle = <T,>(list: T[] = [], value: T): T[] => {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+};
+
+const ExpenseFilterSheet: React.FC<ExpenseFilterSheetProps> = ({ visible, filters, categoryNames, onApply, onClose }) => {
+  // Edited locally and only applied on "Apply"
+  const [categories, setCategories] = useState<string[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [minAmount, setMinAmount] = useState<string>('');
+  const [maxAmount, setMaxAmount] = useState<string>('');
+  const [sort, setSort] = useState<ExpenseSortField>('date');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [error, setError] = useState<string>('');
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setCategories(filters.categories || []);
+      setPaymentMethods(filters.paymentMethods || []);
+      setMinAmount(filters.minAmount !== undefined ? filters.minAmount.toString() : '');
+      setMaxAmount(filters.maxAmount !== undefined ? filters.maxAmount.toString() : '');
+      setSort(filters.sort || 'date');
+      setOrder(filters.order || 'desc');
+      setError('');
+    }
+  }, [visible]);
+
+  const handleApply = (): void => {
+    const min = minAmount.trim() ? parseFloat(minAmount) : undefined;
+    const max = maxAmount.trim() ? parseFloat(maxAmount) : undefined;
+    if ((min !== undefined && isNaN(min)) || (max !== undefined && isNaN(max))) {
+      setError('Amounts must be numbers');
+      return;
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      setError('Minimum amount is larger than the maximum');
+      return;
+    }
+
+    onApply({
+      categories: categories.length > 0 ? categories : undefined,
+      paymentMethods: paymentMethods.length > 0 ? paymentMethods : undefined,
+      minAmount: min,
+      maxAmount: max,
+      sort,
+      order
+    });
+  };
+
+  const handleReset = (): void => {
+    setCategories([]);
+    setPaymentMethods([]);
+    setMinAmount('');
+    setMaxAmount('');
+    setSort('date');
+    setOrder('desc');
+    setError('');
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Filter Expenses</Text>
+            <TouchableOpacity onPress={onClose} style={styles.modalCloseButton} activeOpacity={0.7}>
+              <Text style={styles.modalCloseText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody}>
+            <Text style={styles.label}>Categories</Text>
+            <View style={styles.chipRow}>
+              {categoryNames.map(name =>
+                renderChip(name, categories.includes(name), () => setCategories(toggle(categories, name)))
+              )}
+            </View>
+
+            <Text style={styles.label}>Payment Methods</Text>
+            <View style={styles.chipRow}>
+              {PAYMENT_METHODS.map(method =>
+                renderChip(method, paymentMethods.includes(method), () => setPaymentMethods(toggle(paymentMethods, method)))
+              )}
+            </View>
+
+            <Text style={styles.label}>Amount</Text>
+            <View style={styles.amountRow}>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                placeholder="Min"
+                placeholderTextColor="#94a3b8"
+                value={minAmount}
+                onChangeText={setMinAmount}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.amountSeparator}>–</Text>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                placeholder="Max"
+                placeholderTextColor="#94a3b8"
+                value={maxAmount}
+                onChangeText={setMaxAmount}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            <Text style={styles.label}>Sort By</Text>
+            <View style={styles.chipRow}>
+              {SORT_OPTIONS.map(option =>
+                renderChip(option.label, sort === option.value, () => setSort(option.value))
+              )}
+            </View>
+            <View style={styles.chipRow}>
+              {renderChip(sort === 'amount' ? 'Highest first' : 'Newest first', order === 'desc', () => setOrder('desc'))}
+              {renderChip(sort === 'amount' ? 'Lowest first' : 'Oldest first', order === 'asc', () => setOrder('asc'))}
+            </View>
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, styles.resetButton]} onPress={handleReset} activeOpacity={0.8}>
+                <Text style={styles.resetButtonText}>Reset</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.button} onPress={handleApply} activeOpacity={0.8}>
+                <Text style={styles.buttonText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  amountSeparator: {
+    fontSize: 16,
+    color: '#64748b',
+    marginHorizontal: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  resetButton: {
+    backgroundColor: '#e2e8f0',
+  },
+  resetButtonText: {
+    color: '#475569',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default ExpenseFilterSheet;
@@ -0,0 +1,206 @@
+// Expense history - the change log of one expense, with a revert action on older revisions
+import React, { useState, useEffect, useContext } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { ExpenseContext } from '../context/ExpenseContext';
+import { MerchantContext } from '../context/MerchantContext';
+import { Expense, ExpenseRevision, Merchant, RevisionValue } from '../types';
+
+interface ExpenseHistoryProps {
+  expenseId: string;
+  onReverted: (expense: Expense) => void;
+}
+
+const ACTION_LABELS: Record<ExpenseRevision['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  revert: 'Reverted'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  category: 'Category',
+  subcategory: 'Subcategory',
+  paymentMethod: 'Payment',
+  description: 'Description',
+  date: 'Date',
+  tags: 'Tags',
+  lineItems: 'Split',
+  merchantId: 'Merchant',
+  location: 'Location',
+  place: 'Place',
+  reimbursable: 'Reimbursable',
+  reimbursementStatus: 'Reimbursement',
+  payeeVpa: 'UPI ID'
+};
+
+// Short display form of a recorded field value
+const formatValue = (field: string, value: RevisionValue | undefined, getMerchant: (id: string) => Merchant | undefined): string => {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '—';
+  }
+  // Tags, or the line items of a split
+  if (Array.isArray(value)) {
+    return field === 'tags'
+      ? value.map(tag => (typeof tag === 'string' ? `#${tag}` : '')).join(' ')
+      : `${value.length} line items`;
+  }
+  if (typeof value === 'object') {
+    return 'Pinned location';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  switch (field) {
+    case 'date':
+      return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    case 'merchantId':
+      return getMerchant(String(value))?.name || 'Deleted merchant';
+    default:
+      return String(value);
+  }
+};
+
+const formatTimestamp = (dateString: string): string => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+const ExpenseHistory: React.FC<ExpenseHistoryProps> = ({ expenseId, onReverted }) => {
+  const expenseContext = useContext(ExpenseContext);
+  const merchantContext = useContext(MerchantContext);
+  if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!merchantContext) throw new Error('MerchantContext not found');
+
+  const { getHistory, revertExpense } = expenseContext;
+  const { getMerchant } = merchantContext;
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const loadHistory = async (): Promise<void> => {
+      setLoading(true);
+      const result = await getHistory(expenseId);
+      if (result.success) {
+        setRevisions(result.revisions || []);
+      }
+      setLoading(false);
+    };
+    loadHistory();
+  }, [expenseId]);
+
+  const handleRevert = (revision: ExpenseRevision): void => {
+    Alert.alert(
+      'Revert Expense',
+      `Put this expense back the way it was on ${formatTimestamp(revision.createdAt)}? The revert is recorded too, so it can be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          onPress: async () => {
+            const result = await revertExpense(expenseId, revision._id);
+            if (result.success && result.expense) {
+              onReverted(result.expense);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to revert expense');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>History</Text>
+        <ActivityIndicator color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>History</Text>
+      {revisions.map((revision, index) => (
+        <View key={revision._id} style={styles.revision}>
+          <View style={styles.revisionHeader}>
+            <Text style={styles.revisionAction}>{ACTION_LABELS[revision.action]}</Text>
+            {/* The newest revision is the current state */}
+            {index > 0 && (
+              <TouchableOpacity onPress={() => handleRevert(revision)} activeOpacity={0.7}>
+                <Text style={styles.revertText}>Revert to this</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.revisionMeta}>
+            {formatTimestamp(revision.createdAt)}
+            {revision.client === 'recurring' ? ' · recurring expense' : revision.device ? ` · ${revision.device}` : ''}
+          </Text>
+          {revision.action !== 'create' && revision.changes.map(change => (
+            <Text key={change.field} style={styles.changeText}>
+              {FIELD_LABELS[change.field] || change.field}: {formatValue(change.field, change.from, getMerchant)} → {formatValue(change.field, change.to, getMerchant)}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 32,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  revision: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  revisionAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  revertText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  changeText: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 2,
+  },
+});
+
+export default ExpenseHistory;
@@ -0,0 +1,48 @@
+// Highlighted text - renders text with the words of a search query marked
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  style?: StyleProp<TextStyle>;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlights whole words starting with a search term, since the backend matches on word stems
+// (e.g. "order" also marks "orders")
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, style }) => {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/^["-]+|"+$/g, '')) // Phrase quotes and negation aren't part of the word
+    .filter(term => term.length > 0)
+    .map(escapeRegExp);
+
+  if (terms.length === 0) {
+    return <Text style={style}>{text}</Text>;
+  }
+
+  const pattern = new RegExp(`(\\b(?:${terms.join('|')})\\w*)`, 'gi');
+  const parts = text.split(pattern);
+
+  return (
+    <Text style={style}>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <Text key={index} style={styles.highlight}>{part}</Text>
+          : part
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#fef08a',
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+});
+
+export default HighlightedText;
@@ -0,0 +1,205 @@
+// Line items editor - splits one expense (e.g. a supermarket bill) across several categories
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet
+} from 'react-native';
+import CustomDropdown from './CustomDropdown';
+import { formatMoney } from '../utils/currency';
+import { ExpenseLineItem } from '../types';
+
+// Line item as edited in the form - the amount stays a string until submit
+export interface LineItemDraft {
+  amount: string;
+  category: string;
+  note: string;
+}
+
+interface LineItemsEditorProps {
+  items: LineItemDraft[];
+  onChange: (items: LineItemDraft[]) => void;
+  categoryNames: string[];
+  total: number;
+  currency?: string;
+}
+
+export const toDrafts = (lineItems: ExpenseLineItem[] = []): LineItemDraft[] => {
+  return lineItems.map(item => ({
+    amount: item.amount.toString(),
+    category: item.category,
+    note: item.note || ''
+  }));
+};
+
+export const toLineItems = (drafts: LineItemDraft[]): ExpenseLineItem[] => {
+  return drafts.map(draft => ({
+    amount: parseFloat(draft.amount),
+    category: draft.category,
+    note: draft.note || undefined
+  }));
+};
+
+// Returns an error message, or null when the line items are valid and add up to `total`
+export const validateDrafts = (drafts: LineItemDraft[], total: number, currency?: string): string | null => {
+  for (const draft of drafts) {
+    const amountNum = parseFloat(draft.amount);
+    if (isNaN(amountNum) || amountNum <= 0 || !draft.category) {
+      return 'Each line item needs an amount and a category';
+    }
+  }
+
+  const itemsTotal = drafts.reduce((sum, draft) => sum + parseFloat(draft.amount), 0);
+  if (Math.abs(itemsTotal - total) > 0.01) {
+    return `Line items add up to ${formatMoney(itemsTotal, currency)} but the expense is ${formatMoney(total, currency)}`;
+  }
+
+  return null;
+};
+
+// The largest line item's category stands for the whole expense
+export const getPrimaryCategory = (drafts: LineItemDraft[]): string => {
+  return drafts.reduce((largest, draft) =>
+    (parseFloat(draft.amount) || 0) > (parseFloat(largest.amount) || 0) ? draft : largest
+  ).category;
+};
+
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({ items, onChange, categoryNames, total, currency }) => {
+  const updateItem = (index: number, changes: Partial<LineItemDraft>): void => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number): void => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const allocated = items.reduce((sum, item) => sum + (parseFloat(item.amount) || 0), 0);
+  const unallocated = (isNaN(total) ? 0 : total) - allocated;
+
+  // New rows start with whatever is left to allocate
+  const addItem = (): void => {
+    onChange([
+      ...items,
+      { amount: unallocated > 0 ? unallocated.toFixed(2) : '', category: categoryNames[0] || '', note: '' }
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Line Items</Text>
+      {items.map((item, index) => (
+        <View key={index} style={styles.itemCard}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle}>Item {index + 1}</Text>
+            <TouchableOpacity onPress={() => removeItem(index)} activeOpacity={0.7}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="Amount"
+            placeholderTextColor="#94a3b8"
+            value={item.amount}
+            onChangeText={(value) => updateItem(index, { amount: value })}
+            keyboardType="decimal-pad"
+            maxLength={10}
+          />
+          <CustomDropdown
+            label="Category"
+            value={item.category}
+            options={categoryNames}
+            onSelect={(value) => updateItem(index, { category: value })}
+            placeholder="Select a category"
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Note (optional)"
+            placeholderTextColor="#94a3b8"
+            value={item.note}
+            onChangeText={(value) => updateItem(index, { note: value })}
+          />
+        </View>
+      ))}
+
+      <View style={styles.footer}>
+        <TouchableOpacity onPress={addItem} activeOpacity={0.7}>
+          <Text style={styles.addText}>+ Add line item</Text>
+        </TouchableOpacity>
+        <Text style={[styles.remainingText, Math.abs(unallocated) > 0.01 && styles.remainingError]}>
+          {Math.abs(unallocated) <= 0.01
+            ? 'Fully allocated'
+            : unallocated > 0
+              ? `${formatMoney(unallocated, currency)} unallocated`
+              : `${formatMoney(Math.abs(unallocated), currency)} over`}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  itemCard: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#475569',
+  },
+  removeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 12,
+    borderRadius: 10,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 12,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  remainingText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  remainingError: {
+    color: '#ef4444',
+  },
+});
+
+export default LineItemsEditor;
@@ -0,0 +1,129 @@
+// Location input - optional device location fix plus a place label for an expense
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Switch,
+  StyleSheet,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import * as Location from 'expo-location';
+import { GeoPoint } from '../types';
+
+interface LocationInputProps {
+  location: GeoPoint | null;
+  place: string;
+  onChangeLocation: (location: GeoPoint | null) => void;
+  onChangePlace: (place: string) => void;
+}
+
+// Short place label from a reverse-geocoded address, e.g. "Phoenix Mall, Bengaluru"
+const describeAddress = (address: Location.LocationGeocodedAddress): string => {
+  const name = address.name || address.street || address.district;
+  return [name, address.city].filter(Boolean).join(', ');
+};
+
+const LocationInput: React.FC<LocationInputProps> = ({ location, place, onChangeLocation, onChangePlace }) => {
+  const [locating, setLocating] = useState<boolean>(false);
+
+  const fetchCurrentLocation = async (): Promise<void> => {
+    const permission = await Location.requestForegroundPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Allow location access to note where you spent');
+      return;
+    }
+
+    setLocating(true);
+    try {
+      const fix = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const { latitude, longitude } = fix.coords;
+      onChangeLocation({ type: 'Point', coordinates: [longitude, latitude] });
+
+      // Suggest a label, unless one was typed already
+      if (!place.trim()) {
+        const [address] = await Location.reverseGeocodeAsync({ latitude, longitude }).catch(() => []);
+        if (address) onChangePlace(describeAddress(address));
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Could not get your current location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleToggle = (enabled: boolean): void => {
+    if (enabled) {
+      fetchCurrentLocation();
+    } else {
+      onChangeLocation(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <Text style={styles.label}>Use current location</Text>
+        {locating ? (
+          <ActivityIndicator color="#6366f1" />
+        ) : (
+          <Switch
+            value={location !== null}
+            onValueChange={handleToggle}
+            trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+            thumbColor={location !== null ? '#6366f1' : '#ffffff'}
+          />
+        )}
+      </View>
+      {location && (
+        <Text style={styles.coordinates}>
+          📍 {location.coordinates[1].toFixed(5)}, {location.coordinates[0].toFixed(5)}
+        </Text>
+      )}
+      <TextInput
+        style={styles.input}
+        placeholder="Place (optional), e.g. Phoenix Mall"
+        placeholderTextColor="#94a3b8"
+        value={place}
+        onChangeText={onChangePlace}
+        maxLength={80}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+});
+
+export default LocationInput;
@@ -0,0 +1,165 @@
+// Merchant input - free-text payee name with autocomplete from the user's merchants and their aliases
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet
+} from 'react-native';
+import { Merchant } from '../types';
+
+interface MerchantInputProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  onSelect: (merchant: Merchant) => void;
+  merchants: Merchant[];
+}
+
+// Same normalization as the backend: lowercase words without punctuation, and without the
+// reference card statements add after "*" ("SWIGGY*BLR" becomes "swiggy")
+export const normalizeMerchantName = (name: string): string => {
+  const base = name.split('*')[0].trim() || name;
+  return base.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+// Merchant whose name or one of whose aliases matches `name` exactly once normalized
+export const matchMerchant = (merchants: Merchant[], name: string): Merchant | undefined => {
+  const key = normalizeMerchantName(name);
+  if (!key) return undefined;
+  return merchants.find(merchant => merchant.normalizedName === key || merchant.aliases.includes(key));
+};
+
+const MAX_SUGGESTIONS = 5;
+
+// A word of the name starting with the typed text counts as a match
+const startsWord = (value: string, key: string): boolean => {
+  return value.startsWith(key) || value.includes(` ${key}`);
+};
+
+const MerchantInput: React.FC<MerchantInputProps> = ({ label, value, onChangeText, onSelect, merchants }) => {
+  const key = normalizeMerchantName(value);
+  const exact = matchMerchant(merchants, value);
+
+  // Merchants come most recently used first
+  const matches = key && !exact
+    ? merchants
+      .filter(merchant => startsWord(merchant.normalizedName, key) || merchant.aliases.some(alias => startsWord(alias, key)))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  // Alias the typed text matched, shown next to the merchant's name
+  const getMatchedAlias = (merchant: Merchant): string | undefined => {
+    return startsWord(merchant.normalizedName, key) ? undefined : merchant.aliases.find(alias => startsWord(alias, key));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. Swiggy (optional)"
+        placeholderTextColor="#94a3b8"
+        value={value}
+        onChangeText={onChangeText}
+        autoCorrect={false}
+      />
+      {exact ? (
+        <Text style={styles.hint}>
+          {exact.name === value.trim() ? '✓ Saved merchant' : `✓ Saved as ${exact.name}`}
+        </Text>
+      ) : key ? (
+        <Text style={styles.hint}>New merchant</Text>
+      ) : null}
+      {matches.length > 0 && (
+        <View style={styles.suggestionList}>
+          {matches.map(merchant => {
+            const alias = getMatchedAlias(merchant);
+            return (
+              <TouchableOpacity
+                key={merchant._id}
+                style={styles.suggestion}
+                onPress={() => onSelect(merchant)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.suggestionName}>{merchant.name}</Text>
+                {alias && <Text style={styles.suggestionAlias}>{alias}</Text>}
+                {merchant.defaultCategory && (
+                  <Text style={styles.suggestionDefaults}>{merchant.defaultCategory}</Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+    marginLeft: 4,
+  },
+  suggestionList: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 8,
+  },
+  suggestionName: {
+    fontSize: 15,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+  suggestionAlias: {
+    flex: 1,
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  suggestionDefaults: {
+    marginLeft: 'auto',
+    fontSize: 12,
+    color: '#4338ca',
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+});
+
+export default MerchantInput;
@@ -0,0 +1,121 @@
+// Reimbursable input - marks an expense as one to be paid back, and where it is in being paid back
+import React from 'react';
+import {
+  View,
+  Text,
+  Switch,
+  TouchableOpacity,
+  StyleSheet
+} from 'react-native';
+import { ReimbursementStatus } from '../types';
+
+interface ReimbursableInputProps {
+  reimbursable: boolean;
+  onChangeReimbursable: (reimbursable: boolean) => void;
+  status?: ReimbursementStatus | null; // Picker shown when set, e.g. on the edit form
+  onChangeStatus?: (status: ReimbursementStatus) => void;
+  inClaim?: boolean; // The status then follows the claim and can't be picked
+}
+
+const STATUSES: { value: ReimbursementStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'claimed', label: 'Claimed' },
+  { value: 'reimbursed', label: 'Reimbursed' }
+];
+
+const ReimbursableInput: React.FC<ReimbursableInputProps> = ({
+  reimbursable,
+  onChangeReimbursable,
+  status,
+  onChangeStatus,
+  inClaim = false
+}) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <View>
+          <Text style={styles.label}>Reimbursable</Text>
+          <Text style={styles.hint}>Work or other spending you'll be paid back for</Text>
+        </View>
+        <Switch
+          value={reimbursable}
+          onValueChange={onChangeReimbursable}
+          trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+          thumbColor={reimbursable ? '#6366f1' : '#ffffff'}
+        />
+      </View>
+
+      {reimbursable && status && onChangeStatus && (
+        inClaim ? (
+          <Text style={styles.hint}>
+            In a claim - {STATUSES.find(item => item.value === status)?.label.toLowerCase()} until the claim moves on
+          </Text>
+        ) : (
+          <View style={styles.chipRow}>
+            {STATUSES.map(item => (
+              <TouchableOpacity
+                key={item.value}
+                style={[styles.chip, status === item.value && styles.chipSelected]}
+                onPress={() => onChangeStatus(item.value)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.chipText, status === item.value && styles.chipTextSelected]}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginLeft: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginLeft: 4,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+});
+
+export default ReimbursableInput;
@@ -0,0 +1,233 @@
+// Save view sheet - names the current search and filters and picks a relative date range for them
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Modal,
+  ActivityIndicator
+} from 'react-native';
+import { DATE_RANGES } from '../utils/config';
+import { DateRangePreset } from '../types';
+
+interface SaveViewSheetProps {
+  visible: boolean;
+  summary: string; // What the view will show, e.g. "2 filters · Highest amount"
+  onSave: (name: string, dateRange: DateRangePreset) => Promise<{ success: boolean; message?: string }>;
+  onClose: () => void;
+}
+
+const SaveViewSheet: React.FC<SaveViewSheetProps> = ({ visible, summary, onSave, onClose }) => {
+  const [name, setName] = useState<string>('');
+  const [dateRange, setDateRange] = useState<DateRangePreset>('all');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  // Start blank each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setName('');
+      setDateRange('all');
+      setError('');
+    }
+  }, [visible]);
+
+  const handleSave = async (): Promise<void> => {
+    if (!name.trim()) {
+      setError('Give the view a name');
+      return;
+    }
+
+    setSaving(true);
+    const result = await onSave(name.trim(), dateRange);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.message || 'Failed to save view');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Save View</Text>
+            <TouchableOpacity onPress={onClose} style={styles.modalCloseButton} activeOpacity={0.7}>
+              <Text style={styles.modalCloseText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody}>
+            <Text style={styles.summaryText}>{summary}</Text>
+
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. UPI food over ₹500"
+              placeholderTextColor="#94a3b8"
+              value={name}
+              onChangeText={setName}
+              maxLength={40}
+            />
+
+            <Text style={styles.label}>Date Range</Text>
+            <View style={styles.chipRow}>
+              {DATE_RANGES.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, dateRange === option.value && styles.chipSelected]}
+                  onPress={() => setDateRange(option.value)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, dateRange === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <TouchableOpacity
+              style={[styles.button, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+              activeOpacity={0.8}
+            >
+              {saving ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.buttonText}>Save View</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 16,
+    marginLeft: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default SaveViewSheet;
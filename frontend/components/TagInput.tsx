@@ -0,0 +1,157 @@
+// Tag input - chips for the selected tags plus autocomplete from previously used tags
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet
+} from 'react-native';
+
+interface TagInputProps {
+  label: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+}
+
+// Same normalization as the backend: trimmed, lowercase, spaces become hyphens
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+};
+
+const MAX_SUGGESTIONS = 6;
+
+const TagInput: React.FC<TagInputProps> = ({ label, tags, onChange, suggestions }) => {
+  const [text, setText] = useState<string>('');
+
+  const addTag = (value: string): void => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setText('');
+  };
+
+  const removeTag = (tag: string): void => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  // Typing a comma or space commits the current tag
+  const handleChangeText = (value: string): void => {
+    if (/[,\s]$/.test(value)) {
+      addTag(value.slice(0, -1));
+    } else {
+      setText(value);
+    }
+  };
+
+  const query = normalizeTag(text);
+  const matches = suggestions
+    .filter(tag => !tags.includes(tag) && (!query || tag.startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.inputBox}>
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            style={styles.tagChip}
+            onPress={() => removeTag(tag)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.tagChipText}>#{tag} ✕</Text>
+          </TouchableOpacity>
+        ))}
+        <TextInput
+          style={styles.input}
+          placeholder={tags.length === 0 ? 'e.g. goa-trip, work' : ''}
+          placeholderTextColor="#94a3b8"
+          value={text}
+          onChangeText={handleChangeText}
+          onSubmitEditing={() => addTag(text)}
+          autoCapitalize="none"
+          autoCorrect={false}
+          blurOnSubmit={false}
+        />
+      </View>
+      {matches.length > 0 && (
+        <View style={styles.suggestionRow}>
+          {matches.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.suggestionChip}
+              onPress={() => addTag(tag)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.suggestionText}>+ {tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  inputBox: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    gap: 6,
+  },
+  tagChip: {
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  tagChipText: {
+    fontSize: 13,
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  input: {
+    flex: 1,
+    minWidth: 100,
+    fontSize: 16,
+    color: '#1e293b',
+    padding: 6,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  suggestionChip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+});
+
+export default TagInput;
@@ -0,0 +1,67 @@
+// Undo snackbar - a short-lived bar at the bottom of the screen offering to undo the last action
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+interface UndoSnackbarProps {
+  message: string | null; // Hidden when null
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // Milliseconds before it dismisses itself
+}
+
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ message, onUndo, onDismiss, duration = 6000 }) => {
+  // Restart the timer for each new message
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  if (!message) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message} numberOfLines={2}>{message}</Text>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton} activeOpacity={0.7}>
+        <Text style={styles.undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1e293b',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingLeft: 16,
+    paddingRight: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: '#f8fafc',
+  },
+  undoButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#a5b4fc',
+  },
+});
+
+export default UndoSnackbar;
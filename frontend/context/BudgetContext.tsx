@@ -7,7 +7,7 @@ import { Budget, BudgetWithStats } from '../types';
 interface BudgetContextType {
   currentBudget: BudgetWithStats | null;
   loading: boolean;
-  setBudget: (month: number, year: number, amount: number) => Promise<{ success: boolean; message?: string; budget?: BudgetWithStats }>;
+  setBudget: (month: number, year: number, amount: number, excludeReimbursable?: boolean) => Promise<{ success: boolean; message?: string; budget?: BudgetWithStats }>;
   getBudget: (month?: number, year?: number) => Promise<{ success: boolean; data?: BudgetWithStats; message?: string }>;
   updateBudget: (id: string, amount: number) => Promise<{ success: boolean; message?: string }>;
   deleteBudget: (id: string) => Promise<{ success: boolean; message?: string }>;
@@ -69,11 +69,11 @@ export const BudgetProvider: React.FC<BudgetProviderProps> = ({ children }) => {
     }
   };
 
-  // Set or update budget for a month/year
-  const setBudget = async (month: number, year: number, amount: number): Promise<{ success: boolean; message?: string; budget?: BudgetWithStats }> => {
+  // Set or update budget for a month/year - `excludeReimbursable` leaves expenses that are paid back out of it
+  const setBudget = async (month: number, year: number, amount: number, excludeReimbursable?: boolean): Promise<{ success: boolean; message?: string; budget?: BudgetWithStats }> => {
     try {
       setLoading(true);
-      const response = await api.post<{ budget: BudgetWithStats }>('/budget', { month, year, amount });
+      const response = await api.post<{ budget: BudgetWithStats }>('/budget', { month, year, amount, excludeReimbursable });
       const budgetData = response.data.budget;
       
       setCurrentBudget(budgetData);
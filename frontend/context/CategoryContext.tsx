@@ -0,0 +1,149 @@
+// Category context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { FALLBACK_CATEGORY_EMOJI, FALLBACK_CATEGORY_COLOR } from '../utils/config';
+import { Category } from '../types';
+
+const CATEGORIES_CACHE_KEY = 'categories';
+
+interface CategoryContextType {
+  categories: Category[];
+  activeCategories: Category[];
+  loading: boolean;
+  loadCategories: () => Promise<void>;
+  getSubcategories: (parentName: string) => Category[];
+  addCategory: (name: string, emoji: string, color: string, parentId?: string | null) => Promise<{ success: boolean; category?: Category; message?: string }>;
+  updateCategory: (id: string, data: Partial<Pick<Category, 'name' | 'emoji' | 'color' | 'archived'>>) => Promise<{ success: boolean; category?: Category; message?: string }>;
+  mergeCategory: (id: string, targetId: string) => Promise<{ success: boolean; movedExpenses?: number; message?: string }>;
+  getCategoryEmoji: (name: string) => string;
+  getCategoryColor: (name: string) => string;
+}
+
+export const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+interface CategoryProviderProps {
+  children: ReactNode;
+}
+
+// Category context provider - manages the user's categories (cached for offline use)
+export const CategoryProvider: React.FC<CategoryProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load categories when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadCachedCategories();
+      loadCategories();
+    } else {
+      setCategories([]);
+    }
+  }, [user]);
+
+  // Load last known categories so pickers work offline
+  const loadCachedCategories = async (): Promise<void> => {
+    try {
+      const data = await AsyncStorage.getItem(CATEGORIES_CACHE_KEY);
+      if (data) {
+        setCategories(JSON.parse(data));
+      }
+    } catch (error) {
+      console.error('Error loading cached categories:', error);
+    }
+  };
+
+  const saveCategories = async (data: Category[]): Promise<void> => {
+    setCategories(data);
+    await AsyncStorage.setItem(CATEGORIES_CACHE_KEY, JSON.stringify(data));
+  };
+
+  // Fetch all categories (including archived) from backend
+  const loadCategories = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ categories: Category[] }>('/categories', {
+        params: { includeArchived: true }
+      });
+      await saveCategories(response.data.categories || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create new category
+  const addCategory = async (name: string, emoji: string, color: string, parentId: string | null = null): Promise<{ success: boolean; category?: Category; message?: string }> => {
+    try {
+      const response = await api.post<{ category: Category }>('/categories', { name, emoji, color, parentId });
+      const newCategory = response.data.category;
+      await saveCategories([...categories, newCategory]);
+      return { success: true, category: newCategory };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to create category' };
+    }
+  };
+
+  // Rename, restyle, archive or unarchive a category
+  const updateCategory = async (id: string, data: Partial<Pick<Category, 'name' | 'emoji' | 'color' | 'archived'>>): Promise<{ success: boolean; category?: Category; message?: string }> => {
+    try {
+      const response = await api.put<{ category: Category }>(`/categories/${id}`, data);
+      const updatedCategory = response.data.category;
+      await saveCategories(categories.map(cat => cat._id === id ? updatedCategory : cat));
+      return { success: true, category: updatedCategory };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update category' };
+    }
+  };
+
+  // Merge a category into another one (subcategories may be moved, so reload them)
+  const mergeCategory = async (id: string, targetId: string): Promise<{ success: boolean; movedExpenses?: number; message?: string }> => {
+    try {
+      const response = await api.post<{ movedExpenses: number }>(`/categories/${id}/merge`, { targetId });
+      await loadCategories();
+      return { success: true, movedExpenses: response.data.movedExpenses };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to merge categories' };
+    }
+  };
+
+  // Top-level categories only - subcategory names may repeat across parents
+  const topLevelCategories = categories.filter(cat => !cat.parentId);
+
+  const getCategoryEmoji = (name: string): string => {
+    return topLevelCategories.find(cat => cat.name === name)?.emoji || FALLBACK_CATEGORY_EMOJI;
+  };
+
+  const getCategoryColor = (name: string): string => {
+    return topLevelCategories.find(cat => cat.name === name)?.color || FALLBACK_CATEGORY_COLOR;
+  };
+
+  // Active subcategories of a top-level category
+  const getSubcategories = (parentName: string): Category[] => {
+    const parent = topLevelCategories.find(cat => cat.name === parentName);
+    if (!parent) return [];
+    return categories.filter(cat => cat.parentId === parent._id && !cat.archived);
+  };
+
+  const activeCategories = topLevelCategories.filter(cat => !cat.archived);
+
+  return (
+    <CategoryContext.Provider value={{
+      categories,
+      activeCategories,
+      loading,
+      loadCategories,
+      getSubcategories,
+      addCategory,
+      updateCategory,
+      mergeCategory,
+      getCategoryEmoji,
+      getCategoryColor
+    }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+};
@@ -0,0 +1,111 @@
+// Claim context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Claim, OutstandingReimbursements } from '../types';
+
+export interface ClaimInput {
+  name?: string;
+  note?: string;
+  claimedAt?: string | null;
+  settledAt?: string | null;
+  expenseIds?: string[]; // Replaces the claim's expenses - ones left out go back to pending
+}
+
+interface ClaimContextType {
+  claims: Claim[];
+  outstanding: OutstandingReimbursements | null;
+  loading: boolean;
+  loadClaims: () => Promise<void>;
+  createClaim: (data: ClaimInput) => Promise<{ success: boolean; claim?: Claim; message?: string }>;
+  updateClaim: (id: string, data: ClaimInput) => Promise<{ success: boolean; claim?: Claim; message?: string }>;
+  deleteClaim: (id: string) => Promise<{ success: boolean; message?: string }>;
+}
+
+export const ClaimContext = createContext<ClaimContextType | undefined>(undefined);
+
+interface ClaimProviderProps {
+  children: ReactNode;
+}
+
+// Claim context provider - manages reimbursement claims and the outstanding reimbursements report
+export const ClaimProvider: React.FC<ClaimProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [outstanding, setOutstanding] = useState<OutstandingReimbursements | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load claims when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadClaims();
+    } else {
+      setClaims([]);
+      setOutstanding(null);
+    }
+  }, [user]);
+
+  // Fetch claims (newest first) and what is still to be paid back
+  const loadClaims = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const [claimsResponse, outstandingResponse] = await Promise.all([
+        api.get<{ claims: Claim[] }>('/claims'),
+        api.get<OutstandingReimbursements>('/claims/outstanding')
+      ]);
+      setClaims(claimsResponse.data.claims || []);
+      setOutstanding(outstandingResponse.data);
+    } catch (error) {
+      console.error('Error loading claims:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create claim - expense statuses change with it, so everything is reloaded
+  const createClaim = async (data: ClaimInput): Promise<{ success: boolean; claim?: Claim; message?: string }> => {
+    try {
+      const response = await api.post<{ claim: Claim }>('/claims', data);
+      await loadClaims();
+      return { success: true, claim: response.data.claim };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to create claim' };
+    }
+  };
+
+  // Update claim (submit, settle, rename or change its expenses)
+  const updateClaim = async (id: string, data: ClaimInput): Promise<{ success: boolean; claim?: Claim; message?: string }> => {
+    try {
+      const response = await api.put<{ claim: Claim }>(`/claims/${id}`, data);
+      await loadClaims();
+      return { success: true, claim: response.data.claim };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update claim' };
+    }
+  };
+
+  // Delete claim (its expenses go back to pending)
+  const deleteClaim = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/claims/${id}`);
+      await loadClaims();
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete claim' };
+    }
+  };
+
+  return (
+    <ClaimContext.Provider value={{
+      claims,
+      outstanding,
+      loading,
+      loadClaims,
+      createClaim,
+      updateClaim,
+      deleteClaim
+    }}>
+      {children}
+    </ClaimContext.Provider>
+  );
+};
@@ -0,0 +1,182 @@
+// Currency context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { ExchangeRate } from '../types';
+
+const RATES_CACHE_KEY = 'exchangeRates';
+
+interface CurrencyContextType {
+  homeCurrency: string;
+  rates: ExchangeRate[];
+  availableCurrencies: string[];
+  loading: boolean;
+  loadRates: () => Promise<void>;
+  setRate: (currency: string, rate: number) => Promise<{ success: boolean; message?: string }>;
+  deleteRate: (currency: string) => Promise<{ success: boolean; message?: string }>;
+  importRates: (text: string) => Promise<{ success: boolean; imported?: number; message?: string }>;
+  setHomeCurrency: (currency: string) => Promise<{ success: boolean; message?: string }>;
+  convert: (amount: number, currency?: string) => number;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+// Parse pasted rates: a JSON object ({"USD": 83.2}) or one "USD=83.2" / "USD 83.2" / "USD,83.2" per line
+// Returns null when nothing could be read
+export const parseRates = (text: string): Record<string, number> | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  const rates: Record<string, number> = {};
+  for (const line of trimmed.split(/\n+/)) {
+    if (!line.trim()) continue;
+    const match = line.trim().match(/^([A-Za-z]{3})\s*[=,:\s]\s*([\d.]+)$/);
+    if (!match) return null;
+    rates[match[1].toUpperCase()] = parseFloat(match[2]);
+  }
+  return rates;
+};
+
+// Currency context provider - home currency and exchange rates (cached so conversion works offline)
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [homeCurrency, setHomeCurrencyState] = useState<string>(user?.homeCurrency || DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load rates when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadCachedRates();
+      loadRates();
+    } else {
+      setHomeCurrencyState(DEFAULT_CURRENCY);
+      setRates([]);
+    }
+  }, [user]);
+
+  // Load last known rates so amounts can be converted offline
+  const loadCachedRates = async (): Promise<void> => {
+    try {
+      const data = await AsyncStorage.getItem(RATES_CACHE_KEY);
+      if (data) {
+        const cached = JSON.parse(data);
+        setHomeCurrencyState(cached.homeCurrency);
+        setRates(cached.rates);
+      }
+    } catch (error) {
+      console.error('Error loading cached rates:', error);
+    }
+  };
+
+  const saveRates = async (home: string, data: ExchangeRate[]): Promise<void> => {
+    setHomeCurrencyState(home);
+    setRates(data);
+    await AsyncStorage.setItem(RATES_CACHE_KEY, JSON.stringify({ homeCurrency: home, rates: data }));
+  };
+
+  // Fetch home currency and rates from backend
+  const loadRates = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ homeCurrency: string; rates: ExchangeRate[] }>('/rates');
+      await saveRates(response.data.homeCurrency, response.data.rates || []);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create or update the rate for one currency
+  const setRate = async (currency: string, rate: number): Promise<{ success: boolean; message?: string }> => {
+    try {
+      const response = await api.put<{ rate: ExchangeRate }>(`/rates/${currency}`, { rate });
+      const saved = response.data.rate;
+      const others = rates.filter(item => item.currency !== saved.currency);
+      await saveRates(homeCurrency, [...others, saved].sort((a, b) => a.currency.localeCompare(b.currency)));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to save exchange rate' };
+    }
+  };
+
+  // Delete the rate for one currency
+  const deleteRate = async (currency: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/rates/${currency}`);
+      await saveRates(homeCurrency, rates.filter(item => item.currency !== currency));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete exchange rate' };
+    }
+  };
+
+  // Import several rates from pasted text (see parseRates)
+  const importRates = async (text: string): Promise<{ success: boolean; imported?: number; message?: string }> => {
+    const parsed = parseRates(text);
+    if (!parsed) {
+      return { success: false, message: 'Paste a JSON object or one "USD=83.2" per line' };
+    }
+
+    try {
+      const response = await api.post<{ rates: ExchangeRate[] }>('/rates/import', { rates: parsed });
+      await saveRates(homeCurrency, response.data.rates || []);
+      return { success: true, imported: Object.keys(parsed).length };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to import exchange rates' };
+    }
+  };
+
+  // Change home currency - the backend rebases rates and budgets
+  const setHomeCurrency = async (currency: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      const response = await api.put<{ homeCurrency: string; rates: ExchangeRate[] }>('/rates/home', { currency });
+      await saveRates(response.data.homeCurrency, response.data.rates || []);
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to change home currency' };
+    }
+  };
+
+  // Convert an amount into the home currency (unknown currencies are left as they are)
+  const convert = (amount: number, currency: string = homeCurrency): number => {
+    if (currency === homeCurrency) return amount;
+    const rate = rates.find(item => item.currency === currency);
+    return rate ? amount * rate.rate : amount;
+  };
+
+  const availableCurrencies = [homeCurrency, ...rates.map(item => item.currency)];
+
+  return (
+    <CurrencyContext.Provider value={{
+      homeCurrency,
+      rates,
+      availableCurrencies,
+      loading,
+      loadRates,
+      setRate,
+      deleteRate,
+      importRates,
+      setHomeCurrency,
+      convert
+    }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -1,23 +1,113 @@
 // Expense context with TypeScript
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useContext, useRef, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContext } from './AuthContext';
 import api from '../utils/api';
 import { saveOfflineExpense, syncOfflineExpenses, getOfflineExpenses } from '../utils/offlineSync';
-import { Expense, OfflineExpense, ExpenseStats, CategoryBreakdown, Insights, BudgetWarning } from '../types';
+import { BulkExpenseRequest, BulkItemResult, Expense, ExpenseFilters, ExpenseRevision, ExpenseQuery, OfflineExpense, PickedFile, ExpenseStats, CategoryBreakdown, Insights, BudgetWarning, DuplicatePrompt, PossibleDuplicate, CategorySuggestion, MessageDraft, PayeeGuess } from '../types';
 
 interface ExpenseContextType {
   expenses: Expense[];
   offlineExpenses: OfflineExpense[];
   loading: boolean;
-  loadExpenses: () => Promise<void>;
-  addExpense: (expenseData: Omit<Expense, '_id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<{ success: boolean; expense?: Expense | OfflineExpense; offline?: boolean; message?: string; budgetWarning?: BudgetWarning }>;
+  loadingMore: boolean;
+  hasMore: boolean;
+  query: ExpenseQuery;
+  filters: ExpenseFilters;
+  setFilters: (filters: ExpenseFilters) => Promise<void>;
+  loadExpenses: (query?: ExpenseQuery) => Promise<void>;
+  loadMore: () => Promise<void>;
+  addExpense: (expenseData: Omit<Expense, '_id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<{ success: boolean; expense?: Expense | OfflineExpense; offline?: boolean; message?: string; budgetWarning?: BudgetWarning; possibleDuplicate?: PossibleDuplicate }>;
   updateExpense: (id: string, expenseData: Partial<Expense>) => Promise<{ success: boolean; expense?: Expense; message?: string }>;
   deleteExpense: (id: string) => Promise<{ success: boolean; message?: string }>;
-  getStats: (type: 'daily' | 'monthly' | 'categories' | 'insights', params?: Record<string, any>) => Promise<{ success: boolean; data?: any; message?: string }>;
+  possibleDuplicates: DuplicatePrompt[]; // Waiting for the user to keep or discard, oldest first
+  resolveDuplicate: (prompt: DuplicatePrompt, keep: boolean) => Promise<{ success: boolean; message?: string }>;
+  bulkUpdate: (request: BulkExpenseRequest) => Promise<{ success: boolean; results?: BulkItemResult[]; message?: string }>;
+  recentlyDeleted: RecentlyDeleted | null;
+  undoDelete: () => Promise<{ success: boolean; message?: string }>;
+  dismissUndo: () => void;
+  getTrash: () => Promise<{ success: boolean; expenses?: Expense[]; retentionDays?: number; message?: string }>;
+  restoreExpense: (id: string) => Promise<{ success: boolean; expense?: Expense; message?: string }>;
+  purgeExpense: (id: string) => Promise<{ success: boolean; message?: string }>;
+  emptyTrash: () => Promise<{ success: boolean; message?: string }>;
+  getHistory: (id: string) => Promise<{ success: boolean; revisions?: ExpenseRevision[]; message?: string }>;
+  revertExpense: (id: string, revisionId: string) => Promise<{ success: boolean; expense?: Expense; message?: string }>;
+  uploadAttachments: (id: string, files: PickedFile[]) => Promise<{ success: boolean; expense?: Expense; message?: string }>;
+  deleteAttachment: (id: string, attachmentId: string) => Promise<{ success: boolean; expense?: Expense; message?: string }>;
+  getStats: (type: 'daily' | 'monthly' | 'categories' | 'tags' | 'merchants' | 'places' | 'insights', params?: Record<string, any>) => Promise<{ success: boolean; data?: any; message?: string }>;
+  suggestCategories: (description: string) => Promise<{ success: boolean; suggestions?: CategorySuggestion[]; message?: string }>;
+  parseMessages: (messages: string[]) => Promise<{ success: boolean; drafts?: MessageDraft[]; message?: string }>;
+  guessPayee: (vpa: string) => Promise<{ success: boolean; guess?: PayeeGuess | null; message?: string }>;
+}
+
+// Expenses just moved to the trash, which the undo snackbar can bring back
+export interface RecentlyDeleted {
+  ids: string[];
+  message: string;
 }
 
 export const ExpenseContext = createContext<ExpenseContextType | undefined>(undefined);
 
+const PAGE_SIZE = 30;
+const FILTERS_KEY = 'expenseFilters';
+
+interface ExpensePage {
+  expenses: Expense[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Endpoint listing a query's expenses - saved views run on the backend with their own filters
+const getListUrl = (query: ExpenseQuery): string => {
+  return query.viewId ? `/views/${query.viewId}/expenses` : '/expenses';
+};
+
+// Request parameters for a query - lists are sent as repeated parameters (?category=Food&category=Bills)
+const toParams = ({ viewId, categories, paymentMethods, ...rest }: ExpenseQuery): Record<string, any> => {
+  if (viewId) return {};
+  return { ...rest, category: categories, paymentMethod: paymentMethods };
+};
+
+const PARAMS_SERIALIZER = { indexes: null };
+
+// Same order as the backend for the query's sort, with _id breaking ties
+// Returns null for search relevance, which only the backend can rank
+const getComparator = (query: ExpenseQuery): ((a: Expense, b: Expense) => number) | null => {
+  if (query.q && (!query.sort || query.sort === 'relevance')) return null;
+
+  const field = query.sort && query.sort !== 'relevance' ? query.sort : 'date';
+  const direction = query.order === 'asc' ? 1 : -1;
+  const valueOf = (expense: Expense): number => {
+    if (field === 'amount') return expense.amount;
+    return new Date((field === 'createdAt' ? expense.createdAt : expense.date) || 0).getTime();
+  };
+
+  return (a, b) => {
+    const byField = valueOf(a) - valueOf(b);
+    return direction * (byField !== 0 ? byField : a._id.localeCompare(b._id));
+  };
+};
+
+// Insert or replace expenses while keeping the list in the query's order
+const sortForQuery = (list: Expense[], query: ExpenseQuery): Expense[] => {
+  const comparator = getComparator(query);
+  return comparator ? [...list].sort(comparator) : list;
+};
+
+// Whether an expense belongs in a query's list, checked like the backend filters it (a split expense is in
+// each of its line items' categories) - null when only the backend can tell: searches, saved views and nearby
+const matchesQuery = (expense: Expense, query: ExpenseQuery): boolean | null => {
+  if (query.q || query.viewId || query.near) return null;
+
+  const { categories = [], paymentMethods = [] } = query;
+  const expenseCategories = [expense.category, ...(expense.lineItems || []).map(item => item.category)];
+  if (categories.length > 0 && !expenseCategories.some(category => categories.includes(category))) return false;
+  if (paymentMethods.length > 0 && !paymentMethods.some(method => method === expense.paymentMethod)) return false;
+  if (query.minAmount != null && expense.amount < query.minAmount) return false;
+  if (query.maxAmount != null && expense.amount > query.maxAmount) return false;
+  return true;
+};
+
 interface ExpenseProviderProps {
   children: ReactNode;
 }
@@ -27,38 +117,83 @@ export const ExpenseProvider: React.FC<ExpenseProviderProps> = ({ children }) =>
   const { user } = useContext(AuthContext)!;
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [query, setQuery] = useState<ExpenseQuery>({});
+  const [filters, setFiltersState] = useState<ExpenseFilters>({});
+  const queryRef = useRef<ExpenseQuery>({}); // Same as `query`, for callers holding an old loadExpenses
+  const latestRequestRef = useRef<number>(0);
   const [offlineExpenses, setOfflineExpenses] = useState<OfflineExpense[]>([]);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<RecentlyDeleted | null>(null);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<DuplicatePrompt[]>([]);
 
   // Load expenses when user is logged in
   useEffect(() => {
     if (user) {
-      loadExpenses();
+      restoreFilters();
       loadOfflineExpenses();
-      syncOfflineExpenses(); // Try to sync offline expenses
+      syncOffline(); // Try to sync offline expenses
     }
   }, [user]);
 
+  // Load the filters saved in a previous session, then the first page with them (without a search)
+  const restoreFilters = async (): Promise<void> => {
+    let saved: ExpenseFilters = {};
+    try {
+      const data = await AsyncStorage.getItem(`${FILTERS_KEY}:${user?.id}`);
+      if (data) saved = JSON.parse(data);
+    } catch (error) {
+      console.error('Error loading saved filters:', error);
+    }
+    setFiltersState(saved);
+    await loadExpenses(saved);
+  };
+
+  // Change the list filters and remember them for the next session
+  // Callers reload the list with the new filters (see HomeScreen)
+  const setFilters = async (nextFilters: ExpenseFilters): Promise<void> => {
+    setFiltersState(nextFilters);
+    try {
+      await AsyncStorage.setItem(`${FILTERS_KEY}:${user?.id}`, JSON.stringify(nextFilters));
+    } catch (error) {
+      console.error('Error saving filters:', error);
+    }
+  };
+
   // Load offline expenses from AsyncStorage
   const loadOfflineExpenses = async (): Promise<void> => {
     const offline = await getOfflineExpenses();
     setOfflineExpenses(offline);
   };
 
-  // Fetch all expenses from backend
-  const loadExpenses = async (): Promise<void> => {
+  // Send the offline queue to the server - synced expenses it flags as repeats wait for the user's answer
+  const syncOffline = async (): Promise<void> => {
+    try {
+      const { duplicates } = await syncOfflineExpenses();
+      if (duplicates.length > 0) {
+        setPossibleDuplicates(prev => [...prev, ...duplicates]);
+      }
+    } catch (error) {
+      // Whatever didn't sync stays queued for next time
+    }
+  };
+
+  // Fetch the first page of expenses from backend (replaces any pages loaded so far)
+  // Without a query argument the current search is kept
+  const loadExpenses = async (nextQuery: ExpenseQuery = queryRef.current): Promise<void> => {
     try {
       setLoading(true);
-      const response = await api.get<{ expenses: Expense[] }>('/expenses');
-      const expensesData = response.data.expenses || [];
-      
-      // Sort by createdAt to ensure newest first (in case backend doesn't sort correctly)
-      const sortedExpenses = [...expensesData].sort((a, b) => {
-        const dateA = new Date(a.createdAt || a.date).getTime();
-        const dateB = new Date(b.createdAt || b.date).getTime();
-        return dateB - dateA; // Newest first
+      queryRef.current = nextQuery;
+      setQuery(nextQuery);
+      // Searches can overlap while typing - only the latest one may replace the list
+      const requestId = ++latestRequestRef.current;
+      const response = await api.get<ExpensePage>(getListUrl(nextQuery), {
+        params: { ...toParams(nextQuery), limit: PAGE_SIZE },
+        paramsSerializer: PARAMS_SERIALIZER
       });
-      
-      setExpenses(sortedExpenses);
+      if (requestId !== latestRequestRef.current) return;
+      setExpenses(response.data.expenses || []);
+      setNextCursor(response.data.hasMore ? response.data.nextCursor : null);
     } catch (error) {
       console.error('Error loading expenses:', error);
     } finally {
@@ -66,38 +201,70 @@ export const ExpenseProvider: React.FC<ExpenseProviderProps> = ({ children }) =>
     }
   };
 
+  // Fetch the next page and append it
+  const loadMore = async (): Promise<void> => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const requestId = latestRequestRef.current;
+      const response = await api.get<ExpensePage>(getListUrl(queryRef.current), {
+        params: { ...toParams(queryRef.current), limit: PAGE_SIZE, cursor: nextCursor },
+        paramsSerializer: PARAMS_SERIALIZER
+      });
+      if (requestId !== latestRequestRef.current) return; // A new search started meanwhile
+      const page = response.data.expenses || [];
+      setExpenses(prev => {
+        // Skip any expense already in the list (e.g. added locally since the last page), and sort again as
+        // one added locally may belong further down than the pages loaded before
+        const known = new Set(prev.map(exp => exp._id));
+        return sortForQuery([...prev, ...page.filter(exp => !known.has(exp._id))], queryRef.current);
+      });
+      setNextCursor(response.data.hasMore ? response.data.nextCursor : null);
+    } catch (error) {
+      console.error('Error loading more expenses:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Put an added, edited or restored expense where the list's filters and sort order want it, or take it out
+  // when it no longer matches them - a search, saved view or nearby list is reloaded instead
+  const placeInList = (expense: Expense): void => {
+    const belongs = matchesQuery(expense, queryRef.current);
+    if (belongs === null) {
+      loadExpenses();
+      return;
+    }
+    setExpenses(prev => {
+      const others = prev.filter(exp => exp._id !== expense._id);
+      return belongs ? sortForQuery([expense, ...others], queryRef.current) : others;
+    });
+  };
+
   // Add new expense (with offline support)
-  const addExpense = async (expenseData: Omit<Expense, '_id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<{ success: boolean; expense?: Expense | OfflineExpense; offline?: boolean; message?: string; budgetWarning?: BudgetWarning }> => {
+  const addExpense = async (expenseData: Omit<Expense, '_id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<{ success: boolean; expense?: Expense | OfflineExpense; offline?: boolean; message?: string; budgetWarning?: BudgetWarning; possibleDuplicate?: PossibleDuplicate }> => {
     try {
       // Try to add to backend first
-      const response = await api.post<{ expense: Expense; budgetWarning?: BudgetWarning }>('/expenses', expenseData);
+      const response = await api.post<{ expense: Expense; budgetWarning?: BudgetWarning; possibleDuplicate?: PossibleDuplicate | null }>('/expenses', expenseData);
       const newExpense = response.data.expense;
       const budgetWarning = response.data.budgetWarning;
+      const possibleDuplicate = response.data.possibleDuplicate || undefined;
       
       // Validate the response has correct data
       if (!newExpense || !newExpense._id) {
         throw new Error('Invalid expense data received from server');
       }
       
-      // Add the new expense to the list (at the top - newest first)
-      setExpenses(prev => {
-        // Check if expense already exists (avoid duplicates)
-        const exists = prev.some(exp => exp._id === newExpense._id);
-        if (exists) {
-          return prev;
-        }
-        // Add new expense at the beginning (newest first)
-        const updated = [newExpense, ...prev];
-        // Sort by createdAt to ensure correct order (newest first)
-        const sorted = updated.sort((a, b) => {
-          const dateA = new Date(a.createdAt || a.date || 0).getTime();
-          const dateB = new Date(b.createdAt || b.date || 0).getTime();
-          return dateB - dateA; // Newest first
-        });
-        return sorted;
-      });
+      // Into the list if its filters let it in, in the current sort order
+      placeInList(newExpense);
+      
+      // Double taps can save the same expense twice - the user is asked whether to keep both
+      if (possibleDuplicate) {
+        setPossibleDuplicates(prev => [...prev, { expense: newExpense, possibleDuplicate }]);
+      }
       
-      return { success: true, expense: newExpense, budgetWarning };
+      return { success: true, expense: newExpense, budgetWarning, possibleDuplicate };
     } catch (error: any) {
       // If offline, save to local storage
       if (!error.response) {
@@ -114,26 +281,182 @@ export const ExpenseProvider: React.FC<ExpenseProviderProps> = ({ children }) =>
     try {
       const response = await api.put<{ expense: Expense }>(`/expenses/${id}`, expenseData);
       const updatedExpense = response.data.expense;
-      setExpenses(prev => prev.map(exp => exp._id === id ? updatedExpense : exp));
+      // The date, amount or category may have changed - it may move in the list, or out of it
+      placeInList(updatedExpense);
       return { success: true, expense: updatedExpense };
     } catch (error: any) {
       return { success: false, message: error.response?.data?.message || 'Failed to update expense' };
     }
   };
 
-  // Delete expense
+  // Delete expense (moves it to the trash - see undoDelete)
   const deleteExpense = async (id: string): Promise<{ success: boolean; message?: string }> => {
     try {
       await api.delete(`/expenses/${id}`);
       setExpenses(prev => prev.filter(exp => exp._id !== id));
+      setRecentlyDeleted({ ids: [id], message: 'Expense moved to trash' });
       return { success: true };
     } catch (error: any) {
       return { success: false, message: error.response?.data?.message || 'Failed to delete expense' };
     }
   };
 
+  // Keep a possible duplicate, or discard it (moves it to the trash, with undo)
+  const resolveDuplicate = async (prompt: DuplicatePrompt, keep: boolean): Promise<{ success: boolean; message?: string }> => {
+    setPossibleDuplicates(prev => prev.filter(item => item !== prompt));
+    if (keep) return { success: true };
+    return deleteExpense(prompt.expense._id);
+  };
+
+  // Apply one operation to several expenses - on failure none of them were changed
+  const bulkUpdate = async (request: BulkExpenseRequest): Promise<{ success: boolean; results?: BulkItemResult[]; message?: string }> => {
+    try {
+      const response = await api.post<{ results: BulkItemResult[]; expenses?: Expense[] }>('/expenses/bulk', request);
+      if (request.operation === 'delete') {
+        const deleted = new Set(request.ids);
+        setExpenses(prev => prev.filter(exp => !deleted.has(exp._id)));
+        setRecentlyDeleted({
+          ids: request.ids,
+          message: `${request.ids.length} ${request.ids.length === 1 ? 'expense' : 'expenses'} moved to trash`
+        });
+      } else {
+        // Restored expenses aren't in the list yet, updated ones are replaced in place
+        const updated = new Map((response.data.expenses || []).map(exp => [exp._id, exp]));
+        setExpenses(prev => {
+          const known = new Set(prev.map(exp => exp._id));
+          const added = [...updated.values()].filter(exp => !known.has(exp._id));
+          return sortForQuery([...added, ...prev.map(exp => updated.get(exp._id) || exp)], queryRef.current);
+        });
+      }
+      return { success: true, results: response.data.results };
+    } catch (error: any) {
+      return {
+        success: false,
+        results: error.response?.data?.results,
+        message: error.response?.data?.message || 'Failed to update expenses'
+      };
+    }
+  };
+
+  // Bring back the expenses from the last delete
+  const undoDelete = async (): Promise<{ success: boolean; message?: string }> => {
+    if (!recentlyDeleted) return { success: true };
+
+    const { ids } = recentlyDeleted;
+    setRecentlyDeleted(null);
+    if (ids.length === 1) {
+      const result = await restoreExpense(ids[0]);
+      return { success: result.success, message: result.message };
+    }
+
+    const result = await bulkUpdate({ ids, operation: 'restore' });
+    return { success: result.success, message: result.message };
+  };
+
+  const dismissUndo = (): void => {
+    setRecentlyDeleted(null);
+  };
+
+  // Get the expenses in the trash and how many days they are kept
+  const getTrash = async (): Promise<{ success: boolean; expenses?: Expense[]; retentionDays?: number; message?: string }> => {
+    try {
+      const response = await api.get<{ expenses: Expense[]; retentionDays: number }>('/expenses/trash');
+      return { success: true, expenses: response.data.expenses || [], retentionDays: response.data.retentionDays };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to load trash' };
+    }
+  };
+
+  // Restore a trashed expense to the list
+  const restoreExpense = async (id: string): Promise<{ success: boolean; expense?: Expense; message?: string }> => {
+    try {
+      const response = await api.post<{ expense: Expense }>(`/expenses/trash/${id}/restore`);
+      const restored = response.data.expense;
+      placeInList(restored);
+      return { success: true, expense: restored };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to restore expense' };
+    }
+  };
+
+  // Permanently delete a trashed expense
+  const purgeExpense = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/expenses/trash/${id}`);
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete expense' };
+    }
+  };
+
+  // Permanently delete everything in the trash
+  const emptyTrash = async (): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete('/expenses/trash');
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to empty trash' };
+    }
+  };
+
+  // Get an expense's change history, newest first
+  const getHistory = async (id: string): Promise<{ success: boolean; revisions?: ExpenseRevision[]; message?: string }> => {
+    try {
+      const response = await api.get<{ revisions: ExpenseRevision[] }>(`/expenses/${id}/history`);
+      return { success: true, revisions: response.data.revisions || [] };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to load history' };
+    }
+  };
+
+  // Take an expense back to how it was right after a revision
+  const revertExpense = async (id: string, revisionId: string): Promise<{ success: boolean; expense?: Expense; message?: string }> => {
+    try {
+      const response = await api.post<{ expense: Expense }>(`/expenses/${id}/history/${revisionId}/revert`);
+      const reverted = response.data.expense;
+      placeInList(reverted);
+      return { success: true, expense: reverted };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to revert expense' };
+    }
+  };
+
+  // Upload receipt photos or PDFs to an existing expense
+  const uploadAttachments = async (id: string, files: PickedFile[]): Promise<{ success: boolean; expense?: Expense; message?: string }> => {
+    try {
+      const formData = new FormData();
+      files.forEach(file => {
+        // React Native's FormData takes a { uri, name, type } file part in place of a Blob, which the DOM
+        // typings of FormData.append don't know about
+        const part: { uri: string; name: string; type: string } = { uri: file.uri, name: file.name, type: file.mimeType };
+        formData.append('files', part as unknown as Blob);
+      });
+
+      const response = await api.post<{ expense: Expense }>(`/expenses/${id}/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      const updatedExpense = response.data.expense;
+      setExpenses(prev => prev.map(exp => exp._id === id ? updatedExpense : exp));
+      return { success: true, expense: updatedExpense };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to upload attachments' };
+    }
+  };
+
+  // Delete a single attachment from an expense
+  const deleteAttachment = async (id: string, attachmentId: string): Promise<{ success: boolean; expense?: Expense; message?: string }> => {
+    try {
+      const response = await api.delete<{ expense: Expense }>(`/expenses/${id}/attachments/${attachmentId}`);
+      const updatedExpense = response.data.expense;
+      setExpenses(prev => prev.map(exp => exp._id === id ? updatedExpense : exp));
+      return { success: true, expense: updatedExpense };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete attachment' };
+    }
+  };
+
   // Get statistics
-  const getStats = async (type: 'daily' | 'monthly' | 'categories' | 'insights', params: Record<string, any> = {}): Promise<{ success: boolean; data?: any; message?: string }> => {
+  const getStats = async (type: 'daily' | 'monthly' | 'categories' | 'tags' | 'merchants' | 'places' | 'insights', params: Record<string, any> = {}): Promise<{ success: boolean; data?: any; message?: string }> => {
     try {
       const response = await api.get(`/expenses/stats/${type}`, { params });
       return { success: true, data: response.data };
@@ -142,16 +465,69 @@ export const ExpenseProvider: React.FC<ExpenseProviderProps> = ({ children }) =>
     }
   };
 
+  // Category and payment method suggestions for a description, learned from the user's history
+  const suggestCategories = async (description: string): Promise<{ success: boolean; suggestions?: CategorySuggestion[]; message?: string }> => {
+    try {
+      const response = await api.get<{ suggestions: CategorySuggestion[] }>('/expenses/suggest', { params: { description } });
+      return { success: true, suggestions: response.data.suggestions || [] };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to load suggestions' };
+    }
+  };
+
+  // Draft expenses read from pasted bank and UPI messages (SMS), with the user's own formats tried first
+  const parseMessages = async (messages: string[]): Promise<{ success: boolean; drafts?: MessageDraft[]; message?: string }> => {
+    try {
+      const response = await api.post<{ drafts: MessageDraft[] }>('/expenses/parse-messages', { messages });
+      return { success: true, drafts: response.data.drafts };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to read message' };
+    }
+  };
+
+  // Category and merchant of earlier payments to a UPI ID - `guess` is null for a new payee
+  const guessPayee = async (vpa: string): Promise<{ success: boolean; guess?: PayeeGuess | null; message?: string }> => {
+    try {
+      const response = await api.get<{ guess: PayeeGuess | null }>('/expenses/upi-payee', { params: { vpa } });
+      return { success: true, guess: response.data.guess };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to look up payee' };
+    }
+  };
+
   return (
     <ExpenseContext.Provider value={{
       expenses,
       offlineExpenses,
       loading,
+      loadingMore,
+      hasMore: nextCursor !== null,
+      query,
+      filters,
+      setFilters,
       loadExpenses,
+      loadMore,
       addExpense,
       updateExpense,
       deleteExpense,
-      getStats
+      possibleDuplicates,
+      resolveDuplicate,
+      bulkUpdate,
+      recentlyDeleted,
+      undoDelete,
+      dismissUndo,
+      getTrash,
+      restoreExpense,
+      purgeExpense,
+      emptyTrash,
+      getHistory,
+      revertExpense,
+      uploadAttachments,
+      deleteAttachment,
+      getStats,
+      suggestCategories,
+      parseMessages,
+      guessPayee
     }}>
       {children}
     </ExpenseContext.Provider>
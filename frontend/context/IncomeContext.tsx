@@ -0,0 +1,101 @@
+// Income context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Income } from '../types';
+
+export type IncomeInput = Omit<Income, '_id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+interface IncomeContextType {
+  incomes: Income[];
+  loading: boolean;
+  loadIncome: () => Promise<void>;
+  addIncome: (data: IncomeInput) => Promise<{ success: boolean; income?: Income; message?: string }>;
+  updateIncome: (id: string, data: Partial<IncomeInput>) => Promise<{ success: boolean; income?: Income; message?: string }>;
+  deleteIncome: (id: string) => Promise<{ success: boolean; message?: string }>;
+}
+
+export const IncomeContext = createContext<IncomeContextType | undefined>(undefined);
+
+interface IncomeProviderProps {
+  children: ReactNode;
+}
+
+// Income context provider - manages salary, freelance and other money coming in
+export const IncomeProvider: React.FC<IncomeProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load income when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadIncome();
+    } else {
+      setIncomes([]);
+    }
+  }, [user]);
+
+  // Fetch all income entries from backend
+  const loadIncome = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ incomes: Income[] }>('/income');
+      setIncomes(response.data.incomes || []);
+    } catch (error) {
+      console.error('Error loading income:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create new income entry (newest dates first)
+  const addIncome = async (data: IncomeInput): Promise<{ success: boolean; income?: Income; message?: string }> => {
+    try {
+      const response = await api.post<{ income: Income }>('/income', data);
+      const newIncome = response.data.income;
+      setIncomes(prev => [newIncome, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+      return { success: true, income: newIncome };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add income' };
+    }
+  };
+
+  // Update income entry
+  const updateIncome = async (id: string, data: Partial<IncomeInput>): Promise<{ success: boolean; income?: Income; message?: string }> => {
+    try {
+      const response = await api.put<{ income: Income }>(`/income/${id}`, data);
+      const updatedIncome = response.data.income;
+      setIncomes(prev => prev
+        .map(inc => inc._id === id ? updatedIncome : inc)
+        .sort((a, b) => b.date.localeCompare(a.date)));
+      return { success: true, income: updatedIncome };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update income' };
+    }
+  };
+
+  // Delete income entry
+  const deleteIncome = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/income/${id}`);
+      setIncomes(prev => prev.filter(inc => inc._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete income' };
+    }
+  };
+
+  return (
+    <IncomeContext.Provider value={{
+      incomes,
+      loading,
+      loadIncome,
+      addIncome,
+      updateIncome,
+      deleteIncome
+    }}>
+      {children}
+    </IncomeContext.Provider>
+  );
+};
@@ -0,0 +1,121 @@
+// Merchant context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Merchant } from '../types';
+
+export type MerchantInput = Partial<Pick<Merchant, 'name' | 'aliases' | 'defaultCategory' | 'defaultSubcategory' | 'defaultPaymentMethod'>>;
+
+interface MerchantContextType {
+  merchants: Merchant[];
+  loading: boolean;
+  loadMerchants: () => Promise<void>;
+  getMerchant: (id?: string | null) => Merchant | undefined;
+  createMerchant: (data: MerchantInput & { name: string }) => Promise<{ success: boolean; merchant?: Merchant; message?: string }>;
+  updateMerchant: (id: string, data: MerchantInput) => Promise<{ success: boolean; merchant?: Merchant; message?: string }>;
+  mergeMerchant: (id: string, targetId: string) => Promise<{ success: boolean; message?: string }>;
+  deleteMerchant: (id: string) => Promise<{ success: boolean; message?: string }>;
+}
+
+export const MerchantContext = createContext<MerchantContextType | undefined>(undefined);
+
+interface MerchantProviderProps {
+  children: ReactNode;
+}
+
+// Merchant context provider - manages the user's payees, kept locally for autocomplete
+export const MerchantProvider: React.FC<MerchantProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load merchants when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadMerchants();
+    } else {
+      setMerchants([]);
+    }
+  }, [user]);
+
+  // Fetch all merchants from backend (most recently used first)
+  const loadMerchants = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ merchants: Merchant[] }>('/merchants');
+      setMerchants(response.data.merchants || []);
+    } catch (error) {
+      console.error('Error loading merchants:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getMerchant = (id?: string | null): Merchant | undefined => {
+    return id ? merchants.find(merchant => merchant._id === id) : undefined;
+  };
+
+  // Create merchant
+  const createMerchant = async (data: MerchantInput & { name: string }): Promise<{ success: boolean; merchant?: Merchant; message?: string }> => {
+    try {
+      const response = await api.post<{ merchant: Merchant }>('/merchants', data);
+      const newMerchant = response.data.merchant;
+      setMerchants(prev => [...prev, newMerchant]);
+      return { success: true, merchant: newMerchant };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add merchant' };
+    }
+  };
+
+  // Rename merchant or change its aliases and defaults
+  const updateMerchant = async (id: string, data: MerchantInput): Promise<{ success: boolean; merchant?: Merchant; message?: string }> => {
+    try {
+      const response = await api.put<{ merchant: Merchant }>(`/merchants/${id}`, data);
+      const updatedMerchant = response.data.merchant;
+      setMerchants(prev => prev.map(merchant => merchant._id === id ? updatedMerchant : merchant));
+      return { success: true, merchant: updatedMerchant };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update merchant' };
+    }
+  };
+
+  // Merge merchant into another one (its names become the target's aliases)
+  const mergeMerchant = async (id: string, targetId: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      const response = await api.post<{ message: string; merchant: Merchant }>(`/merchants/${id}/merge`, { targetId });
+      const target = response.data.merchant;
+      setMerchants(prev => prev
+        .filter(merchant => merchant._id !== id)
+        .map(merchant => merchant._id === targetId ? target : merchant));
+      return { success: true, message: response.data.message };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to merge merchant' };
+    }
+  };
+
+  // Delete merchant (its expenses are kept, without a merchant)
+  const deleteMerchant = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/merchants/${id}`);
+      setMerchants(prev => prev.filter(merchant => merchant._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete merchant' };
+    }
+  };
+
+  return (
+    <MerchantContext.Provider value={{
+      merchants,
+      loading,
+      loadMerchants,
+      getMerchant,
+      createMerchant,
+      updateMerchant,
+      mergeMerchant,
+      deleteMerchant
+    }}>
+      {children}
+    </MerchantContext.Provider>
+  );
+};
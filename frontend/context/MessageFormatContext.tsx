@@ -0,0 +1,116 @@
+// Message format context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { BuiltInMessageFormat, MessageFormat, ParsedMessage } from '../types';
+
+export type MessageFormatInput = Partial<Pick<MessageFormat, 'name' | 'pattern' | 'paymentMethod' | 'enabled'>>;
+
+interface MessageFormatContextType {
+  formats: MessageFormat[];
+  builtIn: BuiltInMessageFormat[];
+  loading: boolean;
+  loadFormats: () => Promise<void>;
+  createFormat: (data: MessageFormatInput & { name: string; pattern: string }) => Promise<{ success: boolean; format?: MessageFormat; message?: string }>;
+  updateFormat: (id: string, data: MessageFormatInput) => Promise<{ success: boolean; format?: MessageFormat; message?: string }>;
+  deleteFormat: (id: string) => Promise<{ success: boolean; message?: string }>;
+  testFormat: (data: MessageFormatInput & { pattern: string }, message: string) => Promise<{ success: boolean; parsed?: ParsedMessage | null; message?: string }>;
+}
+
+export const MessageFormatContext = createContext<MessageFormatContextType | undefined>(undefined);
+
+interface MessageFormatProviderProps {
+  children: ReactNode;
+}
+
+// Message format provider - manages the user's own bank and UPI message formats for pasted SMS
+export const MessageFormatProvider: React.FC<MessageFormatProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [formats, setFormats] = useState<MessageFormat[]>([]);
+  const [builtIn, setBuiltIn] = useState<BuiltInMessageFormat[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load formats when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadFormats();
+    } else {
+      setFormats([]);
+      setBuiltIn([]);
+    }
+  }, [user]);
+
+  // Fetch the user's formats (in the order they are tried) and the built-in ones
+  const loadFormats = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ formats: MessageFormat[]; builtIn: BuiltInMessageFormat[] }>('/message-formats');
+      setFormats(response.data.formats || []);
+      setBuiltIn(response.data.builtIn || []);
+    } catch (error) {
+      console.error('Error loading message formats:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create format (it is tried after the existing ones)
+  const createFormat = async (data: MessageFormatInput & { name: string; pattern: string }): Promise<{ success: boolean; format?: MessageFormat; message?: string }> => {
+    try {
+      const response = await api.post<{ format: MessageFormat }>('/message-formats', data);
+      const newFormat = response.data.format;
+      setFormats(prev => [...prev, newFormat]);
+      return { success: true, format: newFormat };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add format' };
+    }
+  };
+
+  // Update format
+  const updateFormat = async (id: string, data: MessageFormatInput): Promise<{ success: boolean; format?: MessageFormat; message?: string }> => {
+    try {
+      const response = await api.put<{ format: MessageFormat }>(`/message-formats/${id}`, data);
+      const updatedFormat = response.data.format;
+      setFormats(prev => prev.map(format => format._id === id ? updatedFormat : format));
+      return { success: true, format: updatedFormat };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update format' };
+    }
+  };
+
+  // Delete format
+  const deleteFormat = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/message-formats/${id}`);
+      setFormats(prev => prev.filter(format => format._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete format' };
+    }
+  };
+
+  // Try a format (saved or not) on a sample message - `parsed` is null when it doesn't match
+  const testFormat = async (data: MessageFormatInput & { pattern: string }, message: string): Promise<{ success: boolean; parsed?: ParsedMessage | null; message?: string }> => {
+    try {
+      const response = await api.post<{ parsed: ParsedMessage | null }>('/message-formats/test', { ...data, message });
+      return { success: true, parsed: response.data.parsed };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to test format' };
+    }
+  };
+
+  return (
+    <MessageFormatContext.Provider value={{
+      formats,
+      builtIn,
+      loading,
+      loadFormats,
+      createFormat,
+      updateFormat,
+      deleteFormat,
+      testFormat
+    }}>
+      {children}
+    </MessageFormatContext.Provider>
+  );
+};
@@ -0,0 +1,126 @@
+// Recurring expense context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Expense, RecurringExpense, BudgetWarning } from '../types';
+
+export type RecurringExpenseInput = Omit<RecurringExpense, '_id' | 'userId' | 'nextDate' | 'paused' | 'createdAt' | 'updatedAt'>;
+
+interface RecurringContextType {
+  recurringExpenses: RecurringExpense[];
+  loading: boolean;
+  loadRecurring: () => Promise<void>;
+  addRecurring: (data: RecurringExpenseInput) => Promise<{ success: boolean; recurringExpense?: RecurringExpense; message?: string }>;
+  updateRecurring: (id: string, data: Partial<RecurringExpenseInput & { paused: boolean }>) => Promise<{ success: boolean; recurringExpense?: RecurringExpense; message?: string }>;
+  skipNext: (id: string) => Promise<{ success: boolean; message?: string }>;
+  deleteRecurring: (id: string) => Promise<{ success: boolean; message?: string }>;
+  runDue: () => Promise<{ success: boolean; expenses?: Expense[]; budgetWarnings?: BudgetWarning[]; message?: string }>;
+}
+
+export const RecurringContext = createContext<RecurringContextType | undefined>(undefined);
+
+interface RecurringProviderProps {
+  children: ReactNode;
+}
+
+// Recurring context provider - manages recurring expenses and materializes due occurrences
+export const RecurringProvider: React.FC<RecurringProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load recurring expenses when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadRecurring();
+    }
+  }, [user]);
+
+  // Fetch all recurring expenses from backend
+  const loadRecurring = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ recurringExpenses: RecurringExpense[] }>('/recurring');
+      setRecurringExpenses(response.data.recurringExpenses || []);
+    } catch (error) {
+      console.error('Error loading recurring expenses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create new recurring expense
+  const addRecurring = async (data: RecurringExpenseInput): Promise<{ success: boolean; recurringExpense?: RecurringExpense; message?: string }> => {
+    try {
+      const response = await api.post<{ recurringExpense: RecurringExpense }>('/recurring', data);
+      const newRecurring = response.data.recurringExpense;
+      setRecurringExpenses(prev => [...prev, newRecurring]);
+      return { success: true, recurringExpense: newRecurring };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to create recurring expense' };
+    }
+  };
+
+  // Update recurring expense (also used to pause and resume)
+  const updateRecurring = async (id: string, data: Partial<RecurringExpenseInput & { paused: boolean }>): Promise<{ success: boolean; recurringExpense?: RecurringExpense; message?: string }> => {
+    try {
+      const response = await api.put<{ recurringExpense: RecurringExpense }>(`/recurring/${id}`, data);
+      const updatedRecurring = response.data.recurringExpense;
+      setRecurringExpenses(prev => prev.map(rec => rec._id === id ? updatedRecurring : rec));
+      return { success: true, recurringExpense: updatedRecurring };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update recurring expense' };
+    }
+  };
+
+  // Skip the next pending occurrence
+  const skipNext = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      const response = await api.post<{ recurringExpense: RecurringExpense }>(`/recurring/${id}/skip`);
+      const updatedRecurring = response.data.recurringExpense;
+      setRecurringExpenses(prev => prev.map(rec => rec._id === id ? updatedRecurring : rec));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to skip occurrence' };
+    }
+  };
+
+  // Delete recurring expense
+  const deleteRecurring = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/recurring/${id}`);
+      setRecurringExpenses(prev => prev.filter(rec => rec._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete recurring expense' };
+    }
+  };
+
+  // Ask the backend to add any occurrences that have come due
+  const runDue = async (): Promise<{ success: boolean; expenses?: Expense[]; budgetWarnings?: BudgetWarning[]; message?: string }> => {
+    try {
+      const response = await api.post<{ expenses: Expense[]; budgetWarnings: BudgetWarning[] }>('/recurring/run');
+      if (response.data.expenses.length > 0) {
+        await loadRecurring(); // Next dates have moved on
+      }
+      return { success: true, expenses: response.data.expenses, budgetWarnings: response.data.budgetWarnings };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add recurring expenses' };
+    }
+  };
+
+  return (
+    <RecurringContext.Provider value={{
+      recurringExpenses,
+      loading,
+      loadRecurring,
+      addRecurring,
+      updateRecurring,
+      skipNext,
+      deleteRecurring,
+      runDue
+    }}>
+      {children}
+    </RecurringContext.Provider>
+  );
+};
@@ -0,0 +1,128 @@
+// Rule context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Rule, RuleTestResult } from '../types';
+
+export type RuleInput = Partial<Pick<Rule, 'name' | 'field' | 'operator' | 'pattern' | 'minAmount' | 'maxAmount' | 'category' | 'subcategory' | 'paymentMethod' | 'tags' | 'enabled'>>;
+
+interface RuleContextType {
+  rules: Rule[];
+  loading: boolean;
+  loadRules: () => Promise<void>;
+  createRule: (data: RuleInput & { pattern: string }) => Promise<{ success: boolean; rule?: Rule; message?: string }>;
+  updateRule: (id: string, data: RuleInput) => Promise<{ success: boolean; rule?: Rule; message?: string }>;
+  deleteRule: (id: string) => Promise<{ success: boolean; message?: string }>;
+  reorderRules: (ids: string[]) => Promise<{ success: boolean; message?: string }>;
+  testRule: (data: RuleInput & { pattern: string }) => Promise<{ success: boolean; result?: RuleTestResult; message?: string }>;
+}
+
+export const RuleContext = createContext<RuleContextType | undefined>(undefined);
+
+interface RuleProviderProps {
+  children: ReactNode;
+}
+
+// Rule context provider - manages auto-categorization rules, kept locally to prefill the add form
+export const RuleProvider: React.FC<RuleProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load rules when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadRules();
+    } else {
+      setRules([]);
+    }
+  }, [user]);
+
+  // Fetch all rules from backend (in the order they run)
+  const loadRules = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ rules: Rule[] }>('/rules');
+      setRules(response.data.rules || []);
+    } catch (error) {
+      console.error('Error loading rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create rule (it runs after the existing ones)
+  const createRule = async (data: RuleInput & { pattern: string }): Promise<{ success: boolean; rule?: Rule; message?: string }> => {
+    try {
+      const response = await api.post<{ rule: Rule }>('/rules', data);
+      const newRule = response.data.rule;
+      setRules(prev => [...prev, newRule]);
+      return { success: true, rule: newRule };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add rule' };
+    }
+  };
+
+  // Update rule
+  const updateRule = async (id: string, data: RuleInput): Promise<{ success: boolean; rule?: Rule; message?: string }> => {
+    try {
+      const response = await api.put<{ rule: Rule }>(`/rules/${id}`, data);
+      const updatedRule = response.data.rule;
+      setRules(prev => prev.map(rule => rule._id === id ? updatedRule : rule));
+      return { success: true, rule: updatedRule };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update rule' };
+    }
+  };
+
+  // Delete rule
+  const deleteRule = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/rules/${id}`);
+      setRules(prev => prev.filter(rule => rule._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete rule' };
+    }
+  };
+
+  // Change the order rules run in - `ids` lists every rule once
+  const reorderRules = async (ids: string[]): Promise<{ success: boolean; message?: string }> => {
+    const previous = rules;
+    // Show the new order right away, and put the old one back if the server refuses it
+    setRules(ids.map(id => rules.find(rule => rule._id === id)).filter((rule): rule is Rule => rule !== undefined));
+    try {
+      const response = await api.post<{ rules: Rule[] }>('/rules/reorder', { ids });
+      setRules(response.data.rules);
+      return { success: true };
+    } catch (error: any) {
+      setRules(previous);
+      return { success: false, message: error.response?.data?.message || 'Failed to reorder rules' };
+    }
+  };
+
+  // Dry run - which past expenses a rule (saved or not) matches and what it would change
+  const testRule = async (data: RuleInput & { pattern: string }): Promise<{ success: boolean; result?: RuleTestResult; message?: string }> => {
+    try {
+      const response = await api.post<RuleTestResult>('/rules/test', data);
+      return { success: true, result: response.data };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to test rule' };
+    }
+  };
+
+  return (
+    <RuleContext.Provider value={{
+      rules,
+      loading,
+      loadRules,
+      createRule,
+      updateRule,
+      deleteRule,
+      reorderRules,
+      testRule
+    }}>
+      {children}
+    </RuleContext.Provider>
+  );
+};
@@ -0,0 +1,85 @@
+// Saved view context with TypeScript
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { SavedView } from '../types';
+
+export type SavedViewInput = Partial<Omit<SavedView, '_id' | 'userId' | 'createdAt' | 'updatedAt'>> & { name: string };
+
+interface SavedViewContextType {
+  views: SavedView[];
+  loading: boolean;
+  loadViews: () => Promise<void>;
+  createView: (data: SavedViewInput) => Promise<{ success: boolean; view?: SavedView; message?: string }>;
+  deleteView: (id: string) => Promise<{ success: boolean; message?: string }>;
+}
+
+export const SavedViewContext = createContext<SavedViewContextType | undefined>(undefined);
+
+interface SavedViewProviderProps {
+  children: ReactNode;
+}
+
+// Saved view context provider - manages the named filter combinations ("smart lists") shown as tabs
+export const SavedViewProvider: React.FC<SavedViewProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Load views when user is logged in
+  useEffect(() => {
+    if (user) {
+      loadViews();
+    } else {
+      setViews([]);
+    }
+  }, [user]);
+
+  // Fetch all saved views from backend
+  const loadViews = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ views: SavedView[] }>('/views');
+      setViews(response.data.views || []);
+    } catch (error) {
+      console.error('Error loading saved views:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Save a filter and sort spec as a new view (added as the last tab)
+  const createView = async (data: SavedViewInput): Promise<{ success: boolean; view?: SavedView; message?: string }> => {
+    try {
+      const response = await api.post<{ view: SavedView }>('/views', data);
+      const newView = response.data.view;
+      setViews(prev => [...prev, newView]);
+      return { success: true, view: newView };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to save view' };
+    }
+  };
+
+  // Delete saved view
+  const deleteView = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/views/${id}`);
+      setViews(prev => prev.filter(view => view._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete view' };
+    }
+  };
+
+  return (
+    <SavedViewContext.Provider value={{
+      views,
+      loading,
+      loadViews,
+      createView,
+      deleteView
+    }}>
+      {children}
+    </SavedViewContext.Provider>
+  );
+};
@@ -0,0 +1,144 @@
+// Template context with TypeScript
+import React, { createContext, useState, useEffect, useContext, useRef, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthContext } from './AuthContext';
+import api from '../utils/api';
+import { Template } from '../types';
+
+// Per user, so a shared device doesn't show someone else's quick adds
+const getTemplatesCacheKey = (userId: string): string => `templates:${userId}`;
+
+export type TemplateInput = Pick<Template, 'name' | 'amount' | 'category' | 'paymentMethod'> & Partial<Pick<Template, 'currency' | 'subcategory' | 'description' | 'tags'>>;
+
+interface TemplateContextType {
+  templates: Template[];
+  loading: boolean;
+  loadTemplates: () => Promise<void>;
+  createTemplate: (data: TemplateInput) => Promise<{ success: boolean; template?: Template; message?: string }>;
+  updateTemplate: (id: string, data: Partial<TemplateInput>) => Promise<{ success: boolean; template?: Template; message?: string }>;
+  deleteTemplate: (id: string) => Promise<{ success: boolean; message?: string }>;
+  markUsed: (id: string) => void;
+}
+
+export const TemplateContext = createContext<TemplateContextType | undefined>(undefined);
+
+interface TemplateProviderProps {
+  children: ReactNode;
+}
+
+// Most used first, as the backend lists them
+const byUse = (a: Template, b: Template): number => {
+  return b.useCount - a.useCount || (b.lastUsedAt || '').localeCompare(a.lastUsedAt || '');
+};
+
+// Template context provider - manages the expenses saved for quick add (cached for offline use)
+export const TemplateProvider: React.FC<TemplateProviderProps> = ({ children }) => {
+  const { user } = useContext(AuthContext)!;
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const savedRef = useRef<boolean>(false); // Set once templates from the backend are in, so the cache can't replace them
+
+  // Load templates when user is logged in
+  useEffect(() => {
+    savedRef.current = false;
+    if (user) {
+      loadCachedTemplates();
+      loadTemplates();
+    } else {
+      setTemplates([]);
+    }
+  }, [user]);
+
+  // Load last known templates so quick add works offline
+  const loadCachedTemplates = async (): Promise<void> => {
+    if (!user) return;
+    try {
+      const data = await AsyncStorage.getItem(getTemplatesCacheKey(user.id));
+      // The backend may have answered first
+      if (data && !savedRef.current) {
+        setTemplates(JSON.parse(data));
+      }
+    } catch (error) {
+      console.error('Error loading cached templates:', error);
+    }
+  };
+
+  const saveTemplates = async (data: Template[]): Promise<void> => {
+    savedRef.current = true;
+    setTemplates(data);
+    if (user) {
+      await AsyncStorage.setItem(getTemplatesCacheKey(user.id), JSON.stringify(data));
+    }
+  };
+
+  // Fetch all templates from backend (most used first)
+  const loadTemplates = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ templates: Template[] }>('/templates');
+      await saveTemplates(response.data.templates || []);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Create template
+  const createTemplate = async (data: TemplateInput): Promise<{ success: boolean; template?: Template; message?: string }> => {
+    try {
+      const response = await api.post<{ template: Template }>('/templates', data);
+      const newTemplate = response.data.template;
+      await saveTemplates([...templates, newTemplate]);
+      return { success: true, template: newTemplate };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to add template' };
+    }
+  };
+
+  // Update template
+  const updateTemplate = async (id: string, data: Partial<TemplateInput>): Promise<{ success: boolean; template?: Template; message?: string }> => {
+    try {
+      const response = await api.put<{ template: Template }>(`/templates/${id}`, data);
+      const updatedTemplate = response.data.template;
+      await saveTemplates(templates.map(template => template._id === id ? updatedTemplate : template));
+      return { success: true, template: updatedTemplate };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to update template' };
+    }
+  };
+
+  // Delete template (expenses added from it are kept)
+  const deleteTemplate = async (id: string): Promise<{ success: boolean; message?: string }> => {
+    try {
+      await api.delete(`/templates/${id}`);
+      await saveTemplates(templates.filter(template => template._id !== id));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, message: error.response?.data?.message || 'Failed to delete template' };
+    }
+  };
+
+  // Count a quick add locally (and in the cache, for offline starts) - the backend counts it when the
+  // expense is saved (or synced)
+  const markUsed = (id: string): void => {
+    const now = new Date().toISOString();
+    saveTemplates(templates
+      .map(template => template._id === id ? { ...template, useCount: template.useCount + 1, lastUsedAt: now } : template)
+      .sort(byUse));
+  };
+
+  return (
+    <TemplateContext.Provider value={{
+      templates,
+      loading,
+      loadTemplates,
+      createTemplate,
+      updateTemplate,
+      deleteTemplate,
+      markUsed
+    }}>
+      {children}
+    </TemplateContext.Provider>
+  );
+};
@@ -1,6 +1,6 @@
 // Navigation setup with TypeScript
-import React, { useContext, useEffect, useRef } from 'react';
-import { View, Text, ActivityIndicator, StyleSheet, StatusBar } from 'react-native';
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import { View, Text, ActivityIndicator, StyleSheet, StatusBar, Linking } from 'react-native';
 import { NavigationContainer, NavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
@@ -13,7 +13,18 @@ import EditExpenseScreen from '../screens/EditExpenseScreen';
 import InsightsScreen from '../screens/InsightsScreen';
 import BudgetScreen from '../screens/BudgetScreen';
 import NotificationScreen from '../screens/NotificationScreen';
+import CategoriesScreen from '../screens/CategoriesScreen';
+import RecurringScreen from '../screens/RecurringScreen';
+import CurrenciesScreen from '../screens/CurrenciesScreen';
+import IncomeScreen from '../screens/IncomeScreen';
+import TrashScreen from '../screens/TrashScreen';
+import MerchantsScreen from '../screens/MerchantsScreen';
+import RulesScreen from '../screens/RulesScreen';
+import TemplatesScreen from '../screens/TemplatesScreen';
+import ClaimsScreen from '../screens/ClaimsScreen';
+import MessageFormatsScreen from '../screens/MessageFormatsScreen';
 import { RootStackParamList } from '../types';
+import { parseUpiUri } from '../utils/upi';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator();
@@ -122,6 +133,7 @@ const AppNavigator: React.FC = () => {
   
   const { user, loading } = authContext;
   const navigationRef = useRef<NavigationContainerRef<RootStackParamList>>(null);
+  const [upiLink, setUpiLink] = useState<string | null>(null); // upi://pay link waiting to be opened
 
   // Navigate when loading completes
   useEffect(() => {
@@ -140,6 +152,26 @@ const AppNavigator: React.FC = () => {
     }
   }, [loading, user]);
 
+  // UPI payment links (a scanned UPI QR, or "Pay with" another app) open a prefilled Add Expense,
+  // also when the app was started by one
+  useEffect(() => {
+    const handleUrl = (url: string | null): void => {
+      if (url && parseUpiUri(url)) setUpiLink(url);
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  // Once signed in (the link waits for login)
+  useEffect(() => {
+    if (upiLink && user && !loading && navigationRef.current) {
+      navigationRef.current.navigate('AddExpense', { upi: upiLink });
+      setUpiLink(null);
+    }
+  }, [upiLink, loading, user]);
+
   return (
     <NavigationContainer ref={navigationRef}>
       <StatusBar barStyle="light-content" backgroundColor="#6366f1" />
@@ -224,6 +256,176 @@ const AppNavigator: React.FC = () => {
             headerShadowVisible: false,
           }}
         />
+        <Stack.Screen
+          name="Categories"
+          component={CategoriesScreen}
+          options={{
+            headerShown: true,
+            title: 'Categories',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Recurring"
+          component={RecurringScreen}
+          options={{
+            headerShown: true,
+            title: 'Recurring',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Currencies"
+          component={CurrenciesScreen}
+          options={{
+            headerShown: true,
+            title: 'Currencies',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Income"
+          component={IncomeScreen}
+          options={{
+            headerShown: true,
+            title: 'Income',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Trash"
+          component={TrashScreen}
+          options={{
+            headerShown: true,
+            title: 'Trash',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Merchants"
+          component={MerchantsScreen}
+          options={{
+            headerShown: true,
+            title: 'Merchants',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Rules"
+          component={RulesScreen}
+          options={{
+            headerShown: true,
+            title: 'Rules',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Templates"
+          component={TemplatesScreen}
+          options={{
+            headerShown: true,
+            title: 'Quick Add Templates',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="Claims"
+          component={ClaimsScreen}
+          options={{
+            headerShown: true,
+            title: 'Reimbursements',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
+        <Stack.Screen
+          name="MessageFormats"
+          component={MessageFormatsScreen}
+          options={{
+            headerShown: true,
+            title: 'Message Formats',
+            headerStyle: {
+              backgroundColor: '#6366f1',
+            },
+            headerTintColor: '#ffffff',
+            headerTitleStyle: {
+              fontWeight: '700',
+              fontSize: 18,
+            },
+            headerShadowVisible: false,
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
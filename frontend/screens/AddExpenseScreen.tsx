@@ -8,144 +8,360 @@ import {
   StyleSheet,
   ScrollView,
   Alert,
-  ActivityIndicator,
-  Modal,
-  FlatList
+  ActivityIndicator
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useRoute } from '@react-navigation/native';
 import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
 import { NotificationContext } from '../context/NotificationContext';
-import { CATEGORIES, PAYMENT_METHODS } from '../utils/config';
-import { ExpenseCategory, PaymentMethod, RootStackParamList } from '../types';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { MerchantContext } from '../context/MerchantContext';
+import { RuleContext } from '../context/RuleContext';
+import CustomDropdown from '../components/CustomDropdown';
+import TagInput from '../components/TagInput';
+import AttachmentPicker from '../components/AttachmentPicker';
+import MerchantInput, { matchMerchant } from '../components/MerchantInput';
+import LocationInput from '../components/LocationInput';
+import ReimbursableInput from '../components/ReimbursableInput';
+import LineItemsEditor, { LineItemDraft, getPrimaryCategory, toLineItems, validateDrafts } from '../components/LineItemsEditor';
+import { PAYMENT_METHODS } from '../utils/config';
+import { formatMoney, getCurrencySymbol } from '../utils/currency';
+import { applyRules, RuleField } from '../utils/rules';
+import { parseQuickEntry, QuickEntry } from '../utils/quickEntry';
+import { parseUpiUri, UpiPayment } from '../utils/upi';
+import { CategorySuggestion, GeoPoint, Merchant, MessageDraft, PayeeGuess, PaymentMethod, PickedFile, RootStackParamList, TagBreakdown } from '../types';
+
+const MIN_SUGGEST_LENGTH = 2;
+const SUGGEST_DELAY_MS = 400;
 
 type AddExpenseScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AddExpense'>;
+type AddExpenseScreenRouteProp = RouteProp<RootStackParamList, 'AddExpense'>;
 
 interface Props {
   navigation: AddExpenseScreenNavigationProp;
 }
 
-// Custom Dropdown Component
-interface CustomDropdownProps {
-  label: string;
-  value: string;
-  options: string[];
-  onSelect: (value: string) => void;
-  placeholder?: string;
-}
-
-const CustomDropdown: React.FC<CustomDropdownProps> = ({
-  label,
-  value,
-  options,
-  onSelect,
-  placeholder = "Select an option"
-}) => {
-  const [isVisible, setIsVisible] = useState<boolean>(false);
-
-  const handleSelect = (option: string) => {
-    onSelect(option);
-    setIsVisible(false);
-  };
-
-  return (
-    <>
-      <TouchableOpacity
-        style={styles.dropdownWrapper}
-        onPress={() => setIsVisible(true)}
-        activeOpacity={0.8}
-      >
-        <Text style={styles.dropdownLabel}>{label}</Text>
-        <View style={styles.dropdownContent}>
-          <Text style={[styles.dropdownText, !value && styles.dropdownPlaceholder]}>
-            {value || placeholder}
-          </Text>
-          <Text style={styles.dropdownIcon}>▼</Text>
-        </View>
-      </TouchableOpacity>
-
-      <Modal
-        visible={isVisible}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setIsVisible(false)}
-      >
-        <TouchableOpacity
-          style={styles.modalOverlay}
-          activeOpacity={1}
-          onPress={() => setIsVisible(false)}
-        >
-          <TouchableOpacity 
-            style={styles.modalContent} 
-            activeOpacity={1}
-            onPress={(e) => e.stopPropagation()}
-          >
-            <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>{label}</Text>
-              <TouchableOpacity
-                onPress={() => setIsVisible(false)}
-                style={styles.modalCloseButton}
-                activeOpacity={0.7}
-              >
-                <Text style={styles.modalCloseText}>✕</Text>
-              </TouchableOpacity>
-            </View>
-            <FlatList
-              data={options}
-              keyExtractor={(item) => item}
-              renderItem={({ item }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.modalOption,
-                    item === value && styles.modalOptionSelected
-                  ]}
-                  onPress={() => handleSelect(item)}
-                  activeOpacity={0.7}
-                >
-                  <Text style={[
-                    styles.modalOptionText,
-                    item === value && styles.modalOptionTextSelected
-                  ]}>
-                    {item}
-                  </Text>
-                  {item === value && <Text style={styles.checkIcon}>✓</Text>}
-                </TouchableOpacity>
-              )}
-              showsVerticalScrollIndicator={false}
-            />
-          </TouchableOpacity>
-        </TouchableOpacity>
-      </Modal>
-    </>
-  );
-};
-
 const AddExpenseScreen: React.FC<Props> = ({ navigation }) => {
+  const route = useRoute<AddExpenseScreenRouteProp>();
   const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
   const notificationContext = useContext(NotificationContext);
+  const currencyContext = useContext(CurrencyContext);
+  const merchantContext = useContext(MerchantContext);
+  const ruleContext = useContext(RuleContext);
   
   if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
   if (!notificationContext) throw new Error('NotificationContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+  if (!merchantContext) throw new Error('MerchantContext not found');
+  if (!ruleContext) throw new Error('RuleContext not found');
   
-  const { addExpense } = expenseContext;
+  const { addExpense, uploadAttachments, getStats, suggestCategories, parseMessages, guessPayee } = expenseContext;
+  const { activeCategories, getSubcategories } = categoryContext;
   const { addNotification } = notificationContext;
+  const { homeCurrency, availableCurrencies } = currencyContext;
+  const { merchants, loadMerchants } = merchantContext;
+  const { rules } = ruleContext;
+  const categoryNames = activeCategories.map(cat => cat.name);
+  const defaultCategory = categoryNames[0] || '';
   const [amount, setAmount] = useState<string>('');
-  const [category, setCategory] = useState<ExpenseCategory>('Food');
+  const [currency, setCurrency] = useState<string>(homeCurrency);
+  const [category, setCategory] = useState<string>(defaultCategory);
+  const [subcategory, setSubcategory] = useState<string>('');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Cash');
+  const [merchantName, setMerchantName] = useState<string>('');
   const [description, setDescription] = useState<string>('');
+  const [location, setLocation] = useState<GeoPoint | null>(null);
+  const [place, setPlace] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [reimbursable, setReimbursable] = useState<boolean>(false);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]); // Empty unless the expense is split
+  const [receipts, setReceipts] = useState<PickedFile[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+  const latestSuggestRef = useRef<number>(0); // Only the latest description's suggestions are shown
+  const [quickText, setQuickText] = useState<string>('');
+  const [quickEntry, setQuickEntry] = useState<QuickEntry | null>(null);
+  const [entryMode, setEntryMode] = useState<'text' | 'message'>('text'); // Typed quick entry, or a pasted bank SMS or UPI link
+  const [messageText, setMessageText] = useState<string>('');
+  const [messageDraft, setMessageDraft] = useState<MessageDraft | null>(null);
+  const [readingMessage, setReadingMessage] = useState<boolean>(false);
+  const [upiPayment, setUpiPayment] = useState<UpiPayment | null>(null);
+  const [payeeGuess, setPayeeGuess] = useState<PayeeGuess | null>(null);
+  const [payeeVpa, setPayeeVpa] = useState<string>(''); // UPI ID the expense is paid to, saved with it
+  const latestPayeeRef = useRef<string>(''); // Only the latest UPI ID's guess is applied
   const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState<boolean>(false);
   const isSubmittingRef = useRef<boolean>(false); // Prevent multiple submissions
+  const pickedRef = useRef<Set<RuleField>>(new Set()); // Fields the user or a merchant set - rules leave them alone
 
   // Reset form when component mounts
   useEffect(() => {
     setAmount('');
-    setCategory('Food');
+    setCurrency(homeCurrency);
+    setCategory(defaultCategory);
+    setSubcategory('');
     setPaymentMethod('Cash');
+    setMerchantName('');
     setDescription('');
+    setLocation(null);
+    setPlace('');
+    setTags([]);
+    setReimbursable(false);
+    setLineItems([]);
+    setReceipts([]);
     setDate(new Date().toISOString().split('T')[0]);
+    setQuickText('');
+    setQuickEntry(null);
+    setMessageText('');
+    setMessageDraft(null);
+    setUpiPayment(null);
+    setPayeeGuess(null);
+    setPayeeVpa('');
     isSubmittingRef.current = false;
+    pickedRef.current.clear();
+    loadKnownTags();
   }, []);
 
+  // Opened from a upi://pay link (a scanned UPI QR) - show it in the paste box and prefill the form from it
+  useEffect(() => {
+    const link = route.params?.upi;
+    const payment = link ? parseUpiUri(link) : null;
+    if (!link || !payment) return;
+
+    setEntryMode('message');
+    setMessageText(link);
+    applyUpiPayment(payment);
+  }, [route.params?.upi]);
+
+  // Pick a default once categories have loaded (or if the selected one was archived)
+  useEffect(() => {
+    if (!categoryNames.includes(category)) {
+      setCategory(defaultCategory);
+      setSubcategory('');
+    }
+  }, [activeCategories]);
+
+  const subcategoryNames = getSubcategories(category).map(cat => cat.name);
+  const isSplit = lineItems.length > 0;
+
+  // Rules fill in what hasn't been picked yet, as they would on the server
+  useEffect(() => {
+    const fields = (['category', 'paymentMethod', 'tags'] as RuleField[])
+      .filter(field => !pickedRef.current.has(field) && !(field === 'category' && isSplit));
+    const ruled = applyRules(rules, { description, merchantName, amount: parseFloat(amount) || undefined }, fields);
+    if (ruled.category && categoryNames.includes(ruled.category)) {
+      setCategory(ruled.category);
+      setSubcategory(ruled.subcategory || '');
+    }
+    if (ruled.paymentMethod) setPaymentMethod(ruled.paymentMethod);
+    if (ruled.tags) setTags(ruled.tags);
+  }, [description, merchantName, amount, rules]);
+
+  // Start a split with the whole amount on the current category plus an empty second item
+  const startSplit = (): void => {
+    setLineItems([
+      { amount: amount, category: category, note: '' },
+      { amount: '', category: '', note: '' }
+    ]);
+  };
+
+  // Suggestions learned from past expenses, once the user pauses typing the description
+  useEffect(() => {
+    const text = description.trim();
+    const requestId = ++latestSuggestRef.current;
+    if (text.length < MIN_SUGGEST_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const result = await suggestCategories(text);
+      if (result.success && requestId === latestSuggestRef.current) {
+        setSuggestions(result.suggestions || []);
+      }
+    }, SUGGEST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [description]);
+
+  const applySuggestion = (suggestion: CategorySuggestion): void => {
+    if (categoryNames.includes(suggestion.category)) {
+      setCategory(suggestion.category);
+      setSubcategory(suggestion.subcategory || '');
+      pickedRef.current.add('category');
+    }
+    setPaymentMethod(suggestion.paymentMethod);
+    pickedRef.current.add('paymentMethod');
+  };
+
+  // Quick entry fills the form as the user types - the form below is the editable preview
+  const handleQuickText = (text: string): void => {
+    setQuickText(text);
+    if (!text.trim()) {
+      setQuickEntry(null);
+      return;
+    }
+
+    const parsed = parseQuickEntry(text, activeCategories.map(cat => ({
+      name: cat.name,
+      subcategories: getSubcategories(cat.name).map(sub => sub.name)
+    })));
+    setQuickEntry(parsed);
+
+    if (parsed.amount !== undefined) setAmount(String(parsed.amount));
+    if (parsed.category && !isSplit) {
+      setCategory(parsed.category);
+      setSubcategory(parsed.subcategory || '');
+      // A guess from a word like "lunch" still gives way to the user's rules
+      if (!parsed.categoryGuessed) pickedRef.current.add('category');
+    }
+    if (parsed.paymentMethod) {
+      setPaymentMethod(parsed.paymentMethod);
+      pickedRef.current.add('paymentMethod');
+    }
+    if (parsed.date) setDate(parsed.date);
+    setDescription(parsed.description);
+  };
+
+  // Chips for what the quick entry recognized
+  const quickPreview = quickEntry ? [
+    quickEntry.amount !== undefined ? formatMoney(quickEntry.amount, currency) : '',
+    quickEntry.category ? `${[quickEntry.category, quickEntry.subcategory].filter(Boolean).join(' / ')}${quickEntry.categoryGuessed ? ' ?' : ''}` : '',
+    quickEntry.paymentMethod || '',
+    quickEntry.date
+      ? new Date(`${quickEntry.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      : '',
+    quickEntry.description ? `"${quickEntry.description}"` : ''
+  ].filter(Boolean) : [];
+
+  // A pasted bank or UPI SMS is read on the server, with the user's own message formats tried first,
+  // and fills the form like quick entry does
+  const handleReadMessage = async (): Promise<void> => {
+    if (!messageText.trim()) return;
+
+    // The text of a UPI QR is read right here, also offline
+    const payment = parseUpiUri(messageText);
+    if (payment) {
+      applyUpiPayment(payment);
+      return;
+    }
+
+    setReadingMessage(true);
+    const result = await parseMessages([messageText]);
+    setReadingMessage(false);
+
+    if (!result.success || !result.drafts) {
+      Alert.alert('Error', result.message || 'Failed to read message');
+      return;
+    }
+
+    const draft = result.drafts[0];
+    setMessageDraft(draft);
+    setUpiPayment(null);
+    setPayeeGuess(null);
+    if (!draft.expense) return;
+
+    const parsed = draft.expense;
+    setAmount(String(parsed.amount));
+    if (parsed.currency && availableCurrencies.includes(parsed.currency)) setCurrency(parsed.currency);
+    // The category comes from a known merchant or the rules, which the form's own rules may still refine
+    if (parsed.category && !isSplit && categoryNames.includes(parsed.category)) {
+      setCategory(parsed.category);
+      setSubcategory(parsed.subcategory || '');
+    }
+    if (parsed.paymentMethod) {
+      setPaymentMethod(parsed.paymentMethod);
+      pickedRef.current.add('paymentMethod');
+    }
+    if (parsed.tags.length > 0) setTags(parsed.tags);
+    if (parsed.date) setDate(parsed.date);
+    if (parsed.merchant) setMerchantName(parsed.merchant);
+    setPayeeVpa(parsed.payeeVpa || '');
+    setDescription(parsed.description);
+  };
+
+  // A UPI payment link holds the payee, and often the amount and a note; the category comes from a known
+  // merchant or, once the server answers, from earlier payments to the same UPI ID
+  const applyUpiPayment = async (payment: UpiPayment): Promise<void> => {
+    setMessageDraft(null);
+    setUpiPayment(payment);
+    setPayeeGuess(null);
+    setPayeeVpa(payment.vpa);
+    latestPayeeRef.current = payment.vpa;
+
+    if (payment.amount !== undefined) setAmount(String(payment.amount));
+    if (payment.currency && availableCurrencies.includes(payment.currency)) setCurrency(payment.currency);
+    setPaymentMethod('UPI');
+    pickedRef.current.add('paymentMethod');
+    setDescription(payment.note || payment.payeeName || payment.vpa);
+
+    const merchant = (payment.payeeName && matchMerchant(merchants, payment.payeeName)) || matchMerchant(merchants, payment.vpa);
+    if (merchant) {
+      setMerchantName(merchant.name);
+      if (!isSplit && merchant.defaultCategory && categoryNames.includes(merchant.defaultCategory)) {
+        setCategory(merchant.defaultCategory);
+        setSubcategory(merchant.defaultSubcategory || '');
+        pickedRef.current.add('category');
+      }
+    }
+
+    const result = await guessPayee(payment.vpa);
+    if (!result.success || !result.guess || latestPayeeRef.current !== payment.vpa) return;
+
+    // Earlier payments to the UPI ID say more than a merchant's defaults
+    const guess = result.guess;
+    setPayeeGuess(guess);
+    if (guess.category && !isSplit && categoryNames.includes(guess.category)) {
+      setCategory(guess.category);
+      setSubcategory(guess.subcategory || '');
+      pickedRef.current.add('category');
+    }
+    if (guess.merchant && !merchant) setMerchantName(guess.merchant);
+  };
+
+  // Chips for what was read from a UPI payment link
+  const upiPreview = upiPayment ? [
+    upiPayment.amount !== undefined ? formatMoney(upiPayment.amount, upiPayment.currency || currency) : '',
+    `To ${upiPayment.payeeName || upiPayment.vpa}`,
+    'UPI',
+    payeeGuess?.category ? [payeeGuess.category, payeeGuess.subcategory].filter(Boolean).join(' / ') : ''
+  ].filter(Boolean) : [];
+
+  // Chips for what was read from the pasted message
+  const messagePreview = messageDraft?.expense ? [
+    formatMoney(messageDraft.expense.amount, messageDraft.expense.currency || currency),
+    messageDraft.payee ? `To ${messageDraft.payee}` : '',
+    messageDraft.account ? `A/c ${messageDraft.account}` : '',
+    messageDraft.expense.paymentMethod || '',
+    messageDraft.expense.date
+      ? new Date(`${messageDraft.expense.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      : ''
+  ].filter(Boolean) : [];
+
+  // Picking a merchant prefills its default category and payment method
+  const selectMerchant = (merchant: Merchant): void => {
+    setMerchantName(merchant.name);
+    if (!isSplit && merchant.defaultCategory && categoryNames.includes(merchant.defaultCategory)) {
+      setCategory(merchant.defaultCategory);
+      setSubcategory(merchant.defaultSubcategory || '');
+      pickedRef.current.add('category');
+    }
+    if (merchant.defaultPaymentMethod) {
+      setPaymentMethod(merchant.defaultPaymentMethod);
+      pickedRef.current.add('paymentMethod');
+    }
+  };
+
+  // Tags the user has used before, most used first, for autocomplete
+  const loadKnownTags = async (): Promise<void> => {
+    const result = await getStats('tags');
+    if (result.success && result.data) {
+      setKnownTags((result.data.breakdown as TagBreakdown[]).map(item => item.tag));
+    }
+  };
+
   const handleSubmit = async (): Promise<void> => {
     // Prevent multiple submissions
     if (loading || isSubmittingRef.current) {
@@ -158,28 +374,83 @@ const AddExpenseScreen: React.FC<Props> = ({ navigation }) => {
       return;
     }
 
+    if (isSplit) {
+      const lineItemsError = validateDrafts(lineItems, amountNum, currency);
+      if (lineItemsError) {
+        Alert.alert('Error', lineItemsError);
+        return;
+      }
+    } else if (!category) {
+      Alert.alert('Error', 'Please select a category');
+      return;
+    }
+
     isSubmittingRef.current = true;
     setLoading(true);
 
     // Capture form values at submission time to avoid closure issues
     const formData = {
       amount: amountNum,
-      category: category,
+      currency: currency,
+      category: isSplit ? getPrimaryCategory(lineItems) : category,
+      subcategory: isSplit ? null : subcategory || null,
       paymentMethod: paymentMethod,
+      merchant: merchantName.trim() || undefined,
+      payeeVpa: payeeVpa || undefined,
       description: description,
+      location: location || undefined,
+      place: place.trim() || undefined,
+      tags: tags,
+      reimbursable: reimbursable || undefined,
+      lineItems: toLineItems(lineItems),
       date: date
     };
 
     try {
       const result = await addExpense(formData);
 
+      // Receipts can only be uploaded once the expense exists on the server
+      if (result.success && receipts.length > 0) {
+        const uploaded = !result.offline && result.expense
+          ? await uploadAttachments(result.expense._id, receipts)
+          : { success: false, message: 'Receipts can only be attached while online' };
+        if (!uploaded.success) {
+          addNotification({
+            type: 'warning',
+            title: '📎 Receipts Not Attached',
+            message: `${uploaded.message || 'Failed to upload attachments'}. You can add them from Edit Expense.`
+          });
+        }
+      }
+
       if (result.success) {
+        // A name that matched no merchant added a new one
+        if (formData.merchant && !matchMerchant(merchants, formData.merchant)) {
+          loadMerchants();
+        }
+
         // Reset form after successful submission
         setAmount('');
-        setCategory('Food');
+        setCategory(defaultCategory);
+        setSubcategory('');
         setPaymentMethod('Cash');
+        setMerchantName('');
         setDescription('');
+        setLocation(null);
+        setPlace('');
+        setTags([]);
+        setReimbursable(false);
+        setLineItems([]);
+        setReceipts([]);
         setDate(new Date().toISOString().split('T')[0]);
+        setQuickText('');
+        setQuickEntry(null);
+        setMessageText('');
+        setMessageDraft(null);
+        setUpiPayment(null);
+        setPayeeGuess(null);
+        setPayeeVpa('');
+        pickedRef.current.clear();
         
         // Add notification if budget warning exists
         if (result.budgetWarning) {
@@ -224,12 +495,120 @@ const AddExpenseScreen: React.FC<Props> = ({ navigation }) => {
       </View>
 
       <View style={styles.form}>
+        <View style={styles.inputGroup}>
+          <View style={styles.entryModeRow}>
+            <Text style={styles.label}>Quick Entry</Text>
+            <View style={styles.entryModeChips}>
+              {([['text', 'Type'], ['message', 'Paste SMS / UPI']] as const).map(([mode, label]) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.entryModeChip, entryMode === mode && styles.entryModeChipSelected]}
+                  onPress={() => setEntryMode(mode)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.entryModeText, entryMode === mode && styles.entryModeTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          {entryMode === 'text' ? (
+            <>
+              <TextInput
+                style={styles.input}
+                placeholder='e.g. "250 lunch upi yesterday"'
+                placeholderTextColor="#94a3b8"
+                value={quickText}
+                onChangeText={handleQuickText}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {quickEntry && (
+                <View style={styles.quickPreview}>
+                  {quickPreview.map(item => (
+                    <View key={item} style={styles.quickPreviewChip}>
+                      <Text style={styles.quickPreviewText}>{item}</Text>
+                    </View>
+                  ))}
+                  {quickEntry.amount === undefined && (
+                    <Text style={styles.quickPreviewHint}>Add an amount, e.g. 250 or 1.2k</Text>
+                  )}
+                </View>
+              )}
+            </>
+          ) : (
+            <>
+              <TextInput
+                style={[styles.input, styles.descriptionInput]}
+                placeholder='Paste a bank or UPI SMS, e.g. "Rs.450.00 debited from A/c XX1234 to VPA swiggy@icici on 12-10-26", or the upi://pay link of a UPI QR'
+                placeholderTextColor="#94a3b8"
+                value={messageText}
+                onChangeText={(text) => {
+                  setMessageText(text);
+                  setMessageDraft(null);
+                  setUpiPayment(null);
+                  setPayeeGuess(null);
+                }}
+                multiline
+                autoCorrect={false}
+              />
+              <View style={styles.messageActions}>
+                <TouchableOpacity
+                  onPress={handleReadMessage}
+                  disabled={readingMessage || !messageText.trim()}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.manageLinkText, !messageText.trim() && styles.linkTextDisabled]}>
+                    {readingMessage ? 'Reading...' : 'Read'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('MessageFormats')}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.manageLinkText}>Message formats</Text>
+                </TouchableOpacity>
+              </View>
+              {messageDraft && (
+                <View style={styles.quickPreview}>
+                  {messagePreview.map(item => (
+                    <View key={item} style={styles.quickPreviewChip}>
+                      <Text style={styles.quickPreviewText}>{item}</Text>
+                    </View>
+                  ))}
+                  {!messageDraft.expense ? (
+                    <Text style={styles.quickPreviewHint}>{messageDraft.reason}</Text>
+                  ) : !messageDraft.format && (
+                    <Text style={styles.quickPreviewHint}>Best guess - add a message format if it's wrong</Text>
+                  )}
+                </View>
+              )}
+              {upiPayment && (
+                <View style={styles.quickPreview}>
+                  {upiPreview.map(item => (
+                    <View key={item} style={styles.quickPreviewChip}>
+                      <Text style={styles.quickPreviewText}>{item}</Text>
+                    </View>
+                  ))}
+                  {upiPayment.amount === undefined && (
+                    <Text style={styles.quickPreviewHint}>No amount in this QR - enter what you paid</Text>
+                  )}
+                  {payeeGuess && payeeGuess.count > 0 && (
+                    <Text style={styles.quickPreviewHint}>
+                      Category from {payeeGuess.count} earlier {payeeGuess.count === 1 ? 'payment' : 'payments'} to {upiPayment.vpa}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
         <View style={styles.inputGroup}>
       <Text style={styles.label}>Amount *</Text>
           <View style={styles.inputWrapper}>
-            <Text style={styles.currencySymbol}>₹</Text>
+            <Text style={styles.currencySymbol}>{getCurrencySymbol(currency).trim()}</Text>
       <TextInput
-              style={styles.amountInput}
+              style={[styles.amountInput, getCurrencySymbol(currency).trim().length > 1 && styles.amountInputWide]}
               placeholder="0.00"
               placeholderTextColor="#94a3b8"
         value={amount}
@@ -240,23 +619,107 @@ const AddExpenseScreen: React.FC<Props> = ({ navigation }) => {
       </View>
       </View>
 
-        <CustomDropdown
-          label="Category *"
-          value={category}
-          options={CATEGORIES}
-          onSelect={(selectedValue) => {
-            if (selectedValue && CATEGORIES.includes(selectedValue as ExpenseCategory)) {
-              setCategory(selectedValue as ExpenseCategory);
-            }
-          }}
-          placeholder="Select a category"
+        <MerchantInput
+          label="Merchant"
+          value={merchantName}
+          onChangeText={setMerchantName}
+          onSelect={selectMerchant}
+          merchants={merchants}
         />
 
+        {availableCurrencies.length > 1 && (
+          <CustomDropdown
+            label="Currency"
+            value={currency}
+            options={availableCurrencies}
+            onSelect={setCurrency}
+          />
+        )}
+
+        {isSplit ? (
+          <LineItemsEditor
+            items={lineItems}
+            onChange={setLineItems}
+            categoryNames={categoryNames}
+            total={parseFloat(amount)}
+            currency={currency}
+          />
+        ) : (
+          <>
+            {suggestions.length > 0 && (
+              <View style={styles.suggestionGroup}>
+                <Text style={styles.suggestionLabel}>Suggested</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {suggestions.map(suggestion => {
+                    const selected = suggestion.category === category
+                      && (suggestion.subcategory || '') === subcategory
+                      && suggestion.paymentMethod === paymentMethod;
+                    return (
+                      <TouchableOpacity
+                        key={`${suggestion.category}/${suggestion.subcategory || ''}/${suggestion.paymentMethod}`}
+                        style={[styles.suggestionChip, selected && styles.suggestionChipSelected]}
+                        onPress={() => applySuggestion(suggestion)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.suggestionText, selected && styles.suggestionTextSelected]}>
+                          {[suggestion.category, suggestion.subcategory].filter(Boolean).join(' / ')} · {suggestion.paymentMethod}
+                        </Text>
+                        <Text style={styles.suggestionConfidence}>{Math.round(suggestion.confidence * 100)}%</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            )}
+
+            <CustomDropdown
+              label="Category *"
+              value={category}
+              options={categoryNames}
+              onSelect={(selectedValue) => {
+                if (selectedValue && categoryNames.includes(selectedValue)) {
+                  setCategory(selectedValue);
+                  setSubcategory('');
+                  pickedRef.current.add('category');
+                }
+              }}
+              placeholder="Select a category"
+            />
+
+            {subcategoryNames.length > 0 && (
+              <CustomDropdown
+                label="Subcategory"
+                value={subcategory}
+                options={['None', ...subcategoryNames]}
+                onSelect={(value) => setSubcategory(value === 'None' ? '' : value)}
+                placeholder="None"
+              />
+            )}
+          </>
+        )}
+        <View style={styles.linkRow}>
+          <TouchableOpacity
+            onPress={isSplit ? () => setLineItems([]) : startSplit}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.manageLinkText}>{isSplit ? 'Use a single category' : 'Split across categories'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Categories')}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.manageLinkText}>Manage categories</Text>
+          </TouchableOpacity>
+        </View>
+
         <CustomDropdown
           label="Payment Method *"
           value={paymentMethod}
           options={PAYMENT_METHODS}
-          onSelect={(value) => setPaymentMethod(value as PaymentMethod)}
+          onSelect={(value) => {
+            setPaymentMethod(value as PaymentMethod);
+            pickedRef.current.add('paymentMethod');
+          }}
           placeholder="Select payment method"
         />
 
@@ -276,6 +739,34 @@ const AddExpenseScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         </View>
 
+        <LocationInput
+          location={location}
+          place={place}
+          onChangeLocation={setLocation}
+          onChangePlace={setPlace}
+        />
+
+        <TagInput
+          label="Tags"
+          tags={tags}
+          onChange={(nextTags) => {
+            setTags(nextTags);
+            pickedRef.current.add('tags');
+          }}
+          suggestions={knownTags}
+        />
+
+        <ReimbursableInput
+          reimbursable={reimbursable}
+          onChangeReimbursable={setReimbursable}
+        />
+
+        <AttachmentPicker
+          label="Receipts"
+          pending={receipts}
+          onChangePending={setReceipts}
+        />
+
         <View style={styles.inputGroup}>
       <Text style={styles.label}>Date</Text>
           <TouchableOpacity
@@ -404,6 +895,9 @@ const styles = StyleSheet.create({
     borderColor: '#e2e8f0',
     fontWeight: '600',
   },
+  amountInputWide: {
+    paddingLeft: 56,
+  },
   input: {
     backgroundColor: '#ffffff',
     padding: 16,
@@ -417,112 +911,117 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
-  dropdownWrapper: {
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -16,
     marginBottom: 24,
   },
-  dropdownLabel: {
-    fontSize: 14,
+  manageLinkText: {
+    fontSize: 13,
     fontWeight: '600',
-    color: '#374151',
-    marginBottom: 8,
-    marginLeft: 4,
+    color: '#6366f1',
   },
-  dropdownContent: {
+  entryModeRow: {
     flexDirection: 'row',
-    alignItems: 'center',
     justifyContent: 'space-between',
-    backgroundColor: '#ffffff',
-    padding: 16,
+    alignItems: 'flex-start',
+  },
+  entryModeChips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  entryModeChip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
     borderRadius: 12,
     borderWidth: 1,
     borderColor: '#e2e8f0',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    elevation: 3,
   },
-  dropdownText: {
-    fontSize: 16,
-    color: '#1e293b',
-    flex: 1,
+  entryModeChipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
   },
-  dropdownPlaceholder: {
-    color: '#94a3b8',
+  entryModeText: {
+    fontSize: 12,
+    color: '#475569',
+    fontWeight: '500',
   },
-  dropdownIcon: {
-    fontSize: 14,
-    color: '#6366f1',
-    fontWeight: 'bold',
+  entryModeTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
+  messageActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
   },
-  modalContent: {
-    backgroundColor: '#ffffff',
-    borderRadius: 20,
-    width: '100%',
-    maxHeight: '70%',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 20 },
-    shadowOpacity: 0.25,
-    shadowRadius: 30,
-    elevation: 20,
+  linkTextDisabled: {
+    color: '#cbd5e1',
   },
-  modalHeader: {
+  quickPreview: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
+    flexWrap: 'wrap',
     alignItems: 'center',
-    padding: 20,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f1f5f9',
+    gap: 6,
+    marginTop: 8,
   },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#1e293b',
-    flex: 1,
+  quickPreviewChip: {
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
   },
-  modalCloseButton: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    backgroundColor: '#f1f5f9',
-    justifyContent: 'center',
-    alignItems: 'center',
+  quickPreviewText: {
+    fontSize: 12,
+    color: '#4338ca',
+    fontWeight: '600',
   },
-  modalCloseText: {
-    fontSize: 18,
-    color: '#64748b',
+  quickPreviewHint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginLeft: 4,
+  },
+  suggestionGroup: {
+    marginBottom: 16,
+  },
+  suggestionLabel: {
+    fontSize: 12,
     fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 8,
+    marginLeft: 4,
   },
-  modalOption: {
+  suggestionChip: {
     flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'space-between',
-    padding: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f1f5f9',
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginRight: 8,
   },
-  modalOptionSelected: {
-    backgroundColor: '#f0f9ff',
+  suggestionChipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
   },
-  modalOptionText: {
-    fontSize: 16,
-    color: '#374151',
+  suggestionText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
   },
-  modalOptionTextSelected: {
-    color: '#6366f1',
+  suggestionTextSelected: {
+    color: '#4338ca',
     fontWeight: '600',
   },
-  checkIcon: {
-    fontSize: 18,
-    color: '#6366f1',
-    fontWeight: 'bold',
+  suggestionConfidence: {
+    fontSize: 11,
+    color: '#94a3b8',
+    fontWeight: '600',
+    marginLeft: 6,
   },
   dateInputWrapper: {
     position: 'relative',
@@ -8,11 +8,15 @@ import {
   StyleSheet,
   Alert,
   ActivityIndicator,
-  ScrollView
+  ScrollView,
+  Switch
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { BudgetContext } from '../context/BudgetContext';
 import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { formatMoney, getCurrencySymbol } from '../utils/currency';
 import { RootStackParamList } from '../types';
 
 type BudgetScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Budget'>;
@@ -24,12 +28,19 @@ interface Props {
 const BudgetScreen: React.FC<Props> = ({ navigation }) => {
   const budgetContext = useContext(BudgetContext);
   const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
   
   if (!budgetContext) throw new Error('BudgetContext not found');
   if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
   
   const { currentBudget, loading, setBudget, refreshBudget } = budgetContext;
+  const { getCategoryEmoji } = categoryContext;
+  const { homeCurrency } = currencyContext;
   const [amount, setAmount] = useState<string>('');
+  const [excludeReimbursable, setExcludeReimbursable] = useState<boolean>(false);
   const [saving, setSaving] = useState<boolean>(false);
 
   useEffect(() => {
@@ -39,6 +50,7 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
   useEffect(() => {
     if (currentBudget?.budget) {
       setAmount(currentBudget.budget.amount.toString());
+      setExcludeReimbursable(!!currentBudget.budget.excludeReimbursable);
     }
   }, [currentBudget]);
 
@@ -53,7 +65,7 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
     const month = now.getMonth() + 1;
     const year = now.getFullYear();
     
-    const result = await setBudget(month, year, parseFloat(amount));
+    const result = await setBudget(month, year, parseFloat(amount), excludeReimbursable);
     setSaving(false);
 
     if (result.success) {
@@ -64,8 +76,9 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  // Budgets and spending are in the home currency
   const formatAmount = (value: number): string => {
-    return `₹${value.toFixed(2)}`;
+    return formatMoney(value, homeCurrency);
   };
 
   const getProgressPercentage = (): number => {
@@ -115,6 +128,13 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
                     {formatAmount(currentBudget.currentSpending)}
                   </Text>
                 </View>
+                {!!currentBudget.reimbursableSpending && (
+                  <Text style={styles.reimbursableNote}>
+                    {currentBudget.budget.excludeReimbursable
+                      ? `Not counting ${formatAmount(currentBudget.reimbursableSpending)} to be paid back`
+                      : `Includes ${formatAmount(currentBudget.reimbursableSpending)} to be paid back`}
+                  </Text>
+                )}
               </View>
 
               <View style={styles.statsRow}>
@@ -145,6 +165,21 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
                   </Text>
                 </View>
               )}
+
+              {/* Split expenses are counted under each of their line items' categories */}
+              {currentBudget.categorySpending && currentBudget.categorySpending.length > 0 && (
+                <View style={styles.categorySpending}>
+                  <Text style={styles.categorySpendingTitle}>Spending by Category</Text>
+                  {currentBudget.categorySpending.map(item => (
+                    <View key={item.category} style={styles.categorySpendingRow}>
+                      <Text style={styles.categorySpendingName}>
+                        {getCategoryEmoji(item.category)} {item.category}
+                      </Text>
+                      <Text style={styles.categorySpendingAmount}>{formatAmount(item.total)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
             </View>
           )}
 
@@ -155,7 +190,7 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
             </Text>
             
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Budget Amount (₹)</Text>
+              <Text style={styles.inputLabel}>Budget Amount ({getCurrencySymbol(homeCurrency).trim()})</Text>
               <TextInput
                 style={styles.input}
                 placeholder="Enter monthly budget"
@@ -164,6 +199,26 @@ const BudgetScreen: React.FC<Props> = ({ navigation }) => {
                 onChangeText={setAmount}
                 keyboardType="numeric"
               />
+              <TouchableOpacity
+                style={styles.currencyLink}
+                onPress={() => navigation.navigate('Currencies')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.currencyLinkText}>Home currency & exchange rates</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.toggleRow}>
+              <View style={styles.toggleInfo}>
+                <Text style={styles.inputLabel}>Leave out reimbursable expenses</Text>
+                <Text style={styles.toggleHint}>Spending you'll be paid back for won't count against the budget</Text>
+              </View>
+              <Switch
+                value={excludeReimbursable}
+                onValueChange={setExcludeReimbursable}
+                trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                thumbColor={excludeReimbursable ? '#6366f1' : '#ffffff'}
+              />
             </View>
 
             <TouchableOpacity
@@ -282,6 +337,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1e293b',
   },
+  reimbursableNote: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+  },
   statsRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -322,6 +382,32 @@ const styles = StyleSheet.create({
     color: '#dc2626',
     fontWeight: '600',
   },
+  categorySpending: {
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  categorySpendingTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  categorySpendingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  categorySpendingName: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  categorySpendingAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
   formCard: {
     backgroundColor: '#ffffff',
     borderRadius: 16,
@@ -348,6 +434,29 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 8,
   },
+  currencyLink: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  currencyLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  toggleInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleHint: {
+    fontSize: 12,
+    color: '#64748b',
+  },
   input: {
     backgroundColor: '#f8fafc',
     borderWidth: 1,
@@ -0,0 +1,622 @@
+// Categories screen - create, rename, archive and merge expense categories
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { CategoryContext } from '../context/CategoryContext';
+import { CATEGORY_COLORS, FALLBACK_CATEGORY_EMOJI } from '../utils/config';
+import { Category, RootStackParamList } from '../types';
+
+type CategoriesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Categories'>;
+
+interface Props {
+  navigation: CategoriesScreenNavigationProp;
+}
+
+// Color swatch row shared by the create form and the edit modal
+interface ColorPickerProps {
+  value: string;
+  onSelect: (color: string) => void;
+}
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onSelect }) => {
+  return (
+    <View style={styles.colorRow}>
+      {CATEGORY_COLORS.map(color => (
+        <TouchableOpacity
+          key={color}
+          style={[
+            styles.colorSwatch,
+            { backgroundColor: color },
+            color === value && styles.colorSwatchSelected
+          ]}
+          onPress={() => onSelect(color)}
+          activeOpacity={0.8}
+        />
+      ))}
+    </View>
+  );
+};
+
+const CategoriesScreen: React.FC<Props> = ({ navigation }) => {
+  const categoryContext = useContext(CategoryContext);
+
+  if (!categoryContext) throw new Error('CategoryContext not found');
+
+  const { categories, activeCategories, loading, loadCategories, addCategory, updateCategory, mergeCategory } = categoryContext;
+  const [name, setName] = useState<string>('');
+  const [emoji, setEmoji] = useState<string>('');
+  const [color, setColor] = useState<string>(CATEGORY_COLORS[0]);
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  // Edit modal state
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [editName, setEditName] = useState<string>('');
+  const [editEmoji, setEditEmoji] = useState<string>('');
+  const [editColor, setEditColor] = useState<string>(CATEGORY_COLORS[0]);
+  const [showMergeTargets, setShowMergeTargets] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const archivedCategories = categories.filter(cat => cat.archived);
+
+  const getChildren = (category: Category): Category[] => {
+    return categories.filter(cat => cat.parentId === category._id && !cat.archived);
+  };
+
+  const getLabel = (category: Category): string => {
+    const parent = categories.find(cat => cat._id === category.parentId);
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+
+    setSaving(true);
+    const result = await addCategory(name.trim(), emoji.trim() || FALLBACK_CATEGORY_EMOJI, color, parentId);
+    setSaving(false);
+
+    if (result.success) {
+      setName('');
+      setEmoji('');
+      setColor(CATEGORY_COLORS[0]);
+      setParentId(null);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to create category');
+    }
+  };
+
+  const openEditor = (category: Category): void => {
+    setEditing(category);
+    setEditName(category.name);
+    setEditEmoji(category.emoji);
+    setEditColor(category.color);
+    setShowMergeTargets(false);
+  };
+
+  const closeEditor = (): void => {
+    setEditing(null);
+    setShowMergeTargets(false);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!editing) return;
+    if (!editName.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+
+    const result = await updateCategory(editing._id, {
+      name: editName.trim(),
+      emoji: editEmoji.trim() || FALLBACK_CATEGORY_EMOJI,
+      color: editColor
+    });
+
+    if (result.success) {
+      closeEditor();
+    } else {
+      Alert.alert('Error', result.message || 'Failed to update category');
+    }
+  };
+
+  const handleToggleArchive = async (): Promise<void> => {
+    if (!editing) return;
+
+    const result = await updateCategory(editing._id, { archived: !editing.archived });
+    if (result.success) {
+      closeEditor();
+    } else {
+      Alert.alert('Error', result.message || 'Failed to update category');
+    }
+  };
+
+  const handleMerge = (target: Category): void => {
+    if (!editing) return;
+    const source = editing;
+
+    Alert.alert(
+      'Merge Categories',
+      `Move all "${getLabel(source)}" expenses to "${getLabel(target)}" and remove "${source.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await mergeCategory(source._id, target._id);
+            if (result.success) {
+              closeEditor();
+              Alert.alert('Success', `${result.movedExpenses || 0} expenses moved to ${getLabel(target)}`);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to merge categories');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderCategory = (category: Category, label: string = category.name) => (
+    <TouchableOpacity
+      key={category._id}
+      style={[
+        styles.categoryRow,
+        category.parentId && !category.archived && styles.subcategoryRow,
+        category.archived && styles.categoryRowArchived
+      ]}
+      onPress={() => openEditor(category)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.categoryIcon, { backgroundColor: category.color }]}>
+        <Text style={styles.categoryIconText}>{category.emoji}</Text>
+      </View>
+      <Text style={styles.categoryName}>{label}</Text>
+      <Text style={styles.chevron}>›</Text>
+    </TouchableOpacity>
+  );
+
+  // Top-level category followed by its subcategories
+  const renderCategoryTree = (category: Category) => (
+    <View key={category._id}>
+      {renderCategory(category)}
+      {getChildren(category).map(child => renderCategory(child))}
+    </View>
+  );
+
+  // Merge targets: any other active category except the source's own subcategories
+  const mergeTargets = categories.filter(cat =>
+    !cat.archived &&
+    cat._id !== editing?._id &&
+    cat.parentId !== editing?._id &&
+    (!cat.parentId || activeCategories.some(parent => parent._id === cat.parentId))
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Categories</Text>
+        <Text style={styles.subtitle}>Organize your expenses your way</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('Rules')} activeOpacity={0.7}>
+          <Text style={styles.rulesLink}>Auto-categorize with rules →</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* New Category Form */}
+      <View style={styles.formCard}>
+        <Text style={styles.formTitle}>New Category</Text>
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[styles.input, styles.emojiInput]}
+            placeholder={FALLBACK_CATEGORY_EMOJI}
+            placeholderTextColor="#94a3b8"
+            value={emoji}
+            onChangeText={setEmoji}
+            maxLength={4}
+          />
+          <TextInput
+            style={[styles.input, styles.nameInput]}
+            placeholder="Category name"
+            placeholderTextColor="#94a3b8"
+            value={name}
+            onChangeText={setName}
+            maxLength={40}
+          />
+        </View>
+        <ColorPicker value={color} onSelect={setColor} />
+
+        <Text style={styles.fieldLabel}>Parent category</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.parentRow}>
+          {[null, ...activeCategories].map(parent => {
+            const id = parent ? parent._id : null;
+            return (
+              <TouchableOpacity
+                key={id || 'none'}
+                style={[styles.parentChip, parentId === id && styles.parentChipSelected]}
+                onPress={() => setParentId(id)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.parentChipText, parentId === id && styles.parentChipTextSelected]}>
+                  {parent ? `${parent.emoji} ${parent.name}` : 'None'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleCreate}
+          disabled={saving}
+          activeOpacity={0.8}
+        >
+          {saving ? (
+            <ActivityIndicator color="#ffffff" size="small" />
+          ) : (
+            <Text style={styles.buttonText}>Add Category</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading && categories.length === 0 ? (
+        <View style={styles.loaderContainer}>
+          <ActivityIndicator size="large" color="#6366f1" />
+        </View>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>Active</Text>
+          {activeCategories.map(renderCategoryTree)}
+
+          {archivedCategories.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Archived</Text>
+              {archivedCategories.map(cat => renderCategory(cat, getLabel(cat)))}
+            </>
+          )}
+        </>
+      )}
+
+      {/* Edit Category Modal */}
+      <Modal
+        visible={editing !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={closeEditor}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={closeEditor}
+        >
+          <TouchableOpacity
+            style={styles.modalContent}
+            activeOpacity={1}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Edit Category</Text>
+              <TouchableOpacity
+                onPress={closeEditor}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <View style={styles.nameRow}>
+                <TextInput
+                  style={[styles.input, styles.emojiInput]}
+                  value={editEmoji}
+                  onChangeText={setEditEmoji}
+                  maxLength={4}
+                />
+                <TextInput
+                  style={[styles.input, styles.nameInput]}
+                  value={editName}
+                  onChangeText={setEditName}
+                  maxLength={40}
+                />
+              </View>
+              <ColorPicker value={editColor} onSelect={setEditColor} />
+
+              <TouchableOpacity style={styles.button} onPress={handleSave} activeOpacity={0.8}>
+                <Text style={styles.buttonText}>Save Changes</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleToggleArchive} activeOpacity={0.8}>
+                <Text style={styles.secondaryButtonText}>
+                  {editing?.archived ? 'Unarchive' : 'Archive'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setShowMergeTargets(!showMergeTargets)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.secondaryButtonText}>Merge into…</Text>
+              </TouchableOpacity>
+
+              {showMergeTargets && mergeTargets.map(target => (
+                <TouchableOpacity
+                  key={target._id}
+                  style={styles.mergeOption}
+                  onPress={() => handleMerge(target)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.mergeOptionText}>{target.emoji} {getLabel(target)}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  rulesLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginTop: 12,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  formCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  emojiInput: {
+    width: 60,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 20,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+  },
+  colorSwatchSelected: {
+    borderColor: '#6366f1',
+    borderWidth: 3,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  parentRow: {
+    marginBottom: 20,
+  },
+  parentChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+    marginRight: 8,
+  },
+  parentChipSelected: {
+    backgroundColor: '#6366f1',
+  },
+  parentChipText: {
+    fontSize: 14,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  parentChipTextSelected: {
+    color: '#ffffff',
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#64748b',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  subcategoryRow: {
+    marginLeft: 28,
+  },
+  categoryRowArchived: {
+    opacity: 0.6,
+  },
+  categoryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  categoryIconText: {
+    fontSize: 16,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  chevron: {
+    fontSize: 22,
+    color: '#94a3b8',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    width: '100%',
+    maxHeight: '80%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 20 },
+    shadowOpacity: 0.25,
+    shadowRadius: 30,
+    elevation: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  mergeOption: {
+    padding: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  mergeOptionText: {
+    fontSize: 16,
+    color: '#374151',
+  },
+});
+
+export default CategoriesScreen;
@@ -0,0 +1,609 @@
+// Claims screen - outstanding reimbursements by age, and claims that group reimbursable expenses until paid back
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal,
+  Switch
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ClaimContext } from '../context/ClaimContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { formatMoney } from '../utils/currency';
+import { Claim, ReimbursementStatus, RootStackParamList } from '../types';
+
+type ClaimsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Claims'>;
+
+interface Props {
+  navigation: ClaimsScreenNavigationProp;
+}
+
+const STATUS_LABELS: Record<ReimbursementStatus, string> = {
+  pending: 'Not submitted',
+  claimed: 'Claimed',
+  reimbursed: 'Reimbursed'
+};
+
+const STATUS_COLORS: Record<ReimbursementStatus, { background: string; text: string }> = {
+  pending: { background: '#fef3c7', text: '#92400e' },
+  claimed: { background: '#e0e7ff', text: '#4338ca' },
+  reimbursed: { background: '#dcfce7', text: '#166534' }
+};
+
+const ClaimsScreen: React.FC<Props> = ({ navigation }) => {
+  const claimContext = useContext(ClaimContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!claimContext) throw new Error('ClaimContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { claims, outstanding, loading, loadClaims, createClaim, updateClaim, deleteClaim } = claimContext;
+  const { getCategoryEmoji } = categoryContext;
+  const { homeCurrency } = currencyContext;
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [submitNow, setSubmitNow] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadClaims();
+    });
+    return unsubscribe;
+  }, [navigation]);
+
+  // Outstanding expenses not in any claim yet, oldest first
+  const unclaimed = (outstanding?.buckets || [])
+    .flatMap(bucket => bucket.expenses)
+    .filter(exp => !exp.claimId);
+  const bucketMax = Math.max(...(outstanding?.buckets || []).map(bucket => bucket.total), 1);
+
+  const formatAmount = (value: number): string => {
+    return formatMoney(value, homeCurrency);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const toggleSelected = (id: string): void => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const openForm = (): void => {
+    setName('');
+    setNote('');
+    setSubmitNow(true);
+    setFormVisible(true);
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the claim');
+      return;
+    }
+
+    setSaving(true);
+    const result = await createClaim({
+      name: name.trim(),
+      note: note.trim(),
+      claimedAt: submitNow ? new Date().toISOString() : null,
+      expenseIds: selectedIds
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+      setSelectedIds([]);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to create claim');
+    }
+  };
+
+  const runUpdate = async (claim: Claim, changes: { claimedAt?: string; settledAt?: string }): Promise<void> => {
+    const result = await updateClaim(claim._id, changes);
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to update claim');
+    }
+  };
+
+  // Next step for a claim: submit it, record that it was paid back, or take it apart
+  const handleClaimPress = (claim: Claim): void => {
+    const now = new Date().toISOString();
+    Alert.alert(
+      claim.name,
+      `${claim.count || 0} expenses · ${formatAmount(claim.total || 0)}`,
+      [
+        ...(claim.status === 'pending'
+          ? [{ text: 'Mark Submitted', onPress: () => runUpdate(claim, { claimedAt: now }) }]
+          : []),
+        ...(claim.status === 'claimed'
+          ? [{ text: 'Mark Reimbursed', onPress: () => runUpdate(claim, { settledAt: now }) }]
+          : []),
+        {
+          text: 'Delete',
+          style: 'destructive' as const,
+          onPress: async () => {
+            const result = await deleteClaim(claim._id);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to delete claim');
+            }
+          }
+        },
+        { text: 'Cancel', style: 'cancel' as const }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Reimbursements</Text>
+          <Text style={styles.subtitle}>Work expenses you paid for and are waiting to get back</Text>
+        </View>
+
+        {loading && !outstanding ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : (
+          <>
+            {/* Outstanding by age */}
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryLabel}>Outstanding</Text>
+              <Text style={styles.summaryAmount}>{formatAmount(outstanding?.total || 0)}</Text>
+              <Text style={styles.summarySubtext}>
+                {formatAmount(outstanding?.pending || 0)} not submitted · {formatAmount(outstanding?.claimed || 0)} claimed
+              </Text>
+              {(outstanding?.buckets || []).map(bucket => (
+                <View key={bucket.label} style={styles.bucketRow}>
+                  <Text style={styles.bucketLabel}>{bucket.label}</Text>
+                  <View style={styles.bucketBarTrack}>
+                    <View style={[styles.bucketBar, { width: `${(bucket.total / bucketMax) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.bucketAmount}>
+                    {bucket.count > 0 ? formatAmount(bucket.total) : '—'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Reimbursable expenses not in a claim yet */}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Not in a claim</Text>
+              {selectedIds.length > 0 && (
+                <TouchableOpacity onPress={() => setSelectedIds([])} activeOpacity={0.7}>
+                  <Text style={styles.sectionAction}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {unclaimed.length === 0 ? (
+              <Text style={styles.emptyText}>
+                Mark an expense as reimbursable when adding or editing it to claim it here
+              </Text>
+            ) : (
+              unclaimed.map(exp => {
+                const selected = selectedIds.includes(exp._id);
+                return (
+                  <TouchableOpacity
+                    key={exp._id}
+                    style={[styles.expenseRow, selected && styles.expenseRowSelected]}
+                    onPress={() => toggleSelected(exp._id)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.checkbox}>{selected ? '☑️' : '⬜'}</Text>
+                    <View style={styles.cardInfo}>
+                      <Text style={styles.expenseTitle} numberOfLines={1}>
+                        {getCategoryEmoji(exp.category)} {exp.description || exp.category}
+                      </Text>
+                      <Text style={styles.cardSubtitle}>{formatDate(exp.date)} · {exp.ageDays} days ago</Text>
+                    </View>
+                    <Text style={styles.expenseAmount}>{formatAmount(exp.amount)}</Text>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            {selectedIds.length > 0 && (
+              <TouchableOpacity style={styles.button} onPress={openForm} activeOpacity={0.8}>
+                <Text style={styles.buttonText}>
+                  Create Claim ({selectedIds.length} {selectedIds.length === 1 ? 'expense' : 'expenses'})
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Claims */}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Claims</Text>
+            </View>
+            {claims.length === 0 ? (
+              <Text style={styles.emptyText}>Select expenses above to group them into a claim</Text>
+            ) : (
+              claims.map(claim => (
+                <TouchableOpacity
+                  key={claim._id}
+                  style={styles.card}
+                  onPress={() => handleClaimPress(claim)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardTitle}>{claim.name}</Text>
+                    <Text style={styles.cardSubtitle}>
+                      {claim.count || 0} {claim.count === 1 ? 'expense' : 'expenses'}
+                      {claim.claimedAt ? ` · Claimed ${formatDate(claim.claimedAt)}` : ''}
+                      {claim.settledAt ? ` · Settled ${formatDate(claim.settledAt)}` : ''}
+                    </Text>
+                    {claim.note ? <Text style={styles.cardSubtitle}>{claim.note}</Text> : null}
+                  </View>
+                  <View style={styles.cardStats}>
+                    <Text style={styles.cardAmount}>{formatAmount(claim.total || 0)}</Text>
+                    <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[claim.status].background }]}>
+                      <Text style={[styles.statusText, { color: STATUS_COLORS[claim.status].text }]}>
+                        {STATUS_LABELS[claim.status]}
+                      </Text>
+                    </View>
+                  </View>
+                </TouchableOpacity>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Create Claim Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>New Claim</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Pune client visit"
+                placeholderTextColor="#94a3b8"
+                value={name}
+                onChangeText={setName}
+                maxLength={60}
+              />
+
+              <Text style={styles.label}>Note</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. reference number (optional)"
+                placeholderTextColor="#94a3b8"
+                value={note}
+                onChangeText={setNote}
+                maxLength={200}
+              />
+
+              <View style={styles.switchRow}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.switchLabel}>Submitted today</Text>
+                  <Text style={styles.cardSubtitle}>Turn off to keep adding to it before you submit</Text>
+                </View>
+                <Switch
+                  value={submitNow}
+                  onValueChange={setSubmitNow}
+                  trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                  thumbColor={submitNow ? '#6366f1' : '#f8fafc'}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleCreate}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>Create Claim</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  summaryCard: {
+    backgroundColor: '#6366f1',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    fontWeight: '500',
+  },
+  summaryAmount: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: '#ffffff',
+    marginVertical: 4,
+  },
+  summarySubtext: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    marginBottom: 12,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  bucketLabel: {
+    width: 90,
+    fontSize: 12,
+    color: '#e0e7ff',
+    fontWeight: '500',
+  },
+  bucketBarTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    marginHorizontal: 8,
+    overflow: 'hidden',
+  },
+  bucketBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#ffffff',
+  },
+  bucketAmount: {
+    width: 90,
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#ffffff',
+    textAlign: 'right',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginBottom: 24,
+  },
+  expenseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  expenseRowSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  checkbox: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  expenseTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  expenseAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginLeft: 12,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardStats: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+});
+
+export default ClaimsScreen;
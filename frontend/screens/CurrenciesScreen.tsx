@@ -0,0 +1,340 @@
+// Currencies screen - home currency and the exchange rates used to convert into it
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import { CURRENCIES } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { ExchangeRate, RootStackParamList } from '../types';
+
+type CurrenciesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Currencies'>;
+
+interface Props {
+  navigation: CurrenciesScreenNavigationProp;
+}
+
+const CurrenciesScreen: React.FC<Props> = ({ navigation }) => {
+  const currencyContext = useContext(CurrencyContext);
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { homeCurrency, rates, loading, loadRates, setRate, deleteRate, importRates, setHomeCurrency } = currencyContext;
+
+  const [rateCurrency, setRateCurrency] = useState<string>('');
+  const [rateValue, setRateValue] = useState<string>('');
+  const [importText, setImportText] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const currencyLabel = (code: string): string => {
+    const currency = CURRENCIES.find(item => item.code === code);
+    return currency ? `${code} - ${currency.name}` : code;
+  };
+
+  const rateOptions = CURRENCIES
+    .filter(item => item.code !== homeCurrency)
+    .map(item => currencyLabel(item.code));
+
+  const handleChangeHome = (label: string): void => {
+    const code = label.split(' ')[0];
+    if (code === homeCurrency) return;
+
+    Alert.alert(
+      'Change Home Currency',
+      `Stats and budgets will be shown in ${code}. Existing rates and budget limits are converted using the ${code} rate.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change',
+          onPress: async () => {
+            const result = await setHomeCurrency(code);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to change home currency');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleSaveRate = async (): Promise<void> => {
+    const rateNum = parseFloat(rateValue);
+    if (!rateCurrency) {
+      Alert.alert('Error', 'Please select a currency');
+      return;
+    }
+    if (!rateValue || isNaN(rateNum) || rateNum <= 0) {
+      Alert.alert('Error', 'Please enter a valid rate');
+      return;
+    }
+
+    setSaving(true);
+    const result = await setRate(rateCurrency, rateNum);
+    setSaving(false);
+
+    if (result.success) {
+      setRateCurrency('');
+      setRateValue('');
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save exchange rate');
+    }
+  };
+
+  const handleEditRate = (rate: ExchangeRate): void => {
+    setRateCurrency(rate.currency);
+    setRateValue(rate.rate.toString());
+  };
+
+  const handleDeleteRate = (rate: ExchangeRate): void => {
+    Alert.alert(
+      'Delete Rate',
+      `Remove the ${rate.currency} exchange rate?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteRate(rate.currency);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to delete exchange rate');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleImport = async (): Promise<void> => {
+    setSaving(true);
+    const result = await importRates(importText);
+    setSaving(false);
+
+    if (result.success) {
+      setImportText('');
+      Alert.alert('Success', `${result.imported} rates imported`);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to import exchange rates');
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Currencies</Text>
+        <Text style={styles.subtitle}>Stats and budgets are converted to your home currency</Text>
+      </View>
+
+      <View style={styles.card}>
+        <CustomDropdown
+          label="Home Currency"
+          value={currencyLabel(homeCurrency)}
+          options={CURRENCIES.map(item => currencyLabel(item.code))}
+          onSelect={handleChangeHome}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Exchange Rates</Text>
+        {loading && rates.length === 0 ? (
+          <ActivityIndicator size="small" color="#6366f1" />
+        ) : rates.length === 0 ? (
+          <Text style={styles.emptyText}>No rates yet - add one to record expenses in other currencies</Text>
+        ) : (
+          rates.map(rate => (
+            <View key={rate.currency} style={styles.rateRow}>
+              <TouchableOpacity style={styles.rateInfo} onPress={() => handleEditRate(rate)} activeOpacity={0.7}>
+                <Text style={styles.rateCode}>{rate.currency}</Text>
+                <Text style={styles.rateValue}>
+                  1 {rate.currency} = {formatMoney(rate.rate, homeCurrency)}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeleteRate(rate)} activeOpacity={0.7}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Add or Update Rate</Text>
+        <CustomDropdown
+          label="Currency"
+          value={rateCurrency ? currencyLabel(rateCurrency) : ''}
+          options={rateOptions}
+          onSelect={(label) => setRateCurrency(label.split(' ')[0])}
+          placeholder="Select a currency"
+        />
+        <Text style={styles.label}>Value of 1 {rateCurrency || 'unit'} in {homeCurrency}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g. 83.25"
+          placeholderTextColor="#94a3b8"
+          value={rateValue}
+          onChangeText={setRateValue}
+          keyboardType="decimal-pad"
+        />
+        <TouchableOpacity
+          style={[styles.button, saving && styles.buttonDisabled]}
+          onPress={handleSaveRate}
+          disabled={saving}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Save Rate</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Import Rates</Text>
+        <Text style={styles.helpText}>
+          Paste one rate per line (USD=83.25) or a JSON object ({'{"USD": 83.25}'}), in {homeCurrency} per unit.
+        </Text>
+        <TextInput
+          style={[styles.input, styles.importInput]}
+          placeholder={'USD=83.25\nEUR=90.10'}
+          placeholderTextColor="#94a3b8"
+          value={importText}
+          onChangeText={setImportText}
+          multiline
+          autoCapitalize="characters"
+          autoCorrect={false}
+          textAlignVertical="top"
+        />
+        <TouchableOpacity
+          style={[styles.button, (saving || !importText.trim()) && styles.buttonDisabled]}
+          onPress={handleImport}
+          disabled={saving || !importText.trim()}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  rateInfo: {
+    flex: 1,
+  },
+  rateCode: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  rateValue: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  deleteText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 16,
+  },
+  importInput: {
+    height: 100,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default CurrenciesScreen;
@@ -1,5 +1,5 @@
 // Edit expense screen - update existing expense
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useEffect } from 'react';
 import {
   View,
   Text,
@@ -8,130 +8,103 @@ import {
   StyleSheet,
   ScrollView,
   Alert,
-  ActivityIndicator,
-  Modal,
-  FlatList
+  ActivityIndicator
 } from 'react-native';
 import { RouteProp, useRoute, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { ExpenseContext } from '../context/ExpenseContext';
-import { CATEGORIES, PAYMENT_METHODS } from '../utils/config';
-import { Expense, ExpenseCategory, PaymentMethod, RootStackParamList } from '../types';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { MerchantContext } from '../context/MerchantContext';
+import CustomDropdown from '../components/CustomDropdown';
+import TagInput from '../components/TagInput';
+import AttachmentPicker from '../components/AttachmentPicker';
+import ExpenseHistory from '../components/ExpenseHistory';
+import MerchantInput, { matchMerchant } from '../components/MerchantInput';
+import LocationInput from '../components/LocationInput';
+import ReimbursableInput from '../components/ReimbursableInput';
+import LineItemsEditor, { LineItemDraft, getPrimaryCategory, toDrafts, toLineItems, validateDrafts } from '../components/LineItemsEditor';
+import { PAYMENT_METHODS } from '../utils/config';
+import { getCurrencySymbol } from '../utils/currency';
+import { Expense, ExpenseAttachment, GeoPoint, PaymentMethod, PickedFile, ReimbursementStatus, RootStackParamList, TagBreakdown } from '../types';
 
 type EditExpenseScreenRouteProp = RouteProp<RootStackParamList, 'EditExpense'>;
 type EditExpenseScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'EditExpense'>;
 
-// Custom Dropdown Component
-interface CustomDropdownProps {
-  label: string;
-  value: string;
-  options: string[];
-  onSelect: (value: string) => void;
-  placeholder?: string;
-}
-
-const CustomDropdown: React.FC<CustomDropdownProps> = ({
-  label,
-  value,
-  options,
-  onSelect,
-  placeholder = "Select an option"
-}) => {
-  const [isVisible, setIsVisible] = useState<boolean>(false);
-
-  const handleSelect = (option: string) => {
-    onSelect(option);
-    setIsVisible(false);
-  };
-
-  return (
-    <>
-      <TouchableOpacity
-        style={styles.dropdownWrapper}
-        onPress={() => setIsVisible(true)}
-        activeOpacity={0.8}
-      >
-        <Text style={styles.dropdownLabel}>{label}</Text>
-        <View style={styles.dropdownContent}>
-          <Text style={[styles.dropdownText, !value && styles.dropdownPlaceholder]}>
-            {value || placeholder}
-          </Text>
-          <Text style={styles.dropdownIcon}>▼</Text>
-        </View>
-      </TouchableOpacity>
-
-      <Modal
-        visible={isVisible}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setIsVisible(false)}
-      >
-        <TouchableOpacity
-          style={styles.modalOverlay}
-          activeOpacity={1}
-          onPress={() => setIsVisible(false)}
-        >
-          <TouchableOpacity 
-            style={styles.modalContent} 
-            activeOpacity={1}
-            onPress={(e) => e.stopPropagation()}
-          >
-            <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>{label}</Text>
-              <TouchableOpacity
-                onPress={() => setIsVisible(false)}
-                style={styles.modalCloseButton}
-                activeOpacity={0.7}
-              >
-                <Text style={styles.modalCloseText}>✕</Text>
-              </TouchableOpacity>
-            </View>
-            <FlatList
-              data={options}
-              keyExtractor={(item) => item}
-              renderItem={({ item }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.modalOption,
-                    item === value && styles.modalOptionSelected
-                  ]}
-                  onPress={() => handleSelect(item)}
-                  activeOpacity={0.7}
-                >
-                  <Text style={[
-                    styles.modalOptionText,
-                    item === value && styles.modalOptionTextSelected
-                  ]}>
-                    {item}
-                  </Text>
-                  {item === value && <Text style={styles.checkIcon}>✓</Text>}
-                </TouchableOpacity>
-              )}
-              showsVerticalScrollIndicator={false}
-            />
-          </TouchableOpacity>
-        </TouchableOpacity>
-      </Modal>
-    </>
-  );
-};
-
 const EditExpenseScreen: React.FC = () => {
   const route = useRoute<EditExpenseScreenRouteProp>();
   const navigation = useNavigation<EditExpenseScreenNavigationProp>();
   const { expense } = route.params;
   
   const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+  const merchantContext = useContext(MerchantContext);
   if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+  if (!merchantContext) throw new Error('MerchantContext not found');
   
-  const { updateExpense, deleteExpense } = expenseContext;
+  const { updateExpense, deleteExpense, uploadAttachments, deleteAttachment, getStats } = expenseContext;
+  const { activeCategories, getSubcategories } = categoryContext;
+  const { homeCurrency, availableCurrencies } = currencyContext;
+  const { merchants, getMerchant, loadMerchants } = merchantContext;
+  const originalCurrency = expense.currency || homeCurrency;
+  const originalMerchantName = getMerchant(expense.merchantId)?.name || '';
   const [amount, setAmount] = useState<string>(expense.amount.toString());
-  const [category, setCategory] = useState<ExpenseCategory>(expense.category as ExpenseCategory);
+  const [currency, setCurrency] = useState<string>(originalCurrency);
+  const [category, setCategory] = useState<string>(expense.category);
+  const [subcategory, setSubcategory] = useState<string>(expense.subcategory || '');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(expense.paymentMethod as PaymentMethod);
+  const [merchantName, setMerchantName] = useState<string>(originalMerchantName);
   const [description, setDescription] = useState<string>(expense.description || '');
+  const [location, setLocation] = useState<GeoPoint | null>(expense.location || null);
+  const [place, setPlace] = useState<string>(expense.place || '');
+  const [tags, setTags] = useState<string[]>(expense.tags || []);
+  const [reimbursable, setReimbursable] = useState<boolean>(!!expense.reimbursable);
+  const [reimbursementStatus, setReimbursementStatus] = useState<ReimbursementStatus>(expense.reimbursementStatus || 'pending');
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>(toDrafts(expense.lineItems));
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>(expense.attachments || []);
+  const [receipts, setReceipts] = useState<PickedFile[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
   const [date, setDate] = useState<string>(expense.date.split('T')[0]);
   const [loading, setLoading] = useState<boolean>(false);
 
+  // Archived categories can't be picked, so only send the category when it changed
+  const categoryNames = activeCategories.map(cat => cat.name);
+  const categoryOptions = categoryNames.includes(expense.category)
+    ? categoryNames
+    : [expense.category, ...categoryNames];
+  const currencyOptions = availableCurrencies.includes(originalCurrency)
+    ? availableCurrencies
+    : [originalCurrency, ...availableCurrencies];
+  const subcategoryNames = getSubcategories(category).map(cat => cat.name);
+  if (subcategory && !subcategoryNames.includes(subcategory)) {
+    subcategoryNames.unshift(subcategory);
+  }
+  // Tags the user has used before, most used first, for autocomplete
+  useEffect(() => {
+    const loadKnownTags = async (): Promise<void> => {
+      const result = await getStats('tags');
+      if (result.success && result.data) {
+        setKnownTags((result.data.breakdown as TagBreakdown[]).map(item => item.tag));
+      }
+    };
+    loadKnownTags();
+  }, []);
+
+  const categoryChanged = category !== expense.category || subcategory !== (expense.subcategory || '');
+  const isSplit = lineItems.length > 0;
+  const lineItemsChanged = JSON.stringify(lineItems) !== JSON.stringify(toDrafts(expense.lineItems));
+
+  // Start a split with the whole amount on the current category plus an empty second item
+  const startSplit = (): void => {
+    setLineItems([
+      { amount: amount, category: category, note: '' },
+      { amount: '', category: '', note: '' }
+    ]);
+  };
+
   const handleUpdate = async (): Promise<void> => {
     const amountNum = parseFloat(amount);
     if (!amount || isNaN(amountNum) || amountNum <= 0) {
@@ -139,17 +112,60 @@ const EditExpenseScreen: React.FC = () => {
       return;
     }
 
+    if (isSplit) {
+      const lineItemsError = validateDrafts(lineItems, amountNum, currency);
+      if (lineItemsError) {
+        Alert.alert('Error', lineItemsError);
+        return;
+      }
+    }
+
+    // Going back to a single category sends an empty list along with the chosen category
+    const sendCategory = isSplit ? false : categoryChanged || lineItemsChanged;
+
+    // The link is only sent when it changed - an empty name removes it
+    const merchant = merchantName.trim() !== originalMerchantName ? merchantName.trim() : undefined;
+
+    // Reimbursement fields are only sent when they changed - expenses in a claim keep the claim's status
+    const reimbursableChanged = reimbursable !== !!expense.reimbursable;
+    const statusChanged = reimbursable && reimbursementStatus !== (expense.reimbursementStatus || 'pending');
+
     setLoading(true);
     const result = await updateExpense(expense._id, {
       amount: amountNum,
-      category,
+      currency: currency !== originalCurrency ? currency : undefined,
+      category: sendCategory ? category : undefined,
+      subcategory: sendCategory ? subcategory || null : undefined,
       paymentMethod,
+      merchant,
       description,
+      location: JSON.stringify(location) !== JSON.stringify(expense.location || null) ? location : undefined,
+      place: place.trim() !== (expense.place || '') ? place.trim() : undefined,
+      tags,
+      reimbursable: reimbursableChanged ? reimbursable : undefined,
+      reimbursementStatus: statusChanged ? reimbursementStatus : undefined,
+      lineItems: lineItemsChanged ? toLineItems(lineItems) : undefined,
       date
     });
+
+    // New receipts are uploaded after the expense itself is saved
+    const uploaded = result.success && receipts.length > 0
+      ? await uploadAttachments(expense._id, receipts)
+      : { success: true, message: undefined };
     setLoading(false);
 
+    // Stay on the screen so the upload can be retried - saving again is harmless
+    if (!uploaded.success) {
+      Alert.alert('Receipts Not Attached', uploaded.message || 'Failed to upload attachments');
+      return;
+    }
+
     if (result.success) {
+      // A name that matched no merchant added a new one
+      if (merchant && !matchMerchant(merchants, merchant)) {
+        loadMerchants();
+      }
+
       // Navigate back immediately, then show success message
       navigation.goBack();
       
@@ -165,10 +181,32 @@ const EditExpenseScreen: React.FC = () => {
     }
   };
 
+  const handleDeleteAttachment = (attachment: ExpenseAttachment): void => {
+    Alert.alert(
+      'Delete Receipt',
+      `Remove ${attachment.originalName || 'this receipt'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteAttachment(expense._id, attachment._id);
+            if (result.success) {
+              setAttachments(prev => prev.filter(item => item._id !== attachment._id));
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete attachment');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const handleDelete = async (): Promise<void> => {
     Alert.alert(
       'Delete Expense',
-      'Are you sure you want to delete this expense?',
+      'Move this expense to the trash? You can undo this or restore it from the trash later.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -177,7 +215,7 @@ const EditExpenseScreen: React.FC = () => {
           onPress: async () => {
             const result = await deleteExpense(expense._id);
             if (result.success) {
-              navigation.goBack();
+              navigation.goBack(); // The home screen offers to undo the delete
             } else {
               Alert.alert('Error', result.message || 'Failed to delete expense');
             }
@@ -201,9 +239,9 @@ const EditExpenseScreen: React.FC = () => {
         <View style={styles.inputGroup}>
       <Text style={styles.label}>Amount *</Text>
           <View style={styles.inputWrapper}>
-            <Text style={styles.currencySymbol}>₹</Text>
+            <Text style={styles.currencySymbol}>{getCurrencySymbol(currency).trim()}</Text>
       <TextInput
-              style={styles.amountInput}
+              style={[styles.amountInput, getCurrencySymbol(currency).trim().length > 1 && styles.amountInputWide]}
               placeholder="0.00"
               placeholderTextColor="#94a3b8"
         value={amount}
@@ -214,14 +252,67 @@ const EditExpenseScreen: React.FC = () => {
       </View>
       </View>
 
-        <CustomDropdown
-          label="Category *"
-          value={category}
-          options={CATEGORIES}
-          onSelect={(value) => setCategory(value as ExpenseCategory)}
-          placeholder="Select a category"
+        <MerchantInput
+          label="Merchant"
+          value={merchantName}
+          onChangeText={setMerchantName}
+          onSelect={(selected) => setMerchantName(selected.name)}
+          merchants={merchants}
         />
 
+        {currencyOptions.length > 1 && (
+          <CustomDropdown
+            label="Currency"
+            value={currency}
+            options={currencyOptions}
+            onSelect={setCurrency}
+          />
+        )}
+
+        {isSplit ? (
+          <LineItemsEditor
+            items={lineItems}
+            onChange={setLineItems}
+            categoryNames={categoryNames}
+            total={parseFloat(amount)}
+            currency={currency}
+          />
+        ) : (
+          <>
+            <CustomDropdown
+              label="Category *"
+              value={category}
+              options={categoryOptions}
+              onSelect={(value) => {
+                setCategory(value);
+                setSubcategory('');
+              }}
+              placeholder="Select a category"
+            />
+
+            {subcategoryNames.length > 0 && (
+              <CustomDropdown
+                label="Subcategory"
+                value={subcategory}
+                options={['None', ...subcategoryNames]}
+                onSelect={(value) => setSubcategory(value === 'None' ? '' : value)}
+                placeholder="None"
+              />
+            )}
+          </>
+        )}
+        <TouchableOpacity
+          style={styles.splitLink}
+          onPress={isSplit ? () => {
+            setCategory(getPrimaryCategory(lineItems) || category);
+            setSubcategory('');
+            setLineItems([]);
+          } : startSplit}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.splitLinkText}>{isSplit ? 'Use a single category' : 'Split across categories'}</Text>
+        </TouchableOpacity>
+
         <CustomDropdown
           label="Payment Method *"
           value={paymentMethod}
@@ -246,6 +337,37 @@ const EditExpenseScreen: React.FC = () => {
           </View>
         </View>
 
+        <LocationInput
+          location={location}
+          place={place}
+          onChangeLocation={setLocation}
+          onChangePlace={setPlace}
+        />
+
+        <TagInput
+          label="Tags"
+          tags={tags}
+          onChange={setTags}
+          suggestions={knownTags}
+        />
+
+        <ReimbursableInput
+          reimbursable={reimbursable}
+          onChangeReimbursable={setReimbursable}
+          status={reimbursementStatus}
+          onChangeStatus={setReimbursementStatus}
+          inClaim={!!expense.claimId && !!expense.reimbursable}
+        />
+
+        <AttachmentPicker
+          label="Receipts"
+          expenseId={expense._id}
+          attachments={attachments}
+          onDeleteAttachment={handleDeleteAttachment}
+          pending={receipts}
+          onChangePending={setReceipts}
+        />
+
         <View style={styles.inputGroup}>
       <Text style={styles.label}>Date</Text>
           <TouchableOpacity
@@ -300,6 +422,12 @@ const EditExpenseScreen: React.FC = () => {
             <Text style={styles.deleteIcon}>🗑️</Text>
           </View>
       </TouchableOpacity>
+
+        {/* Reopen with the reverted values so the form and history are current */}
+        <ExpenseHistory
+          expenseId={expense._id}
+          onReverted={(reverted) => navigation.replace('EditExpense', { expense: reverted })}
+        />
       </View>
     </ScrollView>
   );
@@ -310,6 +438,16 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8fafc',
   },
+  splitLink: {
+    alignSelf: 'flex-start',
+    marginTop: -16,
+    marginBottom: 24,
+  },
+  splitLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
   header: {
     alignItems: 'center',
     paddingTop: 40,
@@ -385,6 +523,9 @@ const styles = StyleSheet.create({
     borderColor: '#e2e8f0',
     fontWeight: '600',
   },
+  amountInputWide: {
+    paddingLeft: 56,
+  },
   input: {
     backgroundColor: '#ffffff',
     padding: 16,
@@ -398,113 +539,6 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
-  dropdownWrapper: {
-    marginBottom: 24,
-  },
-  dropdownLabel: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#374151',
-    marginBottom: 8,
-    marginLeft: 4,
-  },
-  dropdownContent: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    backgroundColor: '#ffffff',
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#e2e8f0',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    elevation: 3,
-  },
-  dropdownText: {
-    fontSize: 16,
-    color: '#1e293b',
-    flex: 1,
-  },
-  dropdownPlaceholder: {
-    color: '#94a3b8',
-  },
-  dropdownIcon: {
-    fontSize: 14,
-    color: '#6366f1',
-    fontWeight: 'bold',
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  modalContent: {
-    backgroundColor: '#ffffff',
-    borderRadius: 20,
-    width: '100%',
-    maxHeight: '70%',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 20 },
-    shadowOpacity: 0.25,
-    shadowRadius: 30,
-    elevation: 20,
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: 20,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f1f5f9',
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#1e293b',
-    flex: 1,
-  },
-  modalCloseButton: {
-    width: 32,
-    height: 32,
-    borderRadius: 16,
-    backgroundColor: '#f1f5f9',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  modalCloseText: {
-    fontSize: 18,
-    color: '#64748b',
-    fontWeight: '600',
-  },
-  modalOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    padding: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f1f5f9',
-  },
-  modalOptionSelected: {
-    backgroundColor: '#f0f9ff',
-  },
-  modalOptionText: {
-    fontSize: 16,
-    color: '#374151',
-  },
-  modalOptionTextSelected: {
-    color: '#6366f1',
-    fontWeight: '600',
-  },
-  checkIcon: {
-    fontSize: 18,
-    color: '#6366f1',
-    fontWeight: 'bold',
-  },
   dateInputWrapper: {
     position: 'relative',
   },
@@ -7,15 +7,30 @@ import {
   TouchableOpacity,
   StyleSheet,
   RefreshControl,
-  ActivityIndicator
+  ActivityIndicator,
+  TextInput,
+  ScrollView,
+  Alert
 } from 'react-native';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
 import { AuthContext } from '../context/AuthContext';
 import { NotificationContext } from '../context/NotificationContext';
-import { Expense, RootStackParamList } from '../types';
+import { RecurringContext } from '../context/RecurringContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { SavedViewContext } from '../context/SavedViewContext';
+import { TemplateContext } from '../context/TemplateContext';
+import HighlightedText from '../components/HighlightedText';
+import ExpenseFilterSheet, { countActiveFilters, describeSort } from '../components/ExpenseFilterSheet';
+import SaveViewSheet from '../components/SaveViewSheet';
+import BulkActionSheet, { BulkAction } from '../components/BulkActionSheet';
+import UndoSnackbar from '../components/UndoSnackbar';
+import { formatMoney } from '../utils/currency';
+import { DATE_RANGES } from '../utils/config';
+import { BulkExpenseRequest, DateRangePreset, Expense, ExpenseFilters, ExpenseQuery, MonthSummary, RootStackParamList, SavedView, Template } from '../types';
 
 type TabParamList = {
   Home: undefined;
@@ -31,30 +46,257 @@ interface Props {
   navigation: HomeScreenNavigationProp;
 }
 
+const QUICK_ADD_LIMIT = 8; // Most used templates shown in the header
+
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
   const authContext = useContext(AuthContext);
   const notificationContext = useContext(NotificationContext);
+  const recurringContext = useContext(RecurringContext);
+  const currencyContext = useContext(CurrencyContext);
+  const savedViewContext = useContext(SavedViewContext);
+  const templateContext = useContext(TemplateContext);
   
   if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
   if (!authContext) throw new Error('AuthContext not found');
   if (!notificationContext) throw new Error('NotificationContext not found');
+  if (!recurringContext) throw new Error('RecurringContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+  if (!savedViewContext) throw new Error('SavedViewContext not found');
+  if (!templateContext) throw new Error('TemplateContext not found');
   
-  const { expenses, loading, loadExpenses, deleteExpense } = expenseContext;
+  const { expenses, loading, loadingMore, hasMore, query, filters, setFilters, loadExpenses, loadMore, addExpense, deleteExpense, bulkUpdate, getStats } = expenseContext;
+  const { recentlyDeleted, undoDelete, dismissUndo, possibleDuplicates, resolveDuplicate } = expenseContext;
+  const { activeCategories, getSubcategories, getCategoryColor, getCategoryEmoji } = categoryContext;
   const { user } = authContext;
-  const { unreadCount } = notificationContext;
+  const { unreadCount, addNotification } = notificationContext;
+  const { runDue } = recurringContext;
+  const { homeCurrency, convert } = currencyContext;
+  const { views, createView, deleteView } = savedViewContext;
+  const { templates, markUsed } = templateContext;
   const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [monthSummary, setMonthSummary] = useState<MonthSummary | null>(null);
+  const [search, setSearch] = useState<string>('');
+  const [searchSort, setSearchSort] = useState<'relevance' | 'filters'>('relevance');
+  const [filterSheetVisible, setFilterSheetVisible] = useState<boolean>(false);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [saveSheetVisible, setSaveSheetVisible] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // Multi-select mode while not empty
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [quickAddingId, setQuickAddingId] = useState<string | null>(null); // Template being added, blocks double taps
+  const selecting = selectedIds.length > 0;
+  const activeFilterCount = countActiveFilters(filters);
+  const activeView = views.find(view => view._id === activeViewId) || null;
+  const searchText = search.trim();
+  const listSummary = [
+    searchText ? `"${searchText}"` : '',
+    activeFilterCount > 0 ? `${activeFilterCount} ${activeFilterCount === 1 ? 'filter' : 'filters'} active` : '',
+    searchText && searchSort === 'relevance' ? 'Best match' : describeSort(filters)
+  ].filter(Boolean).join(' · ');
 
   useEffect(() => {
-    loadExpenses();
+    loadMonthSummary();
+    addDueRecurring();
   }, []);
 
+  // Search as the user types, once they pause (clearing the search or changing filters reloads right away)
+  // A selected saved view replaces the search and filters with its own
+  useEffect(() => {
+    setSelectedIds([]); // The selection belongs to the previous list
+    if (activeView) {
+      loadExpenses({ viewId: activeView._id, q: activeView.q, sort: activeView.sort, order: activeView.order });
+      return;
+    }
+
+    const text = search.trim();
+    const nextQuery: ExpenseQuery = text
+      ? { ...filters, q: text, sort: searchSort === 'relevance' ? 'relevance' : filters.sort }
+      : filters;
+    const timer = setTimeout(() => {
+      loadExpenses(nextQuery);
+    }, text ? 350 : 0);
+    return () => clearTimeout(timer);
+  }, [search, searchSort, filters, activeView]);
+
+  const handleApplyFilters = (nextFilters: ExpenseFilters): void => {
+    setFilterSheetVisible(false);
+    setFilters(nextFilters);
+  };
+
+  // Clearing keeps the chosen sort order
+  const handleClearFilters = (): void => {
+    setFilters({ sort: filters.sort, order: filters.order });
+  };
+
+  // Save the current search, filters and sort as a view and switch to its tab
+  const handleSaveView = async (name: string, dateRange: DateRangePreset): Promise<{ success: boolean; message?: string }> => {
+    const result = await createView({
+      name,
+      dateRange,
+      q: searchText || undefined,
+      categories: filters.categories,
+      paymentMethods: filters.paymentMethods,
+      minAmount: filters.minAmount,
+      maxAmount: filters.maxAmount,
+      sort: searchText && searchSort === 'relevance' ? 'relevance' : filters.sort,
+      order: filters.order
+    });
+    if (result.success && result.view) {
+      setSaveSheetVisible(false);
+      setSearch('');
+      setActiveViewId(result.view._id);
+    }
+    return result;
+  };
+
+  const handleDeleteView = (view: SavedView): void => {
+    Alert.alert(
+      'Delete View',
+      `Delete "${view.name}"? Its expenses are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteView(view._id);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to delete view');
+            } else if (view._id === activeViewId) {
+              setActiveViewId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Long-press starts selecting; while selecting, taps add or remove expenses
+  const toggleSelected = (id: string): void => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  // Apply a bulk operation to the selection - nothing changes if any expense can't take it
+  const handleBulkSubmit = async (request: Omit<BulkExpenseRequest, 'ids'>): Promise<{ success: boolean; message?: string }> => {
+    const result = await bulkUpdate({ ...request, ids: selectedIds });
+    if (result.success) {
+      setBulkAction(null);
+      setSelectedIds([]);
+      loadExpenses(); // Changed expenses may no longer match the search or filters
+      loadMonthSummary();
+      return result;
+    }
+
+    const reasons = [...new Set((result.results || []).filter(item => !item.success).map(item => item.message))];
+    return { success: false, message: [result.message, ...reasons].filter(Boolean).join('\n') };
+  };
+
+  const handleBulkDelete = (): void => {
+    Alert.alert(
+      'Delete Expenses',
+      `Move ${selectedIds.length} ${selectedIds.length === 1 ? 'expense' : 'expenses'} to the trash?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await handleBulkSubmit({ operation: 'delete' });
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to delete expenses');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Date range and sort of a saved view, e.g. "This quarter · Highest amount"
+  const describeView = (view: SavedView): string => {
+    const range = DATE_RANGES.find(option => option.value === view.dateRange)?.label || 'All time';
+    const sort = view.sort === 'relevance' ? 'Best match' : describeSort({ sort: view.sort, order: view.order });
+    return `${range} · ${sort}`;
+  };
+
+  // This month's income, spending and net cash flow (in the home currency)
+  const loadMonthSummary = async (): Promise<void> => {
+    const result = await getStats('insights');
+    if (result.success && result.data) {
+      setMonthSummary(result.data.currentMonth as MonthSummary);
+    }
+  };
+
+  // Add any recurring expenses that have come due since the last visit
+  const addDueRecurring = async (): Promise<void> => {
+    const result = await runDue();
+    if (!result.success || !result.expenses || result.expenses.length === 0) return;
+
+    (result.budgetWarnings || []).forEach(budgetWarning => {
+      addNotification({
+        type: budgetWarning.isOverBudget ? 'error' : 'warning',
+        title: budgetWarning.isOverBudget ? '⚠️ Budget Exceeded!' : '⚠️ Budget Warning',
+        message: budgetWarning.message,
+        budgetWarning
+      });
+    });
+    loadExpenses();
+    loadMonthSummary();
+  };
+
+  // Add a template as an expense right away - saved offline when there's no connection, like the add form
+  const handleQuickAdd = async (template: Template): Promise<void> => {
+    if (quickAddingId) return;
+    setQuickAddingId(template._id);
+
+    try {
+      const result = await addExpense({
+        amount: template.amount,
+        currency: template.currency,
+        category: template.category,
+        subcategory: template.subcategory,
+        paymentMethod: template.paymentMethod,
+        description: template.description,
+        tags: template.tags,
+        templateId: template._id,
+        date: new Date().toISOString()
+      });
+
+      if (result.success) {
+        markUsed(template._id);
+        if (result.budgetWarning) {
+          addNotification({
+            type: result.budgetWarning.isOverBudget ? 'error' : 'warning',
+            title: result.budgetWarning.isOverBudget ? '⚠️ Budget Exceeded!' : '⚠️ Budget Warning',
+            message: result.budgetWarning.message,
+            budgetWarning: result.budgetWarning
+          });
+        } else {
+          addNotification({
+            type: 'success',
+            title: '⚡ Quick Added',
+            message: result.offline
+              ? `${template.name} saved offline. Will sync when online.`
+              : `${template.name} · ${formatAmount(template.amount, template.currency)}`
+          });
+        }
+        loadMonthSummary();
+      } else {
+        Alert.alert('Error', result.message || 'Failed to add expense');
+      }
+    } finally {
+      setQuickAddingId(null);
+    }
+  };
+
   // Reload expenses when screen comes into focus (after adding new expense)
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
       // Small delay to ensure backend has processed any new expenses
       setTimeout(() => {
       loadExpenses();
+      loadMonthSummary();
       }, 100);
     });
     return unsubscribe;
@@ -62,7 +304,7 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
   const onRefresh = async (): Promise<void> => {
     setRefreshing(true);
-    await loadExpenses();
+    await Promise.all([loadExpenses(), loadMonthSummary()]);
     setRefreshing(false);
   };
 
@@ -70,6 +312,18 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     const result = await deleteExpense(id);
     if (result.success) {
       loadExpenses();
+      loadMonthSummary();
+    }
+  };
+
+  // Bring back the last deleted expenses (from here or the edit screen)
+  const handleUndo = async (): Promise<void> => {
+    const result = await undoDelete();
+    if (result.success) {
+      loadExpenses();
+      loadMonthSummary();
+    } else {
+      Alert.alert('Error', result.message || 'Failed to restore expenses');
     }
   };
 
@@ -82,39 +336,48 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     });
   };
 
-  const formatAmount = (amount: number): string => {
-    return `₹${amount.toFixed(2)}`;
+  // Expenses without a currency were recorded in the home currency
+  const formatAmount = (amount: number, currency: string = homeCurrency): string => {
+    return formatMoney(amount, currency);
   };
 
-  const getCategoryColor = (category: string): string => {
-    const colors: { [key: string]: string } = {
-      'Food': '#fef3c7',        // Yellow background for food
-      'Transport': '#dbeafe',   // Blue background for transport
-      'Shopping': '#e9d5ff',    // Purple background for shopping
-      'Entertainment': '#fed7aa', // Orange background for entertainment
-      'Bills': '#d1fae5',       // Green background for bills
-      'Health': '#cffafe',      // Cyan background for health
-      'Education': '#fef08a',   // Yellow background for education
-      'Other': '#f3f4f6'        // Gray background for other
-    };
-    return colors[category] || '#f3f4f6';
-  };
+  // Ask about one possible duplicate at a time (from adding an expense or syncing offline ones)
+  useEffect(() => {
+    const prompt = possibleDuplicates[0];
+    if (!prompt) return;
 
-  const getCategoryEmoji = (category: string): string => {
-    const emojis: { [key: string]: string } = {
-      'Food': '🍔',
-      'Transport': '🚕',
-      'Shopping': '🛒',
-      'Entertainment': '🎮',
-      'Bills': '⚡',
-      'Health': '💊',
-      'Education': '📖',
-      'Other': '📋'
+    const existing = prompt.possibleDuplicate.expense;
+    const match = prompt.possibleDuplicate.reason === 'sameDetails'
+      ? 'the same amount, category and payment method as'
+      : 'the same amount and a similar description as';
+    const summary = [
+      formatAmount(existing.amount, existing.currency),
+      existing.description || existing.category,
+      formatDate(existing.date)
+    ].join(' · ');
+
+    const answer = async (keep: boolean): Promise<void> => {
+      const result = await resolveDuplicate(prompt, keep);
+      if (!result.success) {
+        Alert.alert('Error', result.message || 'Failed to discard expense');
+      } else if (!keep) {
+        loadMonthSummary();
+      }
     };
-    return emojis[category] || '📋';
-  };
 
-  if (loading && expenses.length === 0) {
+    Alert.alert(
+      'Possible Duplicate',
+      `The expense you just added has ${match} one you already have:\n\n${summary}`,
+      [
+        { text: 'Discard New', style: 'destructive', onPress: () => answer(false) },
+        { text: 'Keep Both', onPress: () => answer(true) }
+      ],
+      { cancelable: false }
+    );
+  }, [possibleDuplicates[0]]);
+
+  // Keep the search bar and view tabs mounted while a search or view is loading
+  if (loading && expenses.length === 0 && !search && views.length === 0) {
     return (
       <View style={styles.centerContainer}>
         <ActivityIndicator size="large" color="#4CAF50" />
@@ -131,6 +394,20 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
             <Text style={styles.headerTitle}>{user?.name}!</Text>
           </View>
           <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={styles.notificationButton}
+              onPress={() => navigation.navigate('Recurring')}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.notificationIcon}>🔁</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.notificationButton}
+              onPress={() => navigation.navigate('Trash')}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.notificationIcon}>🗑️</Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.notificationButton}
               onPress={() => navigation.navigate('Notifications')}
@@ -152,17 +429,197 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
             </TouchableOpacity>
           </View>
         </View>
+
+        {monthSummary && (
+          <TouchableOpacity
+            style={styles.cashFlowRow}
+            onPress={() => navigation.navigate('Income')}
+            activeOpacity={0.8}
+          >
+            <View style={styles.cashFlowItem}>
+              <Text style={styles.cashFlowLabel}>Income</Text>
+              <Text style={styles.cashFlowValue}>{formatAmount(monthSummary.income)}</Text>
+            </View>
+            <View style={styles.cashFlowItem}>
+              <Text style={styles.cashFlowLabel}>Spent</Text>
+              <Text style={styles.cashFlowValue}>{formatAmount(monthSummary.total)}</Text>
+            </View>
+            <View style={styles.cashFlowItem}>
+              <Text style={styles.cashFlowLabel}>Net this month</Text>
+              <Text style={[styles.cashFlowValue, monthSummary.net < 0 && styles.cashFlowNegative]}>
+                {monthSummary.net < 0 ? '-' : '+'}{formatAmount(Math.abs(monthSummary.net))}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {!selecting && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.quickAddRow}
+            contentContainerStyle={styles.quickAddContent}
+          >
+            {templates.slice(0, QUICK_ADD_LIMIT).map(template => (
+              <TouchableOpacity
+                key={template._id}
+                style={[styles.quickAddChip, quickAddingId === template._id && styles.quickAddChipBusy]}
+                onPress={() => handleQuickAdd(template)}
+                disabled={quickAddingId !== null}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.quickAddName} numberOfLines={1}>{template.name}</Text>
+                <Text style={styles.quickAddAmount}>{formatAmount(template.amount, template.currency)}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.quickAddChip, styles.quickAddEdit]}
+              onPress={() => navigation.navigate('Templates')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.quickAddName}>{templates.length > 0 ? 'Edit' : '⚡ Quick add'}</Text>
+              <Text style={styles.quickAddAmount}>{templates.length > 0 ? 'Templates' : '+ Template'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
       </View>
 
       <View style={styles.content}>
+        {selecting ? (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{selectedIds.length} selected</Text>
+            <View style={styles.selectionActions}>
+              <TouchableOpacity onPress={() => setSelectedIds(expenses.map(exp => exp._id))} activeOpacity={0.7}>
+                <Text style={styles.selectionActionText}>Select all</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setSelectedIds([])} activeOpacity={0.7}>
+                <Text style={styles.selectionActionText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
         <View style={styles.sectionHeader}>
-      <Text style={styles.sectionTitle}>Recent Expenses</Text>
+      <Text style={styles.sectionTitle}>{activeView ? activeView.name : query.q ? 'Search Results' : 'Recent Expenses'}</Text>
           <View style={styles.expenseCount}>
-            <Text style={styles.expenseCountText}>{expenses.length}</Text>
+            <Text style={styles.expenseCountText}>{expenses.length}{hasMore ? '+' : ''}</Text>
+          </View>
+        </View>
+        )}
+
+        {views.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.viewTabs}
+            contentContainerStyle={styles.viewTabsContent}
+          >
+            {[null, ...views].map(view => {
+              const selected = (view?._id || null) === activeViewId;
+              return (
+                <TouchableOpacity
+                  key={view?._id || 'all'}
+                  style={[styles.viewTab, selected && styles.viewTabActive]}
+                  onPress={() => setActiveViewId(view?._id || null)}
+                  onLongPress={view ? () => handleDeleteView(view) : undefined}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.viewTabText, selected && styles.viewTabTextActive]}>
+                    {view ? view.name : 'All'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {activeView ? (
+          <View style={styles.activeFiltersRow}>
+            <Text style={styles.activeFiltersText}>{describeView(activeView)}</Text>
+            <TouchableOpacity onPress={() => handleDeleteView(activeView)} activeOpacity={0.7}>
+              <Text style={styles.activeFiltersClear}>Delete view</Text>
+            </TouchableOpacity>
           </View>
+        ) : (
+        <>
+        <View style={styles.searchBar}>
+          <Text style={styles.searchIcon}>🔍</Text>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search descriptions and notes"
+            placeholderTextColor="#94a3b8"
+            value={search}
+            onChangeText={setSearch}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {search.length > 0 && (
+            <TouchableOpacity onPress={() => setSearch('')} activeOpacity={0.7}>
+              <Text style={styles.searchClear}>✕</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setFilterSheetVisible(true)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.filterButtonText}>Filters</Text>
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
         </View>
 
-      {expenses.length === 0 ? (
+        {search.trim().length > 0 && (
+          <View style={styles.sortRow}>
+            {(['relevance', 'filters'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.sortChip, searchSort === option && styles.sortChipActive]}
+                onPress={() => setSearchSort(option)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.sortChipText, searchSort === option && styles.sortChipTextActive]}>
+                  {option === 'relevance' ? 'Best match' : describeSort(filters)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {(activeFilterCount > 0 || searchText.length > 0) && (
+          <View style={styles.activeFiltersRow}>
+            <Text style={styles.activeFiltersText}>{listSummary}</Text>
+            <View style={styles.activeFiltersActions}>
+              <TouchableOpacity onPress={() => setSaveSheetVisible(true)} activeOpacity={0.7}>
+                <Text style={styles.activeFiltersClear}>Save view</Text>
+              </TouchableOpacity>
+              {activeFilterCount > 0 && (
+                <TouchableOpacity onPress={handleClearFilters} activeOpacity={0.7}>
+                  <Text style={styles.activeFiltersClear}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+        </>
+        )}
+
+      {expenses.length === 0 && activeView ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Nothing in this view</Text>
+          <Text style={styles.emptySubtext}>No expenses match this view's filters yet.</Text>
+        </View>
+      ) : expenses.length === 0 && (query.q || activeFilterCount > 0) ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No matches</Text>
+          <Text style={styles.emptySubtext}>
+            {query.q ? `Nothing matches "${query.q}".` : 'No expenses match your filters.'} Try changing the search or filters.
+          </Text>
+        </View>
+      ) : expenses.length === 0 ? (
         <View style={styles.emptyContainer}>
             <View style={styles.emptyIcon}>
               <Text style={styles.emptyIconText}>📊</Text>
@@ -191,10 +648,16 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
           }
             showsVerticalScrollIndicator={false}
             contentContainerStyle={styles.listContainer}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={loadingMore ? (
+              <ActivityIndicator style={styles.listFooter} size="small" color="#6366f1" />
+            ) : null}
           renderItem={({ item }) => (
             <TouchableOpacity
-              style={styles.expenseCard}
-              onPress={() => navigation.navigate('EditExpense', { expense: item })}
+              style={[styles.expenseCard, selectedIds.includes(item._id) && styles.expenseCardSelected]}
+              onPress={() => selecting ? toggleSelected(item._id) : navigation.navigate('EditExpense', { expense: item })}
+              onLongPress={() => toggleSelected(item._id)}
                   activeOpacity={0.7}
             >
               <View style={styles.expenseHeader}>
@@ -203,23 +666,102 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
                         <Text style={styles.categoryIconText}>{getCategoryEmoji(item.category)}</Text>
                       </View>
                       <View>
-                <Text style={styles.expenseCategory}>{item.category}</Text>
-                        <Text style={styles.expenseMethod}>{item.paymentMethod}</Text>
+                <Text style={styles.expenseCategory}>
+                  {item.lineItems && item.lineItems.length > 1
+                    ? `${item.category} + ${item.lineItems.length - 1} more`
+                    : item.subcategory ? `${item.category} › ${item.subcategory}` : item.category}
+                </Text>
+                        <Text style={styles.expenseMethod}>
+                          {item.paymentMethod}
+                          {item.attachments && item.attachments.length > 0 ? `  📎 ${item.attachments.length}` : ''}
+                        </Text>
                       </View>
                     </View>
-                <Text style={styles.expenseAmount}>{formatAmount(item.amount)}</Text>
+                <View style={styles.amountColumn}>
+                  <Text style={styles.expenseAmount}>{formatAmount(item.amount, item.currency)}</Text>
+                  {item.currency && item.currency !== homeCurrency && (
+                    <Text style={styles.convertedAmount}>≈ {formatAmount(convert(item.amount, item.currency))}</Text>
+                  )}
+                </View>
               </View>
               {item.description && (
-                <Text style={styles.expenseDescription}>{item.description}</Text>
+                <HighlightedText style={styles.expenseDescription} text={item.description} query={query.q || ''} />
+              )}
+              {item.tags && item.tags.length > 0 && (
+                <View style={styles.tagRow}>
+                  {item.tags.map(tag => (
+                    <View key={tag} style={styles.tagChip}>
+                      <Text style={styles.tagText}>#{tag}</Text>
+                    </View>
+                  ))}
+                </View>
               )}
               <View style={styles.expenseFooter}>
                 <Text style={styles.expenseDate}>{formatDate(item.date)}</Text>
+                {selecting && (
+                  <View style={[styles.selectBox, selectedIds.includes(item._id) && styles.selectBoxChecked]}>
+                    {selectedIds.includes(item._id) && <Text style={styles.selectBoxText}>✓</Text>}
+                  </View>
+                )}
               </View>
             </TouchableOpacity>
           )}
         />
       )}
       </View>
+
+      {selecting && (
+        <View style={styles.bulkBar}>
+          {([
+            ['category', 'Category'],
+            ['paymentMethod', 'Payment'],
+            ['tags', 'Tags'],
+            ['dates', 'Dates']
+          ] as [BulkAction, string][]).map(([action, label]) => (
+            <TouchableOpacity
+              key={action}
+              style={styles.bulkButton}
+              onPress={() => setBulkAction(action)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.bulkButtonText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.bulkButton} onPress={handleBulkDelete} activeOpacity={0.7}>
+            <Text style={[styles.bulkButtonText, styles.bulkDeleteText]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ExpenseFilterSheet
+        visible={filterSheetVisible}
+        filters={filters}
+        categoryNames={activeCategories.map(cat => cat.name)}
+        onApply={handleApplyFilters}
+        onClose={() => setFilterSheetVisible(false)}
+      />
+
+      <SaveViewSheet
+        visible={saveSheetVisible}
+        summary={listSummary}
+        onSave={handleSaveView}
+        onClose={() => setSaveSheetVisible(false)}
+      />
+
+      <BulkActionSheet
+        action={bulkAction}
+        count={selectedIds.length}
+        categoryNames={activeCategories.map(cat => cat.name)}
+        getSubcategoryNames={(category) => getSubcategories(category).map(sub => sub.name)}
+        onSubmit={handleBulkSubmit}
+        onClose={() => setBulkAction(null)}
+      />
+
+      <UndoSnackbar
+        message={recentlyDeleted?.message || null}
+        onUndo={handleUndo}
+        onDismiss={dismissUndo}
+      />
     </View>
   );
 };
@@ -263,6 +805,64 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#ffffff',
   },
+  cashFlowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    padding: 14,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  cashFlowItem: {
+    flex: 1,
+  },
+  cashFlowLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  cashFlowValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  cashFlowNegative: {
+    color: '#fecaca',
+  },
+  quickAddRow: {
+    marginTop: 16,
+    marginHorizontal: -4,
+  },
+  quickAddContent: {
+    paddingHorizontal: 4,
+    gap: 8,
+  },
+  quickAddChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    maxWidth: 140,
+  },
+  quickAddChipBusy: {
+    opacity: 0.5,
+  },
+  quickAddEdit: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    backgroundColor: 'transparent',
+  },
+  quickAddName: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    fontWeight: '500',
+  },
+  quickAddAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   headerButtons: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -343,11 +943,188 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 16,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#1e293b',
+  },
+  searchClear: {
+    fontSize: 16,
+    color: '#94a3b8',
+    fontWeight: '600',
+    paddingLeft: 8,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 1,
+    borderLeftColor: '#e2e8f0',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  filterBadge: {
+    backgroundColor: '#6366f1',
+    borderRadius: 9,
+    minWidth: 18,
+    height: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 6,
+    paddingHorizontal: 4,
+  },
+  filterBadgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  activeFiltersRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  activeFiltersText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  activeFiltersClear: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  selectionActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  expenseCardSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  selectBox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#cbd5e1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectBoxChecked: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  selectBoxText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  bulkBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  bulkButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  bulkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4338ca',
+  },
+  bulkDeleteText: {
+    color: '#ef4444',
+  },
+  activeFiltersActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  viewTabs: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  viewTabsContent: {
+    gap: 8,
+  },
+  viewTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  viewTabActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  viewTabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  viewTabTextActive: {
+    color: '#ffffff',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e2e8f0',
+  },
+  sortChipActive: {
+    backgroundColor: '#6366f1',
+  },
+  sortChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  sortChipTextActive: {
+    color: '#ffffff',
+  },
   expenseCountText: {
     fontSize: 14,
     fontWeight: '600',
     color: '#475569',
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   listContainer: {
     paddingBottom: 20,
   },
@@ -440,17 +1217,42 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     marginBottom: 2,
   },
+  amountColumn: {
+    alignItems: 'flex-end',
+  },
   expenseAmount: {
     fontSize: 20,
     fontWeight: '800',
     color: '#1e293b',
   },
+  convertedAmount: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
   expenseDescription: {
     fontSize: 14,
     color: '#64748b',
     marginBottom: 12,
     lineHeight: 20,
   },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  tagChip: {
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#4338ca',
+    fontWeight: '600',
+  },
   expenseFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,462 @@
+// Income screen - record salary, freelance payments, refunds and other money coming in
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { IncomeContext, IncomeInput } from '../context/IncomeContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import { INCOME_SOURCES } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { Income, IncomeSource, RootStackParamList } from '../types';
+
+type IncomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Income'>;
+
+interface Props {
+  navigation: IncomeScreenNavigationProp;
+}
+
+const SOURCE_EMOJIS: Record<IncomeSource, string> = {
+  Salary: '💼',
+  Freelance: '🧑‍💻',
+  Business: '🏪',
+  Refund: '↩️',
+  Interest: '🏦',
+  Gift: '🎁',
+  Other: '💵'
+};
+
+const IncomeScreen: React.FC<Props> = ({ navigation }) => {
+  const incomeContext = useContext(IncomeContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!incomeContext) throw new Error('IncomeContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { incomes, loading, loadIncome, addIncome, updateIncome, deleteIncome } = incomeContext;
+  const { homeCurrency, availableCurrencies, convert } = currencyContext;
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<Income | null>(null);
+  const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(homeCurrency);
+  const [source, setSource] = useState<IncomeSource>('Salary');
+  const [description, setDescription] = useState<string>('');
+  const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadIncome();
+  }, []);
+
+  const formatAmount = (value: number, code?: string): string => {
+    return formatMoney(value, code || homeCurrency);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  // This month's income, converted to the home currency
+  const now = new Date();
+  const monthTotal = incomes
+    .filter(item => {
+      const itemDate = new Date(item.date);
+      return itemDate.getFullYear() === now.getFullYear() && itemDate.getMonth() === now.getMonth();
+    })
+    .reduce((sum, item) => sum + convert(item.amount, item.currency), 0);
+
+  const openForm = (item: Income | null): void => {
+    setEditing(item);
+    setAmount(item ? item.amount.toString() : '');
+    setCurrency(item?.currency || homeCurrency);
+    setSource(item ? item.source : 'Salary');
+    setDescription(item?.description || '');
+    setDate(item ? item.date.split('T')[0] : new Date().toISOString().split('T')[0]);
+    setFormVisible(true);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    const amountNum = parseFloat(amount);
+    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    const data: IncomeInput = {
+      amount: amountNum,
+      currency,
+      source,
+      description,
+      date
+    };
+
+    setSaving(true);
+    const result = editing
+      ? await updateIncome(editing._id, data)
+      : await addIncome(data);
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save income');
+    }
+  };
+
+  const handleDelete = (item: Income): void => {
+    Alert.alert(
+      'Delete Income',
+      'Are you sure you want to delete this income entry?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteIncome(item._id);
+            if (result.success) {
+              setFormVisible(false);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete income');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Income</Text>
+          <Text style={styles.subtitle}>Salary, freelance work, refunds and more</Text>
+        </View>
+
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>This Month</Text>
+          <Text style={styles.summaryAmount}>{formatAmount(monthTotal)}</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ Add Income</Text>
+        </TouchableOpacity>
+
+        {loading && incomes.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : incomes.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>💵</Text>
+            <Text style={styles.emptyText}>No income recorded yet</Text>
+          </View>
+        ) : (
+          incomes.map(item => (
+            <TouchableOpacity key={item._id} style={styles.card} onPress={() => openForm(item)} activeOpacity={0.7}>
+              <View style={styles.sourceIcon}>
+                <Text style={styles.sourceIconText}>{SOURCE_EMOJIS[item.source] || '💵'}</Text>
+              </View>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{item.description || item.source}</Text>
+                <Text style={styles.cardSubtitle}>{item.source} · {formatDate(item.date)}</Text>
+              </View>
+              <Text style={styles.cardAmount}>+{formatAmount(item.amount, item.currency)}</Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Income' : 'Add Income'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Amount ({currency}) *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                placeholderTextColor="#94a3b8"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+              />
+
+              {availableCurrencies.length > 1 && (
+                <CustomDropdown
+                  label="Currency"
+                  value={currency}
+                  options={availableCurrencies.includes(currency) ? availableCurrencies : [currency, ...availableCurrencies]}
+                  onSelect={setCurrency}
+                />
+              )}
+
+              <CustomDropdown
+                label="Source *"
+                value={source}
+                options={INCOME_SOURCES}
+                onSelect={(value) => setSource(value as IncomeSource)}
+                placeholder="Select a source"
+              />
+
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. March salary, Client invoice #12"
+                placeholderTextColor="#94a3b8"
+                value={description}
+                onChangeText={setDescription}
+              />
+
+              <Text style={styles.label}>Date</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#94a3b8"
+                value={date}
+                onChangeText={setDate}
+              />
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Add Income'}</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)} activeOpacity={0.7}>
+                  <Text style={styles.deleteText}>Delete Income</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  summaryCard: {
+    backgroundColor: '#dcfce7',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#15803d',
+    marginBottom: 4,
+  },
+  summaryAmount: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#166534',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  sourceIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#dcfce7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  sourceIconText: {
+    fontSize: 16,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardAmount: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#16a34a',
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+});
+
+export default IncomeScreen;
@@ -1,5 +1,5 @@
 // Insights screen - shows spending analysis and category breakdown
-import React, { useState, useContext, useEffect } from 'react';
+import React, { useState, useContext, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,23 +11,45 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
 import { BudgetContext } from '../context/BudgetContext';
-import { Insights, CategoryBreakdown, RootStackParamList } from '../types';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { SavedViewContext } from '../context/SavedViewContext';
+import { formatMoney } from '../utils/currency';
+import { Insights, CategoryBreakdown, MerchantBreakdown, PlaceBreakdown, RootStackParamList } from '../types';
 
 const InsightsScreen: React.FC = () => {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
   const budgetContext = useContext(BudgetContext);
+  const currencyContext = useContext(CurrencyContext);
+  const savedViewContext = useContext(SavedViewContext);
   
   if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
   if (!budgetContext) throw new Error('BudgetContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+  if (!savedViewContext) throw new Error('SavedViewContext not found');
   
   const { getStats } = expenseContext;
+  const { getCategoryEmoji } = categoryContext;
   const { currentBudget, refreshBudget } = budgetContext;
+  const { homeCurrency } = currencyContext;
+  const { views } = savedViewContext;
   const [insights, setInsights] = useState<Insights | null>(null);
-  const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown | null>(null);
+  const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown[] | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  const [viewMode, setViewMode] = useState<'insights' | 'categories'>('insights');
+  const [merchantBreakdown, setMerchantBreakdown] = useState<MerchantBreakdown[] | null>(null);
+  const [placeBreakdown, setPlaceBreakdown] = useState<PlaceBreakdown[] | null>(null);
+  const [viewMode, setViewMode] = useState<'insights' | 'categories' | 'merchants' | 'places'>('insights');
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const [categorySource, setCategorySource] = useState<string | null>(null); // Saved view id, or null for all expenses
+  const categorySourceRef = useRef<string | null>(null); // Same as `categorySource`, for the focus listener
+  const [merchantSort, setMerchantSort] = useState<'spend' | 'count'>('spend');
+  const merchantSortRef = useRef<'spend' | 'count'>('spend'); // Same as `merchantSort`, for the focus listener
+  const [excludeReimbursable, setExcludeReimbursable] = useState<boolean>(false); // Leave out spending that is paid back
+  const excludeReimbursableRef = useRef<boolean>(false); // Same as `excludeReimbursable`, for the focus listener
 
   // Load data on mount
   useEffect(() => {
@@ -52,22 +74,86 @@ const InsightsScreen: React.FC = () => {
     await refreshBudget();
     
     // Load insights (month comparison)
-    const insightsResult = await getStats('insights');
+    await loadInsights(excludeReimbursableRef.current);
+
+    // Load category breakdown
+    await loadCategoryBreakdown(categorySourceRef.current);
+
+    // Load top merchants
+    await loadMerchantBreakdown(merchantSortRef.current);
+
+    // Load spending by place
+    const placeResult = await getStats('places');
+    if (placeResult.success && placeResult.data) {
+      setPlaceBreakdown((placeResult.data as { breakdown: PlaceBreakdown[] }).breakdown);
+    }
+
+    setLoading(false);
+  };
+
+  const loadInsights = async (exclude: boolean): Promise<void> => {
+    const insightsResult = await getStats('insights', exclude ? { excludeReimbursable: 'true' } : {});
     if (insightsResult.success && insightsResult.data) {
       setInsights(insightsResult.data as Insights);
     }
+  };
 
-    // Load category breakdown
-    const categoryResult = await getStats('categories');
+  // Category breakdown of all expenses, or of the expenses a saved view matches
+  const loadCategoryBreakdown = async (viewId: string | null): Promise<void> => {
+    const params: Record<string, string> = {};
+    if (viewId) params.viewId = viewId;
+    if (excludeReimbursableRef.current) params.excludeReimbursable = 'true';
+
+    const categoryResult = await getStats('categories', params);
     if (categoryResult.success && categoryResult.data) {
-      setCategoryBreakdown(categoryResult.data as CategoryBreakdown);
+      setCategoryBreakdown((categoryResult.data as { breakdown: CategoryBreakdown[] }).breakdown);
+    } else if (viewId) {
+      // The view may have been deleted meanwhile
+      selectCategorySource(null);
     }
+  };
 
-    setLoading(false);
+  const selectCategorySource = (viewId: string | null): void => {
+    categorySourceRef.current = viewId;
+    setCategorySource(viewId);
+    setExpandedCategory(null);
+    loadCategoryBreakdown(viewId);
   };
 
+  // Trends and the category breakdown with or without reimbursable expenses
+  const toggleExcludeReimbursable = (): void => {
+    const exclude = !excludeReimbursableRef.current;
+    excludeReimbursableRef.current = exclude;
+    setExcludeReimbursable(exclude);
+    loadInsights(exclude);
+    loadCategoryBreakdown(categorySourceRef.current);
+  };
+
+  // Top merchants by spend or by number of expenses
+  const loadMerchantBreakdown = async (sort: 'spend' | 'count'): Promise<void> => {
+    const merchantResult = await getStats('merchants', { sort });
+    if (merchantResult.success && merchantResult.data) {
+      setMerchantBreakdown((merchantResult.data as { breakdown: MerchantBreakdown[] }).breakdown);
+    }
+  };
+
+  const selectMerchantSort = (sort: 'spend' | 'count'): void => {
+    merchantSortRef.current = sort;
+    setMerchantSort(sort);
+    loadMerchantBreakdown(sort);
+  };
+
+  // Place label, or its position for unlabelled places
+  const describePlace = (item: PlaceBreakdown): string => {
+    if (item.label) return item.label;
+    if (!item.location) return 'Unknown place';
+    const [longitude, latitude] = item.location.coordinates;
+    return `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+  };
+
+  // Stats come back converted to the home currency
   const formatAmount = (amount: number): string => {
-    return `₹${amount.toFixed(2)}`;
+    return formatMoney(amount, homeCurrency);
   };
 
   const formatPercentage = (value: number): string => {
@@ -75,20 +161,20 @@ const InsightsScreen: React.FC = () => {
     return `${sign}${value.toFixed(1)}%`;
   };
 
-  const getCategoryEmoji = (category: string): string => {
-    const emojis: { [key: string]: string } = {
-      'Food': '🍽️',
-      'Transport': '🚗',
-      'Shopping': '🛍️',
-      'Entertainment': '🎬',
-      'Bills': '💡',
-      'Health': '🏥',
-      'Education': '📚',
-      'Other': '📦'
-    };
-    return emojis[category] || '📦';
+  const formatNet = (value: number): string => {
+    return `${value < 0 ? '-' : '+'}${formatAmount(Math.abs(value))}`;
+  };
+
+  const formatMonth = (year: number, month: number): string => {
+    return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'short' });
   };
 
+  // Bars in the cash flow chart are scaled to the largest income or spending total
+  const cashFlowMax = Math.max(
+    1,
+    ...(insights?.cashFlow || []).map(item => Math.max(item.income, item.expenses))
+  );
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -101,7 +187,7 @@ const InsightsScreen: React.FC = () => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Insights</Text>
-        <Text style={styles.headerSubtitle}>Analyze your spending patterns</Text>
+        <Text style={styles.headerSubtitle}>Analyze your cash flow and spending patterns</Text>
       </View>
 
       <View style={styles.tabContainer}>
@@ -129,6 +215,30 @@ const InsightsScreen: React.FC = () => {
           </Text>
           </View>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, viewMode === 'merchants' && styles.activeTab]}
+          onPress={() => setViewMode('merchants')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.tabContent}>
+          <Text style={[styles.tabIcon, viewMode === 'merchants' && styles.activeTabIcon]}>🏪</Text>
+          <Text style={[styles.tabText, viewMode === 'merchants' && styles.activeTabText]}>
+            Merchants
+          </Text>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, viewMode === 'places' && styles.activeTab]}
+          onPress={() => setViewMode('places')}
+          activeOpacity={0.8}
+        >
+          <View style={styles.tabContent}>
+          <Text style={[styles.tabIcon, viewMode === 'places' && styles.activeTabIcon]}>📍</Text>
+          <Text style={[styles.tabText, viewMode === 'places' && styles.activeTabText]}>
+            Places
+          </Text>
+          </View>
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -185,8 +295,8 @@ const InsightsScreen: React.FC = () => {
                     currentBudget.remaining < 0 && styles.overBudgetAmount
                   ]}>
                     {currentBudget.remaining >= 0 
-                      ? `₹${currentBudget.remaining.toFixed(2)} remaining`
-                      : `₹${Math.abs(currentBudget.remaining).toFixed(2)} over budget`
+                      ? `${formatAmount(currentBudget.remaining)} remaining`
+                      : `${formatAmount(Math.abs(currentBudget.remaining))} over budget`
                     }
                   </Text>
                   {currentBudget.isOverBudget && (
@@ -208,6 +318,86 @@ const InsightsScreen: React.FC = () => {
           </View>
         )}
 
+      {(viewMode === 'insights' || viewMode === 'categories') && (
+        <View style={styles.reimbursableRow}>
+          <TouchableOpacity
+            style={[styles.sourceChip, excludeReimbursable && styles.sourceChipActive]}
+            onPress={toggleExcludeReimbursable}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.sourceChipText, excludeReimbursable && styles.sourceChipTextActive]}>
+              Leave out reimbursable
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => navigation.navigate('Claims')} activeOpacity={0.7}>
+            <Text style={styles.reimbursableLink}>Reimbursements</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {viewMode === 'insights' && insights && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cash Flow</Text>
+
+            <View style={styles.metricsGrid}>
+              <View style={styles.metricCard}>
+                <View style={[styles.metricIcon, { backgroundColor: '#dcfce7' }]}>
+                  <Text style={styles.metricIconText}>💵</Text>
+                </View>
+                <Text style={styles.metricLabel}>Income</Text>
+                <Text style={styles.metricValue}>
+                  {formatAmount(insights.currentMonth.income)}
+                </Text>
+                <Text style={styles.metricSubtext}>This month</Text>
+              </View>
+
+              <View style={styles.metricCard}>
+                <View style={[styles.metricIcon, { backgroundColor: insights.currentMonth.net >= 0 ? '#dcfce7' : '#fee2e2' }]}>
+                  <Text style={styles.metricIconText}>{insights.currentMonth.net >= 0 ? '🐷' : '⚠️'}</Text>
+                </View>
+                <Text style={styles.metricLabel}>Net Savings</Text>
+                <Text style={[
+                  styles.metricValue,
+                  { color: insights.currentMonth.net >= 0 ? '#16a34a' : '#dc2626' }
+                ]}>
+                  {formatNet(insights.currentMonth.net)}
+                </Text>
+                <Text style={styles.metricSubtext}>
+                  {insights.currentMonth.savingsRate === null
+                    ? 'No income yet'
+                    : `${insights.currentMonth.savingsRate.toFixed(1)}% savings rate`}
+                </Text>
+              </View>
+            </View>
+
+            {insights.cashFlow && insights.cashFlow.length > 0 && (
+              <View style={styles.cashFlowCard}>
+                <View style={styles.cashFlowLegend}>
+                  <View style={[styles.legendDot, styles.incomeBar]} />
+                  <Text style={styles.legendText}>Income</Text>
+                  <View style={[styles.legendDot, styles.expenseBar]} />
+                  <Text style={styles.legendText}>Spending</Text>
+                </View>
+                {insights.cashFlow.map(item => (
+                  <View key={`${item.year}-${item.month}`} style={styles.cashFlowRow}>
+                    <Text style={styles.cashFlowMonth}>{formatMonth(item.year, item.month)}</Text>
+                    <View style={styles.cashFlowBars}>
+                      <View style={[styles.cashFlowBar, styles.incomeBar, { width: `${(item.income / cashFlowMax) * 100}%` }]} />
+                      <View style={[styles.cashFlowBar, styles.expenseBar, { width: `${(item.expenses / cashFlowMax) * 100}%` }]} />
+                    </View>
+                    <Text style={[styles.cashFlowNet, { color: item.net >= 0 ? '#16a34a' : '#dc2626' }]}>
+                      {formatNet(item.net)}
+                    </Text>
+                  </View>
+                ))}
+                <TouchableOpacity onPress={() => navigation.navigate('Income')} activeOpacity={0.7}>
+                  <Text style={styles.cashFlowLink}>Manage income</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+        </View>
+      )}
+
       {viewMode === 'insights' && insights && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Monthly Comparison</Text>
@@ -265,7 +455,7 @@ const InsightsScreen: React.FC = () => {
                 <View key={index} style={styles.categoryCard}>
                   <View style={styles.categoryHeader}>
                       <View style={styles.categoryInfo}>
-                        <Text style={styles.categoryEmoji}>{getCategoryEmoji(item.category)}</Text>
+                        <Text style={styles.categoryEmoji}>{item.emoji || getCategoryEmoji(item.category)}</Text>
                     <Text style={styles.categoryName}>{item.category}</Text>
                       </View>
                       <View style={[
@@ -301,13 +491,51 @@ const InsightsScreen: React.FC = () => {
       {viewMode === 'categories' && categoryBreakdown && (
         <View style={styles.section}>
             <Text style={styles.sectionTitle}>Spending by Category</Text>
-          {categoryBreakdown.breakdown && categoryBreakdown.breakdown.length > 0 ? (
-            categoryBreakdown.breakdown.map((item, index) => (
-              <View key={index} style={styles.categoryCard}>
+          {views.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.sourceRow}
+              contentContainerStyle={styles.sourceRowContent}
+            >
+              {[null, ...views].map(view => {
+                const selected = (view?._id || null) === categorySource;
+                return (
+                  <TouchableOpacity
+                    key={view?._id || 'all'}
+                    style={[styles.sourceChip, selected && styles.sourceChipActive]}
+                    onPress={() => selectCategorySource(view?._id || null)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.sourceChipText, selected && styles.sourceChipTextActive]}>
+                      {view ? view.name : 'All expenses'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+          {categoryBreakdown.length > 0 ? (
+            categoryBreakdown.map((item, index) => {
+              // Only categories with named subcategories can be drilled into
+              const hasSubcategories = !!item.subcategories?.some(sub => sub.subcategory);
+              const isExpanded = hasSubcategories && expandedCategory === item.category;
+
+              return (
+              <TouchableOpacity
+                key={index}
+                style={styles.categoryCard}
+                onPress={() => setExpandedCategory(isExpanded ? null : item.category)}
+                disabled={!hasSubcategories}
+                activeOpacity={0.7}
+              >
                 <View style={styles.categoryHeader}>
                     <View style={styles.categoryInfo}>
-                      <Text style={styles.categoryEmoji}>{getCategoryEmoji(item.category)}</Text>
+                      <Text style={styles.categoryEmoji}>{item.emoji || getCategoryEmoji(item.category)}</Text>
                   <Text style={styles.categoryName}>{item.category}</Text>
+                      {hasSubcategories && (
+                        <Text style={styles.expandIcon}>{isExpanded ? '▾' : '▸'}</Text>
+                      )}
                     </View>
                   <Text style={styles.categoryAmount}>
                     {formatAmount(item.total)}
@@ -321,14 +549,109 @@ const InsightsScreen: React.FC = () => {
                       Avg: {formatAmount(item.total / item.count)}
                     </Text>
                   </View>
-              </View>
-            ))
+
+                  {isExpanded && item.subcategories && (
+                    <View style={styles.subcategoryList}>
+                      {item.subcategories.map((sub, subIndex) => (
+                        <View key={subIndex} style={styles.subcategoryRow}>
+                          <Text style={styles.subcategoryName}>{sub.subcategory || 'General'}</Text>
+                          <Text style={styles.subcategoryCount}>
+                            {sub.count} {sub.count === 1 ? 'expense' : 'expenses'}
+                          </Text>
+                          <Text style={styles.subcategoryAmount}>{formatAmount(sub.total)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+              </TouchableOpacity>
+              );
+            })
           ) : (
               <View style={styles.emptyContainer}>
                 <Text style={styles.emptyIcon}>📊</Text>
             <Text style={styles.emptyText}>No category data available</Text>
-                <Text style={styles.emptySubtext}>Add some expenses to see insights</Text>
+                <Text style={styles.emptySubtext}>
+                  {categorySource ? 'No expenses match this view' : 'Add some expenses to see insights'}
+                </Text>
+              </View>
+          )}
+        </View>
+      )}
+
+      {viewMode === 'merchants' && merchantBreakdown && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Top Merchants</Text>
+          <View style={styles.sortRow}>
+            {(['spend', 'count'] as const).map(sort => (
+              <TouchableOpacity
+                key={sort}
+                style={[styles.sourceChip, merchantSort === sort && styles.sourceChipActive]}
+                onPress={() => selectMerchantSort(sort)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.sourceChipText, merchantSort === sort && styles.sourceChipTextActive]}>
+                  {sort === 'spend' ? 'By spend' : 'By frequency'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {merchantBreakdown.length > 0 ? (
+            merchantBreakdown.map(item => (
+              <View key={item.merchantId} style={styles.categoryCard}>
+                <View style={styles.categoryHeader}>
+                  <View style={styles.categoryInfo}>
+                    <Text style={styles.categoryName}>{item.name}</Text>
+                  </View>
+                  <Text style={styles.categoryAmount}>{formatAmount(item.total)}</Text>
+                </View>
+                <View style={styles.categoryStats}>
+                  <Text style={styles.categoryCount}>
+                    {item.count} {item.count === 1 ? 'expense' : 'expenses'}
+                  </Text>
+                  <Text style={styles.categoryAverage}>Avg: {formatAmount(item.average)}</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyIcon}>🏪</Text>
+              <Text style={styles.emptyText}>No merchant data available</Text>
+              <Text style={styles.emptySubtext}>Name a merchant when adding expenses to see where you spend</Text>
+            </View>
+          )}
+          <TouchableOpacity onPress={() => navigation.navigate('Merchants')} activeOpacity={0.7}>
+            <Text style={styles.cashFlowLink}>Manage merchants</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {viewMode === 'places' && placeBreakdown && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Spending by Place</Text>
+          {placeBreakdown.length > 0 ? (
+            placeBreakdown.map((item, index) => (
+              <View key={index} style={styles.categoryCard}>
+                <View style={styles.categoryHeader}>
+                  <View style={[styles.categoryInfo, styles.placeInfo]}>
+                    <Text style={styles.categoryEmoji}>📍</Text>
+                    <Text style={[styles.categoryName, styles.placeName]} numberOfLines={1}>{describePlace(item)}</Text>
+                  </View>
+                  <Text style={styles.categoryAmount}>{formatAmount(item.total)}</Text>
+                </View>
+                <View style={styles.categoryStats}>
+                  <Text style={styles.categoryCount}>
+                    {item.count} {item.count === 1 ? 'expense' : 'expenses'}
+                  </Text>
+                  <Text style={styles.categoryAverage}>Avg: {formatAmount(item.average)}</Text>
+                </View>
               </View>
+            ))
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyIcon}>📍</Text>
+              <Text style={styles.emptyText}>No place data available</Text>
+              <Text style={styles.emptySubtext}>Add a location or place when adding expenses to see where you spend</Text>
+            </View>
           )}
         </View>
       )}
@@ -387,12 +710,11 @@ const styles = StyleSheet.create({
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    paddingVertical: 12,
-    paddingHorizontal: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
     borderRadius: 12,
   },
   tabContent: {
-    flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
   },
@@ -406,13 +728,13 @@ const styles = StyleSheet.create({
   },
   tabIcon: {
     fontSize: 16,
-    marginRight: 6,
+    marginBottom: 2,
   },
   activeTabIcon: {
     color: '#ffffff',
   },
   tabText: {
-    fontSize: 14,
+    fontSize: 12,
     fontWeight: '600',
     color: '#64748b',
   },
@@ -539,6 +861,49 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     marginBottom: 16,
   },
+  sourceRow: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  sourceRowContent: {
+    gap: 8,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  reimbursableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  reimbursableLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  sourceChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  sourceChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  sourceChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  sourceChipTextActive: {
+    color: '#ffffff',
+  },
   metricsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -592,6 +957,74 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     fontWeight: '500',
   },
+  cashFlowCard: {
+    backgroundColor: '#ffffff',
+    padding: 20,
+    borderRadius: 16,
+    marginTop: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cashFlowLegend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#64748b',
+    fontWeight: '500',
+    marginRight: 16,
+  },
+  cashFlowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  cashFlowMonth: {
+    width: 36,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  cashFlowBars: {
+    flex: 1,
+    gap: 3,
+    marginRight: 8,
+  },
+  cashFlowBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  incomeBar: {
+    backgroundColor: '#10b981',
+  },
+  expenseBar: {
+    backgroundColor: '#f87171',
+  },
+  cashFlowNet: {
+    width: 96,
+    fontSize: 13,
+    fontWeight: '700',
+    textAlign: 'right',
+  },
+  cashFlowLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginTop: 6,
+  },
   categoryCard: {
     backgroundColor: '#ffffff',
     padding: 20,
@@ -615,6 +1048,13 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  placeInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  placeName: {
+    flexShrink: 1,
+  },
   categoryEmoji: {
     fontSize: 20,
     marginRight: 12,
@@ -678,6 +1118,38 @@ const styles = StyleSheet.create({
     color: '#6366f1',
     fontWeight: '600',
   },
+  expandIcon: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginLeft: 8,
+  },
+  subcategoryList: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  subcategoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  subcategoryName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  subcategoryCount: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginRight: 12,
+  },
+  subcategoryAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
   emptyContainer: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -0,0 +1,474 @@
+// Merchants screen - rename payees, group their spellings as aliases and set the defaults the add form fills in
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MerchantContext, MerchantInput } from '../context/MerchantContext';
+import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import { PAYMENT_METHODS } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { Merchant, MerchantBreakdown, PaymentMethod, RootStackParamList } from '../types';
+
+type MerchantsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Merchants'>;
+
+interface Props {
+  navigation: MerchantsScreenNavigationProp;
+}
+
+const NONE = 'None';
+
+const MerchantsScreen: React.FC<Props> = ({ navigation }) => {
+  const merchantContext = useContext(MerchantContext);
+  const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!merchantContext) throw new Error('MerchantContext not found');
+  if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { merchants, loading, loadMerchants, createMerchant, updateMerchant, mergeMerchant, deleteMerchant } = merchantContext;
+  const { getStats } = expenseContext;
+  const { activeCategories, getSubcategories } = categoryContext;
+  const { homeCurrency } = currencyContext;
+  const categoryNames = activeCategories.map(cat => cat.name);
+  const [stats, setStats] = useState<Record<string, MerchantBreakdown>>({});
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<Merchant | null>(null);
+  const [name, setName] = useState<string>('');
+  const [aliases, setAliases] = useState<string>('');
+  const [defaultCategory, setDefaultCategory] = useState<string>('');
+  const [defaultSubcategory, setDefaultSubcategory] = useState<string>('');
+  const [defaultPaymentMethod, setDefaultPaymentMethod] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadMerchants();
+    loadStats();
+  }, []);
+
+  // All-time spend and expense count per merchant
+  const loadStats = async (): Promise<void> => {
+    const result = await getStats('merchants', { limit: Math.max(merchants.length, 1) });
+    if (result.success && result.data) {
+      const breakdown = (result.data as { breakdown: MerchantBreakdown[] }).breakdown;
+      setStats(Object.fromEntries(breakdown.map(item => [item.merchantId, item])));
+    }
+  };
+
+  const subcategoryNames = defaultCategory ? getSubcategories(defaultCategory).map(cat => cat.name) : [];
+  const mergeTargets = editing ? merchants.filter(merchant => merchant._id !== editing._id) : [];
+
+  const openForm = (item: Merchant | null): void => {
+    setEditing(item);
+    setName(item?.name || '');
+    setAliases(item ? item.aliases.join(', ') : '');
+    setDefaultCategory(item?.defaultCategory || '');
+    setDefaultSubcategory(item?.defaultSubcategory || '');
+    setDefaultPaymentMethod(item?.defaultPaymentMethod || '');
+    setFormVisible(true);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+
+    const data: MerchantInput = {
+      name: name.trim(),
+      aliases: aliases.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0),
+      defaultCategory: defaultCategory || null,
+      defaultSubcategory: defaultSubcategory || null,
+      defaultPaymentMethod: (defaultPaymentMethod as PaymentMethod) || null
+    };
+
+    setSaving(true);
+    const result = editing
+      ? await updateMerchant(editing._id, data)
+      : await createMerchant({ ...data, name: name.trim() });
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save merchant');
+    }
+  };
+
+  const handleMerge = (item: Merchant, targetName: string): void => {
+    const target = mergeTargets.find(merchant => merchant.name === targetName);
+    if (!target) return;
+
+    Alert.alert(
+      'Merge Merchant',
+      `Move ${item.name}'s expenses to ${target.name}? "${item.name}" becomes one of its aliases.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            const result = await mergeMerchant(item._id, target._id);
+            if (result.success) {
+              setFormVisible(false);
+              loadStats();
+            } else {
+              Alert.alert('Error', result.message || 'Failed to merge merchant');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDelete = (item: Merchant): void => {
+    Alert.alert(
+      'Delete Merchant',
+      'Its expenses are kept, without a merchant.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteMerchant(item._id);
+            if (result.success) {
+              setFormVisible(false);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete merchant');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Merchants</Text>
+          <Text style={styles.subtitle}>Group spellings like "SWIGGY*BLR" under one name</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ Add Merchant</Text>
+        </TouchableOpacity>
+
+        {loading && merchants.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : merchants.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🏪</Text>
+            <Text style={styles.emptyText}>No merchants yet</Text>
+            <Text style={styles.emptySubtext}>They are added as you name them on expenses</Text>
+          </View>
+        ) : (
+          merchants.map(item => (
+            <TouchableOpacity key={item._id} style={styles.card} onPress={() => openForm(item)} activeOpacity={0.7}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <Text style={styles.cardSubtitle} numberOfLines={1}>
+                  {[item.defaultCategory, item.defaultPaymentMethod].filter(Boolean).join(' · ') || 'No defaults'}
+                  {item.aliases.length > 0 ? ` · aka ${item.aliases.join(', ')}` : ''}
+                </Text>
+              </View>
+              {stats[item._id] && (
+                <View style={styles.cardStats}>
+                  <Text style={styles.cardAmount}>{formatMoney(stats[item._id].total, homeCurrency)}</Text>
+                  <Text style={styles.cardSubtitle}>
+                    {stats[item._id].count} {stats[item._id].count === 1 ? 'expense' : 'expenses'}
+                  </Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Merchant' : 'Add Merchant'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Swiggy"
+                placeholderTextColor="#94a3b8"
+                value={name}
+                onChangeText={setName}
+              />
+
+              <Text style={styles.label}>Aliases</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. swiggy order, swiggy instamart"
+                placeholderTextColor="#94a3b8"
+                value={aliases}
+                onChangeText={setAliases}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <CustomDropdown
+                label="Default Category"
+                value={defaultCategory || NONE}
+                options={[NONE, ...categoryNames]}
+                onSelect={(value) => {
+                  setDefaultCategory(value === NONE ? '' : value);
+                  setDefaultSubcategory('');
+                }}
+              />
+
+              {subcategoryNames.length > 0 && (
+                <CustomDropdown
+                  label="Default Subcategory"
+                  value={defaultSubcategory || NONE}
+                  options={[NONE, ...subcategoryNames]}
+                  onSelect={(value) => setDefaultSubcategory(value === NONE ? '' : value)}
+                />
+              )}
+
+              <CustomDropdown
+                label="Default Payment Method"
+                value={defaultPaymentMethod || NONE}
+                options={[NONE, ...PAYMENT_METHODS]}
+                onSelect={(value) => setDefaultPaymentMethod(value === NONE ? '' : value)}
+              />
+
+              {editing && mergeTargets.length > 0 && (
+                <CustomDropdown
+                  label="Merge Into"
+                  value=""
+                  options={mergeTargets.map(merchant => merchant.name)}
+                  onSelect={(value) => handleMerge(editing, value)}
+                  placeholder="Pick a merchant"
+                />
+              )}
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Add Merchant'}</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)} activeOpacity={0.7}>
+                  <Text style={styles.deleteText}>Delete Merchant</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardStats: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+});
+
+export default MerchantsScreen;
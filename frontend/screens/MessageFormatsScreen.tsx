@@ -0,0 +1,535 @@
+// Message formats screen - the bank and UPI SMS templates pasted messages are read with
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal,
+  Switch
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MessageFormatContext, MessageFormatInput } from '../context/MessageFormatContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import { PAYMENT_METHODS } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { MessageFormat, ParsedMessage, PaymentMethod, RootStackParamList } from '../types';
+
+type MessageFormatsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MessageFormats'>;
+
+interface Props {
+  navigation: MessageFormatsScreenNavigationProp;
+}
+
+const GUESS = 'Guess from the message';
+const PATTERN_EXAMPLE = 'debited by {amount} on date {date} trf to {payee} Ref';
+
+const MessageFormatsScreen: React.FC<Props> = ({ navigation }) => {
+  const messageFormatContext = useContext(MessageFormatContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!messageFormatContext) throw new Error('MessageFormatContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { formats, builtIn, loading, loadFormats, createFormat, updateFormat, deleteFormat, testFormat } = messageFormatContext;
+  const { homeCurrency } = currencyContext;
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<MessageFormat | null>(null);
+  const [name, setName] = useState<string>('');
+  const [pattern, setPattern] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<string>('');
+  const [sample, setSample] = useState<string>('');
+  const [testResult, setTestResult] = useState<ParsedMessage | null | undefined>(undefined); // null when it didn't match
+  const [testing, setTesting] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadFormats();
+  }, []);
+
+  const openForm = (item: MessageFormat | null): void => {
+    setEditing(item);
+    setName(item?.name || '');
+    setPattern(item?.pattern || '');
+    setPaymentMethod(item?.paymentMethod || '');
+    setSample('');
+    setTestResult(undefined);
+    setFormVisible(true);
+  };
+
+  const getFormData = (): MessageFormatInput & { pattern: string } => ({
+    name: name.trim(),
+    pattern: pattern.trim(),
+    paymentMethod: (paymentMethod as PaymentMethod) || null
+  });
+
+  const handleTest = async (): Promise<void> => {
+    if (!pattern.trim() || !sample.trim()) {
+      Alert.alert('Error', 'Enter a pattern and paste a sample message to try it on');
+      return;
+    }
+
+    setTesting(true);
+    const result = await testFormat(getFormData(), sample);
+    setTesting(false);
+
+    if (result.success) {
+      setTestResult(result.parsed || null);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to test format');
+    }
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!name.trim() || !pattern.trim()) {
+      Alert.alert('Error', 'Please enter a name and a pattern');
+      return;
+    }
+
+    setSaving(true);
+    const data = { ...getFormData(), name: name.trim() };
+    const result = editing
+      ? await updateFormat(editing._id, data)
+      : await createFormat(data);
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save format');
+    }
+  };
+
+  const handleToggle = async (item: MessageFormat, enabled: boolean): Promise<void> => {
+    const result = await updateFormat(item._id, { enabled });
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to update format');
+    }
+  };
+
+  const handleDelete = (item: MessageFormat): void => {
+    Alert.alert(
+      'Delete Format',
+      `Pasted messages will be read without "${item.name}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteFormat(item._id);
+            if (result.success) {
+              setFormVisible(false);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete format');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // What the test read, one line per field it found
+  const testLines = testResult ? [
+    `Amount: ${formatMoney(testResult.amount, testResult.currency || homeCurrency)}`,
+    testResult.payee ? `Paid to: ${testResult.payee}` : '',
+    testResult.account ? `Account: ${testResult.account}` : '',
+    testResult.date ? `Date: ${testResult.date}` : '',
+    testResult.paymentMethod ? `Payment: ${testResult.paymentMethod}` : '',
+    testResult.type === 'credit' ? 'Money received - not read as an expense' : ''
+  ].filter(Boolean) : [];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Message Formats</Text>
+          <Text style={styles.subtitle}>Teach the app to read your bank's payment SMS</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ Add Format</Text>
+        </TouchableOpacity>
+
+        {loading && formats.length === 0 && builtIn.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Your Formats</Text>
+            {formats.length === 0 ? (
+              <Text style={styles.hint}>None yet - add one when a pasted message from your bank isn't read right.</Text>
+            ) : (
+              <>
+                <Text style={styles.hint}>Tried top to bottom before the built-in formats.</Text>
+                {formats.map(item => (
+                  <TouchableOpacity
+                    key={item._id}
+                    style={[styles.card, !item.enabled && styles.cardDisabled]}
+                    onPress={() => openForm(item)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.cardInfo}>
+                      <Text style={styles.cardTitle}>{item.name}</Text>
+                      <Text style={styles.cardPattern} numberOfLines={2}>{item.pattern}</Text>
+                      {item.paymentMethod ? <Text style={styles.cardSubtitle}>{item.paymentMethod}</Text> : null}
+                    </View>
+                    <Switch
+                      value={item.enabled}
+                      onValueChange={(value) => handleToggle(item, value)}
+                      trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                      thumbColor={item.enabled ? '#6366f1' : '#f8fafc'}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>Built In</Text>
+            {builtIn.map(item => (
+              <View key={item.name} style={styles.card}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{item.name}</Text>
+                  <Text style={styles.cardSubtitle}>{item.example}</Text>
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Format' : 'Add Format'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Canara Bank UPI"
+                placeholderTextColor="#94a3b8"
+                value={name}
+                onChangeText={setName}
+                maxLength={40}
+              />
+
+              <Text style={styles.label}>Pattern</Text>
+              <TextInput
+                style={[styles.input, styles.patternInput]}
+                placeholder={PATTERN_EXAMPLE}
+                placeholderTextColor="#94a3b8"
+                value={pattern}
+                onChangeText={setPattern}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+                maxLength={300}
+              />
+              <Text style={styles.patternHint}>
+                {"Copy a message and put {amount} where the amount is, and optionally {payee}, {account}, {date} and {reference}. {*} skips text that changes. Case doesn't matter."}
+              </Text>
+
+              <CustomDropdown
+                label="Payment Method"
+                value={paymentMethod || GUESS}
+                options={[GUESS, ...PAYMENT_METHODS]}
+                onSelect={(value) => setPaymentMethod(value === GUESS ? '' : value)}
+              />
+
+              <Text style={styles.label}>Sample Message</Text>
+              <TextInput
+                style={[styles.input, styles.messageInput]}
+                placeholder="Paste a message from your bank"
+                placeholderTextColor="#94a3b8"
+                value={sample}
+                onChangeText={(text) => {
+                  setSample(text);
+                  setTestResult(undefined);
+                }}
+                multiline
+              />
+
+              <TouchableOpacity
+                style={[styles.secondaryButton, testing && styles.buttonDisabled]}
+                onPress={handleTest}
+                disabled={testing}
+                activeOpacity={0.8}
+              >
+                {testing ? (
+                  <ActivityIndicator color="#6366f1" size="small" />
+                ) : (
+                  <Text style={styles.secondaryButtonText}>Try on Sample</Text>
+                )}
+              </TouchableOpacity>
+
+              {testResult !== undefined && (
+                <View style={styles.testResult}>
+                  <Text style={styles.testSummary}>
+                    {testResult ? 'Reads this message' : "Doesn't match this message"}
+                  </Text>
+                  {testLines.map(line => (
+                    <Text key={line} style={styles.testLine}>{line}</Text>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Add Format'}</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)} activeOpacity={0.7}>
+                  <Text style={styles.deleteText}>Delete Format</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    backgroundColor: '#e0e7ff',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    color: '#4338ca',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardDisabled: {
+    opacity: 0.6,
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardPattern: {
+    fontSize: 12,
+    color: '#4338ca',
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  testResult: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  testSummary: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  testLine: {
+    fontSize: 13,
+    color: '#334155',
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+  patternInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  messageInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  patternHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginLeft: 4,
+    marginBottom: 24,
+  },
+});
+
+export default MessageFormatsScreen;
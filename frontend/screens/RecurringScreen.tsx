@@ -0,0 +1,591 @@
+// Recurring screen - manage rent, subscriptions and other repeating expenses
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RecurringContext, RecurringExpenseInput } from '../context/RecurringContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import { PAYMENT_METHODS, RECURRENCE_FREQUENCIES } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { PaymentMethod, RecurrenceFrequency, RecurringExpense, RootStackParamList } from '../types';
+
+type RecurringScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Recurring'>;
+
+interface Props {
+  navigation: RecurringScreenNavigationProp;
+}
+
+const RecurringScreen: React.FC<Props> = ({ navigation }) => {
+  const recurringContext = useContext(RecurringContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!recurringContext) throw new Error('RecurringContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { recurringExpenses, loading, loadRecurring, addRecurring, updateRecurring, skipNext, deleteRecurring } = recurringContext;
+  const { activeCategories, getCategoryColor, getCategoryEmoji } = categoryContext;
+  const { homeCurrency, availableCurrencies } = currencyContext;
+  const categoryNames = activeCategories.map(cat => cat.name);
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(homeCurrency);
+  const [category, setCategory] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('UPI');
+  const [description, setDescription] = useState<string>('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [interval, setInterval] = useState<string>('1');
+  const [dayOfMonth, setDayOfMonth] = useState<string>('');
+  const [startDate, setStartDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [endDate, setEndDate] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadRecurring();
+  }, []);
+
+  const formatAmount = (value: number, code?: string): string => {
+    return formatMoney(value, code || homeCurrency);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const describeSchedule = (item: RecurringExpense): string => {
+    switch (item.frequency) {
+      case 'daily': return 'Every day';
+      case 'weekly': return 'Every week';
+      case 'monthly': return `Monthly on day ${item.dayOfMonth}`;
+      case 'yearly': return 'Every year';
+      case 'custom': return `Every ${item.interval} days`;
+      default: return item.frequency;
+    }
+  };
+
+  const isEnded = (item: RecurringExpense): boolean => {
+    return !!item.endDate && new Date(item.nextDate) > new Date(item.endDate);
+  };
+
+  const openForm = (item: RecurringExpense | null): void => {
+    setEditing(item);
+    setAmount(item ? item.amount.toString() : '');
+    setCurrency(item?.currency || homeCurrency);
+    setCategory(item ? item.category : categoryNames[0] || '');
+    setPaymentMethod((item ? item.paymentMethod : 'UPI') as PaymentMethod);
+    setDescription(item?.description || '');
+    setFrequency(item ? item.frequency : 'monthly');
+    setInterval(item ? item.interval.toString() : '1');
+    setDayOfMonth(item?.dayOfMonth ? item.dayOfMonth.toString() : '');
+    setStartDate(item ? item.startDate.split('T')[0] : new Date().toISOString().split('T')[0]);
+    setEndDate(item?.endDate ? item.endDate.split('T')[0] : '');
+    setFormVisible(true);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    const amountNum = parseFloat(amount);
+    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    const intervalNum = parseInt(interval, 10);
+    if (frequency === 'custom' && (isNaN(intervalNum) || intervalNum < 1)) {
+      Alert.alert('Error', 'Please enter how many days apart the expense repeats');
+      return;
+    }
+
+    const dayNum = parseInt(dayOfMonth, 10);
+    if (frequency === 'monthly' && dayOfMonth && (isNaN(dayNum) || dayNum < 1 || dayNum > 31)) {
+      Alert.alert('Error', 'Day of month must be between 1 and 31');
+      return;
+    }
+
+    const data: RecurringExpenseInput = {
+      amount: amountNum,
+      currency,
+      category,
+      paymentMethod,
+      description,
+      frequency,
+      interval: frequency === 'custom' ? intervalNum : 1,
+      dayOfMonth: frequency === 'monthly' && dayOfMonth ? dayNum : undefined,
+      startDate,
+      endDate: endDate || null
+    };
+
+    setSaving(true);
+    const result = editing
+      ? await updateRecurring(editing._id, data)
+      : await addRecurring(data);
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save recurring expense');
+    }
+  };
+
+  const handleTogglePause = async (item: RecurringExpense): Promise<void> => {
+    const result = await updateRecurring(item._id, { paused: !item.paused });
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to update recurring expense');
+    }
+  };
+
+  const handleSkip = (item: RecurringExpense): void => {
+    Alert.alert(
+      'Skip Occurrence',
+      `Skip the ${formatDate(item.nextDate)} occurrence?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          onPress: async () => {
+            const result = await skipNext(item._id);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to skip occurrence');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDelete = (item: RecurringExpense): void => {
+    Alert.alert(
+      'Delete Recurring Expense',
+      'Expenses already added will be kept. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteRecurring(item._id);
+            if (!result.success) {
+              Alert.alert('Error', result.message || 'Failed to delete recurring expense');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Recurring Expenses</Text>
+          <Text style={styles.subtitle}>Rent, subscriptions and bills are added automatically</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ New Recurring Expense</Text>
+        </TouchableOpacity>
+
+        {loading && recurringExpenses.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : recurringExpenses.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🔁</Text>
+            <Text style={styles.emptyText}>No recurring expenses yet</Text>
+          </View>
+        ) : (
+          recurringExpenses.map(item => (
+            <View key={item._id} style={[styles.card, (item.paused || isEnded(item)) && styles.cardInactive]}>
+              <TouchableOpacity style={styles.cardHeader} onPress={() => openForm(item)} activeOpacity={0.7}>
+                <View style={[styles.categoryIcon, { backgroundColor: getCategoryColor(item.category) }]}>
+                  <Text style={styles.categoryIconText}>{getCategoryEmoji(item.category)}</Text>
+                </View>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{item.description || item.category}</Text>
+                  <Text style={styles.cardSchedule}>{describeSchedule(item)} · {item.paymentMethod}</Text>
+                </View>
+                <Text style={styles.cardAmount}>{formatAmount(item.amount, item.currency)}</Text>
+              </TouchableOpacity>
+
+              <Text style={styles.cardStatus}>
+                {isEnded(item)
+                  ? `Ended ${formatDate(item.endDate!)}`
+                  : item.paused
+                    ? 'Paused'
+                    : `Next: ${formatDate(item.nextDate)}`}
+              </Text>
+
+              <View style={styles.actionRow}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleTogglePause(item)}>
+                  <Text style={styles.actionText}>{item.paused ? '▶️ Resume' : '⏸ Pause'}</Text>
+                </TouchableOpacity>
+                {!item.paused && !isEnded(item) && (
+                  <TouchableOpacity style={styles.actionButton} onPress={() => handleSkip(item)}>
+                    <Text style={styles.actionText}>⏭ Skip next</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+                  <Text style={[styles.actionText, styles.deleteText]}>🗑️ Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Recurring Expense' : 'New Recurring Expense'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Amount ({currency}) *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                placeholderTextColor="#94a3b8"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+              />
+
+              {availableCurrencies.length > 1 && (
+                <CustomDropdown
+                  label="Currency"
+                  value={currency}
+                  options={availableCurrencies.includes(currency) ? availableCurrencies : [currency, ...availableCurrencies]}
+                  onSelect={setCurrency}
+                />
+              )}
+
+              <CustomDropdown
+                label="Category *"
+                value={category}
+                options={categoryNames}
+                onSelect={setCategory}
+                placeholder="Select a category"
+              />
+
+              <CustomDropdown
+                label="Payment Method *"
+                value={paymentMethod}
+                options={PAYMENT_METHODS}
+                onSelect={(value) => setPaymentMethod(value as PaymentMethod)}
+                placeholder="Select payment method"
+              />
+
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Rent, Netflix"
+                placeholderTextColor="#94a3b8"
+                value={description}
+                onChangeText={setDescription}
+              />
+
+              <CustomDropdown
+                label="Repeats *"
+                value={RECURRENCE_FREQUENCIES.find(f => f.value === frequency)?.label || ''}
+                options={RECURRENCE_FREQUENCIES.map(f => f.label)}
+                onSelect={(label) => {
+                  const selected = RECURRENCE_FREQUENCIES.find(f => f.label === label);
+                  if (selected) setFrequency(selected.value);
+                }}
+              />
+
+              {frequency === 'custom' && (
+                <>
+                  <Text style={styles.label}>Repeat every (days) *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={interval}
+                    onChangeText={setInterval}
+                    keyboardType="number-pad"
+                  />
+                </>
+              )}
+
+              {frequency === 'monthly' && (
+                <>
+                  <Text style={styles.label}>Day of month</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Same day as the start date"
+                    placeholderTextColor="#94a3b8"
+                    value={dayOfMonth}
+                    onChangeText={setDayOfMonth}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                  />
+                </>
+              )}
+
+              {!editing && (
+                <>
+                  <Text style={styles.label}>Starts on</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#94a3b8"
+                    value={startDate}
+                    onChangeText={setStartDate}
+                  />
+                </>
+              )}
+
+              <Text style={styles.label}>Ends on (optional)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#94a3b8"
+                value={endDate}
+                onChangeText={setEndDate}
+              />
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Create'}</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardInactive: {
+    opacity: 0.6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  categoryIconText: {
+    fontSize: 16,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSchedule: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardAmount: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  cardStatus: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  deleteText: {
+    color: '#ef4444',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+});
+
+export default RecurringScreen;
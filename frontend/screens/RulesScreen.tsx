@@ -0,0 +1,725 @@
+// Rules screen - auto-categorization rules that fill in what a new expense leaves out, in the order they run
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal,
+  Switch
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RuleContext, RuleInput } from '../context/RuleContext';
+import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import TagInput from '../components/TagInput';
+import { PAYMENT_METHODS } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { describeRule } from '../utils/rules';
+import { PaymentMethod, RootStackParamList, Rule, RuleChange, RuleTestResult, TagBreakdown } from '../types';
+
+type RulesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Rules'>;
+
+interface Props {
+  navigation: RulesScreenNavigationProp;
+}
+
+const NONE = 'None';
+const MAX_SHOWN_MATCHES = 5;
+
+const FIELD_OPTIONS: { value: Rule['field']; label: string }[] = [
+  { value: 'description', label: 'Description' },
+  { value: 'merchant', label: 'Merchant' }
+];
+
+const OPERATOR_OPTIONS: { value: Rule['operator']; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'startsWith', label: 'Starts with' },
+  { value: 'equals', label: 'Equals' }
+];
+
+const CHANGE_LABELS: Record<RuleChange['field'], string> = {
+  category: 'Category',
+  paymentMethod: 'Payment',
+  tags: 'Tags'
+};
+
+const formatChangeValue = (value: RuleChange['from']): string => {
+  if (Array.isArray(value)) return value.length > 0 ? value.map(tag => `#${tag}`).join(' ') : '—';
+  return value || '—';
+};
+
+const RulesScreen: React.FC<Props> = ({ navigation }) => {
+  const ruleContext = useContext(RuleContext);
+  const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!ruleContext) throw new Error('RuleContext not found');
+  if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { rules, loading, loadRules, createRule, updateRule, deleteRule, reorderRules, testRule } = ruleContext;
+  const { getStats } = expenseContext;
+  const { activeCategories, getSubcategories } = categoryContext;
+  const { homeCurrency } = currencyContext;
+  const categoryNames = activeCategories.map(cat => cat.name);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<Rule | null>(null);
+  const [name, setName] = useState<string>('');
+  const [field, setField] = useState<Rule['field']>('description');
+  const [operator, setOperator] = useState<Rule['operator']>('contains');
+  const [pattern, setPattern] = useState<string>('');
+  const [minAmount, setMinAmount] = useState<string>('');
+  const [maxAmount, setMaxAmount] = useState<string>('');
+  const [category, setCategory] = useState<string>('');
+  const [subcategory, setSubcategory] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [testing, setTesting] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadRules();
+    loadKnownTags();
+  }, []);
+
+  // Tags the user has used before, most used first, for autocomplete
+  const loadKnownTags = async (): Promise<void> => {
+    const result = await getStats('tags');
+    if (result.success && result.data) {
+      setKnownTags((result.data.breakdown as TagBreakdown[]).map(item => item.tag));
+    }
+  };
+
+  const subcategoryNames = category ? getSubcategories(category).map(cat => cat.name) : [];
+
+  const openForm = (item: Rule | null): void => {
+    setEditing(item);
+    setName(item?.name || '');
+    setField(item?.field || 'description');
+    setOperator(item?.operator || 'contains');
+    setPattern(item?.pattern || '');
+    setMinAmount(item?.minAmount != null ? String(item.minAmount) : '');
+    setMaxAmount(item?.maxAmount != null ? String(item.maxAmount) : '');
+    setCategory(item?.category || '');
+    setSubcategory(item?.subcategory || '');
+    setPaymentMethod(item?.paymentMethod || '');
+    setTags(item?.tags || []);
+    setTestResult(null);
+    setFormVisible(true);
+  };
+
+  // The form as a request body, or null (after telling the user) when it isn't complete
+  const getFormData = (): (RuleInput & { pattern: string }) | null => {
+    if (!pattern.trim()) {
+      Alert.alert('Error', 'Please enter the text to match');
+      return null;
+    }
+    if (!category && !paymentMethod && tags.length === 0) {
+      Alert.alert('Error', 'Pick a category, payment method or tags for the rule to set');
+      return null;
+    }
+
+    const min = minAmount.trim() ? parseFloat(minAmount) : null;
+    const max = maxAmount.trim() ? parseFloat(maxAmount) : null;
+    if ((min !== null && (isNaN(min) || min < 0)) || (max !== null && (isNaN(max) || max < 0))) {
+      Alert.alert('Error', 'Please enter valid amounts');
+      return null;
+    }
+
+    return {
+      name: name.trim(),
+      field,
+      operator,
+      pattern: pattern.trim(),
+      minAmount: min,
+      maxAmount: max,
+      category: category || null,
+      subcategory: subcategory || null,
+      paymentMethod: (paymentMethod as PaymentMethod) || null,
+      tags
+    };
+  };
+
+  const handleTest = async (): Promise<void> => {
+    const data = getFormData();
+    if (!data) return;
+
+    setTesting(true);
+    const result = await testRule(data);
+    setTesting(false);
+
+    if (result.success && result.result) {
+      setTestResult(result.result);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to test rule');
+    }
+  };
+
+  const handleSave = async (): Promise<void> => {
+    const data = getFormData();
+    if (!data) return;
+
+    setSaving(true);
+    const result = editing
+      ? await updateRule(editing._id, data)
+      : await createRule(data);
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save rule');
+    }
+  };
+
+  const handleToggle = async (item: Rule, enabled: boolean): Promise<void> => {
+    const result = await updateRule(item._id, { enabled });
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to update rule');
+    }
+  };
+
+  // Swap a rule with its neighbour above (-1) or below (1)
+  const handleMove = async (index: number, direction: -1 | 1): Promise<void> => {
+    const ids = rules.map(rule => rule._id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    const result = await reorderRules(ids);
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to reorder rules');
+    }
+  };
+
+  const handleDelete = (item: Rule): void => {
+    Alert.alert(
+      'Delete Rule',
+      'Expenses it already filled in are kept as they are.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteRule(item._id);
+            if (result.success) {
+              setFormVisible(false);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete rule');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Rules</Text>
+          <Text style={styles.subtitle}>Fill in the category, payment method and tags you'd pick anyway</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ Add Rule</Text>
+        </TouchableOpacity>
+
+        {loading && rules.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : rules.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🪄</Text>
+            <Text style={styles.emptyText}>No rules yet</Text>
+            <Text style={styles.emptySubtext}>e.g. description contains "uber" → Transport · UPI</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.hint}>Rules run top to bottom - the first one that sets a field wins it. Fields you pick yourself are never changed.</Text>
+            {rules.map((item, index) => (
+              <TouchableOpacity
+                key={item._id}
+                style={[styles.card, !item.enabled && styles.cardDisabled]}
+                onPress={() => openForm(item)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.orderButtons}>
+                  <TouchableOpacity onPress={() => handleMove(index, -1)} disabled={index === 0} activeOpacity={0.7}>
+                    <Text style={[styles.orderText, index === 0 && styles.orderTextDisabled]}>▲</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleMove(index, 1)} disabled={index === rules.length - 1} activeOpacity={0.7}>
+                    <Text style={[styles.orderText, index === rules.length - 1 && styles.orderTextDisabled]}>▼</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.cardInfo}>
+                  {item.name ? <Text style={styles.cardTitle}>{item.name}</Text> : null}
+                  <Text style={item.name ? styles.cardSubtitle : styles.cardTitle}>{describeRule(item)}</Text>
+                  {(item.minAmount != null || item.maxAmount != null) && (
+                    <Text style={styles.cardSubtitle}>
+                      Amount {item.minAmount != null ? formatMoney(item.minAmount, homeCurrency) : 'any'} – {item.maxAmount != null ? formatMoney(item.maxAmount, homeCurrency) : 'any'}
+                    </Text>
+                  )}
+                </View>
+                <Switch
+                  value={item.enabled}
+                  onValueChange={(value) => handleToggle(item, value)}
+                  trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                  thumbColor={item.enabled ? '#6366f1' : '#f8fafc'}
+                />
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Rule' : 'Add Rule'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Rides (optional)"
+                placeholderTextColor="#94a3b8"
+                value={name}
+                onChangeText={setName}
+                maxLength={40}
+              />
+
+              <Text style={styles.label}>When the</Text>
+              <View style={styles.chipRow}>
+                {FIELD_OPTIONS.map(option => renderChip(option.label, field === option.value, () => setField(option.value)))}
+              </View>
+              <View style={styles.chipRow}>
+                {OPERATOR_OPTIONS.map(option => renderChip(option.label, operator === option.value, () => setOperator(option.value)))}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. uber"
+                placeholderTextColor="#94a3b8"
+                value={pattern}
+                onChangeText={setPattern}
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={100}
+              />
+
+              <Text style={styles.label}>And the amount is between</Text>
+              <View style={styles.amountRow}>
+                <TextInput
+                  style={[styles.input, styles.amountInput]}
+                  placeholder="Min"
+                  placeholderTextColor="#94a3b8"
+                  value={minAmount}
+                  onChangeText={setMinAmount}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.amountSeparator}>–</Text>
+                <TextInput
+                  style={[styles.input, styles.amountInput]}
+                  placeholder="Max"
+                  placeholderTextColor="#94a3b8"
+                  value={maxAmount}
+                  onChangeText={setMaxAmount}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              <CustomDropdown
+                label="Set Category"
+                value={category || NONE}
+                options={[NONE, ...categoryNames]}
+                onSelect={(value) => {
+                  setCategory(value === NONE ? '' : value);
+                  setSubcategory('');
+                }}
+              />
+
+              {subcategoryNames.length > 0 && (
+                <CustomDropdown
+                  label="Set Subcategory"
+                  value={subcategory || NONE}
+                  options={[NONE, ...subcategoryNames]}
+                  onSelect={(value) => setSubcategory(value === NONE ? '' : value)}
+                />
+              )}
+
+              <CustomDropdown
+                label="Set Payment Method"
+                value={paymentMethod || NONE}
+                options={[NONE, ...PAYMENT_METHODS]}
+                onSelect={(value) => setPaymentMethod(value === NONE ? '' : value)}
+              />
+
+              <TagInput
+                label="Add Tags"
+                tags={tags}
+                onChange={setTags}
+                suggestions={knownTags}
+              />
+
+              <TouchableOpacity
+                style={[styles.secondaryButton, testing && styles.buttonDisabled]}
+                onPress={handleTest}
+                disabled={testing}
+                activeOpacity={0.8}
+              >
+                {testing ? (
+                  <ActivityIndicator color="#6366f1" size="small" />
+                ) : (
+                  <Text style={styles.secondaryButtonText}>Test Against My Expenses</Text>
+                )}
+              </TouchableOpacity>
+
+              {testResult && (
+                <View style={styles.testResult}>
+                  <Text style={styles.testSummary}>
+                    {testResult.matched === 0
+                      ? 'No past expenses match'
+                      : `Matches ${testResult.matched} past ${testResult.matched === 1 ? 'expense' : 'expenses'} · ${testResult.changed} set differently`}
+                  </Text>
+                  {testResult.matches.slice(0, MAX_SHOWN_MATCHES).map(match => (
+                    <View key={match.expense._id} style={styles.testMatch}>
+                      <Text style={styles.testMatchTitle} numberOfLines={1}>
+                        {match.expense.description || match.expense.category} · {formatMoney(match.expense.amount, match.expense.currency || homeCurrency)}
+                      </Text>
+                      {match.changes.length === 0 ? (
+                        <Text style={styles.testMatchText}>Already matches the rule</Text>
+                      ) : match.changes.map(change => (
+                        <Text key={change.field} style={styles.testMatchText}>
+                          {CHANGE_LABELS[change.field]}: {formatChangeValue(change.from)} → {formatChangeValue(change.to)}
+                        </Text>
+                      ))}
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Add Rule'}</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)} activeOpacity={0.7}>
+                  <Text style={styles.deleteText}>Delete Rule</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    backgroundColor: '#e0e7ff',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    color: '#4338ca',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardDisabled: {
+    opacity: 0.6,
+  },
+  orderButtons: {
+    marginRight: 12,
+    alignItems: 'center',
+  },
+  orderText: {
+    fontSize: 14,
+    color: '#6366f1',
+    paddingVertical: 2,
+  },
+  orderTextDisabled: {
+    color: '#cbd5e1',
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  testResult: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  testSummary: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  testMatch: {
+    marginTop: 10,
+  },
+  testMatchTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#334155',
+  },
+  testMatchText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#e0e7ff',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#4338ca',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  amountSeparator: {
+    fontSize: 16,
+    color: '#64748b',
+    marginHorizontal: 12,
+    marginTop: 16,
+  },
+});
+
+export default RulesScreen;
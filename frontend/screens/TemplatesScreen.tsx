@@ -0,0 +1,468 @@
+// Templates screen - expenses saved for one-tap quick add on the home screen
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Modal
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { TemplateContext, TemplateInput } from '../context/TemplateContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import CustomDropdown from '../components/CustomDropdown';
+import TagInput from '../components/TagInput';
+import { PAYMENT_METHODS } from '../utils/config';
+import { formatMoney } from '../utils/currency';
+import { PaymentMethod, RootStackParamList, Template } from '../types';
+
+type TemplatesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Templates'>;
+
+interface Props {
+  navigation: TemplatesScreenNavigationProp;
+}
+
+const NONE = 'None';
+
+const TemplatesScreen: React.FC<Props> = ({ navigation }) => {
+  const templateContext = useContext(TemplateContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!templateContext) throw new Error('TemplateContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { templates, loading, loadTemplates, createTemplate, updateTemplate, deleteTemplate } = templateContext;
+  const { activeCategories, getSubcategories } = categoryContext;
+  const { homeCurrency, availableCurrencies } = currencyContext;
+  const categoryNames = activeCategories.map(cat => cat.name);
+
+  // Form modal state - `editing` is null when creating
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [editing, setEditing] = useState<Template | null>(null);
+  const [name, setName] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(homeCurrency);
+  const [category, setCategory] = useState<string>('');
+  const [subcategory, setSubcategory] = useState<string>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Cash');
+  const [description, setDescription] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const subcategoryNames = category ? getSubcategories(category).map(cat => cat.name) : [];
+  const knownTags = Array.from(new Set(templates.flatMap(item => item.tags)));
+
+  const openForm = (item: Template | null): void => {
+    setEditing(item);
+    setName(item?.name || '');
+    setAmount(item ? String(item.amount) : '');
+    setCurrency(item?.currency || homeCurrency);
+    setCategory(item?.category || categoryNames[0] || '');
+    setSubcategory(item?.subcategory || '');
+    setPaymentMethod(item?.paymentMethod || 'Cash');
+    setDescription(item?.description || '');
+    setTags(item?.tags || []);
+    setFormVisible(true);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    const parsedAmount = parseFloat(amount);
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+    if (!amount || isNaN(parsedAmount) || parsedAmount <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+    if (!category) {
+      Alert.alert('Error', 'Please select a category');
+      return;
+    }
+
+    const data: TemplateInput = {
+      name: name.trim(),
+      amount: parsedAmount,
+      currency,
+      category,
+      subcategory: subcategory || null,
+      paymentMethod,
+      description: description.trim(),
+      tags
+    };
+
+    setSaving(true);
+    const result = editing
+      ? await updateTemplate(editing._id, data)
+      : await createTemplate(data);
+    setSaving(false);
+
+    if (result.success) {
+      setFormVisible(false);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to save template');
+    }
+  };
+
+  const handleDelete = (item: Template): void => {
+    Alert.alert(
+      'Delete Template',
+      'Expenses added from it are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteTemplate(item._id);
+            if (result.success) {
+              setFormVisible(false);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete template');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Quick Add</Text>
+          <Text style={styles.subtitle}>Expenses you enter again and again, one tap away on the home screen</Text>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => openForm(null)} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>+ Add Template</Text>
+        </TouchableOpacity>
+
+        {loading && templates.length === 0 ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : templates.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>⚡</Text>
+            <Text style={styles.emptyText}>No templates yet</Text>
+            <Text style={styles.emptySubtext}>e.g. Chai ₹20 · Cash · Food</Text>
+          </View>
+        ) : (
+          templates.map(item => (
+            <TouchableOpacity key={item._id} style={styles.card} onPress={() => openForm(item)} activeOpacity={0.7}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <Text style={styles.cardSubtitle} numberOfLines={1}>
+                  {[item.category, item.subcategory].filter(Boolean).join(' / ')} · {item.paymentMethod}
+                  {item.description ? ` · ${item.description}` : ''}
+                </Text>
+              </View>
+              <View style={styles.cardStats}>
+                <Text style={styles.cardAmount}>{formatMoney(item.amount, item.currency || homeCurrency)}</Text>
+                <Text style={styles.cardSubtitle}>
+                  {item.useCount === 0 ? 'Not used yet' : `Used ${item.useCount} ${item.useCount === 1 ? 'time' : 'times'}`}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        visible={formVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editing ? 'Edit Template' : 'Add Template'}</Text>
+              <TouchableOpacity
+                onPress={() => setFormVisible(false)}
+                style={styles.modalCloseButton}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.modalCloseText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.label}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Chai"
+                placeholderTextColor="#94a3b8"
+                value={name}
+                onChangeText={setName}
+                maxLength={40}
+              />
+
+              <Text style={styles.label}>Amount *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                placeholderTextColor="#94a3b8"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                maxLength={10}
+              />
+
+              {availableCurrencies.length > 1 && (
+                <CustomDropdown
+                  label="Currency"
+                  value={currency}
+                  options={availableCurrencies}
+                  onSelect={setCurrency}
+                />
+              )}
+
+              <CustomDropdown
+                label="Category *"
+                value={category}
+                options={categoryNames}
+                onSelect={(value) => {
+                  setCategory(value);
+                  setSubcategory('');
+                }}
+                placeholder="Select a category"
+              />
+
+              {subcategoryNames.length > 0 && (
+                <CustomDropdown
+                  label="Subcategory"
+                  value={subcategory || NONE}
+                  options={[NONE, ...subcategoryNames]}
+                  onSelect={(value) => setSubcategory(value === NONE ? '' : value)}
+                />
+              )}
+
+              <CustomDropdown
+                label="Payment Method *"
+                value={paymentMethod}
+                options={PAYMENT_METHODS}
+                onSelect={(value) => setPaymentMethod(value as PaymentMethod)}
+              />
+
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Saved on each expense (optional)"
+                placeholderTextColor="#94a3b8"
+                value={description}
+                onChangeText={setDescription}
+              />
+
+              <TagInput
+                label="Tags"
+                tags={tags}
+                onChange={setTags}
+                suggestions={knownTags}
+              />
+
+              <TouchableOpacity
+                style={[styles.button, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>{editing ? 'Save Changes' : 'Add Template'}</Text>
+                )}
+              </TouchableOpacity>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)} activeOpacity={0.7}>
+                  <Text style={styles.deleteText}>Delete Template</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardStats: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#f8fafc',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  modalCloseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCloseText: {
+    fontSize: 18,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 24,
+  },
+});
+
+export default TemplatesScreen;
@@ -0,0 +1,314 @@
+// Trash screen - restore deleted expenses or delete them for good before they are purged
+import React, { useState, useContext, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ExpenseContext } from '../context/ExpenseContext';
+import { CategoryContext } from '../context/CategoryContext';
+import { CurrencyContext } from '../context/CurrencyContext';
+import { formatMoney } from '../utils/currency';
+import { Expense, RootStackParamList } from '../types';
+
+type TrashScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Trash'>;
+
+interface Props {
+  navigation: TrashScreenNavigationProp;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashScreen: React.FC<Props> = ({ navigation }) => {
+  const expenseContext = useContext(ExpenseContext);
+  const categoryContext = useContext(CategoryContext);
+  const currencyContext = useContext(CurrencyContext);
+
+  if (!expenseContext) throw new Error('ExpenseContext not found');
+  if (!categoryContext) throw new Error('CategoryContext not found');
+  if (!currencyContext) throw new Error('CurrencyContext not found');
+
+  const { getTrash, restoreExpense, purgeExpense, emptyTrash } = expenseContext;
+  const { getCategoryColor, getCategoryEmoji } = categoryContext;
+  const { homeCurrency } = currencyContext;
+  const [trashed, setTrashed] = useState<Expense[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number>(30);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async (): Promise<void> => {
+    setLoading(true);
+    const result = await getTrash();
+    if (result.success) {
+      setTrashed(result.expenses || []);
+      if (result.retentionDays) setRetentionDays(result.retentionDays);
+    } else {
+      Alert.alert('Error', result.message || 'Failed to load trash');
+    }
+    setLoading(false);
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  // Whole days left before the expense is purged
+  const daysLeft = (item: Expense): number => {
+    const deletedAt = new Date(item.deletedAt || Date.now()).getTime();
+    return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+  };
+
+  const handleRestore = async (item: Expense): Promise<void> => {
+    const result = await restoreExpense(item._id);
+    if (result.success) {
+      setTrashed(prev => prev.filter(exp => exp._id !== item._id));
+    } else {
+      Alert.alert('Error', result.message || 'Failed to restore expense');
+    }
+  };
+
+  const handlePurge = (item: Expense): void => {
+    Alert.alert(
+      'Delete Forever',
+      'This expense and its receipts will be permanently deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await purgeExpense(item._id);
+            if (result.success) {
+              setTrashed(prev => prev.filter(exp => exp._id !== item._id));
+            } else {
+              Alert.alert('Error', result.message || 'Failed to delete expense');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleEmpty = (): void => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trashed.length} ${trashed.length === 1 ? 'expense' : 'expenses'} and their receipts? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await emptyTrash();
+            if (result.success) {
+              setTrashed([]);
+            } else {
+              Alert.alert('Error', result.message || 'Failed to empty trash');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Trash</Text>
+          <Text style={styles.subtitle}>
+            Deleted expenses are kept for {retentionDays} days, then removed for good
+          </Text>
+        </View>
+
+        {trashed.length > 0 && (
+          <TouchableOpacity style={styles.emptyTrashButton} onPress={handleEmpty} activeOpacity={0.8}>
+            <Text style={styles.emptyTrashText}>Empty Trash</Text>
+          </TouchableOpacity>
+        )}
+
+        {loading ? (
+          <View style={styles.loaderContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+          </View>
+        ) : trashed.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🗑️</Text>
+            <Text style={styles.emptyText}>Trash is empty</Text>
+          </View>
+        ) : (
+          trashed.map(item => (
+            <View key={item._id} style={styles.card}>
+              <View style={styles.cardRow}>
+                <View style={[styles.categoryIcon, { backgroundColor: getCategoryColor(item.category) }]}>
+                  <Text style={styles.categoryIconText}>{getCategoryEmoji(item.category)}</Text>
+                </View>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle} numberOfLines={1}>{item.description || item.category}</Text>
+                  <Text style={styles.cardSubtitle}>
+                    {item.category} · {formatDate(item.date)}
+                  </Text>
+                </View>
+                <Text style={styles.cardAmount}>{formatMoney(item.amount, item.currency || homeCurrency)}</Text>
+              </View>
+              <View style={styles.cardFooter}>
+                <Text style={styles.expiryText}>
+                  {daysLeft(item) === 1 ? 'Deleted for good tomorrow' : `${daysLeft(item)} days left`}
+                </Text>
+                <View style={styles.cardActions}>
+                  <TouchableOpacity onPress={() => handlePurge(item)} activeOpacity={0.7}>
+                    <Text style={styles.purgeText}>Delete forever</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleRestore(item)} activeOpacity={0.7}>
+                    <Text style={styles.restoreText}>Restore</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  emptyTrashButton: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  emptyTrashText: {
+    color: '#dc2626',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  categoryIconText: {
+    fontSize: 16,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#1e293b',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  expiryText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  purgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  restoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default TrashScreen;
@@ -4,20 +4,143 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  homeCurrency?: string;
 }
 
 export interface Expense {
   _id: string;
   userId: string;
   amount: number;
+  currency?: string; // ISO 4217 code, home currency when missing
+  originalAmount?: number; // Set on stats results, where `amount` is converted to the home currency
   category: string;
+  subcategory?: string | null;
   paymentMethod: string;
   description?: string;
+  tags?: string[];
+  lineItems?: ExpenseLineItem[];
+  attachments?: ExpenseAttachment[];
   date: string;
+  recurringId?: string;
+  merchantId?: string | null;
+  merchant?: string | null; // Merchant name to link to when saving - matched against names and aliases, or added
+  payeeVpa?: string | null; // UPI ID it was paid to, e.g. from a scanned UPI QR
+  location?: GeoPoint | null; // Where the expense was made
+  place?: string; // Place label, e.g. "Phoenix Mall" - also set without a location
+  templateId?: string; // Template a new expense was quick-added from - counts as a use of it when saving
+  reimbursable?: boolean; // Paid on someone else's behalf (e.g. work travel) and to be paid back
+  reimbursementStatus?: ReimbursementStatus | null; // Set on reimbursable expenses only
+  claimId?: string | null; // Claim it is being paid back through - its status then follows the claim
+  deletedAt?: string | null; // Set while the expense is in the trash
   createdAt?: string;
   updatedAt?: string;
 }
 
+// GeoJSON position
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+export type ExpenseSortField = 'date' | 'amount' | 'createdAt';
+
+// Expense list filters chosen in the filter sheet (kept across app restarts)
+export interface ExpenseFilters {
+  categories?: string[];
+  paymentMethods?: PaymentMethod[];
+  minAmount?: number;
+  maxAmount?: number;
+  sort?: ExpenseSortField;
+  order?: 'asc' | 'desc';
+}
+
+// Query options for the paginated expense list (GET /api/expenses)
+export interface ExpenseQuery extends Omit<ExpenseFilters, 'sort'> {
+  q?: string; // Full-text search over descriptions and line item notes
+  sort?: ExpenseSortField | 'relevance'; // Relevance applies to searches only
+  viewId?: string; // Runs a saved view - the other options then only mirror the view's q, sort and order
+  near?: string; // "latitude,longitude" - only expenses within `radius` meters (default 1000)
+  radius?: number;
+}
+
+// Value of a tracked field in the change history, as JSON - dates are ISO strings, `merchantId` an id
+export type RevisionValue = string | number | boolean | string[] | ExpenseLineItem[] | GeoPoint | null;
+
+// One entry in an expense's change history (GET /api/expenses/:id/history)
+export interface ExpenseRevision {
+  _id: string;
+  expenseId: string;
+  action: 'create' | 'update' | 'delete' | 'restore' | 'revert';
+  changes: { field: string; from: RevisionValue; to: RevisionValue }[];
+  client?: string;
+  device?: string;
+  revertedTo?: string;
+  createdAt: string;
+}
+
+// Existing expense that a newly added one probably repeats (POST /api/expenses) - 'sameDetails' for the same
+// amount, category and payment method minutes apart, 'similarDescription' for the same amount and a similar
+// description or merchant on the same day
+export interface PossibleDuplicate {
+  expense: Expense;
+  reason: 'sameDetails' | 'similarDescription';
+}
+
+// New expense waiting for the user to keep it or discard it as a duplicate
+export interface DuplicatePrompt {
+  expense: Expense;
+  possibleDuplicate: PossibleDuplicate;
+}
+
+export type BulkOperation =
+  | 'recategorize'
+  | 'setPaymentMethod'
+  | 'addTags'
+  | 'removeTags'
+  | 'shiftDates'
+  | 'delete' // Moves the expenses to the trash
+  | 'restore'; // Brings trashed expenses back
+
+// One operation applied to many expenses at once (POST /api/expenses/bulk) - all or nothing
+export interface BulkExpenseRequest {
+  ids: string[];
+  operation: BulkOperation;
+  category?: string;
+  subcategory?: string | null;
+  paymentMethod?: PaymentMethod;
+  tags?: string[];
+  days?: number; // For shiftDates - negative moves expenses earlier
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  message?: string;
+}
+
+export interface ExpenseLineItem {
+  amount: number;
+  category: string;
+  subcategory?: string | null;
+  note?: string;
+}
+
+export interface ExpenseAttachment {
+  _id: string;
+  thumbnailKey?: string | null;
+  originalName?: string;
+  mimeType: string;
+  size: number;
+  createdAt?: string;
+}
+
+// File picked on the device, not uploaded yet
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
 export interface OfflineExpense extends Expense {
   isOffline: boolean;
 }
@@ -39,24 +162,83 @@ export interface ExpenseStats {
   expenses: Expense[];
 }
 
+export interface Category {
+  _id: string;
+  userId: string;
+  name: string;
+  parentId: string | null;
+  emoji: string;
+  color: string;
+  archived: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SubcategoryBreakdown {
+  subcategory: string | null;
+  total: number;
+  count: number;
+}
+
 export interface CategoryBreakdown {
   category: string;
+  emoji?: string;
+  color?: string;
+  total: number;
+  count: number;
+  subcategories?: SubcategoryBreakdown[];
+}
+
+export interface MonthSummary {
   total: number;
   count: number;
+  income: number;
+  net: number; // Income minus spending
+  savingsRate: number | null; // Percentage of income kept, null without income
+}
+
+export interface CashFlowMonth {
+  year: number;
+  month: number; // 1-12
+  income: number;
+  expenses: number;
+  incomeCount: number;
+  expenseCount: number;
+  net: number;
+  savingsRate: number | null;
 }
 
 export interface Insights {
-  currentMonth: ExpenseStats;
-  previousMonth: ExpenseStats;
+  currency?: string;
+  currentMonth: MonthSummary;
+  previousMonth: MonthSummary;
   overallChange: number;
+  excludeReimbursable?: boolean;
   categoryInsights: CategoryInsight[];
+  cashFlow?: CashFlowMonth[];
+}
+
+export interface TagBreakdown {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+export interface SubcategoryInsight {
+  subcategory: string | null;
+  current: number;
+  previous: number;
+  change: number;
 }
 
 export interface CategoryInsight {
   category: string;
+  emoji?: string;
+  color?: string;
   current: number;
   previous: number;
   change: number;
+  subcategories?: SubcategoryInsight[];
 }
 
 export interface Budget {
@@ -65,13 +247,29 @@ export interface Budget {
   month: number;
   year: number;
   amount: number;
+  excludeReimbursable?: boolean; // Expenses that will be paid back don't count against it
   createdAt?: string;
   updatedAt?: string;
 }
 
+export interface ExchangeRate {
+  _id: string;
+  currency: string;
+  rate: number; // Units of home currency per one unit of `currency`
+  updatedAt?: string;
+}
+
+export interface CategorySpending {
+  category: string;
+  total: number;
+}
+
 export interface BudgetWithStats {
   budget: Budget | null;
   currentSpending: number;
+  categorySpending?: CategorySpending[];
+  reimbursableSpending?: number; // Reimbursable part of the month's spending, left out when the budget excludes it
+  currency?: string;
   remaining: number;
   isOverBudget: boolean;
 }
@@ -82,16 +280,276 @@ export interface BudgetWarning {
   remaining: number;
 }
 
-export type ExpenseCategory = 
-  | 'Food' 
-  | 'Transport' 
-  | 'Shopping' 
-  | 'Bills' 
-  | 'Entertainment' 
-  | 'Health' 
-  | 'Education' 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface RecurringExpense {
+  _id: string;
+  userId: string;
+  amount: number;
+  currency?: string;
+  category: string;
+  subcategory?: string | null;
+  paymentMethod: string;
+  description?: string;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string | null;
+  nextDate: string;
+  paused: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type IncomeSource =
+  | 'Salary'
+  | 'Freelance'
+  | 'Business'
+  | 'Refund'
+  | 'Interest'
+  | 'Gift'
   | 'Other';
 
+export interface Income {
+  _id: string;
+  userId: string;
+  amount: number;
+  currency?: string;
+  source: IncomeSource;
+  description?: string;
+  date: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Date ranges for saved views, relative to the day the view runs
+export type DateRangePreset =
+  | 'all'
+  | 'today'
+  | 'last7Days'
+  | 'last30Days'
+  | 'last90Days'
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'thisQuarter'
+  | 'thisYear'
+  | 'thisFinancialYear'
+  | 'lastFinancialYear';
+
+// Named expense filter and sort ("smart list") shown as a tab on the home screen
+export interface SavedView {
+  _id: string;
+  userId: string;
+  name: string;
+  q?: string;
+  categories: string[];
+  paymentMethods: PaymentMethod[];
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  tags: string[];
+  tagMode: 'any' | 'all';
+  dateRange: DateRangePreset;
+  sort: ExpenseSortField | 'relevance';
+  order: 'asc' | 'desc';
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Normalized payee that expenses link to, e.g. "Swiggy" (also matching "SWIGGY*BLR")
+export interface Merchant {
+  _id: string;
+  userId: string;
+  name: string;
+  normalizedName: string;
+  aliases: string[]; // Other names, normalized like `normalizedName`
+  defaultCategory?: string | null;
+  defaultSubcategory?: string | null;
+  defaultPaymentMethod?: PaymentMethod | null;
+  lastUsedAt?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface MerchantBreakdown {
+  merchantId: string;
+  name: string;
+  total: number;
+  count: number;
+  average: number;
+  lastDate: string;
+}
+
+// Category and payment method learned from past expenses with similar descriptions (GET /api/expenses/suggest)
+export interface CategorySuggestion {
+  category: string;
+  subcategory: string | null;
+  paymentMethod: PaymentMethod;
+  confidence: number; // 0-1
+}
+
+// Saved expense for one-tap quick add, e.g. "Chai" ₹20 Cash Food
+export interface Template {
+  _id: string;
+  userId: string;
+  name: string;
+  amount: number;
+  currency?: string;
+  category: string;
+  subcategory?: string | null;
+  paymentMethod: PaymentMethod;
+  description?: string;
+  tags: string[];
+  useCount: number;
+  lastUsedAt?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Auto-categorization rule - fills in the fields a new expense leaves out when its description or merchant matches
+export interface Rule {
+  _id: string;
+  userId: string;
+  name?: string;
+  field: 'description' | 'merchant';
+  operator: 'contains' | 'startsWith' | 'equals'; // Case-insensitive
+  pattern: string;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  category?: string | null;
+  subcategory?: string | null;
+  paymentMethod?: PaymentMethod | null;
+  tags: string[];
+  priority: number; // Lower runs first - the first matching rule that sets a field wins it
+  enabled: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Field a rule would set differently on a past expense - a category as "Food / Groceries", tags as a list
+export interface RuleChange {
+  field: 'category' | 'paymentMethod' | 'tags';
+  from: string | string[] | null;
+  to: string | string[];
+}
+
+// Dry run of a rule against past expenses (POST /api/rules/test)
+export interface RuleTestResult {
+  matched: number;
+  changed: number; // Matched expenses the rule would set differently
+  matches: { expense: Expense; changes: RuleChange[] }[]; // Newest first, up to 20
+}
+
+// Spending at one place (GET /api/expenses/stats/places) - nearby expenses are clustered together
+export interface PlaceBreakdown {
+  label: string | null;
+  location: GeoPoint | null; // Centre of the place, null for expenses with only a place label
+  total: number;
+  count: number;
+  average: number;
+}
+
+export type ReimbursementStatus = 'pending' | 'claimed' | 'reimbursed';
+
+// Reimbursable expenses claimed and paid back together (GET /api/claims), e.g. one work trip
+export interface Claim {
+  _id: string;
+  userId: string;
+  name: string;
+  note?: string;
+  claimedAt: string | null; // Submitted - null while it is still being put together
+  settledAt: string | null; // Paid back
+  status: ReimbursementStatus; // Status its expenses have
+  count?: number;
+  total?: number; // In the home currency
+  expenses?: Expense[]; // Amounts in the home currency, original in `originalAmount`
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Outstanding reimbursements by age (GET /api/claims/outstanding), in the home currency
+export interface OutstandingReimbursements {
+  currency: string;
+  total: number;
+  count: number;
+  pending: number; // Not in a submitted claim yet
+  claimed: number;
+  buckets: ReimbursementAgeBucket[];
+}
+
+export interface ReimbursementAgeBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+  total: number;
+  count: number;
+  expenses: (Expense & { ageDays: number })[]; // Oldest first
+}
+
+// A user's own bank or UPI message template for reading pasted SMS (GET /api/message-formats)
+export interface MessageFormat {
+  _id: string;
+  userId: string;
+  name: string;
+  pattern: string; // Template with {amount}, and optionally {payee}, {account}, {date}, {reference} and one {*} for any text
+  paymentMethod?: PaymentMethod | null; // Guessed from the message's wording when not set
+  enabled: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Formats every user has, tried after their own
+export interface BuiltInMessageFormat {
+  name: string;
+  example: string;
+  paymentMethod?: PaymentMethod;
+}
+
+// What a format reads from a message (POST /api/message-formats/test)
+export interface ParsedMessage {
+  type: 'debit' | 'credit';
+  format: string | null; // Null for a best guess no format matched
+  amount: number;
+  currency: string | null;
+  payee: string | null; // e.g. a VPA like swiggy@icici, or a card merchant
+  account: string | null; // e.g. XX1234
+  date: string | null; // YYYY-MM-DD
+  reference: string | null;
+  paymentMethod: PaymentMethod | null;
+}
+
+// Draft expense read from a pasted message (POST /api/expenses/parse-messages) - nothing is saved
+export interface MessageDraft {
+  message: string;
+  reason?: string; // Why it isn't an expense, when `expense` is null
+  format?: string | null;
+  type?: 'debit' | 'credit';
+  payee?: string | null;
+  account?: string | null;
+  reference?: string | null;
+  expense: {
+    amount: number;
+    currency: string | null;
+    merchant: string | null; // Name of a known merchant the payee matched
+    description: string;
+    payeeVpa: string | null; // When the payee is a UPI ID
+    category: string | null; // From the merchant's defaults, earlier payments to the UPI ID or the user's rules
+    subcategory: string | null;
+    paymentMethod: PaymentMethod | null;
+    tags: string[];
+    date: string | null;
+  } | null;
+}
+
+// Category of earlier payments to a UPI ID (GET /api/expenses/upi-payee)
+export interface PayeeGuess {
+  category: string | null;
+  subcategory: string | null;
+  merchant: string | null; // Merchant of the latest payment linked to one
+  count: number; // Earlier payments to it - 0 when the guess is a merchant named after it
+}
+
 export type PaymentMethod = 
   | 'Cash' 
   | 'Card' 
@@ -105,9 +563,19 @@ export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
   MainTabs: undefined;
-  AddExpense: undefined;
+  AddExpense: { upi?: string } | undefined; // `upi` is a upi://pay link to prefill the expense from
   EditExpense: { expense: Expense };
   Budget: undefined;
   Notifications: undefined;
+  Categories: undefined;
+  Recurring: undefined;
+  Currencies: undefined;
+  Income: undefined;
+  Trash: undefined;
+  Merchants: undefined;
+  Rules: undefined;
+  Templates: undefined;
+  Claims: undefined;
+  MessageFormats: undefined;
 };
 
@@ -0,0 +1,100 @@
+import { parseAmount, parseQuickEntry, QuickEntryCategory } from '../quickEntry';
+
+// Wednesday, 14 Oct 2026
+const TODAY = new Date(2026, 9, 14);
+
+const CATEGORIES: QuickEntryCategory[] = [
+  { name: 'Food', subcategories: ['Groceries', 'Eating Out'] },
+  { name: 'Transport', subcategories: [] },
+  { name: 'Shopping', subcategories: [] },
+  { name: 'Bills', subcategories: [] },
+  { name: 'Health', subcategories: [] }
+];
+
+const parse = (text: string) => parseQuickEntry(text, CATEGORIES, TODAY);
+
+describe('parseQuickEntry', () => {
+  it('reads the documented examples', () => {
+    expect(parse('250 lunch upi yesterday')).toEqual({
+      amount: 250,
+      category: 'Food',
+      subcategory: null,
+      categoryGuessed: true,
+      paymentMethod: 'UPI',
+      date: '2026-10-13',
+      description: 'lunch'
+    });
+
+    expect(parse('1.2k groceries card 3 Oct')).toEqual({
+      amount: 1200,
+      category: 'Food',
+      subcategory: 'Groceries',
+      paymentMethod: 'Card',
+      date: '2026-10-03',
+      description: ''
+    });
+  });
+
+  it('takes the largest bare number as the amount', () => {
+    expect(parse('lunch with 3 friends 600')).toMatchObject({ amount: 600, description: 'lunch with 3 friends' });
+    expect(parse('2 coffees 300')).toMatchObject({ amount: 300, description: '2 coffees' });
+  });
+
+  it('prefers a number with a currency or a k/l suffix', () => {
+    expect(parse('₹80 for 100 sheets')).toMatchObject({ amount: 80, description: '100 sheets' });
+    expect(parse('rs 90 for 120 pages')).toMatchObject({ amount: 90, description: '120 pages' });
+    expect(parse('500 seats 2k')).toMatchObject({ amount: 2000, description: '500 seats' });
+  });
+
+  it('keeps the year of a date out of the amount only when it is a nearby year', () => {
+    expect(parse('3 Oct 2000 rent')).toMatchObject({ amount: 2000, date: '2026-10-03' });
+    expect(parse('3 Oct 2026 rent 15000')).toMatchObject({ amount: 15000, date: '2026-10-03' });
+  });
+
+  it('reads full weekday names on their own', () => {
+    expect(parse('sunday brunch 900')).toMatchObject({ amount: 900, date: '2026-10-11' });
+    expect(parse('wednesday 40 chai')).toMatchObject({ date: '2026-10-14' });
+  });
+
+  it('reads short weekday names only after "last" or "on"', () => {
+    expect(parse('sun pharma 200')).toMatchObject({ amount: 200, description: 'sun pharma' });
+    expect(parse('sun pharma 200').date).toBeUndefined();
+    expect(parse('sat tax 500').date).toBeUndefined();
+    expect(parse('mon 100').date).toBeUndefined();
+
+    expect(parse('on sat 300 movie')).toMatchObject({ amount: 300, date: '2026-10-10', description: 'movie' });
+    expect(parse('last mon 120 metro')).toMatchObject({ amount: 120, date: '2026-10-12', category: 'Transport' });
+    expect(parse('last wed 60')).toMatchObject({ date: '2026-10-07' });
+  });
+
+  it('reads relative and numeric dates', () => {
+    expect(parse('3 days ago 450 dinner')).toMatchObject({ amount: 450, date: '2026-10-11' });
+    expect(parse('5/10 200 bus')).toMatchObject({ amount: 200, date: '2026-10-05' });
+    expect(parse('2026-09-30 99 medicine')).toMatchObject({ amount: 99, date: '2026-09-30', category: 'Health' });
+  });
+
+  it('takes a category named outright over a guess', () => {
+    expect(parse('300 eating out swiggy')).toMatchObject({
+      category: 'Food',
+      subcategory: 'Eating Out',
+      description: 'swiggy'
+    });
+    expect(parse('300 eating out swiggy').categoryGuessed).toBeUndefined();
+  });
+
+  it('leaves the amount out when there is none', () => {
+    expect(parse('coffee').amount).toBeUndefined();
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads currencies, separators and suffixes', () => {
+    expect(parseAmount('₹1,250.50')).toBe(1250.5);
+    expect(parseAmount('rs.250')).toBe(250);
+    expect(parseAmount('250/-')).toBe(250);
+    expect(parseAmount('2l')).toBe(200000);
+    expect(parseAmount('1.5lakh')).toBe(150000);
+    expect(parseAmount('0')).toBeNull();
+    expect(parseAmount('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { parseUpiUri } from '../upi';
+
+describe('parseUpiUri', () => {
+  it.each([
+    [
+      'upi://pay?pa=Swiggy@ICICI&pn=Swiggy%20Ltd&am=450.00&cu=INR&tn=Order+1234',
+      { vpa: 'swiggy@icici', payeeName: 'Swiggy Ltd', amount: 450, currency: 'INR', note: 'Order 1234' }
+    ],
+    [
+      'pocketexpense://pay?pa=chaiwala@okaxis&pn=Chai+Wala',
+      { vpa: 'chaiwala@okaxis', payeeName: 'Chai Wala', amount: undefined, currency: undefined, note: undefined }
+    ],
+    [
+      'UPI://PAY/?PA=shop@ybl&AM=99&cu=inr',
+      { vpa: 'shop@ybl', payeeName: undefined, amount: 99, currency: 'INR', note: undefined }
+    ]
+  ])('reads %s', (text, expected) => {
+    expect(parseUpiUri(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['Pay here: upi://pay?pa=swiggy@icici&am=450 thanks', 'swiggy@icici'],
+    ['  upi://pay?pa=swiggy@icici\n', 'swiggy@icici'],
+    ['Scan result:\nupi://pay?pa=swiggy@icici&tn=Lunch', 'swiggy@icici']
+  ])('finds the link in %j', (text, vpa) => {
+    expect(parseUpiUri(text)).toMatchObject({ vpa });
+  });
+
+  it.each([
+    ['tn=Rent%20for%20Oct', 'Rent for Oct'],
+    ['tn=Rent+for+Oct', 'Rent for Oct'],
+    ['tn=a%2Bb', 'a+b'],
+    ['tn=100%', '100%'],
+    ['tn=', undefined]
+  ])('decodes the note in %s', (param, note) => {
+    expect(parseUpiUri(`upi://pay?pa=swiggy@icici&${param}`)?.note).toBe(note);
+  });
+
+  it.each([
+    ['am=0', undefined],
+    ['am=0.00', undefined],
+    ['am=-50', undefined],
+    ['am=abc', undefined],
+    ['am=', undefined],
+    ['am=1250.5', 1250.5]
+  ])('reads the amount in %s', (param, amount) => {
+    expect(parseUpiUri(`upi://pay?pa=swiggy@icici&${param}`)?.amount).toBe(amount);
+  });
+
+  it.each([
+    ['upi://pay?pn=Swiggy&am=450'],
+    ['upi://pay?pa=&am=450'],
+    ['upi://pay?pa=swiggy&am=450'],
+    ['upi://pay?pa=swiggy%20ltd@icici'],
+    ['upi://mandate?pa=swiggy@icici'],
+    ['https://example.com/pay?pa=swiggy@icici'],
+    ['swiggy@icici'],
+    ['']
+  ])('returns null for %j', (text) => {
+    expect(parseUpiUri(text)).toBeNull();
+  });
+});
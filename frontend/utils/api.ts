@@ -1,13 +1,17 @@
 // API client with axios and token management
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
 import { API_URL } from './config';
 
 // Create axios instance with base URL
 const api: AxiosInstance = axios.create({
   baseURL: API_URL,
   headers: {
-    'Content-Type': 'application/json'
+    'Content-Type': 'application/json',
+    // Identify the app and device in the expense change history
+    'X-Client': 'pocket-expense-mobile',
+    'X-Device': `${Platform.OS} ${Platform.Version}`
   }
 });
 
@@ -1,5 +1,5 @@
 // API configuration and constants
-import { ExpenseCategory, PaymentMethod } from '../types';
+import { DateRangePreset, IncomeSource, PaymentMethod, RecurrenceFrequency } from '../types';
 
 export const API_URL = 'http://localhost:5000/api';
 
@@ -7,15 +7,21 @@ export const API_URL = 'http://localhost:5000/api';
 // For iOS simulator, use: 'http://localhost:5000/api'
 // For physical device, use your computer's IP: 'http://192.168.x.x:5000/api'
 
-export const CATEGORIES: ExpenseCategory[] = [
-  'Food',
-  'Transport',
-  'Shopping',
-  'Bills',
-  'Entertainment',
-  'Health',
-  'Education',
-  'Other'
+// Used for expenses whose category is unknown (e.g. not loaded yet)
+export const FALLBACK_CATEGORY_EMOJI = '📋';
+export const FALLBACK_CATEGORY_COLOR = '#f3f4f6';
+
+// Colors offered when creating or editing a category
+export const CATEGORY_COLORS: string[] = [
+  '#fef3c7',
+  '#dbeafe',
+  '#e9d5ff',
+  '#d1fae5',
+  '#fed7aa',
+  '#cffafe',
+  '#fef08a',
+  '#fee2e2',
+  '#f3f4f6'
 ];
 
 export const PAYMENT_METHODS: PaymentMethod[] = [
@@ -26,4 +32,51 @@ export const PAYMENT_METHODS: PaymentMethod[] = [
   'Other'
 ];
 
+export const INCOME_SOURCES: IncomeSource[] = [
+  'Salary',
+  'Freelance',
+  'Business',
+  'Refund',
+  'Interest',
+  'Gift',
+  'Other'
+];
 
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Every N days' }
+];
+
+// Date ranges offered for saved views (the financial year runs April to March)
+export const DATE_RANGES: { value: DateRangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'today', label: 'Today' },
+  { value: 'last7Days', label: 'Last 7 days' },
+  { value: 'last30Days', label: 'Last 30 days' },
+  { value: 'last90Days', label: 'Last 90 days' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'thisQuarter', label: 'This quarter' },
+  { value: 'thisYear', label: 'This year' },
+  { value: 'thisFinancialYear', label: 'This financial year' },
+  { value: 'lastFinancialYear', label: 'Last financial year' }
+];
+
+// Currencies offered for expenses and as the home currency
+export const CURRENCIES: { code: string; symbol: string; name: string }[] = [
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
+  { code: 'AED', symbol: 'AED ', name: 'UAE Dirham' },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+  { code: 'THB', symbol: '฿', name: 'Thai Baht' },
+  { code: 'LKR', symbol: 'Rs ', name: 'Sri Lankan Rupee' }
+];
@@ -0,0 +1,14 @@
+// Currency formatting helpers
+import { CURRENCIES } from './config';
+
+export const DEFAULT_CURRENCY = 'INR';
+
+// Symbol for a currency code, falling back to the code itself (e.g. "CHF ")
+export const getCurrencySymbol = (currency: string = DEFAULT_CURRENCY): string => {
+  return CURRENCIES.find(item => item.code === currency)?.symbol || `${currency} `;
+};
+
+// Format an amount with its currency symbol, e.g. ₹1200.00 or $15.50
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  return `${getCurrencySymbol(currency)}${amount.toFixed(2)}`;
+};
@@ -1,7 +1,7 @@
 // Offline expense sync functionality
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import api from './api';
-import { Expense, OfflineExpense } from '../types';
+import { DuplicatePrompt, Expense, OfflineExpense, PossibleDuplicate } from '../types';
 
 const OFFLINE_EXPENSES_KEY = 'offline_expenses';
 
@@ -34,20 +34,25 @@ export const getOfflineExpenses = async (): Promise<OfflineExpense[]> => {
   }
 };
 
-// Sync offline expenses to backend
-export const syncOfflineExpenses = async (): Promise<{ synced: number; remaining: number }> => {
+// Sync offline expenses to backend - `duplicates` are synced expenses the server flagged as possible repeats
+// (e.g. a retry of one that reached the server before the connection dropped)
+export const syncOfflineExpenses = async (): Promise<{ synced: number; remaining: number; duplicates: DuplicatePrompt[] }> => {
   try {
     const offlineExpenses = await getOfflineExpenses();
-    if (offlineExpenses.length === 0) return { synced: 0, remaining: 0 };
+    if (offlineExpenses.length === 0) return { synced: 0, remaining: 0, duplicates: [] };
 
     const syncedIds: string[] = [];
+    const duplicates: DuplicatePrompt[] = [];
     
     // Try to sync each expense
     for (const expense of offlineExpenses) {
       try {
         const { isOffline, _id, userId, ...expenseData } = expense;
-        await api.post('/expenses', expenseData);
+        const response = await api.post<{ expense: Expense; possibleDuplicate?: PossibleDuplicate | null }>('/expenses', expenseData);
         syncedIds.push(_id);
+        if (response.data.possibleDuplicate) {
+          duplicates.push({ expense: response.data.expense, possibleDuplicate: response.data.possibleDuplicate });
+        }
       } catch (error) {
         // If sync fails, keep it in queue
         console.error('Failed to sync expense:', error);
@@ -58,7 +63,7 @@ export const syncOfflineExpenses = async (): Promise<{ synced: number; remaining
     const remaining = offlineExpenses.filter(exp => !syncedIds.includes(exp._id));
     await AsyncStorage.setItem(OFFLINE_EXPENSES_KEY, JSON.stringify(remaining));
 
-    return { synced: syncedIds.length, remaining: remaining.length };
+    return { synced: syncedIds.length, remaining: remaining.length, duplicates };
   } catch (error) {
     console.error('Error syncing offline expenses:', error);
     throw error;
@@ -0,0 +1,284 @@
+// Quick entry parser - turns "250 lunch upi yesterday" or "1.2k groceries card 3 Oct" into expense fields
+// Plain functions with no React or network use, so it works offline and can be tested on its own
+import { PaymentMethod } from '../types';
+
+export interface QuickEntryCategory {
+  name: string;
+  subcategories: string[];
+}
+
+export interface QuickEntry {
+  amount?: number;
+  category?: string;
+  subcategory?: string | null;
+  categoryGuessed?: boolean; // From a word like "lunch" rather than the category's own name
+  paymentMethod?: PaymentMethod;
+  date?: string; // YYYY-MM-DD
+  description: string; // Whatever is left over
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// "1.2k", "2l", "1.5lakh"
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  l: 100000,
+  lac: 100000,
+  lakh: 100000
+};
+const AMOUNT_PATTERN = /^(?:₹|rs\.?|inr)?(\d+(?:,\d{2,3})*(?:\.\d+)?)(k|l|lac|lakh)?(?:₹|rs|inr)?$/;
+const CURRENCY_WORDS = ['₹', 'rs', 'inr'];
+
+const PAYMENT_WORDS: Record<string, PaymentMethod> = {
+  cash: 'Cash',
+  card: 'Card',
+  credit: 'Card',
+  debit: 'Card',
+  upi: 'UPI',
+  gpay: 'UPI',
+  phonepe: 'UPI',
+  paytm: 'UPI',
+  bhim: 'UPI',
+  online: 'Online',
+  netbanking: 'Online',
+  neft: 'Online',
+  imps: 'Online'
+};
+
+// Everyday words for the default categories - a guess, only used when the user has that category
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Food: ['breakfast', 'lunch', 'dinner', 'snacks', 'chai', 'tea', 'coffee', 'groceries', 'grocery', 'swiggy', 'zomato', 'restaurant', 'pizza'],
+  Transport: ['uber', 'ola', 'rapido', 'metro', 'bus', 'auto', 'cab', 'taxi', 'train', 'petrol', 'diesel', 'fuel', 'parking', 'toll'],
+  Shopping: ['amazon', 'flipkart', 'myntra', 'clothes', 'shoes'],
+  Bills: ['rent', 'electricity', 'wifi', 'internet', 'broadband', 'recharge', 'mobile'],
+  Entertainment: ['movie', 'movies', 'netflix', 'spotify', 'hotstar', 'concert'],
+  Health: ['medicine', 'medicines', 'pharmacy', 'doctor', 'hospital', 'gym'],
+  Education: ['book', 'books', 'course', 'tuition', 'fees']
+};
+
+// Words that only lead into a field ("paid 250", "via UPI", "on 3 Oct") or out of one ("250 for lunch")
+const LEADING_WORDS = ['paid', 'spent', 'on', 'via', 'by', 'using'];
+const TRAILING_WORDS = ['for', 'on'];
+
+// Lowercase, without surrounding punctuation ("Oct," -> "oct", "250/-" -> "250")
+const normalize = (token: string): string => {
+  return token.toLowerCase().replace(/^[^\w₹]+/, '').replace(/[^\w₹]+$/, '');
+};
+
+const toDateString = (date: Date): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Full name or a prefix of at least three letters ("oct", "sept", "tues")
+const findName = (names: string[], word: string): number => {
+  if (word.length < 3) return -1;
+  return names.findIndex(name => name.startsWith(word));
+};
+
+// "monday" anywhere, but "mon" or "tues" only after "last" or "on" - "sun pharma 200" isn't a date
+const findWeekday = (word: string, allowShort: boolean): number => {
+  const index = WEEKDAYS.indexOf(word);
+  return index !== -1 || !allowShort ? index : findName(WEEKDAYS, word);
+};
+
+// Amount written with a currency or a k/l suffix ("₹250", "rs250", "1.2k")
+const isMarkedAmount = (word: string): boolean => {
+  const normalized = normalize(word);
+  return AMOUNT_PATTERN.test(normalized) && !/^[\d,.]+$/.test(normalized);
+};
+
+export const parseAmount = (word: string): number | null => {
+  const match = normalize(word).match(AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? AMOUNT_MULTIPLIERS[match[2]] : 1);
+  if (!(value > 0)) return null;
+  return Math.round(value * 100) / 100;
+};
+
+const parseDay = (word?: string): number | null => {
+  const match = (word || '').match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = parseInt(match[1], 10);
+  return day >= 1 && day <= 31 ? day : null;
+};
+
+// Only years next to today's, so "3 Oct 2000" still reads 2000 as the amount
+const parseYear = (word: string | undefined, today: Date): number | null => {
+  if (!word || !/^\d{4}$/.test(word)) return null;
+  const year = parseInt(word, 10);
+  return Math.abs(year - today.getFullYear()) <= 1 ? year : null;
+};
+
+// A real calendar date - without a year, the latest one that isn't in the future
+const buildDate = (day: number, month: number, year: number | null, today: Date): Date | null => {
+  const date = new Date(year ?? today.getFullYear(), month, day);
+  if (date.getMonth() !== month || date.getDate() !== day) return null;
+  if (year === null && date > today) {
+    return buildDate(day, month, today.getFullYear() - 1, today);
+  }
+  return date;
+};
+
+// Date starting at words[index] and how many words it takes
+const matchDate = (words: string[], index: number, today: Date): { date: Date; length: number } | null => {
+  const word = words[index];
+
+  if (word === 'today') return { date: today, length: 1 };
+  if (word === 'yesterday' || word === 'yday') return { date: addDays(today, -1), length: 1 };
+  if (word === 'day' && words[index + 1] === 'before' && words[index + 2] === 'yesterday') {
+    return { date: addDays(today, -2), length: 3 };
+  }
+
+  // "3 days ago"
+  if (/^\d+$/.test(word) && ['day', 'days'].includes(words[index + 1]) && words[index + 2] === 'ago') {
+    return { date: addDays(today, -parseInt(word, 10)), length: 3 };
+  }
+
+  // "monday" or "last monday" - the latest one, a week back if it's today and "last" was said
+  const isLast = word === 'last';
+  const weekday = isLast
+    ? findWeekday(words[index + 1] || '', true)
+    : findWeekday(word, words[index - 1] === 'on');
+  if (weekday !== -1) {
+    const diff = (today.getDay() - weekday + 7) % 7 || (isLast ? 7 : 0);
+    return { date: addDays(today, -diff), length: isLast ? 2 : 1 };
+  }
+
+  // "3 Oct", "3rd October 2026"
+  const day = parseDay(word);
+  const followingMonth = findName(MONTHS, words[index + 1] || '');
+  if (day !== null && followingMonth !== -1) {
+    const year = parseYear(words[index + 2], today);
+    const date = buildDate(day, followingMonth, year, today);
+    if (date) return { date, length: year === null ? 2 : 3 };
+  }
+
+  // "Oct 3", "October 3rd 2026"
+  const month = findName(MONTHS, word);
+  const followingDay = parseDay(words[index + 1]);
+  if (month !== -1 && followingDay !== null) {
+    const year = parseYear(words[index + 2], today);
+    const date = buildDate(followingDay, month, year, today);
+    if (date) return { date, length: year === null ? 2 : 3 };
+  }
+
+  // "2026-10-03"
+  const iso = word.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const date = buildDate(parseInt(iso[3], 10), parseInt(iso[2], 10) - 1, parseInt(iso[1], 10), today);
+    if (date) return { date, length: 1 };
+  }
+
+  // "3/10", "03-10-2026" - day first
+  const numeric = word.match(/^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?$/);
+  if (numeric) {
+    const year = numeric[3] ? parseInt(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3], 10) : null;
+    const date = buildDate(parseInt(numeric[1], 10), parseInt(numeric[2], 10) - 1, year, today);
+    if (date) return { date, length: 1 };
+  }
+
+  return null;
+};
+
+const sameWord = (typed: string, name: string): boolean => {
+  return typed === name || typed === `${name}s` || `${typed}s` === name;
+};
+
+// Parse free text against the user's active categories (with their subcategories)
+export const parseQuickEntry = (text: string, categories: QuickEntryCategory[], today: Date = new Date()): QuickEntry => {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const words = tokens.map(normalize);
+  const used = tokens.map(() => false);
+  const take = (index: number, length: number = 1): void => {
+    for (let i = index; i < index + length; i++) used[i] = true;
+  };
+  const result: QuickEntry = { description: '' };
+
+  // Dates first, so the day in "3 Oct" isn't taken for the amount
+  for (let i = 0; i < words.length && !result.date; i++) {
+    const match = matchDate(words, i, today);
+    if (match) {
+      result.date = toDateString(match.date);
+      take(i, match.length);
+    }
+  }
+
+  // The amount is the number with a currency ("rs 250", "₹250") or a k/l suffix, otherwise the largest
+  // number left - "lunch with 3 friends 600" is 600
+  const amounts = words
+    .map((word, i) => ({ index: i, amount: used[i] ? null : parseAmount(word) }))
+    .filter((item): item is { index: number; amount: number } => item.amount !== null)
+    .map(item => ({
+      ...item,
+      marked: isMarkedAmount(words[item.index]) || (item.index > 0 && CURRENCY_WORDS.includes(words[item.index - 1]))
+    }));
+  const picked = amounts.find(item => item.marked)
+    || amounts.reduce<typeof amounts[number] | undefined>((largest, item) => (
+      !largest || item.amount >= largest.amount ? item : largest
+    ), undefined);
+  if (picked) {
+    result.amount = picked.amount;
+    take(picked.index);
+    if (picked.index > 0 && CURRENCY_WORDS.includes(words[picked.index - 1])) take(picked.index - 1);
+  }
+
+  for (let i = 0; i < words.length && !result.paymentMethod; i++) {
+    if (!used[i] && PAYMENT_WORDS[words[i]]) {
+      result.paymentMethod = PAYMENT_WORDS[words[i]];
+      take(i);
+    }
+  }
+
+  // A category or subcategory named outright - longest names first, e.g. "Eating Out" before "Eating"
+  const candidates = categories
+    .flatMap(cat => [
+      ...cat.subcategories.map(sub => ({ category: cat.name, subcategory: sub as string | null, name: sub })),
+      { category: cat.name, subcategory: null, name: cat.name }
+    ])
+    .map(candidate => ({ ...candidate, words: candidate.name.split(/\s+/).map(normalize).filter(Boolean) }))
+    .filter(candidate => candidate.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  for (let i = 0; i < words.length && !result.category; i++) {
+    const match = candidates.find(candidate => candidate.words.every((name, offset) => (
+      !used[i + offset] && sameWord(words[i + offset] || '', name)
+    )));
+    if (match) {
+      result.category = match.category;
+      result.subcategory = match.subcategory;
+      take(i, match.words.length);
+    }
+  }
+
+  // Otherwise guess from everyday words, which stay in the description
+  for (let i = 0; i < words.length && !result.category; i++) {
+    if (used[i]) continue;
+    const guess = Object.keys(CATEGORY_KEYWORDS).find(name => CATEGORY_KEYWORDS[name].includes(words[i]));
+    const category = categories.find(cat => cat.name.toLowerCase() === guess?.toLowerCase());
+    if (category) {
+      result.category = category.name;
+      result.subcategory = null;
+      result.categoryGuessed = true;
+    }
+  }
+
+  // Right to left, so "paid on 3 Oct" drops both words
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (used[i]) continue;
+    if (LEADING_WORDS.includes(words[i]) && used[i + 1]) take(i);
+    if (TRAILING_WORDS.includes(words[i]) && i > 0 && used[i - 1]) take(i);
+  }
+
+  result.description = tokens.filter((_, i) => !used[i]).join(' ');
+  return result;
+};
@@ -0,0 +1,70 @@
+// Auto-categorization rules - the same matching as the backend (utils/rules.js), to prefill the add form
+import { Rule } from '../types';
+
+export type RuleField = 'category' | 'paymentMethod' | 'tags';
+
+export interface RuleSubject {
+  description?: string;
+  merchantName?: string;
+  amount?: number;
+}
+
+export interface RuleValues {
+  category?: string;
+  subcategory?: string | null;
+  paymentMethod?: Rule['paymentMethod'];
+  tags?: string[];
+}
+
+// Whether a description or merchant name matches a rule's pattern (case-insensitive)
+export const matchesPattern = (rule: Rule, value?: string | null): boolean => {
+  const text = (value || '').trim().toLowerCase();
+  const pattern = rule.pattern.toLowerCase();
+  if (!text) return false;
+
+  if (rule.operator === 'equals') return text === pattern;
+  if (rule.operator === 'startsWith') return text.startsWith(pattern);
+  return text.includes(pattern);
+};
+
+export const matchesRule = (rule: Rule, { description, merchantName, amount }: RuleSubject): boolean => {
+  if (!matchesPattern(rule, rule.field === 'merchant' ? merchantName : description)) return false;
+
+  // Amount limits only apply once there is an amount
+  if (amount == null) return true;
+  if (rule.minAmount != null && amount < rule.minAmount) return false;
+  if (rule.maxAmount != null && amount > rule.maxAmount) return false;
+  return true;
+};
+
+// Values the enabled rules give each of `fields`, in priority order - the first rule that sets a field wins it
+export const applyRules = (rules: Rule[], subject: RuleSubject, fields: RuleField[]): RuleValues => {
+  const result: RuleValues = {};
+  rules
+    .filter(rule => rule.enabled && matchesRule(rule, subject))
+    .forEach(rule => {
+      if (fields.includes('category') && !result.category && rule.category) {
+        result.category = rule.category;
+        result.subcategory = rule.subcategory || null;
+      }
+      if (fields.includes('paymentMethod') && !result.paymentMethod && rule.paymentMethod) {
+        result.paymentMethod = rule.paymentMethod;
+      }
+      if (fields.includes('tags') && !result.tags && rule.tags.length > 0) {
+        result.tags = [...rule.tags];
+      }
+    });
+  return result;
+};
+
+// One-line summary of a rule, e.g. 'Description contains "uber" → Transport · UPI'
+export const describeRule = (rule: Pick<Rule, 'field' | 'operator' | 'pattern' | 'category' | 'subcategory' | 'paymentMethod' | 'tags'>): string => {
+  const operator = rule.operator === 'startsWith' ? 'starts with' : rule.operator;
+  const field = rule.field === 'merchant' ? 'Merchant' : 'Description';
+  const actions = [
+    [rule.category, rule.subcategory].filter(Boolean).join(' / '),
+    rule.paymentMethod,
+    rule.tags.map(tag => `#${tag}`).join(' ')
+  ].filter(Boolean).join(' · ');
+  return `${field} ${operator} "${rule.pattern}" → ${actions}`;
+};
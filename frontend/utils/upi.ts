@@ -0,0 +1,55 @@
+// UPI payment links - the upi://pay?pa=...&pn=...&am=...&tn=... text inside a merchant's UPI QR, or a link
+// opened with the app (also as pocketexpense://pay?..., the app's own scheme)
+// Plain functions with no React or network use, so a pasted QR text is read offline too
+
+export interface UpiPayment {
+  vpa: string; // Payee UPI ID (`pa`), lowercase, e.g. swiggy@icici
+  payeeName?: string; // `pn`, e.g. "Swiggy"
+  amount?: number; // `am` - left out of QRs where the payer types the amount
+  currency?: string; // `cu`, INR when set
+  note?: string; // Transaction note (`tn`), e.g. "Order 1234"
+}
+
+const UPI_LINK = /^(?:upi|pocketexpense):\/\/pay\/?\?(.*)$/i;
+const VPA = /^[\w.\-]+@[\w.\-]+$/;
+
+// Query string values, with "+" as a space; a badly escaped value is kept as it is
+const readQuery = (query: string): Record<string, string> => {
+  return query.split('&').reduce<Record<string, string>>((params, pair) => {
+    const [rawKey, ...rest] = pair.split('=');
+    const decode = (text: string): string => {
+      const spaced = text.replace(/\+/g, ' ');
+      try {
+        return decodeURIComponent(spaced);
+      } catch {
+        return spaced;
+      }
+    };
+    const key = decode(rawKey).trim().toLowerCase();
+    if (key) {
+      params[key] = decode(rest.join('=')).trim();
+    }
+    return params;
+  }, {});
+};
+
+// Read a UPI payment link (surrounding text and whitespace are ignored). Null when it isn't one or has no
+// valid payee UPI ID
+export const parseUpiUri = (text: string): UpiPayment | null => {
+  const link = String(text || '').match(/(?:upi|pocketexpense):\/\/pay\S*/i);
+  const query = link ? link[0].match(UPI_LINK) : null;
+  if (!query) return null;
+
+  const params = readQuery(query[1]);
+  const vpa = (params.pa || '').toLowerCase();
+  if (!VPA.test(vpa)) return null;
+
+  const amount = parseFloat(params.am);
+  return {
+    vpa,
+    payeeName: params.pn || undefined,
+    amount: amount > 0 ? amount : undefined,
+    currency: params.cu ? params.cu.toUpperCase() : undefined,
+    note: params.tn || undefined
+  };
+};